@@ -0,0 +1,18 @@
+-- Full-text search index over entry content (FTS5, external content table)
+CREATE VIRTUAL TABLE IF NOT EXISTS `entries_fts` USING fts5(content, content='entries', content_rowid='rowid');
+--> statement-breakpoint
+CREATE TRIGGER IF NOT EXISTS `entries_fts_ai` AFTER INSERT ON `entries` BEGIN
+	INSERT INTO `entries_fts`(rowid, content) VALUES (new.rowid, new.content);
+END;
+--> statement-breakpoint
+CREATE TRIGGER IF NOT EXISTS `entries_fts_ad` AFTER DELETE ON `entries` BEGIN
+	INSERT INTO `entries_fts`(`entries_fts`, rowid, content) VALUES ('delete', old.rowid, old.content);
+END;
+--> statement-breakpoint
+CREATE TRIGGER IF NOT EXISTS `entries_fts_au` AFTER UPDATE OF `content` ON `entries` BEGIN
+	INSERT INTO `entries_fts`(`entries_fts`, rowid, content) VALUES ('delete', old.rowid, old.content);
+	INSERT INTO `entries_fts`(rowid, content) VALUES (new.rowid, new.content);
+END;
+--> statement-breakpoint
+-- Index entries that existed before this migration
+INSERT INTO `entries_fts`(`entries_fts`) VALUES ('rebuild');
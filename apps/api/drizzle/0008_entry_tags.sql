@@ -0,0 +1,12 @@
+-- Tags parsed from #hashtags in entry content
+CREATE TABLE IF NOT EXISTS `entry_tags` (
+	`id` text PRIMARY KEY NOT NULL,
+	`entry_id` text NOT NULL,
+	`tag` text NOT NULL,
+	`user_id` text,
+	`created_at` text NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS `entry_tags_entry_tag_idx` ON `entry_tags` (`entry_id`,`tag`);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS `entry_tags_user_tag_idx` ON `entry_tags` (`user_id`,`tag`);
@@ -0,0 +1,19 @@
+-- Revision history for entries (one row per upsert, soft delete or restore)
+CREATE TABLE IF NOT EXISTS `entry_revisions` (
+	`id` text PRIMARY KEY NOT NULL,
+	`entry_id` text NOT NULL,
+	`date` text NOT NULL,
+	`content` text NOT NULL,
+	`action` text NOT NULL,
+	`user_id` text,
+	`created_at` text NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS `entry_revisions_date_user_idx` ON `entry_revisions` (`date`,`user_id`);
+--> statement-breakpoint
+-- Seed history with the current content of existing entries
+INSERT INTO `entry_revisions` (`id`, `entry_id`, `date`, `content`, `action`, `user_id`, `created_at`)
+SELECT lower(hex(randomblob(11))), `id`, `date`, `content`,
+	CASE WHEN `deleted_at` IS NULL THEN 'create' ELSE 'delete' END,
+	`user_id`, `updated_at`
+FROM `entries`;
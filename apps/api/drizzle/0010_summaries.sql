@@ -0,0 +1,15 @@
+-- Generated AI summaries, keyed by period, backend and prompt hash
+CREATE TABLE IF NOT EXISTS `summaries` (
+	`id` text PRIMARY KEY NOT NULL,
+	`period_type` text NOT NULL,
+	`period_start` text NOT NULL,
+	`backend` text NOT NULL,
+	`prompt_hash` text NOT NULL,
+	`content` text NOT NULL,
+	`generated_at` text NOT NULL,
+	`user_id` text,
+	`created_at` text NOT NULL,
+	`updated_at` text NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS `summaries_period_user_idx` ON `summaries` (`period_type`,`period_start`,`user_id`);
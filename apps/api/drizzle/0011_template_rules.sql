@@ -0,0 +1,6 @@
+-- Replace the single default template with per-template assignment rules
+ALTER TABLE `templates` ADD `rules` text DEFAULT '[]' NOT NULL;
+--> statement-breakpoint
+UPDATE `templates` SET `rules` = '[{"type":"always"}]' WHERE `is_default` = 1;
+--> statement-breakpoint
+ALTER TABLE `templates` DROP COLUMN `is_default`;
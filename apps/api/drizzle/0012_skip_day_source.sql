@@ -0,0 +1,2 @@
+-- Skip days imported from a calendar (ICS) are tagged with its name
+ALTER TABLE `skip_days` ADD `source` text;
@@ -0,0 +1,16 @@
+-- Log of webhook send attempts, and a failure streak for auto-disabling
+CREATE TABLE IF NOT EXISTS `webhook_deliveries` (
+	`id` text PRIMARY KEY NOT NULL,
+	`webhook_id` text NOT NULL,
+	`trigger` text NOT NULL,
+	`attempt` integer NOT NULL,
+	`success` integer NOT NULL,
+	`status_code` integer,
+	`latency_ms` integer NOT NULL,
+	`response` text NOT NULL,
+	`created_at` text NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS `webhook_deliveries_webhook_idx` ON `webhook_deliveries` (`webhook_id`,`created_at`);
+--> statement-breakpoint
+ALTER TABLE `webhooks` ADD `consecutive_failures` integer DEFAULT 0 NOT NULL;
@@ -0,0 +1,4 @@
+-- Conditions checked before a scheduled reminder is sent
+ALTER TABLE `webhooks` ADD `only_if_no_entry` integer DEFAULT 0 NOT NULL;
+--> statement-breakpoint
+ALTER TABLE `webhooks` ADD `respect_skip_days` integer DEFAULT 0 NOT NULL;
@@ -0,0 +1,2 @@
+-- Payload format per webhook ("auto" detects it from the URL)
+ALTER TABLE `webhooks` ADD `format` text DEFAULT 'auto' NOT NULL;
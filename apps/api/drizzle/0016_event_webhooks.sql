@@ -0,0 +1,10 @@
+-- Event webhooks (sent when entries change), and a signing secret for every webhook
+ALTER TABLE `webhooks` ADD `type` text DEFAULT 'reminder' NOT NULL;
+--> statement-breakpoint
+ALTER TABLE `webhooks` ADD `events` text DEFAULT '[]' NOT NULL;
+--> statement-breakpoint
+ALTER TABLE `webhooks` ADD `include_content` integer DEFAULT 0 NOT NULL;
+--> statement-breakpoint
+ALTER TABLE `webhooks` ADD `secret` text;
+--> statement-breakpoint
+UPDATE `webhooks` SET `secret` = lower(hex(randomblob(32))) WHERE `secret` IS NULL;
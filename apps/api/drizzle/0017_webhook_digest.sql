@@ -0,0 +1,2 @@
+-- Digest webhooks: which week a scheduled digest covers
+ALTER TABLE `webhooks` ADD `digest_week` text DEFAULT 'previous' NOT NULL;
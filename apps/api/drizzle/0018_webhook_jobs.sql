@@ -0,0 +1,9 @@
+-- Persisted webhook schedule, claimed with leases by the API instances
+CREATE TABLE IF NOT EXISTS `webhook_jobs` (
+	`webhook_id` text PRIMARY KEY NOT NULL,
+	`next_run_at` text NOT NULL,
+	`locked_by` text,
+	`locked_until` text
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS `webhook_jobs_next_run_idx` ON `webhook_jobs` (`next_run_at`);
@@ -0,0 +1,5 @@
+-- One-off data backfills that have completed, so they don't run again on startup
+CREATE TABLE IF NOT EXISTS `backfills` (
+	`name` text PRIMARY KEY NOT NULL,
+	`completed_at` text NOT NULL
+);
@@ -0,0 +1,6 @@
+-- Pending webhook retries, kept with the failed delivery so they survive a restart
+ALTER TABLE `webhook_deliveries` ADD `notification` text;
+--> statement-breakpoint
+ALTER TABLE `webhook_deliveries` ADD `retry_at` text;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS `webhook_deliveries_retry_idx` ON `webhook_deliveries` (`retry_at`);
@@ -1,5 +1,6 @@
-import Database from "better-sqlite3";
+import Database, { type RunResult } from "better-sqlite3";
 import { drizzle } from "drizzle-orm/better-sqlite3";
+import type { BaseSQLiteDatabase } from "drizzle-orm/sqlite-core";
 import * as schema from "./schema.js";
 
 const DB_PATH = process.env.DATABASE_PATH || "./data/local.db";
@@ -9,3 +10,6 @@ sqlite.pragma("journal_mode = WAL");
 
 export const db = drizzle(sqlite, { schema });
 export { schema };
+
+// Either `db` or a transaction handle from `db.transaction((tx) => ...)`
+export type DbExecutor = BaseSQLiteDatabase<"sync", RunResult, typeof schema>;
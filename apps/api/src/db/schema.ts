@@ -1,4 +1,4 @@
-import { sqliteTable, text, integer, uniqueIndex } from "drizzle-orm/sqlite-core";
+import { sqliteTable, text, integer, uniqueIndex, index } from "drizzle-orm/sqlite-core";
 
 // Users table for authentication
 export const users = sqliteTable("users", {
@@ -28,15 +28,79 @@ export const entries = sqliteTable("entries", {
   uniqueIndex("entries_date_user_idx").on(table.date, table.userId),
 ]);
 
+// Full-text search: `entries_fts` is an FTS5 virtual table over entries.content,
+// kept in sync by triggers (see drizzle/0007_entries_fts.sql). Drizzle can't model
+// virtual tables, so it is queried with raw SQL in routes/entries.ts.
+
 export type EntryRow = typeof entries.$inferSelect;
 export type InsertEntryRow = typeof entries.$inferInsert;
 
-// Skip days configuration - stores both recurring weekdays and specific dates
+// Snapshot of entry content written on every upsert, soft delete and restore
+export const entryRevisions = sqliteTable("entry_revisions", {
+  id: text("id").primaryKey(),
+  entryId: text("entry_id").notNull(),
+  date: text("date").notNull(), // YYYY-MM-DD, survives the entry being recreated
+  content: text("content").notNull(),
+  action: text("action").notNull(), // "create" | "update" | "delete" | "restore"
+  userId: text("user_id"), // nullable for anonymous users
+  createdAt: text("created_at")
+    .notNull()
+    .$defaultFn(() => new Date().toISOString()),
+}, (table) => [
+  index("entry_revisions_date_user_idx").on(table.date, table.userId),
+]);
+
+export type EntryRevisionRow = typeof entryRevisions.$inferSelect;
+export type InsertEntryRevisionRow = typeof entryRevisions.$inferInsert;
+
+// Tags parsed from #hashtags in entry content (rebuilt whenever the entry is written)
+export const entryTags = sqliteTable("entry_tags", {
+  id: text("id").primaryKey(),
+  entryId: text("entry_id").notNull(),
+  tag: text("tag").notNull(), // lowercase, without the leading "#"
+  userId: text("user_id"), // nullable for anonymous users
+  createdAt: text("created_at")
+    .notNull()
+    .$defaultFn(() => new Date().toISOString()),
+}, (table) => [
+  uniqueIndex("entry_tags_entry_tag_idx").on(table.entryId, table.tag),
+  index("entry_tags_user_tag_idx").on(table.userId, table.tag),
+]);
+
+export type EntryTagRow = typeof entryTags.$inferSelect;
+export type InsertEntryTagRow = typeof entryTags.$inferInsert;
+
+// Generated AI summaries, one per (period, backend, prompt) so switching
+// backends or editing the prompt doesn't overwrite an existing summary
+export const summaries = sqliteTable("summaries", {
+  id: text("id").primaryKey(),
+  periodType: text("period_type").notNull(), // "week" | "month" | "year"
+  periodStart: text("period_start").notNull(), // YYYY-MM-DD, first day of the period
+  backend: text("backend").notNull(), // AI backend that generated the summary
+  promptHash: text("prompt_hash").notNull(), // hash of the prompt used
+  content: text("content").notNull(),
+  generatedAt: text("generated_at").notNull(), // compared to entries.updated_at for staleness
+  userId: text("user_id"), // nullable for anonymous users
+  createdAt: text("created_at")
+    .notNull()
+    .$defaultFn(() => new Date().toISOString()),
+  updatedAt: text("updated_at")
+    .notNull()
+    .$defaultFn(() => new Date().toISOString()),
+}, (table) => [
+  index("summaries_period_user_idx").on(table.periodType, table.periodStart, table.userId),
+]);
+
+export type SummaryRow = typeof summaries.$inferSelect;
+export type InsertSummaryRow = typeof summaries.$inferInsert;
+
+// Skip days configuration - recurring weekdays, specific dates, date ranges and recurrence rules
 export const skipDays = sqliteTable("skip_days", {
   id: text("id").primaryKey(),
-  type: text("type").notNull(), // "weekday" | "specific_date"
-  value: text("value").notNull(), // weekday: "0"-"6" (Sun-Sat), specific: "YYYY-MM-DD"
+  type: text("type").notNull(), // "weekday" | "specific_date" | "date_range" | "rrule"
+  value: text("value").notNull(), // weekday: "0"-"6" (Sun-Sat), specific: "YYYY-MM-DD", range: "YYYY-MM-DD/YYYY-MM-DD", rrule: "FREQ=...;..."
   userId: text("user_id"), // nullable for backward compatibility
+  source: text("source"), // imported calendar name; null for skip days added by hand
   createdAt: text("created_at")
     .notNull()
     .$defaultFn(() => new Date().toISOString()),
@@ -50,7 +114,7 @@ export const templates = sqliteTable("templates", {
   id: text("id").primaryKey(),
   name: text("name").notNull(),
   content: text("content").notNull(),
-  isDefault: integer("is_default", { mode: "boolean" }).notNull().default(false),
+  rules: text("rules").notNull().default("[]"), // JSON array of TemplateRule: which days it applies to
   userId: text("user_id"), // nullable for backward compatibility
   createdAt: text("created_at")
     .notNull()
@@ -68,11 +132,20 @@ export const webhooks = sqliteTable("webhooks", {
   id: text("id").primaryKey(),
   name: text("name").notNull(), // "Slack Morning", "Discord EOD"
   url: text("url").notNull(), // Webhook URL
+  type: text("type").notNull().default("reminder"), // "reminder" | "event" | "digest"
   message: text("message").notNull().default("⏰ Time to write your TIL!"), // Custom message
   time: text("time").notNull(), // "07:00" (HH:MM format)
   days: text("days").notNull(), // JSON array: ["mon","tue","wed","thu","fri"]
   timezone: text("timezone").notNull().default("UTC"),
   enabled: integer("enabled", { mode: "boolean" }).notNull().default(true),
+  format: text("format").notNull().default("auto"), // WebhookFormat
+  consecutiveFailures: integer("consecutive_failures").notNull().default(0), // scheduled sends failed in a row
+  onlyIfNoEntry: integer("only_if_no_entry", { mode: "boolean" }).notNull().default(false), // skip if today's entry exists
+  respectSkipDays: integer("respect_skip_days", { mode: "boolean" }).notNull().default(false), // skip on the owner's skip days
+  events: text("events").notNull().default("[]"), // JSON array of WebhookEvent (event webhooks)
+  includeContent: integer("include_content", { mode: "boolean" }).notNull().default(false), // full content in event and digest payloads
+  digestWeek: text("digest_week").notNull().default("previous"), // WebhookDigestWeek (digest webhooks)
+  secret: text("secret").notNull(), // HMAC-SHA256 signing key; never synced to clients
   userId: text("user_id"), // nullable for backward compatibility
   createdAt: text("created_at")
     .notNull()
@@ -85,6 +158,52 @@ export const webhooks = sqliteTable("webhooks", {
 export type WebhookRow = typeof webhooks.$inferSelect;
 export type InsertWebhookRow = typeof webhooks.$inferInsert;
 
+// Webhook send attempts (each retry is its own row), pruned to the latest per webhook.
+// Owned through the webhook, so there's no user_id.
+export const webhookDeliveries = sqliteTable("webhook_deliveries", {
+  id: text("id").primaryKey(),
+  webhookId: text("webhook_id").notNull(),
+  trigger: text("trigger").notNull(), // "schedule" | "test" | "event"
+  attempt: integer("attempt").notNull(), // 1 for the first try
+  success: integer("success", { mode: "boolean" }).notNull(),
+  statusCode: integer("status_code"), // null when there was no response
+  latencyMs: integer("latency_ms").notNull(),
+  response: text("response").notNull(), // response body snippet or error message
+  // A failed attempt to be retried: the notification (JSON) and when to send it again
+  notification: text("notification"),
+  retryAt: text("retry_at"),
+  createdAt: text("created_at")
+    .notNull()
+    .$defaultFn(() => new Date().toISOString()),
+}, (table) => [
+  index("webhook_deliveries_webhook_idx").on(table.webhookId, table.createdAt),
+  index("webhook_deliveries_retry_idx").on(table.retryAt),
+]);
+
+export type WebhookDeliveryRow = typeof webhookDeliveries.$inferSelect;
+export type InsertWebhookDeliveryRow = typeof webhookDeliveries.$inferInsert;
+
+// Next run of each enabled scheduled (reminder or digest) webhook. API instances claim
+// due jobs by taking a lease, so each run is sent by one instance only.
+export const webhookJobs = sqliteTable("webhook_jobs", {
+  webhookId: text("webhook_id").primaryKey(),
+  nextRunAt: text("next_run_at").notNull(), // ISO timestamp (UTC)
+  lockedBy: text("locked_by"), // instance holding the lease
+  lockedUntil: text("locked_until"), // lease expiry; the job can be claimed again after it
+}, (table) => [
+  index("webhook_jobs_next_run_idx").on(table.nextRunAt),
+]);
+
+export type WebhookJobRow = typeof webhookJobs.$inferSelect;
+
+// One-off data backfills that have completed (e.g. "entry_tags"), so startup skips them
+export const backfills = sqliteTable("backfills", {
+  name: text("name").primaryKey(),
+  completedAt: text("completed_at")
+    .notNull()
+    .$defaultFn(() => new Date().toISOString()),
+});
+
 // User preferences (AI config, theme, etc.) - stored as JSON
 export const userPreferences = sqliteTable("user_preferences", {
   id: text("id").primaryKey(),
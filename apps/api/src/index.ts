@@ -4,8 +4,8 @@ import { trpcServer } from "@hono/trpc-server";
 import { Hono } from "hono";
 import { cors } from "hono/cors";
 import { appRouter } from "./routes/index.js";
-import { db, schema } from "./db/index.js";
-import { scheduleAllWebhooks } from "./lib/webhook-scheduler.js";
+import { startWebhookScheduler } from "./lib/webhook-scheduler.js";
+import { backfillEntryTags } from "./lib/tags.js";
 import {
   getOrCreateUser,
   createSessionToken,
@@ -14,25 +14,13 @@ import {
   getUserFromContext,
 } from "./lib/auth.js";
 import type { Context } from "./routes/trpc.js";
-import type { DayOfWeek } from "@til-stack/shared";
 
 const app = new Hono();
 
 // Initialize webhook scheduler on startup
-async function initWebhooks() {
+function initWebhooks() {
   try {
-    const rows = await db.select().from(schema.webhooks).all();
-    const webhooks = rows.map((row) => ({
-      id: row.id,
-      name: row.name,
-      url: row.url,
-      message: row.message,
-      time: row.time,
-      days: JSON.parse(row.days) as DayOfWeek[],
-      timezone: row.timezone,
-      enabled: row.enabled,
-    }));
-    scheduleAllWebhooks(webhooks);
+    startWebhookScheduler();
   } catch (error) {
     console.error("[Webhook] Failed to initialize:", error);
   }
@@ -40,6 +28,10 @@ async function initWebhooks() {
 
 initWebhooks();
 
+backfillEntryTags().catch((error) => {
+  console.error("[Tags] Failed to backfill entry tags:", error);
+});
+
 // CORS configuration from environment
 const corsOrigin = process.env.CORS_ORIGIN || "http://localhost:3000";
 app.use(
@@ -2,7 +2,7 @@ import * as jose from "jose";
 import type { Context } from "hono";
 import { getCookie, setCookie, deleteCookie } from "hono/cookie";
 import { db, schema } from "../db/index.js";
-import { eq } from "drizzle-orm";
+import { eq, inArray } from "drizzle-orm";
 import { nanoid } from "nanoid";
 
 // Environment variables
@@ -194,9 +194,21 @@ export async function getUserFromContext(c: Context): Promise<User | null> {
 export async function deleteUserAndData(userId: string): Promise<void> {
   // Delete all user data
   await db.delete(schema.entries).where(eq(schema.entries.userId, userId));
+  await db.delete(schema.entryTags).where(eq(schema.entryTags.userId, userId));
+  await db.delete(schema.entryRevisions).where(eq(schema.entryRevisions.userId, userId));
   await db.delete(schema.skipDays).where(eq(schema.skipDays.userId, userId));
   await db.delete(schema.templates).where(eq(schema.templates.userId, userId));
+  const webhookIds = db
+    .select({ id: schema.webhooks.id })
+    .from(schema.webhooks)
+    .where(eq(schema.webhooks.userId, userId))
+    .all()
+    .map((row) => row.id);
+  // Deliveries (response snippets) and scheduled jobs are owned through the webhook
+  await db.delete(schema.webhookDeliveries).where(inArray(schema.webhookDeliveries.webhookId, webhookIds));
+  await db.delete(schema.webhookJobs).where(inArray(schema.webhookJobs.webhookId, webhookIds));
   await db.delete(schema.webhooks).where(eq(schema.webhooks.userId, userId));
+  await db.delete(schema.summaries).where(eq(schema.summaries.userId, userId));
 
   // Delete user
   await db.delete(schema.users).where(eq(schema.users.id, userId));
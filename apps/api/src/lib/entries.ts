@@ -0,0 +1,161 @@
+import { and, desc, eq, gte, isNull, lte } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import type { WebhookEvent } from "@til-stack/shared";
+import { schema, type DbExecutor } from "../db/index.js";
+import { syncEntryTags } from "./tags.js";
+import { recordRevision } from "./revisions.js";
+
+// Helper to create user filter condition (handles null userId for anonymous users)
+function userFilter(userId: string | null) {
+  return userId ? eq(schema.entries.userId, userId) : isNull(schema.entries.userId);
+}
+
+/**
+ * An entry write, collected during a transaction so event webhooks can be
+ * sent once it commits. Matches the revisions recorded for the write.
+ */
+export interface EntryChange {
+  event: WebhookEvent;
+  entry: typeof schema.entries.$inferSelect;
+}
+
+/**
+ * Thrown when an edit was based on a version of the entry that is no longer current
+ */
+export class EntryConflictError extends Error {
+  constructor(public readonly current: typeof schema.entries.$inferSelect) {
+    super("Entry was changed on another device");
+  }
+}
+
+/**
+ * The live entries for the week starting on `weekStart` (a Monday), newest first
+ */
+export function getWeeklySummary(executor: DbExecutor, userId: string | null, weekStart: string) {
+  const weekEnd = new Date(weekStart);
+  weekEnd.setDate(weekEnd.getDate() + 6);
+
+  const weekEndStr = weekEnd.toISOString().split("T")[0];
+
+  const entries = executor
+    .select()
+    .from(schema.entries)
+    .where(
+      and(
+        gte(schema.entries.date, weekStart),
+        lte(schema.entries.date, weekEndStr),
+        userFilter(userId),
+        isNull(schema.entries.deletedAt) // Exclude soft-deleted entries
+      )
+    )
+    .orderBy(desc(schema.entries.date))
+    .all();
+
+  return {
+    weekStart,
+    weekEnd: weekEndStr,
+    entries,
+    totalEntries: entries.length,
+  };
+}
+
+/**
+ * Create or update the entry for a date, keeping tags and revision history in step.
+ * A soft-deleted entry is undeleted. Synchronous so it can run inside
+ * `db.transaction((tx) => ...)`.
+ *
+ * With `baseUpdatedAt`, the write only goes through if the live entry is still at
+ * that version (or already has the same content); otherwise EntryConflictError.
+ * Changes that reach revision history are appended to `changes`.
+ */
+export function writeEntry(
+  executor: DbExecutor,
+  userId: string | null,
+  date: string,
+  content: string,
+  baseUpdatedAt?: string,
+  changes?: EntryChange[]
+) {
+  const existing = executor
+    .select()
+    .from(schema.entries)
+    .where(and(eq(schema.entries.date, date), userFilter(userId)))
+    .get();
+
+  if (
+    existing &&
+    baseUpdatedAt !== undefined &&
+    !existing.deletedAt &&
+    existing.updatedAt !== baseUpdatedAt &&
+    existing.content !== content
+  ) {
+    throw new EntryConflictError(existing);
+  }
+
+  if (existing) {
+    const updated = executor
+      .update(schema.entries)
+      .set({
+        content,
+        updatedAt: new Date().toISOString(),
+        deletedAt: null,
+      })
+      .where(eq(schema.entries.id, existing.id))
+      .returning()
+      .get();
+    syncEntryTags(updated.id, userId, updated.content, executor);
+    // Writing to a soft-deleted entry brings it back, as a new entry
+    if (existing.deletedAt) {
+      recordRevision(updated, "create", executor);
+      changes?.push({ event: "entry.created", entry: updated });
+    } else if (existing.content !== updated.content) {
+      recordRevision(updated, "update", executor);
+      changes?.push({ event: "entry.updated", entry: updated });
+    }
+    return updated;
+  }
+
+  const created = executor
+    .insert(schema.entries)
+    .values({
+      id: nanoid(),
+      date,
+      content,
+      userId,
+    })
+    .returning()
+    .get();
+  syncEntryTags(created.id, userId, created.content, executor);
+  recordRevision(created, "create", executor);
+  changes?.push({ event: "entry.created", entry: created });
+  return created;
+}
+
+/**
+ * Soft delete the entry for a date (sets the deletedAt tombstone for sync).
+ * Returns the tombstoned row, or undefined if there was no entry.
+ */
+export function softDeleteEntry(
+  executor: DbExecutor,
+  userId: string | null,
+  date: string,
+  changes?: EntryChange[]
+) {
+  const now = new Date().toISOString();
+  const deleted = executor
+    .update(schema.entries)
+    .set({
+      deletedAt: now,
+      updatedAt: now,
+    })
+    .where(and(eq(schema.entries.date, date), userFilter(userId)))
+    .returning()
+    .get();
+
+  if (deleted) {
+    syncEntryTags(deleted.id, userId, null, executor);
+    recordRevision(deleted, "delete", executor);
+    changes?.push({ event: "entry.deleted", entry: deleted });
+  }
+  return deleted;
+}
@@ -0,0 +1,24 @@
+import type { RevisionAction } from "@til-stack/shared";
+import { nanoid } from "nanoid";
+import { db, schema, type DbExecutor } from "../db/index.js";
+
+/**
+ * Append a snapshot of the entry's content to its revision history.
+ */
+export function recordRevision(
+  entry: Pick<typeof schema.entries.$inferSelect, "id" | "date" | "content" | "userId">,
+  action: RevisionAction,
+  executor: DbExecutor = db
+): void {
+  executor
+    .insert(schema.entryRevisions)
+    .values({
+      id: nanoid(),
+      entryId: entry.id,
+      date: entry.date,
+      content: entry.content,
+      action,
+      userId: entry.userId,
+    })
+    .run();
+}
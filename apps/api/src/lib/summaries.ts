@@ -0,0 +1,132 @@
+import { and, desc, eq, gt, gte, isNull, lte, or } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import {
+  getSummaryPeriodEnd,
+  type SaveSummaryInput,
+  type SummaryKeyInput,
+  type SummaryPeriodType,
+} from "@til-stack/shared";
+import { schema, type DbExecutor } from "../db/index.js";
+
+type SummaryRow = typeof schema.summaries.$inferSelect;
+
+// Helper to create user filter condition (handles null userId for anonymous users)
+function userFilter(userId: string | null) {
+  return userId ? eq(schema.summaries.userId, userId) : isNull(schema.summaries.userId);
+}
+
+// Helper to create user filter condition for entries
+function entriesUserFilter(userId: string | null) {
+  return userId ? eq(schema.entries.userId, userId) : isNull(schema.entries.userId);
+}
+
+export function findSummary(
+  executor: DbExecutor,
+  userId: string | null,
+  key: SummaryKeyInput
+): SummaryRow | undefined {
+  return executor
+    .select()
+    .from(schema.summaries)
+    .where(
+      and(
+        eq(schema.summaries.periodType, key.periodType),
+        eq(schema.summaries.periodStart, key.periodStart),
+        eq(schema.summaries.backend, key.backend),
+        eq(schema.summaries.promptHash, key.promptHash),
+        userFilter(userId)
+      )
+    )
+    .get();
+}
+
+/**
+ * The most recently generated summary for a period that is still up to date,
+ * whichever backend and prompt produced it
+ */
+export function findLatestSummary(
+  executor: DbExecutor,
+  userId: string | null,
+  periodType: SummaryPeriodType,
+  periodStart: string
+): SummaryRow | undefined {
+  const summaries = executor
+    .select()
+    .from(schema.summaries)
+    .where(
+      and(
+        eq(schema.summaries.periodType, periodType),
+        eq(schema.summaries.periodStart, periodStart),
+        userFilter(userId)
+      )
+    )
+    .orderBy(desc(schema.summaries.generatedAt))
+    .all();
+  return summaries.find((summary) => !isSummaryStale(executor, userId, summary));
+}
+
+/**
+ * Create or replace the summary for a (period, backend, prompt) key.
+ * Synchronous so it can run inside `db.transaction((tx) => ...)`.
+ * An older `generatedAt` never replaces a newer summary.
+ */
+export function writeSummary(
+  executor: DbExecutor,
+  userId: string | null,
+  input: SaveSummaryInput
+): SummaryRow {
+  const now = new Date().toISOString();
+  const generatedAt = input.generatedAt ?? now;
+  const existing = findSummary(executor, userId, input);
+
+  if (existing) {
+    if (existing.generatedAt > generatedAt) {
+      return existing;
+    }
+    return executor
+      .update(schema.summaries)
+      .set({ content: input.content, generatedAt, updatedAt: now })
+      .where(eq(schema.summaries.id, existing.id))
+      .returning()
+      .get();
+  }
+
+  return executor
+    .insert(schema.summaries)
+    .values({
+      id: nanoid(),
+      periodType: input.periodType,
+      periodStart: input.periodStart,
+      backend: input.backend,
+      promptHash: input.promptHash,
+      content: input.content,
+      generatedAt,
+      userId,
+    })
+    .returning()
+    .get();
+}
+
+/**
+ * Whether any entry in the summary's period was written or deleted after it was generated
+ */
+export function isSummaryStale(executor: DbExecutor, userId: string | null, summary: SummaryRow): boolean {
+  const periodEnd = getSummaryPeriodEnd(summary.periodType as SummaryPeriodType, summary.periodStart);
+  const changed = executor
+    .select({ id: schema.entries.id })
+    .from(schema.entries)
+    .where(
+      and(
+        gte(schema.entries.date, summary.periodStart),
+        lte(schema.entries.date, periodEnd),
+        entriesUserFilter(userId),
+        or(
+          gt(schema.entries.updatedAt, summary.generatedAt),
+          gt(schema.entries.deletedAt, summary.generatedAt)
+        )
+      )
+    )
+    .limit(1)
+    .get();
+  return !!changed;
+}
@@ -0,0 +1,61 @@
+import { extractTags } from "@til-stack/shared";
+import { eq, isNull } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import { db, schema, type DbExecutor } from "../db/index.js";
+
+const ENTRY_TAGS_BACKFILL = "entry_tags";
+
+/**
+ * Replace the tag rows for an entry with the tags parsed from its content.
+ * Pass `null` content to clear tags (e.g. when the entry is soft-deleted).
+ * Pass the transaction handle when called as part of a larger write.
+ */
+export function syncEntryTags(
+  entryId: string,
+  userId: string | null,
+  content: string | null,
+  executor: DbExecutor = db
+): void {
+  const tags = content ? extractTags(content) : [];
+
+  executor.delete(schema.entryTags).where(eq(schema.entryTags.entryId, entryId)).run();
+  if (tags.length > 0) {
+    executor
+      .insert(schema.entryTags)
+      .values(tags.map((tag) => ({ id: nanoid(), entryId, tag, userId })))
+      .run();
+  }
+}
+
+/**
+ * Populate entry_tags for entries written before tagging existed.
+ * Recorded in the backfills table once done, so later startups skip it.
+ */
+export async function backfillEntryTags(): Promise<void> {
+  const done = await db
+    .select()
+    .from(schema.backfills)
+    .where(eq(schema.backfills.name, ENTRY_TAGS_BACKFILL))
+    .get();
+  if (done) return;
+
+  const rows = await db
+    .select({
+      id: schema.entries.id,
+      userId: schema.entries.userId,
+      content: schema.entries.content,
+    })
+    .from(schema.entries)
+    .where(isNull(schema.entries.deletedAt))
+    .all();
+
+  db.transaction((tx) => {
+    for (const row of rows) {
+      syncEntryTags(row.id, row.userId, row.content, tx);
+    }
+    tx.insert(schema.backfills).values({ name: ENTRY_TAGS_BACKFILL }).onConflictDoNothing().run();
+  });
+  if (rows.length > 0) {
+    console.log(`[Tags] Backfilled tags for ${rows.length} entries`);
+  }
+}
@@ -0,0 +1,69 @@
+import { buildSkipDaysRules, shouldSkipDate } from "@til-stack/shared";
+import { eq, and, isNull } from "drizzle-orm";
+import { db, schema } from "../db/index.js";
+
+interface WebhookConditions {
+  id: string;
+  timezone: string;
+  onlyIfNoEntry: boolean;
+  respectSkipDays: boolean;
+}
+
+/**
+ * Today's date (YYYY-MM-DD) in the given timezone
+ */
+export function todayInTimezone(timezone: string, now = new Date()): string {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone: timezone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(now);
+}
+
+/**
+ * Why a scheduled reminder shouldn't be sent today, or null if it should.
+ * Conditions are checked against the webhook owner's entries and skip days,
+ * with "today" taken in the webhook's timezone.
+ */
+export function getSkipReason(webhook: WebhookConditions): string | null {
+  if (!webhook.onlyIfNoEntry && !webhook.respectSkipDays) return null;
+
+  const row = db
+    .select({ userId: schema.webhooks.userId })
+    .from(schema.webhooks)
+    .where(eq(schema.webhooks.id, webhook.id))
+    .get();
+  if (!row) return "webhook no longer exists";
+
+  const today = todayInTimezone(webhook.timezone);
+
+  if (webhook.respectSkipDays) {
+    const skipDays = db
+      .select({ type: schema.skipDays.type, value: schema.skipDays.value })
+      .from(schema.skipDays)
+      .where(row.userId ? eq(schema.skipDays.userId, row.userId) : isNull(schema.skipDays.userId))
+      .all();
+    if (shouldSkipDate(today, buildSkipDaysRules(skipDays))) {
+      return `${today} is a skip day`;
+    }
+  }
+
+  if (webhook.onlyIfNoEntry) {
+    const entry = db
+      .select({ id: schema.entries.id })
+      .from(schema.entries)
+      .where(
+        and(
+          eq(schema.entries.date, today),
+          row.userId ? eq(schema.entries.userId, row.userId) : isNull(schema.entries.userId),
+          isNull(schema.entries.deletedAt)
+        )
+      )
+      .get();
+    if (entry) return `entry for ${today} already written`;
+  }
+
+  return null;
+}
@@ -0,0 +1,120 @@
+import { WEBHOOK_MAX_CONSECUTIVE_FAILURES, type WebhookDelivery } from "@til-stack/shared";
+import { eq, desc, and, isNull, lte, notInArray, sql } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import { db, schema } from "../db/index.js";
+
+// Deliveries kept per webhook; older ones are pruned as new ones are recorded
+const MAX_DELIVERIES_PER_WEBHOOK = 50;
+
+function toDelivery(row: typeof schema.webhookDeliveries.$inferSelect): WebhookDelivery {
+  return {
+    id: row.id,
+    webhookId: row.webhookId,
+    trigger: row.trigger as WebhookDelivery["trigger"],
+    attempt: row.attempt,
+    success: row.success,
+    statusCode: row.statusCode,
+    latencyMs: row.latencyMs,
+    response: row.response,
+    createdAt: row.createdAt,
+  };
+}
+
+/**
+ * Record one send attempt and prune the webhook's oldest deliveries (except
+ * those with a retry pending)
+ */
+export function recordDelivery(delivery: Omit<typeof schema.webhookDeliveries.$inferInsert, "id" | "createdAt">): void {
+  db.insert(schema.webhookDeliveries)
+    .values({ id: nanoid(), ...delivery, createdAt: new Date().toISOString() })
+    .run();
+
+  const latest = db
+    .select({ id: schema.webhookDeliveries.id })
+    .from(schema.webhookDeliveries)
+    .where(eq(schema.webhookDeliveries.webhookId, delivery.webhookId))
+    .orderBy(desc(schema.webhookDeliveries.createdAt))
+    .limit(MAX_DELIVERIES_PER_WEBHOOK)
+    .all();
+  db.delete(schema.webhookDeliveries)
+    .where(
+      and(
+        eq(schema.webhookDeliveries.webhookId, delivery.webhookId),
+        notInArray(schema.webhookDeliveries.id, latest.map((row) => row.id)),
+        isNull(schema.webhookDeliveries.retryAt)
+      )
+    )
+    .run();
+}
+
+/**
+ * Lease the failed deliveries whose retry is due by pushing their retryAt back
+ * (if the instance dies, the retry becomes due again). A single UPDATE, so two
+ * instances polling at once can't claim the same retry.
+ */
+export function claimDueRetries(now: Date, leaseMs: number): schema.WebhookDeliveryRow[] {
+  return db
+    .update(schema.webhookDeliveries)
+    .set({ retryAt: new Date(now.getTime() + leaseMs).toISOString() })
+    .where(lte(schema.webhookDeliveries.retryAt, now.toISOString()))
+    .returning()
+    .all();
+}
+
+/**
+ * Clear a delivery's retry once it was sent again (or is no longer wanted)
+ */
+export function completeRetry(deliveryId: string): void {
+  db.update(schema.webhookDeliveries)
+    .set({ notification: null, retryAt: null })
+    .where(eq(schema.webhookDeliveries.id, deliveryId))
+    .run();
+}
+
+/**
+ * A webhook's most recent deliveries, newest first
+ */
+export function listDeliveries(webhookId: string, limit: number): WebhookDelivery[] {
+  return db
+    .select()
+    .from(schema.webhookDeliveries)
+    .where(eq(schema.webhookDeliveries.webhookId, webhookId))
+    .orderBy(desc(schema.webhookDeliveries.createdAt))
+    .limit(limit)
+    .all()
+    .map(toDelivery);
+}
+
+export function deleteDeliveries(webhookId: string): void {
+  db.delete(schema.webhookDeliveries).where(eq(schema.webhookDeliveries.webhookId, webhookId)).run();
+}
+
+/**
+ * Track the outcome of a scheduled or event send (after retries). A success resets
+ * the failure streak; a long enough streak disables the webhook. Returns
+ * whether it was disabled.
+ */
+export function recordSendOutcome(webhookId: string, success: boolean): boolean {
+  if (success) {
+    db.update(schema.webhooks)
+      .set({ consecutiveFailures: 0 })
+      .where(eq(schema.webhooks.id, webhookId))
+      .run();
+    return false;
+  }
+
+  const row = db
+    .update(schema.webhooks)
+    .set({ consecutiveFailures: sql`${schema.webhooks.consecutiveFailures} + 1` })
+    .where(eq(schema.webhooks.id, webhookId))
+    .returning({ consecutiveFailures: schema.webhooks.consecutiveFailures })
+    .get();
+  if (!row || row.consecutiveFailures < WEBHOOK_MAX_CONSECUTIVE_FAILURES) return false;
+
+  // updatedAt changes so clients pick up the disabled state on their next sync
+  db.update(schema.webhooks)
+    .set({ enabled: false, updatedAt: new Date().toISOString() })
+    .where(eq(schema.webhooks.id, webhookId))
+    .run();
+  return true;
+}
@@ -0,0 +1,53 @@
+import { nanoid } from "nanoid";
+import {
+  digestNotification,
+  type WebhookDigestWeek,
+  type WebhookNotification,
+} from "@til-stack/shared";
+import { db } from "../db/index.js";
+import { getWeeklySummary } from "./entries.js";
+import { findLatestSummary } from "./summaries.js";
+import { todayInTimezone } from "./webhook-conditions.js";
+
+interface DigestWebhook {
+  id: string;
+  name: string;
+  timezone: string;
+  includeContent: boolean;
+  digestWeek: WebhookDigestWeek;
+  userId: string | null;
+}
+
+/**
+ * The Monday (YYYY-MM-DD) of the week a digest covers: the week containing
+ * today in the webhook's timezone, or the week before it
+ */
+export function getDigestWeekStart(
+  timezone: string,
+  digestWeek: WebhookDigestWeek,
+  now = new Date()
+): string {
+  const [year, month, day] = todayInTimezone(timezone, now).split("-").map(Number);
+  const today = new Date(Date.UTC(year, month - 1, day));
+  const sinceMonday = (today.getUTCDay() + 6) % 7;
+  const weekStart = new Date(
+    Date.UTC(year, month - 1, day - sinceMonday - (digestWeek === "previous" ? 7 : 0))
+  );
+  return weekStart.toISOString().slice(0, 10);
+}
+
+/**
+ * The owner's entries for the digest week, with the week's stored AI summary
+ * if an up-to-date one exists
+ */
+export function buildDigest(webhook: DigestWebhook, test: boolean): WebhookNotification {
+  const weekStart = getDigestWeekStart(webhook.timezone, webhook.digestWeek);
+  const week = getWeeklySummary(db, webhook.userId, weekStart);
+  const summary = findLatestSummary(db, webhook.userId, "week", weekStart);
+
+  return digestNotification(
+    webhook,
+    { ...week, summary: summary?.content ?? null },
+    { id: nanoid(), test, sentAt: new Date().toISOString() }
+  );
+}
@@ -0,0 +1,144 @@
+import type { DayOfWeek } from "@til-stack/shared";
+import { and, count, eq, isNull, lte, notInArray, or } from "drizzle-orm";
+import { db, schema } from "../db/index.js";
+import { todayInTimezone } from "./webhook-conditions.js";
+
+interface Schedule {
+  time: string; // HH:MM
+  days: DayOfWeek[];
+  timezone: string;
+}
+
+const DAY_INDEX: Record<DayOfWeek, number> = {
+  sun: 0,
+  mon: 1,
+  tue: 2,
+  wed: 3,
+  thu: 4,
+  fri: 5,
+  sat: 6,
+};
+
+/**
+ * How far the timezone's wall clock is ahead of UTC at an instant, in ms
+ */
+function timezoneOffset(timezone: string, instant: number): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+  }).formatToParts(new Date(instant));
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((p) => p.type === type)?.value);
+  const wallClock = Date.UTC(
+    part("year"),
+    part("month") - 1,
+    part("day"),
+    part("hour"),
+    part("minute"),
+    part("second")
+  );
+  return wallClock - (instant - (instant % 1000));
+}
+
+/**
+ * The first time the schedule fires strictly after `after`, or null if it has no days
+ */
+export function nextRunAfter(schedule: Schedule, after: Date): Date | null {
+  const [hour, minute] = schedule.time.split(":").map(Number);
+  const [year, month, day] = todayInTimezone(schedule.timezone, after).split("-").map(Number);
+
+  for (let daysAhead = 0; daysAhead <= 7; daysAhead++) {
+    const date = new Date(Date.UTC(year, month - 1, day + daysAhead));
+    if (!schedule.days.some((d) => DAY_INDEX[d] === date.getUTCDay())) continue;
+
+    const wallClock = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate(), hour, minute);
+    // Correct the offset at the actual instant, in case a DST change falls in between
+    const guess = wallClock - timezoneOffset(schedule.timezone, wallClock);
+    const offset = timezoneOffset(schedule.timezone, guess);
+    let runAt = wallClock - offset;
+    // A time skipped by the clocks going forward runs that much later, like cron
+    if (timezoneOffset(schedule.timezone, runAt) !== offset) runAt = guess;
+    if (runAt > after.getTime()) return new Date(runAt);
+  }
+  return null;
+}
+
+/**
+ * Set a webhook's next run, releasing any lease so an instance still sending
+ * the previous schedule doesn't overwrite it
+ */
+export function upsertJob(webhookId: string, nextRunAt: Date): void {
+  const values = { nextRunAt: nextRunAt.toISOString(), lockedBy: null, lockedUntil: null };
+  db.insert(schema.webhookJobs)
+    .values({ webhookId, ...values })
+    .onConflictDoUpdate({ target: schema.webhookJobs.webhookId, set: values })
+    .run();
+}
+
+export function deleteJob(webhookId: string): void {
+  db.delete(schema.webhookJobs).where(eq(schema.webhookJobs.webhookId, webhookId)).run();
+}
+
+/**
+ * Make the jobs table match the scheduled webhooks on startup. Existing jobs
+ * keep their next run, so runs missed while no instance was up become due.
+ */
+export function syncJobs(jobs: { webhookId: string; nextRunAt: Date }[]): void {
+  db.transaction((tx) => {
+    for (const job of jobs) {
+      tx.insert(schema.webhookJobs)
+        .values({ webhookId: job.webhookId, nextRunAt: job.nextRunAt.toISOString() })
+        .onConflictDoNothing()
+        .run();
+    }
+    tx.delete(schema.webhookJobs)
+      .where(notInArray(schema.webhookJobs.webhookId, jobs.map((job) => job.webhookId)))
+      .run();
+  });
+}
+
+/**
+ * Lease every due job that no other instance holds. A single UPDATE, so two
+ * instances polling at once can't claim the same job.
+ */
+export function claimDueJobs(instanceId: string, now: Date, leaseMs: number): schema.WebhookJobRow[] {
+  const nowIso = now.toISOString();
+  return db
+    .update(schema.webhookJobs)
+    .set({ lockedBy: instanceId, lockedUntil: new Date(now.getTime() + leaseMs).toISOString() })
+    .where(
+      and(
+        lte(schema.webhookJobs.nextRunAt, nowIso),
+        or(isNull(schema.webhookJobs.lockedUntil), lte(schema.webhookJobs.lockedUntil, nowIso))
+      )
+    )
+    .returning()
+    .all();
+}
+
+/**
+ * Move a job this instance holds on to its next run (or drop it) and release
+ * the lease. Does nothing if the lease was lost, e.g. the webhook was edited.
+ */
+export function completeJob(webhookId: string, instanceId: string, nextRunAt: Date | null): void {
+  const leased = and(eq(schema.webhookJobs.webhookId, webhookId), eq(schema.webhookJobs.lockedBy, instanceId));
+  if (!nextRunAt) {
+    db.delete(schema.webhookJobs).where(leased).run();
+    return;
+  }
+  db.update(schema.webhookJobs)
+    .set({ nextRunAt: nextRunAt.toISOString(), lockedBy: null, lockedUntil: null })
+    .where(leased)
+    .run();
+}
+
+export function countJobs(): number {
+  const [{ value }] = db.select({ value: count() }).from(schema.webhookJobs).all();
+  return value;
+}
@@ -1,151 +1,385 @@
 import cron, { type ScheduledTask } from "node-cron";
-import type { DayOfWeek } from "@til-stack/shared";
-
-// Map of webhook ID to scheduled task
-const scheduledJobs = new Map<string, ScheduledTask>();
-
-// Day of week mapping for cron (0 = Sunday)
-const dayToCron: Record<DayOfWeek, number> = {
-  sun: 0,
-  mon: 1,
-  tue: 2,
-  wed: 3,
-  thu: 4,
-  fri: 5,
-  sat: 6,
-};
+import { hostname } from "node:os";
+import { nanoid } from "nanoid";
+import { and, eq, isNull } from "drizzle-orm";
+import {
+  buildWebhookRequest,
+  resolveWebhookFormat,
+  reminderNotification,
+  entryEventNotification,
+  type DayOfWeek,
+  type WebhookDigestWeek,
+  type WebhookEvent,
+  type WebhookFormat,
+  type WebhookNotification,
+  type WebhookType,
+} from "@til-stack/shared";
+import { db, schema } from "../db/index.js";
+import { claimDueRetries, completeRetry, recordDelivery, recordSendOutcome } from "./webhook-deliveries.js";
+import { getSkipReason, todayInTimezone } from "./webhook-conditions.js";
+import { signWebhookRequest } from "./webhook-signature.js";
+import { buildDigest } from "./webhook-digest.js";
+import { toSchedulerConfig } from "./webhooks.js";
+import {
+  nextRunAfter,
+  upsertJob,
+  deleteJob,
+  syncJobs,
+  claimDueJobs,
+  completeJob,
+  countJobs,
+} from "./webhook-jobs.js";
+import type { EntryChange } from "./entries.js";
+
+// Scheduled runs live in the webhook_jobs table; every instance polls it each
+// minute and leases the jobs that are due, so a run is sent once however many
+// instances are up, and runs missed while none was are caught up on restart
+const INSTANCE_ID = `${hostname()}:${process.pid}:${nanoid(6)}`;
+const JOB_LEASE_MS = 2 * 60_000;
+
+// Runs missed by more than this (e.g. the server was down) are skipped
+const CATCH_UP_GRACE_MS = parseInt(process.env.WEBHOOK_CATCH_UP_GRACE_MINUTES || "60", 10) * 60_000;
+
+let pollTask: ScheduledTask | null = null;
+
+// Sends that fail with a network error, 429 or 5xx are retried after 30s, 2m and 8m
+// (on the first poll after), by whichever instance claims the failed delivery
+const MAX_ATTEMPTS = 4;
+const RETRY_BASE_DELAY_MS = 30_000;
+const REQUEST_TIMEOUT_MS = 10_000;
+const RESPONSE_SNIPPET_LENGTH = 500;
 
 interface WebhookConfig {
   id: string;
   name: string;
   url: string;
+  type: WebhookType;
   message: string;
   time: string; // HH:MM
   days: DayOfWeek[];
   timezone: string;
   enabled: boolean;
+  format: WebhookFormat;
+  onlyIfNoEntry: boolean;
+  respectSkipDays: boolean;
+  events: WebhookEvent[];
+  includeContent: boolean;
+  digestWeek: WebhookDigestWeek;
+  userId: string | null;
+  secret: string;
 }
 
+type Trigger = "schedule" | "test" | "event";
+
 /**
- * Build a cron expression from time and days
- * Format: minute hour * * days
+ * The webhook's current config, or null if it was deleted or disabled
  */
-function buildCronExpression(time: string, days: DayOfWeek[]): string {
-  const [hour, minute] = time.split(":");
-  const cronDays = days.map((d) => dayToCron[d]).join(",");
-  return `${parseInt(minute)} ${parseInt(hour)} * * ${cronDays}`;
+function loadWebhook(webhookId: string): WebhookConfig | null {
+  const row = db.select().from(schema.webhooks).where(eq(schema.webhooks.id, webhookId)).get();
+  return row?.enabled ? toSchedulerConfig(row) : null;
+}
+
+interface AttemptResult {
+  success: boolean;
+  retryable: boolean;
+  statusCode: number | null;
+  latencyMs: number;
+  response: string;
 }
 
 /**
- * Send a webhook notification
+ * POST the notification once, in the webhook's payload format and signed
+ * with its secret
  */
-async function sendWebhook(webhook: WebhookConfig): Promise<boolean> {
+async function attemptSend(
+  webhook: WebhookConfig,
+  notification: WebhookNotification
+): Promise<AttemptResult> {
+  const startedAt = Date.now();
   try {
-    const response = await fetch(webhook.url, {
+    const request = buildWebhookRequest(
+      resolveWebhookFormat(webhook.format, webhook.url),
+      webhook.url,
+      { ...notification, sentAt: new Date().toISOString() }
+    );
+    const response = await fetch(request.url, {
       method: "POST",
       headers: {
-        "Content-Type": "application/json",
+        ...request.headers,
+        "X-TIL-Event": notification.event,
+        "X-TIL-Delivery": notification.id,
+        ...signWebhookRequest(webhook.secret, request.body),
       },
-      body: JSON.stringify({
-        // Slack format
-        text: webhook.message,
-        username: "TIL Reminder",
-        // Discord format
-        content: webhook.message,
-      }),
+      body: request.body,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
     });
+    const body = await response.text().catch(() => "");
 
-    if (!response.ok) {
-      console.error(
-        `[Webhook] Failed to send to ${webhook.name}: ${response.status} ${response.statusText}`
-      );
-      return false;
-    }
-
-    console.log(`[Webhook] Successfully sent to ${webhook.name}`);
-    return true;
+    return {
+      success: response.ok,
+      retryable: response.status === 429 || response.status >= 500,
+      statusCode: response.status,
+      latencyMs: Date.now() - startedAt,
+      response: (body || response.statusText).slice(0, RESPONSE_SNIPPET_LENGTH),
+    };
   } catch (error) {
-    console.error(`[Webhook] Error sending to ${webhook.name}:`, error);
-    return false;
+    return {
+      success: false,
+      retryable: true,
+      statusCode: null,
+      latencyMs: Date.now() - startedAt,
+      response: error instanceof Error ? error.message : String(error),
+    };
   }
 }
 
 /**
- * Schedule a webhook job
+ * Send a notification, recording each attempt. Scheduled and event sends
+ * are retried with exponential backoff, and count towards auto-disabling
+ * the webhook once retries run out.
  */
-export function scheduleWebhook(webhook: WebhookConfig): void {
-  // Cancel existing job if any
-  cancelWebhook(webhook.id);
+async function sendWebhook(
+  webhook: WebhookConfig,
+  notification: WebhookNotification,
+  trigger: Trigger,
+  attempt = 1
+): Promise<boolean> {
+  const result = await attemptSend(webhook, notification);
+  // The retry is stored with the delivery, so it survives a restart
+  const retry = trigger !== "test" && !result.success && result.retryable && attempt < MAX_ATTEMPTS;
+  recordDelivery({
+    webhookId: webhook.id,
+    trigger,
+    attempt,
+    success: result.success,
+    statusCode: result.statusCode,
+    latencyMs: result.latencyMs,
+    response: result.response,
+    notification: retry ? JSON.stringify(notification) : null,
+    retryAt: retry ? new Date(Date.now() + RETRY_BASE_DELAY_MS * 4 ** (attempt - 1)).toISOString() : null,
+  });
 
-  if (!webhook.enabled) {
-    console.log(`[Webhook] Skipping disabled webhook: ${webhook.name}`);
-    return;
+  if (result.success) {
+    console.log(`[Webhook] Successfully sent to ${webhook.name}`);
+    if (trigger !== "test") recordSendOutcome(webhook.id, true);
+    return true;
   }
 
-  const cronExpression = buildCronExpression(webhook.time, webhook.days);
-  console.log(
-    `[Webhook] Scheduling ${webhook.name}: ${cronExpression} (${webhook.timezone})`
+  console.error(
+    `[Webhook] Failed to send to ${webhook.name} (attempt ${attempt}): ${result.statusCode ?? "no response"} ${result.response}`
   );
+  if (trigger === "test" || retry) return false;
 
-  const task = cron.schedule(
-    cronExpression,
-    async () => {
-      console.log(`[Webhook] Triggering: ${webhook.name}`);
-      await sendWebhook(webhook);
-    },
-    {
-      timezone: webhook.timezone,
-    }
-  );
+  if (recordSendOutcome(webhook.id, false)) {
+    cancelWebhook(webhook.id);
+    console.error(`[Webhook] Disabled ${webhook.name} after repeated failures`);
+  }
+  return false;
+}
+
+/**
+ * Send a failed delivery again with the webhook's current config, unless it
+ * was disabled or deleted meanwhile, or a reminder's conditions no longer
+ * hold (e.g. the entry got written)
+ */
+async function runRetry(delivery: schema.WebhookDeliveryRow): Promise<void> {
+  completeRetry(delivery.id);
+  const webhook = loadWebhook(delivery.webhookId);
+  if (!webhook || !delivery.notification) return;
+  if (delivery.trigger === "schedule" && webhook.type === "reminder" && getSkipReason(webhook)) return;
+  const notification = JSON.parse(delivery.notification) as WebhookNotification;
+  await sendWebhook(webhook, notification, delivery.trigger as Trigger, delivery.attempt + 1);
+}
 
-  scheduledJobs.set(webhook.id, task);
+function buildReminder(webhook: WebhookConfig, test: boolean): WebhookNotification {
+  return reminderNotification(webhook, {
+    id: nanoid(),
+    date: todayInTimezone(webhook.timezone),
+    test,
+    sentAt: new Date().toISOString(),
+  });
 }
 
 /**
- * Cancel a scheduled webhook job
+ * Send a scheduled webhook's reminder or digest, unless a reminder's
+ * conditions say to skip this run (digests don't have any)
  */
-export function cancelWebhook(webhookId: string): void {
-  const task = scheduledJobs.get(webhookId);
-  if (task) {
-    task.stop();
-    scheduledJobs.delete(webhookId);
-    console.log(`[Webhook] Cancelled job: ${webhookId}`);
+async function runScheduled(webhook: WebhookConfig): Promise<void> {
+  const skipReason = webhook.type === "reminder" ? getSkipReason(webhook) : null;
+  if (skipReason) {
+    console.log(`[Webhook] Skipping ${webhook.name}: ${skipReason}`);
+    return;
+  }
+  if (webhook.type === "digest") {
+    const digest = buildDigest(webhook, false);
+    if (digest.digest?.totalEntries === 0) {
+      console.log(`[Webhook] Skipping ${webhook.name}: no entries for the week of ${digest.date}`);
+      return;
+    }
+    console.log(`[Webhook] Triggering: ${webhook.name}`);
+    await sendWebhook(webhook, digest, "schedule");
+    return;
   }
+  console.log(`[Webhook] Triggering: ${webhook.name}`);
+  await sendWebhook(webhook, buildReminder(webhook, false), "schedule");
+}
+
+/**
+ * When a webhook should next run, or null if it doesn't run on a schedule
+ */
+function getNextRun(webhook: WebhookConfig, after: Date): Date | null {
+  if (!webhook.enabled || webhook.type === "event") return null;
+  return nextRunAfter(webhook, after);
 }
 
 /**
- * Schedule all webhooks from the database
- * Call this on server startup
+ * Claim the due jobs and retries, send them, and move the jobs on to their next run
  */
-export function scheduleAllWebhooks(webhooks: WebhookConfig[]): void {
-  // Clear all existing jobs first
-  for (const [id, task] of scheduledJobs) {
-    task.stop();
-    console.log(`[Webhook] Stopped existing job: ${id}`);
+async function runDueJobs(): Promise<void> {
+  const now = new Date();
+  let jobs: ReturnType<typeof claimDueJobs>;
+  let retries: ReturnType<typeof claimDueRetries>;
+  try {
+    jobs = claimDueJobs(INSTANCE_ID, now, JOB_LEASE_MS);
+    retries = claimDueRetries(now, JOB_LEASE_MS);
+  } catch (error) {
+    // e.g. the database is busy; due jobs and retries stay due until the next poll
+    console.error("[Webhook] Failed to claim jobs:", error);
+    return;
   }
-  scheduledJobs.clear();
 
-  // Schedule all enabled webhooks
-  for (const webhook of webhooks) {
-    scheduleWebhook(webhook);
+  await Promise.all([
+    ...retries.map(async (delivery) => {
+      try {
+        await runRetry(delivery);
+      } catch (error) {
+        console.error(`[Webhook] Failed to retry delivery ${delivery.id}:`, error);
+      }
+    }),
+    ...jobs.map(async (job) => {
+      try {
+        const webhook = loadWebhook(job.webhookId);
+        let runAt: Date | null = new Date(job.nextRunAt);
+        if (webhook && now.getTime() - runAt.getTime() > CATCH_UP_GRACE_MS) {
+          // Missed while no instance was running; catch up only on a run still within the grace window
+          console.log(`[Webhook] Missed ${webhook.name} at ${job.nextRunAt}`);
+          runAt = nextRunAfter(webhook, new Date(now.getTime() - CATCH_UP_GRACE_MS));
+        }
+        if (webhook && runAt && runAt <= now) {
+          await runScheduled(webhook);
+        }
+        completeJob(job.webhookId, INSTANCE_ID, webhook && getNextRun(webhook, now));
+      } catch (error) {
+        // The lease expires, so the job is retried on a later poll
+        console.error(`[Webhook] Failed to run job ${job.webhookId}:`, error);
+      }
+    }),
+  ]);
+}
+
+/**
+ * Schedule a webhook's next run (event webhooks are sent when entries change,
+ * and disabled webhooks not at all)
+ */
+export function scheduleWebhook(webhook: WebhookConfig): void {
+  const nextRunAt = getNextRun(webhook, new Date());
+  if (!nextRunAt) {
+    deleteJob(webhook.id);
+    return;
   }
+  upsertJob(webhook.id, nextRunAt);
+  console.log(
+    `[Webhook] Scheduled ${webhook.name}: next run ${nextRunAt.toISOString()} (${webhook.timezone})`
+  );
+}
+
+/**
+ * Cancel a webhook's scheduled runs
+ */
+export function cancelWebhook(webhookId: string): void {
+  deleteJob(webhookId);
+}
+
+/**
+ * Create jobs for scheduled webhooks that don't have one, and start polling
+ * for due jobs. Call this on server startup.
+ */
+export function startWebhookScheduler(): void {
+  const now = new Date();
+  const webhooks = db.select().from(schema.webhooks).all().map(toSchedulerConfig);
+  const jobs = webhooks.flatMap((webhook) => {
+    const nextRunAt = getNextRun(webhook, now);
+    return nextRunAt ? [{ webhookId: webhook.id, nextRunAt }] : [];
+  });
+  syncJobs(jobs);
+
+  pollTask?.stop();
+  pollTask = cron.schedule("* * * * *", () => void runDueJobs());
+  void runDueJobs();
 
   console.log(
-    `[Webhook] Initialized ${scheduledJobs.size} jobs from ${webhooks.length} webhooks`
+    `[Webhook] Scheduler ${INSTANCE_ID} started with ${jobs.length} scheduled of ${webhooks.length} webhooks (catch-up grace ${CATCH_UP_GRACE_MS / 60_000}m)`
   );
 }
 
 /**
- * Get the count of active scheduled jobs
+ * Get the count of scheduled jobs (across all instances)
  */
 export function getScheduledJobCount(): number {
-  return scheduledJobs.size;
+  return countJobs();
+}
+
+/**
+ * Send entry changes to the owner's event webhooks that subscribe to them.
+ * Call after the changes are committed; sends happen in the background.
+ */
+export function dispatchEntryEvents(userId: string | null, changes: EntryChange[]): void {
+  if (changes.length === 0) return;
+
+  // Read from the database, so edits made through another instance apply
+  const webhooks = db
+    .select()
+    .from(schema.webhooks)
+    .where(
+      and(
+        eq(schema.webhooks.type, "event"),
+        eq(schema.webhooks.enabled, true),
+        userId ? eq(schema.webhooks.userId, userId) : isNull(schema.webhooks.userId)
+      )
+    )
+    .all()
+    .map(toSchedulerConfig);
+
+  for (const webhook of webhooks) {
+    for (const { event, entry } of changes) {
+      if (!webhook.events.includes(event)) continue;
+      const notification = entryEventNotification(webhook, event, entry, userId, {
+        id: nanoid(),
+        test: false,
+        sentAt: new Date().toISOString(),
+      });
+      void sendWebhook(webhook, notification, "event");
+    }
+  }
 }
 
 /**
- * Test a webhook by sending immediately
+ * Test a webhook by sending immediately (a sample entry for event webhooks,
+ * and the current digest, even if empty, for digest webhooks)
  */
 export async function testWebhook(webhook: WebhookConfig): Promise<boolean> {
   console.log(`[Webhook] Testing: ${webhook.name}`);
-  return sendWebhook(webhook);
+  const notification =
+    webhook.type === "event"
+      ? entryEventNotification(
+          webhook,
+          webhook.events[0] ?? "entry.created",
+          { date: todayInTimezone(webhook.timezone), content: "This is a test entry from TIL Stack." },
+          webhook.userId,
+          { id: nanoid(), test: true, sentAt: new Date().toISOString() }
+        )
+      : webhook.type === "digest"
+        ? buildDigest(webhook, true)
+        : buildReminder(webhook, true);
+  return sendWebhook(webhook, notification, "test");
 }
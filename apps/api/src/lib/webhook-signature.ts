@@ -0,0 +1,31 @@
+import { createHmac, randomBytes } from "node:crypto";
+
+/**
+ * Webhook request signing. Every request carries:
+ *
+ *   X-TIL-Event      "reminder", "digest", "entry.created", "entry.updated" or "entry.deleted"
+ *   X-TIL-Delivery   delivery id, the same across retries (for de-duplication)
+ *   X-TIL-Timestamp  unix seconds when this attempt was signed
+ *   X-TIL-Signature  "sha256=" + hex HMAC-SHA256 of `${timestamp}.${body}`,
+ *                    keyed with the webhook's secret
+ *
+ * Receivers should recompute the signature over the raw body, compare it in
+ * constant time, and reject timestamps more than a few minutes old so a
+ * captured request can't be replayed later.
+ */
+
+export function generateWebhookSecret(): string {
+  return randomBytes(32).toString("hex");
+}
+
+export function signWebhookRequest(
+  secret: string,
+  body: string,
+  timestamp = Math.floor(Date.now() / 1000)
+): Record<string, string> {
+  const signature = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return {
+    "X-TIL-Timestamp": String(timestamp),
+    "X-TIL-Signature": `sha256=${signature}`,
+  };
+}
@@ -0,0 +1,45 @@
+import type {
+  DayOfWeek,
+  WebhookDigestWeek,
+  WebhookEvent,
+  WebhookFormat,
+  WebhookType,
+} from "@til-stack/shared";
+import { schema } from "../db/index.js";
+
+// Helper to parse days (or events) from a DB JSON string
+function parseJsonArray<T>(json: string): T[] {
+  try {
+    return JSON.parse(json) as T[];
+  } catch {
+    return [];
+  }
+}
+
+// Helper to convert DB row to webhook config (as returned to clients)
+export function toWebhookConfig(row: typeof schema.webhooks.$inferSelect) {
+  return {
+    id: row.id,
+    name: row.name,
+    url: row.url,
+    type: row.type as WebhookType,
+    message: row.message,
+    time: row.time,
+    days: parseJsonArray<DayOfWeek>(row.days),
+    timezone: row.timezone,
+    enabled: row.enabled,
+    format: row.format as WebhookFormat,
+    onlyIfNoEntry: row.onlyIfNoEntry,
+    respectSkipDays: row.respectSkipDays,
+    events: parseJsonArray<WebhookEvent>(row.events),
+    includeContent: row.includeContent,
+    digestWeek: row.digestWeek as WebhookDigestWeek,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+// Scheduler config: the webhook plus its owner and signing secret (not returned to clients)
+export function toSchedulerConfig(row: typeof schema.webhooks.$inferSelect) {
+  return { ...toWebhookConfig(row), userId: row.userId, secret: row.secret };
+}
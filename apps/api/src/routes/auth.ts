@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { templateRulesSchema } from "@til-stack/shared";
 import { router, publicProcedure, protectedProcedure } from "./trpc.js";
 import {
   getGoogleAuthUrl,
@@ -8,8 +9,10 @@ import {
   createSessionToken,
   deleteUserAndData,
 } from "../lib/auth.js";
+import { syncEntryTags } from "../lib/tags.js";
+import { recordRevision } from "../lib/revisions.js";
 import { db, schema } from "../db/index.js";
-import { eq, and } from "drizzle-orm";
+import { eq, and, isNull } from "drizzle-orm";
 import { nanoid } from "nanoid";
 
 // Schema for migrating local data
@@ -28,6 +31,7 @@ const migrateDataSchema = z.object({
       id: z.string(),
       type: z.string(),
       value: z.string(),
+      source: z.string().nullish(),
       createdAt: z.string(),
     })
   ),
@@ -36,7 +40,7 @@ const migrateDataSchema = z.object({
       id: z.string(),
       name: z.string(),
       content: z.string(),
-      isDefault: z.boolean(),
+      rules: templateRulesSchema.catch([]),
       createdAt: z.string(),
       updatedAt: z.string(),
     })
@@ -103,6 +107,9 @@ export const authRouter = router({
     .input(migrateDataSchema)
     .mutation(async ({ input, ctx }) => {
       const userId = ctx.user.id;
+      // Migrated rows are stamped with server time, not the client's timestamps, so
+      // other devices' delta syncs (which compare against a server-time watermark) see them
+      const now = new Date().toISOString();
       let entriesMigrated = 0;
       let skipDaysMigrated = 0;
       let templatesMigrated = 0;
@@ -127,21 +134,26 @@ export const authRouter = router({
               .update(schema.entries)
               .set({
                 content: entry.content,
-                updatedAt: entry.updatedAt,
+                updatedAt: now,
               })
               .where(eq(schema.entries.id, existing.id));
+            syncEntryTags(existing.id, userId, entry.content);
+            recordRevision({ ...existing, content: entry.content }, "update");
             entriesMigrated++;
           }
         } else {
           // Insert new entry
+          const entryId = nanoid();
           await db.insert(schema.entries).values({
-            id: nanoid(),
+            id: entryId,
             date: entry.date,
             content: entry.content,
             userId,
             createdAt: entry.createdAt,
-            updatedAt: entry.updatedAt,
+            updatedAt: now,
           });
+          syncEntryTags(entryId, userId, entry.content);
+          recordRevision({ id: entryId, date: entry.date, content: entry.content, userId }, "create");
           entriesMigrated++;
         }
       }
@@ -155,6 +167,7 @@ export const authRouter = router({
             and(
               eq(schema.skipDays.type, skipDay.type),
               eq(schema.skipDays.value, skipDay.value),
+              skipDay.source ? eq(schema.skipDays.source, skipDay.source) : isNull(schema.skipDays.source),
               eq(schema.skipDays.userId, userId)
             )
           )
@@ -165,8 +178,9 @@ export const authRouter = router({
             id: nanoid(),
             type: skipDay.type,
             value: skipDay.value,
+            source: skipDay.source ?? null,
             userId,
-            createdAt: skipDay.createdAt,
+            createdAt: now,
           });
           skipDaysMigrated++;
         }
@@ -190,10 +204,10 @@ export const authRouter = router({
             id: nanoid(),
             name: template.name,
             content: template.content,
-            isDefault: template.isDefault,
+            rules: JSON.stringify(template.rules),
             userId,
             createdAt: template.createdAt,
-            updatedAt: template.updatedAt,
+            updatedAt: now,
           });
           templatesMigrated++;
         }
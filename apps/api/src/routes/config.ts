@@ -1,16 +1,28 @@
+import { TRPCError } from "@trpc/server";
 import { router, publicProcedure } from "./trpc.js";
 import {
   addSkipWeekdaySchema,
   addSkipDateSchema,
+  addSkipRecurrenceSchema,
   removeSkipDaySchema,
+  importSkipDaysIcsSchema,
+  removeSkipDaySourceSchema,
   createTemplateSchema,
   updateTemplateSchema,
   deleteTemplateSchema,
-  setDefaultTemplateSchema,
+  templateForDateSchema,
+  changesSinceSchema,
+  parseTemplateRules,
+  resolveTemplateForDate,
+  buildSkipDaysRules,
+  parseIcs,
+  icsToSkipDays,
+  icsSourceName,
+  type SkipDayType,
 } from "@til-stack/shared";
 import { z } from "zod";
 import { db, schema } from "../db/index.js";
-import { eq, and, isNull } from "drizzle-orm";
+import { eq, and, isNull, asc } from "drizzle-orm";
 import { nanoid } from "nanoid";
 
 // Helper to create user filter condition for skipDays (handles null userId for anonymous users)
@@ -23,6 +35,45 @@ function templatesUserFilter(userId: string | null | undefined) {
   return userId ? eq(schema.templates.userId, userId) : isNull(schema.templates.userId);
 }
 
+// Skip days added by hand have no source
+function skipDaySourceFilter(source: string | null) {
+  return source ? eq(schema.skipDays.source, source) : isNull(schema.skipDays.source);
+}
+
+// Skip days are unique per (type, value, source), so adding an existing one returns it
+async function addSkipDay(
+  userId: string | null,
+  type: SkipDayType,
+  value: string,
+  source: string | null = null
+) {
+  const existing = await db
+    .select()
+    .from(schema.skipDays)
+    .where(
+      and(
+        eq(schema.skipDays.type, type),
+        eq(schema.skipDays.value, value),
+        skipDaySourceFilter(source),
+        skipDaysUserFilter(userId)
+      )
+    )
+    .get();
+
+  if (existing) return existing;
+
+  return await db
+    .insert(schema.skipDays)
+    .values({ id: nanoid(), type, value, source, userId })
+    .returning()
+    .get();
+}
+
+// Helper to convert DB row to template (rules are stored as JSON)
+function toTemplate(row: typeof schema.templates.$inferSelect) {
+  return { ...row, rules: parseTemplateRules(row.rules) };
+}
+
 export const configRouter = router({
   // === Skip Days ===
   getSkipDays: publicProcedure.query(async ({ ctx }) => {
@@ -33,75 +84,82 @@ export const configRouter = router({
       .where(skipDaysUserFilter(userId))
       .all();
 
-    const weekdays = skipDays
-      .filter((s) => s.type === "weekday")
-      .map((s) => parseInt(s.value));
-
-    const specificDates = skipDays
-      .filter((s) => s.type === "specific_date")
-      .map((s) => s.value);
-
-    return { weekdays, specificDates, raw: skipDays };
+    return { ...buildSkipDaysRules(skipDays), raw: skipDays };
   }),
 
-  addSkipWeekday: publicProcedure
-    .input(addSkipWeekdaySchema)
-    .mutation(async ({ input, ctx }) => {
+  // Delta sync: skip days are immutable, so only new rows are returned
+  skipDaysChangesSince: publicProcedure
+    .input(changesSinceSchema)
+    .query(async ({ input, ctx }) => {
       const userId = ctx.user?.id ?? null;
-      const existing = await db
+      const watermark = new Date().toISOString();
+      const rows = await db
         .select()
         .from(schema.skipDays)
-        .where(
-          and(
-            eq(schema.skipDays.type, "weekday"),
-            eq(schema.skipDays.value, input.weekday.toString()),
-            skipDaysUserFilter(userId)
-          )
-        )
-        .get();
+        .where(skipDaysUserFilter(userId))
+        .all();
 
-      if (existing) return existing;
+      const items = input.since
+        ? rows.filter((row) => row.createdAt > input.since!)
+        : rows;
+      return { items, ids: rows.map((row) => row.id), watermark };
+    }),
 
-      return await db
-        .insert(schema.skipDays)
-        .values({
-          id: nanoid(),
-          type: "weekday",
-          value: input.weekday.toString(),
-          userId,
-        })
-        .returning()
-        .get();
+  addSkipWeekday: publicProcedure
+    .input(addSkipWeekdaySchema)
+    .mutation(async ({ input, ctx }) => {
+      return await addSkipDay(ctx.user?.id ?? null, "weekday", input.weekday.toString());
     }),
 
+  // A single date, or a date range when endDate is given
   addSkipDate: publicProcedure
     .input(addSkipDateSchema)
     .mutation(async ({ input, ctx }) => {
       const userId = ctx.user?.id ?? null;
-      const existing = await db
-        .select()
-        .from(schema.skipDays)
+      if (input.endDate && input.endDate !== input.date) {
+        return await addSkipDay(userId, "date_range", `${input.date}/${input.endDate}`);
+      }
+      return await addSkipDay(userId, "specific_date", input.date);
+    }),
+
+  addSkipRecurrence: publicProcedure
+    .input(addSkipRecurrenceSchema)
+    .mutation(async ({ input, ctx }) => {
+      return await addSkipDay(ctx.user?.id ?? null, "rrule", input.rule);
+    }),
+
+  // Skip the events of an iCalendar file (e.g. public holidays), tagged with
+  // the calendar's name so they can be removed together
+  importSkipDaysIcs: publicProcedure
+    .input(importSkipDaysIcsSchema)
+    .mutation(async ({ input, ctx }) => {
+      const userId = ctx.user?.id ?? null;
+      const calendar = parseIcs(input.ics);
+      if (calendar.events.length === 0) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "No events found in calendar" });
+      }
+
+      const source = icsSourceName(input.source, calendar);
+      const skipDays = icsToSkipDays(calendar);
+      for (const skipDay of skipDays) {
+        await addSkipDay(userId, skipDay.type, skipDay.value, source);
+      }
+      return { source, events: calendar.events.length, skipDays: skipDays.length };
+    }),
+
+  removeSkipDaySource: publicProcedure
+    .input(removeSkipDaySourceSchema)
+    .mutation(async ({ input, ctx }) => {
+      const userId = ctx.user?.id ?? null;
+      await db
+        .delete(schema.skipDays)
         .where(
           and(
-            eq(schema.skipDays.type, "specific_date"),
-            eq(schema.skipDays.value, input.date),
+            eq(schema.skipDays.source, input.source),
             skipDaysUserFilter(userId)
           )
-        )
-        .get();
-
-      if (existing) return existing;
-
-      return await db
-        .insert(schema.skipDays)
-        .values({
-          id: nanoid(),
-          type: "specific_date",
-          value: input.date,
-          userId,
-        })
-        .returning()
-        .get();
+        );
+      return { success: true };
     }),
 
   removeSkipDay: publicProcedure
@@ -122,55 +180,74 @@ export const configRouter = router({
   // === Templates ===
   getTemplates: publicProcedure.query(async ({ ctx }) => {
     const userId = ctx.user?.id ?? null;
-    return await db
+    const rows = await db
       .select()
       .from(schema.templates)
       .where(templatesUserFilter(userId))
+      .orderBy(asc(schema.templates.name))
       .all();
+    return rows.map(toTemplate);
   }),
 
-  getDefaultTemplate: publicProcedure.query(async ({ ctx }) => {
-    const userId = ctx.user?.id ?? null;
-    return (
-      (await db
+  // Delta sync: templates updated after `since`, plus ids of all live templates
+  templatesChangesSince: publicProcedure
+    .input(changesSinceSchema)
+    .query(async ({ input, ctx }) => {
+      const userId = ctx.user?.id ?? null;
+      const watermark = new Date().toISOString();
+      const rows = await db
         .select()
         .from(schema.templates)
-        .where(
-          and(
-            eq(schema.templates.isDefault, true),
-            templatesUserFilter(userId)
-          )
-        )
-        .get()) ?? null
-    );
-  }),
+        .where(templatesUserFilter(userId))
+        .all();
+
+      const items = input.since
+        ? rows.filter((row) => row.updatedAt > input.since!)
+        : rows;
+      return { items: items.map(toTemplate), ids: rows.map((row) => row.id), watermark };
+    }),
+
+  // The template a new entry on this date starts from, by the templates' rules
+  getTemplateForDate: publicProcedure
+    .input(templateForDateSchema)
+    .query(async ({ input, ctx }) => {
+      const userId = ctx.user?.id ?? null;
+      const rows = await db
+        .select()
+        .from(schema.templates)
+        .where(templatesUserFilter(userId))
+        .all();
+      return resolveTemplateForDate(rows.map(toTemplate), input.date);
+    }),
 
   createTemplate: publicProcedure
     .input(createTemplateSchema)
     .mutation(async ({ input, ctx }) => {
       const userId = ctx.user?.id ?? null;
-      return await db
+      const row = await db
         .insert(schema.templates)
         .values({
           id: nanoid(),
           name: input.name,
           content: input.content,
-          isDefault: false,
+          rules: JSON.stringify(input.rules ?? []),
           userId,
         })
         .returning()
         .get();
+      return toTemplate(row);
     }),
 
   updateTemplate: publicProcedure
     .input(updateTemplateSchema)
     .mutation(async ({ input, ctx }) => {
       const userId = ctx.user?.id ?? null;
-      const { id, ...updates } = input;
-      return await db
+      const { id, rules, ...updates } = input;
+      const row = await db
         .update(schema.templates)
         .set({
           ...updates,
+          ...(rules !== undefined && { rules: JSON.stringify(rules) }),
           updatedAt: new Date().toISOString(),
         })
         .where(
@@ -181,6 +258,7 @@ export const configRouter = router({
         )
         .returning()
         .get();
+      return row ? toTemplate(row) : undefined;
     }),
 
   deleteTemplate: publicProcedure
@@ -198,32 +276,6 @@ export const configRouter = router({
       return { success: true };
     }),
 
-  setDefaultTemplate: publicProcedure
-    .input(setDefaultTemplateSchema)
-    .mutation(async ({ input, ctx }) => {
-      const userId = ctx.user?.id ?? null;
-      // First, unset all defaults for this user
-      await db
-        .update(schema.templates)
-        .set({ isDefault: false, updatedAt: new Date().toISOString() })
-        .where(templatesUserFilter(userId));
-
-      // If an ID is provided, set that template as default (only if owned by user)
-      if (input.id) {
-        await db
-          .update(schema.templates)
-          .set({ isDefault: true, updatedAt: new Date().toISOString() })
-          .where(
-            and(
-              eq(schema.templates.id, input.id),
-              templatesUserFilter(userId)
-            )
-          );
-      }
-
-      return { success: true };
-    }),
-
   // === User Preferences (AI Config, Theme) ===
   getPreferences: publicProcedure.query(async ({ ctx }) => {
     const userId = ctx.user?.id;
@@ -1,3 +1,4 @@
+import { TRPCError } from "@trpc/server";
 import { router, publicProcedure } from "./trpc.js";
 import {
   upsertEntrySchema,
@@ -7,9 +8,30 @@ import {
   listEntriesSchema,
   weeklyInputSchema,
   monthlyInputSchema,
+  yearlyInputSchema,
+  entryStatsSchema,
+  searchEntriesSchema,
+  listByTagSchema,
+  entryHistorySchema,
+  restoreRevisionSchema,
+  changesSinceSchema,
+  computeEntryStats,
+  buildSkipDaysRules,
+  type EntrySearchResult,
+  type EntryRevision,
 } from "@til-stack/shared";
 import { db, schema } from "../db/index.js";
-import { eq, desc, lt, and, gte, lte, isNull, or, gt } from "drizzle-orm";
+import { syncEntryTags } from "../lib/tags.js";
+import { recordRevision } from "../lib/revisions.js";
+import {
+  writeEntry,
+  softDeleteEntry,
+  getWeeklySummary,
+  EntryConflictError,
+  type EntryChange,
+} from "../lib/entries.js";
+import { dispatchEntryEvents } from "../lib/webhook-scheduler.js";
+import { eq, asc, desc, lt, and, gte, lte, isNull, or, gt, sql } from "drizzle-orm";
 import { nanoid } from "nanoid";
 
 // Helper to create user filter condition (handles null userId for anonymous users)
@@ -17,48 +39,42 @@ function userFilter(userId: string | null | undefined) {
   return userId ? eq(schema.entries.userId, userId) : isNull(schema.entries.userId);
 }
 
+// Helper to create user filter condition for entry revisions
+function revisionsUserFilter(userId: string | null | undefined) {
+  return userId ? eq(schema.entryRevisions.userId, userId) : isNull(schema.entryRevisions.userId);
+}
+
+// Helper to create user filter condition for skip days
+function skipDaysUserFilter(userId: string | null | undefined) {
+  return userId ? eq(schema.skipDays.userId, userId) : isNull(schema.skipDays.userId);
+}
+
+// Convert free-form user input into an FTS5 MATCH expression.
+// Each word becomes a quoted prefix term ("webpack"*), all terms must match.
+function toFtsQuery(query: string): string | null {
+  const terms = query
+    .split(/\s+/)
+    .map((term) => term.replace(/"/g, ""))
+    .filter((term) => term.length > 0);
+  if (terms.length === 0) return null;
+  return terms.map((term) => `"${term}"*`).join(" ");
+}
+
 export const entriesRouter = router({
   upsert: publicProcedure.input(upsertEntrySchema).mutation(async ({ input, ctx }) => {
     const userId = ctx.user?.id ?? null;
-    const existing = await db
-      .select()
-      .from(schema.entries)
-      .where(
-        and(
-          eq(schema.entries.date, input.date),
-          userFilter(userId)
-        )
-      )
-      .get();
-
-    if (existing) {
-      const updated = await db
-        .update(schema.entries)
-        .set({
-          content: input.content,
-          updatedAt: new Date().toISOString(),
-        })
-        .where(
-          and(
-            eq(schema.entries.date, input.date),
-            userFilter(userId)
-          )
-        )
-        .returning()
-        .get();
-      return updated;
-    } else {
-      const created = await db
-        .insert(schema.entries)
-        .values({
-          id: nanoid(),
-          date: input.date,
-          content: input.content,
-          userId,
-        })
-        .returning()
-        .get();
-      return created;
+    const changes: EntryChange[] = [];
+    try {
+      const entry = db.transaction((tx) =>
+        writeEntry(tx, userId, input.date, input.content, input.baseUpdatedAt, changes)
+      );
+      dispatchEntryEvents(userId, changes);
+      return entry;
+    } catch (error) {
+      if (error instanceof EntryConflictError) {
+        throw new TRPCError({ code: "CONFLICT", message: error.message });
+      }
+      throw error;
     }
   }),
 
@@ -130,54 +146,194 @@ export const entriesRouter = router({
 
   delete: publicProcedure.input(deleteEntrySchema).mutation(async ({ input, ctx }) => {
     const userId = ctx.user?.id ?? null;
-    const now = new Date().toISOString();
 
     // Soft delete: set deletedAt timestamp instead of actual deletion
-    await db
-      .update(schema.entries)
-      .set({
-        deletedAt: now,
-        updatedAt: now,
-      })
-      .where(
-        and(
-          eq(schema.entries.date, input.date),
-          userFilter(userId)
-        )
-      );
+    const changes: EntryChange[] = [];
+    db.transaction((tx) => softDeleteEntry(tx, userId, input.date, changes));
+    dispatchEntryEvents(userId, changes);
     return { success: true };
   }),
 
-  getWeeklySummary: publicProcedure.input(weeklyInputSchema).query(async ({ input, ctx }) => {
+  // Delta sync: entries (including tombstones) changed after `since`
+  changesSince: publicProcedure.input(changesSinceSchema).query(async ({ input, ctx }) => {
     const userId = ctx.user?.id ?? null;
-    const weekStart = new Date(input.weekStart);
-    const weekEnd = new Date(weekStart);
-    weekEnd.setDate(weekEnd.getDate() + 6);
+    // Taken before reading so rows written during the query are picked up next time
+    const watermark = new Date().toISOString();
 
-    const weekEndStr = weekEnd.toISOString().split("T")[0];
+    const conditions = [userFilter(userId)];
+    if (input.since) {
+      conditions.push(
+        or(
+          gt(schema.entries.updatedAt, input.since),
+          gt(schema.entries.deletedAt, input.since)
+        )!
+      );
+    }
 
-    const entries = await db
+    const items = await db
       .select()
       .from(schema.entries)
+      .where(and(...conditions))
+      .orderBy(asc(schema.entries.updatedAt))
+      .all();
+
+    return { items, watermark };
+  }),
+
+  history: publicProcedure.input(entryHistorySchema).query(async ({ input, ctx }) => {
+    const userId = ctx.user?.id ?? null;
+    const revisions = await db
+      .select({
+        id: schema.entryRevisions.id,
+        entryId: schema.entryRevisions.entryId,
+        date: schema.entryRevisions.date,
+        content: schema.entryRevisions.content,
+        action: schema.entryRevisions.action,
+        createdAt: schema.entryRevisions.createdAt,
+      })
+      .from(schema.entryRevisions)
       .where(
         and(
-          gte(schema.entries.date, input.weekStart),
-          lte(schema.entries.date, weekEndStr),
-          userFilter(userId),
-          isNull(schema.entries.deletedAt) // Exclude soft-deleted entries
+          eq(schema.entryRevisions.date, input.date),
+          revisionsUserFilter(userId)
         )
       )
+      .orderBy(desc(schema.entryRevisions.createdAt))
+      .limit(input.limit)
+      .all();
+    return revisions as EntryRevision[];
+  }),
+
+  restoreRevision: publicProcedure.input(restoreRevisionSchema).mutation(async ({ input, ctx }) => {
+    const userId = ctx.user?.id ?? null;
+    const revision = await db
+      .select()
+      .from(schema.entryRevisions)
+      .where(
+        and(
+          eq(schema.entryRevisions.id, input.id),
+          revisionsUserFilter(userId)
+        )
+      )
+      .get();
+
+    if (!revision) {
+      throw new TRPCError({ code: "NOT_FOUND", message: "Revision not found" });
+    }
+
+    const changes: EntryChange[] = [];
+    const restored = db.transaction((tx) => {
+      const now = new Date().toISOString();
+      const existing = tx
+        .select()
+        .from(schema.entries)
+        .where(
+          and(
+            eq(schema.entries.date, revision.date),
+            userFilter(userId)
+          )
+        )
+        .get();
+
+      // Restoring also undeletes a soft-deleted entry
+      const row = existing
+        ? tx
+            .update(schema.entries)
+            .set({ content: revision.content, updatedAt: now, deletedAt: null })
+            .where(eq(schema.entries.id, existing.id))
+            .returning()
+            .get()
+        : tx
+            .insert(schema.entries)
+            .values({
+              id: nanoid(),
+              date: revision.date,
+              content: revision.content,
+              userId,
+            })
+            .returning()
+            .get();
+
+      syncEntryTags(row.id, userId, row.content, tx);
+      recordRevision(row, "restore", tx);
+      changes.push({ event: existing && !existing.deletedAt ? "entry.updated" : "entry.created", entry: row });
+      return row;
+    });
+
+    dispatchEntryEvents(userId, changes);
+    return restored;
+  }),
+
+  listByTag: publicProcedure.input(listByTagSchema).query(async ({ input, ctx }) => {
+    const { tag, cursor, limit } = input;
+    const userId = ctx.user?.id ?? null;
+
+    const conditions = [
+      userFilter(userId),
+      isNull(schema.entries.deletedAt),
+      eq(schema.entryTags.tag, tag),
+    ];
+    if (cursor) {
+      conditions.push(lt(schema.entries.date, cursor));
+    }
+
+    const rows = await db
+      .select({ entry: schema.entries })
+      .from(schema.entries)
+      .innerJoin(schema.entryTags, eq(schema.entryTags.entryId, schema.entries.id))
+      .where(and(...conditions))
       .orderBy(desc(schema.entries.date))
+      .limit(limit + 1)
       .all();
+    const items = rows.map((row) => row.entry);
+
+    const hasMore = items.length > limit;
+    if (hasMore) items.pop();
 
     return {
-      weekStart: input.weekStart,
-      weekEnd: weekEndStr,
-      entries,
-      totalEntries: entries.length,
+      items,
+      hasMore,
+      nextCursor: hasMore && items.length > 0 ? items[items.length - 1].date : undefined,
     };
   }),
 
+  search: publicProcedure.input(searchEntriesSchema).query(async ({ input, ctx }) => {
+    const userId = ctx.user?.id ?? null;
+    const matchQuery = toFtsQuery(input.query);
+    if (!matchQuery) return [];
+
+    const conditions = [
+      userFilter(userId),
+      isNull(schema.entries.deletedAt), // Exclude soft-deleted entries
+    ];
+    if (input.startDate) {
+      conditions.push(gte(schema.entries.date, input.startDate));
+    }
+    if (input.endDate) {
+      conditions.push(lte(schema.entries.date, input.endDate));
+    }
+
+    // entries_fts is an external-content FTS5 table keyed by entries.rowid
+    return db.all<EntrySearchResult>(sql`
+      SELECT
+        ${schema.entries.id} AS id,
+        ${schema.entries.date} AS date,
+        snippet(entries_fts, 0, '<mark>', '</mark>', '…', 16) AS snippet,
+        ${schema.entries.createdAt} AS createdAt,
+        ${schema.entries.updatedAt} AS updatedAt
+      FROM entries_fts
+      JOIN ${schema.entries} ON ${schema.entries}.rowid = entries_fts.rowid
+      WHERE entries_fts MATCH ${matchQuery} AND ${and(...conditions)}
+      ORDER BY ${schema.entries.date} DESC
+      LIMIT ${input.limit}
+    `);
+  }),
+
+  getWeeklySummary: publicProcedure.input(weeklyInputSchema).query(async ({ input, ctx }) => {
+    const userId = ctx.user?.id ?? null;
+    return getWeeklySummary(db, userId, input.weekStart);
+  }),
+
   getMonthlySummary: publicProcedure.input(monthlyInputSchema).query(async ({ input, ctx }) => {
     const userId = ctx.user?.id ?? null;
     const [year, month] = input.month.split("-").map(Number);
@@ -236,4 +392,56 @@ export const entriesRouter = router({
       weeks,
     };
   }),
+
+  getYearlySummary: publicProcedure.input(yearlyInputSchema).query(async ({ input, ctx }) => {
+    const userId = ctx.user?.id ?? null;
+    const entries = await db
+      .select()
+      .from(schema.entries)
+      .where(
+        and(
+          gte(schema.entries.date, `${input.year}-01-01`),
+          lte(schema.entries.date, `${input.year}-12-31`),
+          userFilter(userId),
+          isNull(schema.entries.deletedAt) // Exclude soft-deleted entries
+        )
+      )
+      .orderBy(desc(schema.entries.date))
+      .all();
+
+    // One count per month, including months without entries (the entries
+    // themselves are only sent once, in the flat list)
+    const months = Array.from({ length: 12 }, (_, i) => {
+      const month = `${input.year}-${String(i + 1).padStart(2, "0")}`;
+      const totalEntries = entries.filter((e) => e.date.startsWith(`${month}-`)).length;
+      return { month, totalEntries };
+    });
+
+    return {
+      year: input.year,
+      entries,
+      totalEntries: entries.length,
+      months,
+    };
+  }),
+
+  getStats: publicProcedure.input(entryStatsSchema).query(async ({ input, ctx }) => {
+    const userId = ctx.user?.id ?? null;
+    const entries = await db
+      .select({ date: schema.entries.date, content: schema.entries.content })
+      .from(schema.entries)
+      .where(and(userFilter(userId), isNull(schema.entries.deletedAt)))
+      .all();
+    const skipDays = await db
+      .select()
+      .from(schema.skipDays)
+      .where(skipDaysUserFilter(userId))
+      .all();
+
+    return computeEntryStats(
+      entries,
+      buildSkipDaysRules(skipDays),
+      input.today
+    );
+  }),
 });
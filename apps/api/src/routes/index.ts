@@ -2,12 +2,18 @@ import { router } from "./trpc.js";
 import { entriesRouter } from "./entries.js";
 import { configRouter } from "./config.js";
 import { webhooksRouter } from "./webhooks.js";
+import { tagsRouter } from "./tags.js";
+import { syncRouter } from "./sync.js";
+import { summariesRouter } from "./summaries.js";
 import { authRouter } from "./auth.js";
 
 export const appRouter = router({
   entries: entriesRouter,
   config: configRouter,
   webhooks: webhooksRouter,
+  tags: tagsRouter,
+  sync: syncRouter,
+  summaries: summariesRouter,
   auth: authRouter,
 });
 
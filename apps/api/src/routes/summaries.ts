@@ -0,0 +1,51 @@
+import { router, publicProcedure } from "./trpc.js";
+import {
+  summaryKeySchema,
+  saveSummarySchema,
+  changesSinceSchema,
+  type SavedSummary,
+  type Summary,
+} from "@til-stack/shared";
+import { db, schema } from "../db/index.js";
+import { eq, and, gt, isNull, asc } from "drizzle-orm";
+import { findSummary, writeSummary, isSummaryStale } from "../lib/summaries.js";
+
+// Helper to create user filter condition (handles null userId for anonymous users)
+function userFilter(userId: string | null) {
+  return userId ? eq(schema.summaries.userId, userId) : isNull(schema.summaries.userId);
+}
+
+export const summariesRouter = router({
+  get: publicProcedure.input(summaryKeySchema).query(async ({ input, ctx }): Promise<SavedSummary | null> => {
+    const userId = ctx.user?.id ?? null;
+    const summary = findSummary(db, userId, input);
+    if (!summary) return null;
+    return { ...(summary as Summary), stale: isSummaryStale(db, userId, summary) };
+  }),
+
+  save: publicProcedure.input(saveSummarySchema).mutation(async ({ input, ctx }) => {
+    const userId = ctx.user?.id ?? null;
+    return writeSummary(db, userId, input) as Summary;
+  }),
+
+  // Delta sync: summaries saved after `since`
+  changesSince: publicProcedure.input(changesSinceSchema).query(async ({ input, ctx }) => {
+    const userId = ctx.user?.id ?? null;
+    // Taken before reading so rows written during the query are picked up next time
+    const watermark = new Date().toISOString();
+
+    const conditions = [userFilter(userId)];
+    if (input.since) {
+      conditions.push(gt(schema.summaries.updatedAt, input.since));
+    }
+
+    const items = await db
+      .select()
+      .from(schema.summaries)
+      .where(and(...conditions))
+      .orderBy(asc(schema.summaries.updatedAt))
+      .all();
+
+    return { items, watermark };
+  }),
+});
@@ -0,0 +1,223 @@
+import { router, publicProcedure } from "./trpc.js";
+import {
+  pushBatchSchema,
+  upsertEntrySchema,
+  deleteEntrySchema,
+  skipDayOperationSchema,
+  createTemplateSchema,
+  updateTemplateSchema,
+  deleteTemplateSchema,
+  saveSummarySchema,
+  type PushOperationKind,
+  type PushOperationResult,
+  type PushBatchResult,
+  type UpsertEntryInput,
+  type DeleteEntryInput,
+  type SkipDayOperationInput,
+  type CreateTemplateInput,
+  type UpdateTemplateInput,
+  type DeleteTemplateInput,
+  type SaveSummaryInput,
+} from "@til-stack/shared";
+import type { z } from "zod";
+import { db, schema, type DbExecutor } from "../db/index.js";
+import { eq, and, isNull } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import { writeEntry, softDeleteEntry, EntryConflictError, type EntryChange } from "../lib/entries.js";
+import { dispatchEntryEvents } from "../lib/webhook-scheduler.js";
+import { writeSummary } from "../lib/summaries.js";
+
+// Helper to create user filter condition for skipDays (handles null userId for anonymous users)
+function skipDaysUserFilter(userId: string | null) {
+  return userId ? eq(schema.skipDays.userId, userId) : isNull(schema.skipDays.userId);
+}
+
+// Skip days added by hand have no source
+function skipDaySourceFilter(source: string | null) {
+  return source ? eq(schema.skipDays.source, source) : isNull(schema.skipDays.source);
+}
+
+// Helper to create user filter condition for templates (handles null userId for anonymous users)
+function templatesUserFilter(userId: string | null) {
+  return userId ? eq(schema.templates.userId, userId) : isNull(schema.templates.userId);
+}
+
+// Thrown by an operation whose target no longer exists on the server
+// (or, for entries, has changed since the client's base version)
+class OperationConflict extends Error {
+  constructor(
+    message: string,
+    public readonly current?: PushOperationResult["current"]
+  ) {
+    super(message);
+  }
+}
+
+type Operation =
+  | { kind: "entry.upsert"; input: UpsertEntryInput }
+  | { kind: "entry.delete"; input: DeleteEntryInput }
+  | { kind: "skipDay.add"; input: SkipDayOperationInput }
+  | { kind: "skipDay.remove"; input: SkipDayOperationInput }
+  | { kind: "template.create"; input: CreateTemplateInput }
+  | { kind: "template.update"; input: UpdateTemplateInput }
+  | { kind: "template.delete"; input: DeleteTemplateInput }
+  | { kind: "summary.save"; input: SaveSummaryInput };
+
+const inputSchemas: Record<PushOperationKind, z.ZodTypeAny> = {
+  "entry.upsert": upsertEntrySchema,
+  "entry.delete": deleteEntrySchema,
+  "skipDay.add": skipDayOperationSchema,
+  "skipDay.remove": skipDayOperationSchema,
+  "template.create": createTemplateSchema,
+  "template.update": updateTemplateSchema,
+  "template.delete": deleteTemplateSchema,
+  "summary.save": saveSummarySchema,
+};
+
+function findTemplate(tx: DbExecutor, userId: string | null, id: string) {
+  return tx
+    .select()
+    .from(schema.templates)
+    .where(and(eq(schema.templates.id, id), templatesUserFilter(userId)))
+    .get();
+}
+
+/**
+ * Apply a single validated operation. Mirrors the behaviour of the matching
+ * entries/config procedures, but runs synchronously on the batch transaction.
+ * Deleting something that is already gone counts as applied. Entry writes
+ * are appended to `changes` for event webhooks.
+ */
+function applyOperation(
+  tx: DbExecutor,
+  userId: string | null,
+  { kind, input }: Operation,
+  changes: EntryChange[]
+): Partial<PushOperationResult> | void {
+  switch (kind) {
+    case "entry.upsert":
+      try {
+        const entry = writeEntry(tx, userId, input.date, input.content, input.baseUpdatedAt, changes);
+        return { updatedAt: entry.updatedAt };
+      } catch (error) {
+        if (error instanceof EntryConflictError) {
+          const { content, updatedAt } = error.current;
+          throw new OperationConflict(error.message, { content, updatedAt });
+        }
+        throw error;
+      }
+
+    case "entry.delete":
+      softDeleteEntry(tx, userId, input.date, changes);
+      return;
+
+    case "skipDay.add": {
+      const value = String(input.value);
+      const source = input.source ?? null;
+      const existing = tx
+        .select()
+        .from(schema.skipDays)
+        .where(
+          and(
+            eq(schema.skipDays.type, input.type),
+            eq(schema.skipDays.value, value),
+            skipDaySourceFilter(source),
+            skipDaysUserFilter(userId)
+          )
+        )
+        .get();
+      if (!existing) {
+        tx.insert(schema.skipDays)
+          .values({ id: nanoid(), type: input.type, value, source, userId })
+          .run();
+      }
+      return;
+    }
+
+    case "skipDay.remove":
+      // Matched by (type, value, source) since the client may only know its local id
+      tx.delete(schema.skipDays)
+        .where(
+          and(
+            eq(schema.skipDays.type, input.type),
+            eq(schema.skipDays.value, String(input.value)),
+            skipDaySourceFilter(input.source ?? null),
+            skipDaysUserFilter(userId)
+          )
+        )
+        .run();
+      return;
+
+    case "template.create":
+      tx.insert(schema.templates)
+        .values({
+          id: nanoid(),
+          name: input.name,
+          content: input.content,
+          rules: JSON.stringify(input.rules ?? []),
+          userId,
+        })
+        .run();
+      return;
+
+    case "template.update": {
+      const { id, rules, ...updates } = input;
+      if (!findTemplate(tx, userId, id)) {
+        throw new OperationConflict("Template not found");
+      }
+      tx.update(schema.templates)
+        .set({
+          ...updates,
+          ...(rules !== undefined && { rules: JSON.stringify(rules) }),
+          updatedAt: new Date().toISOString(),
+        })
+        .where(eq(schema.templates.id, id))
+        .run();
+      return;
+    }
+
+    case "template.delete":
+      tx.delete(schema.templates)
+        .where(and(eq(schema.templates.id, input.id), templatesUserFilter(userId)))
+        .run();
+      return;
+
+    case "summary.save":
+      writeSummary(tx, userId, input);
+      return;
+  }
+}
+
+export const syncRouter = router({
+  // Replay queued offline operations in order inside a single transaction.
+  // Conflicting or invalid operations are reported per operation and skipped;
+  // any other error rolls back the whole batch.
+  pushBatch: publicProcedure
+    .input(pushBatchSchema)
+    .mutation(async ({ input, ctx }): Promise<PushBatchResult> => {
+      const userId = ctx.user?.id ?? null;
+      const changes: EntryChange[] = [];
+
+      const results = db.transaction((tx) =>
+        input.operations.map(({ opId, kind, input: opInput }): PushOperationResult => {
+          const parsed = inputSchemas[kind].safeParse(opInput);
+          if (!parsed.success) {
+            return { opId, status: "rejected", error: parsed.error.issues[0]?.message };
+          }
+
+          try {
+            const extra = applyOperation(tx, userId, { kind, input: parsed.data } as Operation, changes);
+            return { ...extra, opId, status: "applied" };
+          } catch (error) {
+            if (error instanceof OperationConflict) {
+              return { opId, status: "conflict", error: error.message, current: error.current };
+            }
+            throw error;
+          }
+        })
+      );
+
+      dispatchEntryEvents(userId, changes);
+      return { results };
+    }),
+});
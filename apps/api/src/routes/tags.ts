@@ -0,0 +1,25 @@
+import { router, publicProcedure } from "./trpc.js";
+import type { TagCount } from "@til-stack/shared";
+import { db, schema } from "../db/index.js";
+import { eq, and, isNull, asc, desc, count } from "drizzle-orm";
+
+// Helper to create user filter condition for entry tags (handles null userId for anonymous users)
+function entryTagsUserFilter(userId: string | null | undefined) {
+  return userId ? eq(schema.entryTags.userId, userId) : isNull(schema.entryTags.userId);
+}
+
+export const tagsRouter = router({
+  // All tags used by the current user, most used first
+  list: publicProcedure.query(async ({ ctx }): Promise<TagCount[]> => {
+    const userId = ctx.user?.id ?? null;
+    const entryCount = count(schema.entryTags.entryId);
+    return db
+      .select({ tag: schema.entryTags.tag, count: entryCount })
+      .from(schema.entryTags)
+      .innerJoin(schema.entries, eq(schema.entries.id, schema.entryTags.entryId))
+      .where(and(entryTagsUserFilter(userId), isNull(schema.entries.deletedAt)))
+      .groupBy(schema.entryTags.tag)
+      .orderBy(desc(entryCount), asc(schema.entryTags.tag))
+      .all();
+  }),
+});
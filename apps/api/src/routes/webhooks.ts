@@ -4,7 +4,10 @@ import {
   updateWebhookSchema,
   deleteWebhookSchema,
   testWebhookSchema,
-  type DayOfWeek,
+  webhookDeliveriesSchema,
+  webhookSecretSchema,
+  rotateWebhookSecretSchema,
+  changesSinceSchema,
 } from "@til-stack/shared";
 import { db, schema } from "../db/index.js";
 import { eq, count, and, isNull } from "drizzle-orm";
@@ -14,6 +17,9 @@ import {
   cancelWebhook,
   testWebhook,
 } from "../lib/webhook-scheduler.js";
+import { listDeliveries, deleteDeliveries } from "../lib/webhook-deliveries.js";
+import { generateWebhookSecret } from "../lib/webhook-signature.js";
+import { toWebhookConfig, toSchedulerConfig } from "../lib/webhooks.js";
 
 // Helper to create user filter condition for webhooks (handles null userId for anonymous users)
 function webhooksUserFilter(userId: string | null | undefined) {
@@ -23,31 +29,6 @@ function webhooksUserFilter(userId: string | null | undefined) {
 // Maximum number of webhooks allowed (to prevent abuse)
 const MAX_WEBHOOKS = 5;
 
-// Helper to parse days from DB JSON string
-function parseDays(daysJson: string): DayOfWeek[] {
-  try {
-    return JSON.parse(daysJson) as DayOfWeek[];
-  } catch {
-    return [];
-  }
-}
-
-// Helper to convert DB row to webhook config
-function toWebhookConfig(row: typeof schema.webhooks.$inferSelect) {
-  return {
-    id: row.id,
-    name: row.name,
-    url: row.url,
-    message: row.message,
-    time: row.time,
-    days: parseDays(row.days),
-    timezone: row.timezone,
-    enabled: row.enabled,
-    createdAt: row.createdAt,
-    updatedAt: row.updatedAt,
-  };
-}
-
 export const webhooksRouter = router({
   // List all webhooks for the current user
   list: publicProcedure.query(async ({ ctx }) => {
@@ -60,6 +41,24 @@ export const webhooksRouter = router({
     return rows.map(toWebhookConfig);
   }),
 
+  // Delta sync: webhooks updated after `since`, plus ids of all live webhooks
+  changesSince: publicProcedure
+    .input(changesSinceSchema)
+    .query(async ({ input, ctx }) => {
+      const userId = ctx.user?.id ?? null;
+      const watermark = new Date().toISOString();
+      const rows = await db
+        .select()
+        .from(schema.webhooks)
+        .where(webhooksUserFilter(userId))
+        .all();
+
+      const items = input.since
+        ? rows.filter((row) => row.updatedAt > input.since!)
+        : rows;
+      return { items: items.map(toWebhookConfig), ids: rows.map((row) => row.id), watermark };
+    }),
+
   // Create a new webhook for the current user
   create: publicProcedure
     .input(createWebhookSchema)
@@ -84,22 +83,28 @@ export const webhooksRouter = router({
           id,
           name: input.name,
           url: input.url,
+          type: input.type,
           message: input.message,
           time: input.time,
           days: JSON.stringify(input.days),
           timezone: input.timezone,
           enabled: input.enabled,
+          format: input.format,
+          onlyIfNoEntry: input.onlyIfNoEntry,
+          respectSkipDays: input.respectSkipDays,
+          events: JSON.stringify(input.events),
+          includeContent: input.includeContent,
+          digestWeek: input.digestWeek,
+          secret: generateWebhookSecret(),
           userId,
         })
         .returning()
         .get();
 
-      const webhook = toWebhookConfig(row);
-
       // Schedule the job
-      scheduleWebhook(webhook);
+      scheduleWebhook(toSchedulerConfig(row));
 
-      return webhook;
+      return toWebhookConfig(row);
     }),
 
   // Update an existing webhook (only if owned by user)
@@ -107,7 +112,7 @@ export const webhooksRouter = router({
     .input(updateWebhookSchema)
     .mutation(async ({ input, ctx }) => {
       const userId = ctx.user?.id ?? null;
-      const { id, days, ...updates } = input;
+      const { id, days, events, ...updates } = input;
 
       const updateData: Record<string, unknown> = {
         ...updates,
@@ -117,6 +122,14 @@ export const webhooksRouter = router({
       if (days !== undefined) {
         updateData.days = JSON.stringify(days);
       }
+      if (events !== undefined) {
+        updateData.events = JSON.stringify(events);
+      }
+
+      // Re-enabling starts a fresh failure streak
+      if (updates.enabled) {
+        updateData.consecutiveFailures = 0;
+      }
 
       const row = await db
         .update(schema.webhooks)
@@ -134,12 +147,10 @@ export const webhooksRouter = router({
         throw new Error("Webhook not found");
       }
 
-      const webhook = toWebhookConfig(row);
-
-      // Reschedule the job (cancel + schedule)
-      scheduleWebhook(webhook);
+      // Reschedule the job (its next run follows the new schedule)
+      scheduleWebhook(toSchedulerConfig(row));
 
-      return webhook;
+      return toWebhookConfig(row);
     }),
 
   // Delete a webhook (only if owned by user)
@@ -147,17 +158,20 @@ export const webhooksRouter = router({
     .input(deleteWebhookSchema)
     .mutation(async ({ input, ctx }) => {
       const userId = ctx.user?.id ?? null;
-      // Cancel the scheduled job first
-      cancelWebhook(input.id);
-
-      await db
+      const deleted = await db
         .delete(schema.webhooks)
         .where(
           and(
             eq(schema.webhooks.id, input.id),
             webhooksUserFilter(userId)
           )
-        );
+        )
+        .returning({ id: schema.webhooks.id });
+      // Only cancel the job of a webhook the caller actually owned
+      if (deleted.length > 0) {
+        cancelWebhook(input.id);
+        deleteDeliveries(input.id);
+      }
 
       return { success: true };
     }),
@@ -182,9 +196,81 @@ export const webhooksRouter = router({
         throw new Error("Webhook not found");
       }
 
-      const webhook = toWebhookConfig(row);
-      const success = await testWebhook(webhook);
+      const success = await testWebhook(toSchedulerConfig(row));
 
       return { success };
     }),
+
+  // Recent send attempts (server-only; each retry is listed separately)
+  deliveries: publicProcedure
+    .input(webhookDeliveriesSchema)
+    .query(async ({ input, ctx }) => {
+      const userId = ctx.user?.id ?? null;
+      const row = await db
+        .select()
+        .from(schema.webhooks)
+        .where(
+          and(
+            eq(schema.webhooks.id, input.id),
+            webhooksUserFilter(userId)
+          )
+        )
+        .get();
+
+      if (!row) {
+        throw new Error("Webhook not found");
+      }
+
+      return {
+        items: listDeliveries(row.id, input.limit),
+        consecutiveFailures: row.consecutiveFailures,
+      };
+    }),
+
+  // Signing secret for verifying requests (server-only; never synced to clients)
+  secret: publicProcedure
+    .input(webhookSecretSchema)
+    .query(async ({ input, ctx }) => {
+      const userId = ctx.user?.id ?? null;
+      const row = await db
+        .select({ secret: schema.webhooks.secret })
+        .from(schema.webhooks)
+        .where(
+          and(
+            eq(schema.webhooks.id, input.id),
+            webhooksUserFilter(userId)
+          )
+        )
+        .get();
+
+      if (!row) {
+        throw new Error("Webhook not found");
+      }
+      return { secret: row.secret };
+    }),
+
+  // Replace the signing secret; requests signed with the old one stop verifying
+  rotateSecret: publicProcedure
+    .input(rotateWebhookSecretSchema)
+    .mutation(async ({ input, ctx }) => {
+      const userId = ctx.user?.id ?? null;
+      const row = await db
+        .update(schema.webhooks)
+        .set({ secret: generateWebhookSecret() })
+        .where(
+          and(
+            eq(schema.webhooks.id, input.id),
+            webhooksUserFilter(userId)
+          )
+        )
+        .returning()
+        .get();
+
+      if (!row) {
+        throw new Error("Webhook not found");
+      }
+
+      // Sends load the webhook when they run, so they pick up the new secret
+      return { secret: row.secret };
+    }),
 });
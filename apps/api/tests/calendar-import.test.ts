@@ -0,0 +1,174 @@
+/**
+ * Calendar Import Test
+ * Tests parseIcs and icsToSkipDays from @til-stack/shared, and importing a
+ * calendar through config.importSkipDaysIcs
+ *
+ * Run: pnpm tsx tests/calendar-import.test.ts
+ * Uses a temporary database, no server needed
+ */
+
+import assert from "node:assert/strict";
+import {
+  ICS_MAX_COUNT_RULES,
+  icsSourceName,
+  icsToSkipDays,
+  parseIcs,
+  SKIP_DAY_SOURCE_MAX_LENGTH,
+  toSkipDayRecurrence,
+} from "@til-stack/shared";
+import { asUser, createTestDatabase, finish, test } from "./helpers.js";
+
+createTestDatabase();
+const { appRouter } = await import("../src/routes/index.js");
+
+const alice = appRouter.createCaller(asUser("alice"));
+
+function calendar(name: string | null, ...events: string[][]): string {
+  return [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    ...(name ? [`X-WR-CALNAME:${name}`] : []),
+    ...events.flatMap((lines) => ["BEGIN:VEVENT", ...lines, "END:VEVENT"]),
+    "END:VCALENDAR",
+  ].join("\r\n");
+}
+
+const HOLIDAYS = calendar(
+  "Holidays\\, UK",
+  ["SUMMARY:New Year's Day", "DTSTART;VALUE=DATE:20240101", "DTEND;VALUE=DATE:20240102"],
+  ["SUMMARY:Easter", "DTSTART;VALUE=DATE:20240329", "DTEND;VALUE=DATE:20240402"],
+  ["SUMMARY:Offsite", "DTSTART:20240610T090000Z", "DTEND:20240612T170000Z"],
+  ["SUMMARY:Retreat", "DTSTART;VALUE=DATE:20240701", "DURATION:P3D"],
+  ["SUMMARY:Team lunch", "DTSTART:20240301T120000Z", "RRULE:FREQ=WEEKLY;BYDAY=FR;COUNT=3;WKST=MO"],
+  ["SUMMARY:Odd rule", "DTSTART;VALUE=DATE:20240105", "RRULE:FREQ=MONTHLY;BYSETPOS=-1;BYDAY=FR"],
+  ["SUMMARY:Called off", "STATUS:CANCELLED", "DTSTART;VALUE=DATE:20240801"],
+  ["SUMMARY:No date"]
+);
+
+async function runTests() {
+  console.log("=".repeat(70));
+  console.log("CALENDAR IMPORT TEST SUITE");
+  console.log("=".repeat(70));
+
+  await test("Events are read with all-day ends made inclusive", () => {
+    const parsed = parseIcs(HOLIDAYS);
+    assert.equal(parsed.name, "Holidays, UK");
+    assert.deepEqual(
+      parsed.events.map((e) => [e.summary, e.start, e.end]),
+      [
+        ["New Year's Day", "2024-01-01", "2024-01-01"],
+        ["Easter", "2024-03-29", "2024-04-01"],
+        ["Offsite", "2024-06-10", "2024-06-12"],
+        ["Retreat", "2024-07-01", "2024-07-03"],
+        ["Team lunch", "2024-03-01", "2024-03-01"],
+        ["Odd rule", "2024-01-05", "2024-01-05"],
+      ]
+    );
+    return "cancelled and undated events dropped";
+  });
+
+  await test("Folded lines and escaped text are unfolded", () => {
+    const parsed = parseIcs(
+      "BEGIN:VEVENT\nSUMMARY:A very long\n  summary\\; with\\nbreaks\nDTSTART:20240101\nEND:VEVENT\n"
+    );
+    assert.equal(parsed.events[0].summary, "A very long summary; with\nbreaks");
+    assert.equal(parsed.name, null);
+  });
+
+  await test("Events become dates, ranges and recurrences", () => {
+    assert.deepEqual(icsToSkipDays(parseIcs(HOLIDAYS)), [
+      { type: "specific_date", value: "2024-01-01" },
+      { type: "date_range", value: "2024-03-29/2024-04-01" },
+      { type: "date_range", value: "2024-06-10/2024-06-12" },
+      { type: "date_range", value: "2024-07-01/2024-07-03" },
+      // COUNT becomes UNTIL (the third Friday), WKST is dropped
+      { type: "rrule", value: "FREQ=WEEKLY;BYDAY=FR;DTSTART=20240301;UNTIL=20240315" },
+      // Unsupported rules only skip the first occurrence
+      { type: "specific_date", value: "2024-01-05" },
+    ]);
+  });
+
+  await test("COUNT becomes the date of the last occurrence", () => {
+    assert.equal(
+      toSkipDayRecurrence("FREQ=YEARLY;COUNT=3", "2024-02-29"),
+      "FREQ=YEARLY;DTSTART=20240229;UNTIL=20320229"
+    );
+    assert.equal(
+      toSkipDayRecurrence("FREQ=MONTHLY;BYMONTHDAY=-1;COUNT=2", "2024-01-15"),
+      "FREQ=MONTHLY;BYMONTHDAY=-1;DTSTART=20240115;UNTIL=20240229"
+    );
+    assert.equal(
+      toSkipDayRecurrence("FREQ=DAILY;INTERVAL=2;BYMONTH=3;COUNT=20", "2024-03-01"),
+      "FREQ=DAILY;INTERVAL=2;BYMONTH=3;DTSTART=20240301;UNTIL=20250308"
+    );
+  });
+
+  await test("A COUNT that is never reached only skips the first occurrence", () => {
+    const started = Date.now();
+    const events = Array.from({ length: 20 }, (_, i) => [
+      `SUMMARY:Never ${i}`,
+      `DTSTART;VALUE=DATE:${2000 + i}0201`,
+      "RRULE:FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=30;COUNT=5",
+    ]);
+    const skipDays = icsToSkipDays(parseIcs(calendar(null, ...events)));
+    assert.ok(skipDays.every((s) => s.type === "specific_date"), "no open-ended rules");
+    const elapsed = Date.now() - started;
+    assert.ok(elapsed < 200, `took ${elapsed}ms`);
+    return `20 events in ${elapsed}ms`;
+  });
+
+  await test(`Only the first ${ICS_MAX_COUNT_RULES} COUNT rules are expanded`, () => {
+    const events = Array.from({ length: ICS_MAX_COUNT_RULES + 1 }, (_, i) => [
+      `DTSTART;VALUE=DATE:2024${String((i % 12) + 1).padStart(2, "0")}${String(Math.floor(i / 12) + 1).padStart(2, "0")}`,
+      "RRULE:FREQ=WEEKLY;COUNT=2",
+    ]);
+    const types = icsToSkipDays(parseIcs(calendar(null, ...events))).map((s) => s.type);
+    assert.equal(types.filter((t) => t === "rrule").length, ICS_MAX_COUNT_RULES);
+    assert.equal(types[ICS_MAX_COUNT_RULES], "specific_date");
+  });
+
+  await test("Repeated events are imported once", () => {
+    const event = ["SUMMARY:Bank holiday", "DTSTART;VALUE=DATE:20240506"];
+    assert.equal(icsToSkipDays(parseIcs(calendar(null, event, event))).length, 1);
+  });
+
+  await test("The source is the given name, else the calendar's, capped in length", () => {
+    const parsed = parseIcs(HOLIDAYS);
+    assert.equal(icsSourceName("  Bank holidays ", parsed), "Bank holidays");
+    assert.equal(icsSourceName(undefined, parsed), "Holidays, UK");
+    assert.equal(icsSourceName(" ", { name: null, events: [] }), "Imported calendar");
+    assert.equal(icsSourceName(null, { name: "x".repeat(250), events: [] }).length, SKIP_DAY_SOURCE_MAX_LENGTH);
+  });
+
+  await test("Importing tags the skip days with a source sync can send back", async () => {
+    const longName = `Company calendar ${"x".repeat(150)}`;
+    const ics = calendar(longName, ["SUMMARY:Founders day", "DTSTART;VALUE=DATE:20240920"]);
+    const result = await alice.config.importSkipDaysIcs({ ics });
+    assert.equal(result.source, longName.slice(0, SKIP_DAY_SOURCE_MAX_LENGTH));
+    assert.equal(result.skipDays, 1);
+
+    // An offline client removing the imported day sends the source it was given
+    const { results } = await alice.sync.pushBatch({
+      operations: [
+        { opId: "1", kind: "skipDay.remove", input: { type: "specific_date", value: "2024-09-20", source: result.source } },
+      ],
+    });
+    assert.equal(results[0].status, "applied");
+    assert.deepEqual((await alice.config.skipDaysChangesSince({})).items, []);
+    return `source cut to ${result.source.length} characters`;
+  });
+
+  await test("A calendar without events is refused as a bad request", async () => {
+    await assert.rejects(alice.config.importSkipDaysIcs({ ics: calendar("Empty") }), {
+      code: "BAD_REQUEST",
+      message: "No events found in calendar",
+    });
+  });
+
+  finish("CALENDAR IMPORT");
+}
+
+runTests().catch((e) => {
+  console.error("Test suite failed:", e);
+  process.exit(1);
+});
@@ -0,0 +1,115 @@
+/**
+ * Delta Sync Test
+ * Tests the changesSince watermarks: full sync, empty deltas, updates and
+ * tombstones, user isolation, and migrated local data reaching other devices
+ *
+ * Run: pnpm tsx tests/changes-since.test.ts
+ * Uses a temporary database, no server needed
+ */
+
+import assert from "node:assert/strict";
+import { asUser, createTestDatabase, delay, finish, test } from "./helpers.js";
+
+createTestDatabase();
+const { appRouter } = await import("../src/routes/index.js");
+
+const alice = appRouter.createCaller(asUser("alice"));
+const bob = appRouter.createCaller(asUser("bob"));
+
+// Client timestamps from a device that was offline for a long time
+const OLD_TIMESTAMP = "2020-01-01T00:00:00.000Z";
+
+async function runTests() {
+  console.log("=".repeat(70));
+  console.log("DELTA SYNC TEST SUITE");
+  console.log("=".repeat(70));
+
+  let watermark = "";
+
+  await test("A full sync returns every entry, tombstones included", async () => {
+    await alice.entries.upsert({ date: "2024-04-01", content: "one" });
+    await delay(5);
+    await alice.entries.upsert({ date: "2024-04-02", content: "two" });
+    await delay(5);
+    await alice.entries.delete({ date: "2024-04-02" });
+    await delay(5);
+
+    const result = await alice.entries.changesSince({});
+    assert.deepEqual(result.items.map((e) => [e.date, e.deletedAt !== null]), [
+      ["2024-04-01", false],
+      ["2024-04-02", true],
+    ]);
+    assert.ok(result.watermark >= result.items[1].updatedAt, "watermark is after the last change");
+    watermark = result.watermark;
+    return `${result.items.length} entries, watermark ${watermark}`;
+  });
+
+  await test("Nothing changed since the watermark returns no entries", async () => {
+    await delay(5);
+    const result = await alice.entries.changesSince({ since: watermark });
+    assert.deepEqual(result.items, []);
+    assert.ok(result.watermark > watermark, "watermark moves forward");
+    return "empty delta";
+  });
+
+  await test("Only entries updated or deleted after the watermark are returned", async () => {
+    await delay(5);
+    await alice.entries.upsert({ date: "2024-04-03", content: "three" });
+    await alice.entries.upsert({ date: "2024-04-01", content: "one, edited" });
+    await alice.entries.delete({ date: "2024-04-03" });
+
+    const result = await alice.entries.changesSince({ since: watermark });
+    const byDate = new Map(result.items.map((e) => [e.date, e]));
+    assert.deepEqual([...byDate.keys()].sort(), ["2024-04-01", "2024-04-03"]);
+    assert.equal(byDate.get("2024-04-01")!.content, "one, edited");
+    assert.ok(byDate.get("2024-04-03")!.deletedAt, "tombstone included");
+    watermark = result.watermark;
+    return "1 update and 1 tombstone";
+  });
+
+  await test("Other users' changes are not included", async () => {
+    await delay(5);
+    await bob.entries.upsert({ date: "2024-04-01", content: "bob's day" });
+
+    const aliceDelta = await alice.entries.changesSince({ since: watermark });
+    assert.deepEqual(aliceDelta.items, []);
+    const bobFull = await bob.entries.changesSince({});
+    assert.deepEqual(bobFull.items.map((e) => e.content), ["bob's day"]);
+    return "deltas are per user";
+  });
+
+  await test("Migrated local data is seen by other devices' next delta", async () => {
+    const device = await alice.entries.changesSince({});
+    const skipDays = await alice.config.skipDaysChangesSince({});
+    const templates = await alice.config.templatesChangesSince({});
+    await delay(5);
+
+    await alice.auth.migrateData({
+      entries: [
+        { id: "local-1", date: "2024-04-05", content: "written offline", createdAt: OLD_TIMESTAMP, updatedAt: OLD_TIMESTAMP },
+      ],
+      skipDays: [{ id: "local-2", type: "weekday", value: "0", createdAt: OLD_TIMESTAMP }],
+      templates: [
+        { id: "local-3", name: "Offline", content: "## Notes", rules: [], createdAt: OLD_TIMESTAMP, updatedAt: OLD_TIMESTAMP },
+      ],
+    });
+
+    const entryDelta = await alice.entries.changesSince({ since: device.watermark });
+    assert.deepEqual(entryDelta.items.map((e) => e.date), ["2024-04-05"]);
+    assert.equal(entryDelta.items[0].createdAt, OLD_TIMESTAMP, "createdAt is kept");
+
+    const skipDayDelta = await alice.config.skipDaysChangesSince({ since: skipDays.watermark });
+    assert.deepEqual(skipDayDelta.items.map((s) => [s.type, s.value]), [["weekday", "0"]]);
+
+    const templateDelta = await alice.config.templatesChangesSince({ since: templates.watermark });
+    assert.deepEqual(templateDelta.items.map((t) => t.name), ["Offline"]);
+    return "entry, skip day and template stamped with server time";
+  });
+
+  finish("DELTA SYNC");
+}
+
+runTests().catch((e) => {
+  console.error("Test suite failed:", e);
+  process.exit(1);
+});
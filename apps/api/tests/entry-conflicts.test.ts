@@ -0,0 +1,113 @@
+/**
+ * Entry Conflict Detection Test
+ * Tests baseUpdatedAt on entries.upsert and sync.pushBatch: edits based on
+ * an outdated version are refused, everything else goes through
+ *
+ * Run: pnpm tsx tests/entry-conflicts.test.ts
+ * Uses a temporary database, no server needed
+ */
+
+import assert from "node:assert/strict";
+import { asUser, createTestDatabase, delay, finish, test } from "./helpers.js";
+
+createTestDatabase();
+const { appRouter } = await import("../src/routes/index.js");
+
+const alice = appRouter.createCaller(asUser("alice"));
+
+async function runTests() {
+  console.log("=".repeat(70));
+  console.log("ENTRY CONFLICT TEST SUITE");
+  console.log("=".repeat(70));
+
+  let base = "";
+
+  await test("An edit based on the current version is written", async () => {
+    const created = await alice.entries.upsert({ date: "2024-06-01", content: "laptop" });
+    await delay(5);
+    const updated = await alice.entries.upsert({
+      date: "2024-06-01",
+      content: "laptop, edited",
+      baseUpdatedAt: created.updatedAt,
+    });
+    assert.equal(updated.content, "laptop, edited");
+    assert.notEqual(updated.updatedAt, created.updatedAt);
+    base = created.updatedAt;
+    return "written";
+  });
+
+  await test("An edit based on an outdated version is refused", async () => {
+    await delay(5);
+    await assert.rejects(
+      alice.entries.upsert({ date: "2024-06-01", content: "phone", baseUpdatedAt: base }),
+      (error: any) => error.code === "CONFLICT" && /changed on another device/.test(error.message)
+    );
+    const entry = await alice.entries.getByDate({ date: "2024-06-01" });
+    assert.equal(entry?.content, "laptop, edited");
+    return "rejected with CONFLICT";
+  });
+
+  await test("An outdated edit with the same content is not a conflict", async () => {
+    const entry = await alice.entries.upsert({
+      date: "2024-06-01",
+      content: "laptop, edited",
+      baseUpdatedAt: base,
+    });
+    assert.equal(entry.content, "laptop, edited");
+    return "accepted";
+  });
+
+  await test("Without baseUpdatedAt the edit overwrites", async () => {
+    await delay(5);
+    const entry = await alice.entries.upsert({ date: "2024-06-01", content: "phone wins" });
+    assert.equal(entry.content, "phone wins");
+    return "last write wins";
+  });
+
+  await test("An edit to a deleted entry is not a conflict", async () => {
+    const created = await alice.entries.upsert({ date: "2024-06-02", content: "before" });
+    await delay(5);
+    await alice.entries.delete({ date: "2024-06-02" });
+    await delay(5);
+    const entry = await alice.entries.upsert({
+      date: "2024-06-02",
+      content: "after",
+      baseUpdatedAt: created.updatedAt,
+    });
+    assert.equal(entry.content, "after");
+    assert.equal((await alice.entries.getByDate({ date: "2024-06-02" }))?.content, "after", "undeleted");
+    return "tombstones don't conflict";
+  });
+
+  await test("Batch push reports the server version, and a retry on it applies", async () => {
+    const current = await alice.entries.getByDate({ date: "2024-06-01" });
+    await delay(5);
+    const { results } = await alice.sync.pushBatch({
+      operations: [
+        { opId: "1", kind: "entry.upsert", input: { date: "2024-06-01", content: "offline edit", baseUpdatedAt: base } },
+      ],
+    });
+    assert.equal(results[0].status, "conflict");
+    assert.deepEqual(results[0].current, { content: current!.content, updatedAt: current!.updatedAt });
+
+    const retry = await alice.sync.pushBatch({
+      operations: [
+        {
+          opId: "2",
+          kind: "entry.upsert",
+          input: { date: "2024-06-01", content: "merged edit", baseUpdatedAt: results[0].current!.updatedAt },
+        },
+      ],
+    });
+    assert.equal(retry.results[0].status, "applied");
+    assert.equal((await alice.entries.getByDate({ date: "2024-06-01" }))?.content, "merged edit");
+    return "conflict carried the server version";
+  });
+
+  finish("ENTRY CONFLICT");
+}
+
+runTests().catch((e) => {
+  console.error("Test suite failed:", e);
+  process.exit(1);
+});
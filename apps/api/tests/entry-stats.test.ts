@@ -0,0 +1,109 @@
+/**
+ * Entry Stats Test
+ * Tests computeEntryStats from @til-stack/shared: streaks, skip days,
+ * completion rate and the per-weekday/per-month breakdowns
+ *
+ * Run: pnpm tsx tests/entry-stats.test.ts
+ * No server or database needed
+ */
+
+import assert from "node:assert/strict";
+import { buildSkipDaysRules, computeEntryStats } from "@til-stack/shared";
+import { finish, test } from "./helpers.js";
+
+const NO_SKIP_DAYS = buildSkipDaysRules([]);
+
+function entriesOn(...dates: string[]) {
+  return dates.map((date) => ({ date, content: `notes for ${date}` }));
+}
+
+async function runTests() {
+  console.log("=".repeat(70));
+  console.log("ENTRY STATS TEST SUITE");
+  console.log("=".repeat(70));
+
+  await test("No entries gives empty stats", () => {
+    assert.deepEqual(computeEntryStats([], NO_SKIP_DAYS, "2024-01-07"), {
+      currentStreak: 0,
+      longestStreak: 0,
+      totalEntries: 0,
+      averageLength: 0,
+      completionRate: 0,
+      byWeekday: [0, 0, 0, 0, 0, 0, 0],
+      byMonth: [],
+      activity: [],
+    });
+  });
+
+  await test("A missed day breaks the streak; today only counts once written", () => {
+    // Mon 1st - Sat 6th, Thursday missed, today is Sunday the 7th
+    const entries = entriesOn("2024-01-01", "2024-01-02", "2024-01-03", "2024-01-05", "2024-01-06");
+
+    const beforeWriting = computeEntryStats(entries, NO_SKIP_DAYS, "2024-01-07");
+    assert.equal(beforeWriting.currentStreak, 2);
+    assert.equal(beforeWriting.longestStreak, 3);
+    assert.equal(beforeWriting.completionRate, 5 / 6);
+
+    const afterWriting = computeEntryStats([...entries, ...entriesOn("2024-01-07")], NO_SKIP_DAYS, "2024-01-07");
+    assert.equal(afterWriting.currentStreak, 3);
+    assert.equal(afterWriting.completionRate, 6 / 7);
+
+    const dayAfter = computeEntryStats(entries, NO_SKIP_DAYS, "2024-01-08");
+    assert.equal(dayAfter.currentStreak, 0, "yesterday was missed");
+    return "current 2, longest 3";
+  });
+
+  await test("Skip days neither break the streak nor count against completion", () => {
+    const entries = entriesOn("2024-01-01", "2024-01-02", "2024-01-03", "2024-01-05", "2024-01-06");
+    const thursdays = buildSkipDaysRules([{ type: "weekday", value: "4" }]);
+
+    const stats = computeEntryStats(entries, thursdays, "2024-01-07");
+    assert.equal(stats.currentStreak, 5);
+    assert.equal(stats.longestStreak, 5);
+    assert.equal(stats.completionRate, 1);
+    return "streak of 5 across a skipped Thursday";
+  });
+
+  await test("An entry written on a skip day still extends the streak", () => {
+    // Sat 6th, Sun 7th (skipped) and Mon 8th (today)
+    const entries = entriesOn("2024-01-06", "2024-01-07", "2024-01-08");
+    const weekends = buildSkipDaysRules([
+      { type: "specific_date", value: "2024-01-07" },
+      { type: "date_range", value: "2024-01-06/2024-01-06" },
+    ]);
+
+    const stats = computeEntryStats(entries, weekends, "2024-01-08");
+    assert.equal(stats.currentStreak, 3);
+    assert.equal(stats.completionRate, 1, "only Monday was expected");
+    return "streak of 3";
+  });
+
+  await test("Breakdowns cover every month up to today", () => {
+    const entries = [
+      { date: "2023-11-15", content: "1234" }, // Wednesday
+      { date: "2024-01-03", content: "123456" }, // Wednesday
+      { date: "2024-01-07", content: "12345678" }, // Sunday
+    ];
+
+    const stats = computeEntryStats(entries, NO_SKIP_DAYS, "2024-03-10");
+    assert.equal(stats.totalEntries, 3);
+    assert.equal(stats.averageLength, 6);
+    assert.deepEqual(stats.byWeekday, [1, 0, 0, 2, 0, 0, 0]);
+    assert.deepEqual(stats.byMonth, [
+      { month: "2023-11", count: 1 },
+      { month: "2023-12", count: 0 },
+      { month: "2024-01", count: 2 },
+      { month: "2024-02", count: 0 },
+      { month: "2024-03", count: 0 },
+    ]);
+    assert.deepEqual(stats.activity.map((a) => a.length), [4, 6, 8]);
+    return "5 months, 3 weekdays";
+  });
+
+  finish("ENTRY STATS");
+}
+
+runTests().catch((e) => {
+  console.error("Test suite failed:", e);
+  process.exit(1);
+});
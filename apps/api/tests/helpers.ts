@@ -0,0 +1,100 @@
+/**
+ * Shared setup for the suites that run in-process against a throwaway
+ * database, so they don't need an API server.
+ *
+ * Run them all: pnpm test
+ */
+
+import Database from "better-sqlite3";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+
+export interface TestResult {
+  name: string;
+  status: "PASS" | "FAIL";
+  details: string;
+}
+
+const results: TestResult[] = [];
+const DRIZZLE_DIR = fileURLToPath(new URL("../drizzle/", import.meta.url));
+
+export function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Create a temporary database with every migration applied, and point
+ * DATABASE_PATH at it. Call before importing anything from src/, since
+ * the db module opens the database when it is first imported.
+ */
+export function createTestDatabase(): Database.Database {
+  const dir = mkdtempSync(join(tmpdir(), "til-api-test-"));
+  const path = join(dir, "test.db");
+  const sqlite = new Database(path);
+
+  // Same statements the migrator runs, in journal order
+  const journal = JSON.parse(readFileSync(join(DRIZZLE_DIR, "meta/_journal.json"), "utf8"));
+  for (const { tag } of journal.entries as { tag: string }[]) {
+    const sql = readFileSync(join(DRIZZLE_DIR, `${tag}.sql`), "utf8");
+    for (const statement of sql.split("--> statement-breakpoint")) {
+      if (statement.trim()) sqlite.exec(statement);
+    }
+  }
+
+  process.env.DATABASE_PATH = path;
+  process.on("exit", () => {
+    sqlite.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+  return sqlite;
+}
+
+/**
+ * tRPC context for a signed-in user. Nothing references the users table,
+ * so no row is needed.
+ */
+export function asUser(id: string) {
+  return { user: { id, googleId: `google-${id}` } };
+}
+
+/**
+ * Run one test, recording a PASS with the returned details or a FAIL with
+ * the error (e.g. a failed `assert`)
+ */
+export async function test(name: string, fn: () => string | void | Promise<string | void>) {
+  console.log(`\n[TEST ${results.length + 1}] ${name}`);
+  try {
+    const details = (await fn()) || "OK";
+    results.push({ name, status: "PASS", details });
+    console.log(`  ✓ ${details}`);
+  } catch (e: any) {
+    results.push({ name, status: "FAIL", details: e.message });
+    console.log(`  ✗ ${e.message}`);
+  }
+}
+
+/**
+ * Print the results and exit non-zero if any test failed
+ */
+export function finish(suite: string): never {
+  console.log("\n" + "=".repeat(70));
+  console.log(`${suite} TEST RESULTS`);
+  console.log("=".repeat(70));
+
+  let passed = 0,
+    failed = 0;
+  for (const result of results) {
+    console.log(`${result.status === "PASS" ? "✅" : "❌"} ${result.name}: ${result.status}`);
+    console.log(`   ${result.details}`);
+    if (result.status === "PASS") passed++;
+    else failed++;
+  }
+
+  console.log("\n" + "-".repeat(70));
+  console.log(`Total: ${results.length} | ✅ Pass: ${passed} | ❌ Fail: ${failed}`);
+  console.log("-".repeat(70));
+
+  process.exit(failed > 0 ? 1 : 0);
+}
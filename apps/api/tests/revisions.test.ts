@@ -0,0 +1,161 @@
+/**
+ * Entry Revisions Test
+ * Tests entries.history and entries.restoreRevision: restoring content,
+ * undeleting (and the webhook events it sends), tags, user isolation and
+ * rollback when a write fails
+ *
+ * Run: pnpm tsx tests/revisions.test.ts
+ * Uses a temporary database and a local receiver, no server needed
+ */
+
+import assert from "node:assert/strict";
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { asUser, createTestDatabase, delay, finish, test } from "./helpers.js";
+
+const sqlite = createTestDatabase();
+const { appRouter } = await import("../src/routes/index.js");
+
+const alice = appRouter.createCaller(asUser("alice"));
+const bob = appRouter.createCaller(asUser("bob"));
+
+// Event webhook requests, by event
+const events: string[] = [];
+const receiver = createServer((req, res) => {
+  events.push(String(req.headers["x-til-event"]));
+  req.resume();
+  req.on("end", () => res.end("ok"));
+});
+await new Promise<void>((resolve) => receiver.listen(0, "127.0.0.1", resolve));
+const receiverUrl = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/hook`;
+
+// Wait for the event webhooks sent after a write to arrive
+async function sentEvents(count: number): Promise<string[]> {
+  for (let i = 0; i < 50 && events.length < count; i++) await delay(20);
+  return events.splice(0);
+}
+
+async function runTests() {
+  console.log("=".repeat(70));
+  console.log("ENTRY REVISIONS TEST SUITE");
+  console.log("=".repeat(70));
+
+  await test("Every write is recorded in history, newest first", async () => {
+    await alice.entries.upsert({ date: "2024-03-01", content: "first #draft" });
+    await delay(5);
+    await alice.entries.upsert({ date: "2024-03-01", content: "second #final" });
+    await delay(5);
+    // Unchanged content adds no revision
+    await alice.entries.upsert({ date: "2024-03-01", content: "second #final" });
+
+    const history = await alice.entries.history({ date: "2024-03-01" });
+    assert.deepEqual(
+      history.map((r) => [r.action, r.content]),
+      [
+        ["update", "second #final"],
+        ["create", "first #draft"],
+      ]
+    );
+    return `${history.length} revisions`;
+  });
+
+  await test("Restoring a revision replaces the content and resyncs tags", async () => {
+    const history = await alice.entries.history({ date: "2024-03-01" });
+    const first = history.find((r) => r.action === "create")!;
+    await delay(5);
+
+    const restored = await alice.entries.restoreRevision({ id: first.id });
+    assert.equal(restored.content, "first #draft");
+    assert.equal(restored.id, first.entryId);
+
+    const tags = await alice.tags.list();
+    assert.deepEqual(tags.map((t) => t.tag), ["draft"]);
+
+    const [latest] = await alice.entries.history({ date: "2024-03-01" });
+    assert.equal(latest.action, "restore");
+    assert.equal(latest.content, "first #draft");
+    return "content, tags and a restore revision written";
+  });
+
+  await test("Restoring undeletes a soft-deleted entry as a created one", async () => {
+    await alice.webhooks.create({
+      name: "Entry events",
+      url: receiverUrl,
+      time: "09:00",
+      days: ["mon"],
+      timezone: "UTC",
+      type: "event",
+      events: ["entry.created", "entry.updated", "entry.deleted"],
+    });
+    await alice.entries.upsert({ date: "2024-03-02", content: "gone soon" });
+    await delay(5);
+    await alice.entries.delete({ date: "2024-03-02" });
+    assert.equal(await alice.entries.getByDate({ date: "2024-03-02" }), null);
+    assert.deepEqual(await sentEvents(2), ["entry.created", "entry.deleted"]);
+
+    const history = await alice.entries.history({ date: "2024-03-02" });
+    assert.deepEqual(history.map((r) => r.action), ["delete", "create"]);
+
+    const restored = await alice.entries.restoreRevision({ id: history[1].id });
+    assert.equal(restored.deletedAt, null);
+    const entry = await alice.entries.getByDate({ date: "2024-03-02" });
+    assert.equal(entry?.content, "gone soon");
+    assert.deepEqual(await sentEvents(1), ["entry.created"]);
+    return "entry is live again, entry.created sent";
+  });
+
+  await test("Writing to a soft-deleted entry undeletes it as a created one", async () => {
+    await delay(5);
+    await alice.entries.delete({ date: "2024-03-02" });
+    await sentEvents(1);
+    await delay(5);
+
+    const entry = await alice.entries.upsert({ date: "2024-03-02", content: "gone soon" });
+    assert.equal(entry.deletedAt, null);
+    assert.equal((await alice.entries.getByDate({ date: "2024-03-02" }))?.content, "gone soon");
+    const [latest] = await alice.entries.history({ date: "2024-03-02" });
+    assert.equal(latest.action, "create", "recorded even though the content is unchanged");
+    assert.deepEqual(await sentEvents(1), ["entry.created"]);
+  });
+
+  await test("Another user's revision can't be restored", async () => {
+    const [revision] = await alice.entries.history({ date: "2024-03-01" });
+    await assert.rejects(bob.entries.restoreRevision({ id: revision.id }), {
+      code: "NOT_FOUND",
+      message: "Revision not found",
+    });
+    assert.deepEqual(await bob.entries.history({ date: "2024-03-01" }), []);
+    assert.equal(await bob.entries.getByDate({ date: "2024-03-01" }), null);
+    return "rejected with Revision not found";
+  });
+
+  await test("A failed restore leaves the entry and its history untouched", async () => {
+    const before = await alice.entries.getByDate({ date: "2024-03-01" });
+    const history = await alice.entries.history({ date: "2024-03-01" });
+    const second = history.find((r) => r.content === "second #final")!;
+
+    sqlite.exec(`
+      CREATE TRIGGER fail_restore BEFORE INSERT ON entry_revisions
+      WHEN NEW.action = 'restore'
+      BEGIN SELECT RAISE(ABORT, 'revision write failed'); END
+    `);
+    try {
+      await assert.rejects(alice.entries.restoreRevision({ id: second.id }), /revision write failed/);
+    } finally {
+      sqlite.exec("DROP TRIGGER fail_restore");
+    }
+
+    assert.deepEqual(await alice.entries.getByDate({ date: "2024-03-01" }), before);
+    assert.equal((await alice.entries.history({ date: "2024-03-01" })).length, history.length);
+    assert.deepEqual((await alice.tags.list()).map((t) => t.tag), ["draft"]);
+    return "entry, tags and history rolled back";
+  });
+
+  receiver.close();
+  finish("ENTRY REVISIONS");
+}
+
+runTests().catch((e) => {
+  console.error("Test suite failed:", e);
+  process.exit(1);
+});
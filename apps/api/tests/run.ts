@@ -0,0 +1,43 @@
+/**
+ * Runs every suite that doesn't need an API server, each in its own process
+ * (the db module reads DATABASE_PATH once, so suites can't share a process)
+ *
+ * Run: pnpm test
+ */
+
+import { spawnSync } from "node:child_process";
+import { fileURLToPath } from "node:url";
+
+const SUITES = [
+  "search.test.ts",
+  "tags.test.ts",
+  "revisions.test.ts",
+  "changes-since.test.ts",
+  "sync-push.test.ts",
+  "entry-conflicts.test.ts",
+  "entry-stats.test.ts",
+  "summaries.test.ts",
+  "template-render.test.ts",
+  "template-rules.test.ts",
+  "skip-day-recurrence.test.ts",
+  "calendar-import.test.ts",
+  "webhook-deliveries.test.ts",
+  "webhook-conditions.test.ts",
+  "webhook-formats.test.ts",
+  "webhook-signature.test.ts",
+  "webhook-digest.test.ts",
+  "webhook-jobs.test.ts",
+];
+
+const failed: string[] = [];
+for (const suite of SUITES) {
+  const file = fileURLToPath(new URL(suite, import.meta.url));
+  const { status } = spawnSync(process.execPath, ["--import", "tsx", file], { stdio: "inherit" });
+  if (status !== 0) failed.push(suite);
+}
+
+console.log(`\n${SUITES.length - failed.length}/${SUITES.length} suites passed`);
+if (failed.length > 0) {
+  console.log(`Failed: ${failed.join(", ")}`);
+  process.exit(1);
+}
@@ -0,0 +1,83 @@
+/**
+ * Entry Search Test
+ * Tests entries.search: prefix terms, all terms required, punctuation-only
+ * queries, snippets, date ranges, deletes and user isolation
+ *
+ * Run: pnpm tsx tests/search.test.ts
+ * Uses a temporary database, no server needed
+ */
+
+import assert from "node:assert/strict";
+import { asUser, createTestDatabase, finish, test } from "./helpers.js";
+
+createTestDatabase();
+const { appRouter } = await import("../src/routes/index.js");
+
+const alice = appRouter.createCaller(asUser("alice"));
+const bob = appRouter.createCaller(asUser("bob"));
+
+async function dates(query: string, range: { startDate?: string; endDate?: string } = {}) {
+  return (await alice.entries.search({ query, ...range })).map((r) => r.date);
+}
+
+async function runTests() {
+  console.log("=".repeat(70));
+  console.log("ENTRY SEARCH TEST SUITE");
+  console.log("=".repeat(70));
+
+  await alice.entries.upsert({ date: "2024-05-01", content: "Fixed the webpack config for node.js" });
+  await alice.entries.upsert({ date: "2024-05-02", content: "Webpack dev server proxies /api" });
+  await alice.entries.upsert({ date: "2024-05-03", content: "Learned about Rust lifetimes" });
+  await bob.entries.upsert({ date: "2024-05-01", content: "Bob's webpack notes" });
+
+  await test("Words match as prefixes, ignoring case, newest first", async () => {
+    assert.deepEqual(await dates("web"), ["2024-05-02", "2024-05-01"]);
+    assert.deepEqual(await dates("WEBPACK"), ["2024-05-02", "2024-05-01"]);
+    assert.deepEqual(await dates("pack"), [], "only word prefixes match");
+  });
+
+  await test("Every word must match", async () => {
+    assert.deepEqual(await dates("webpack conf"), ["2024-05-01"]);
+    assert.deepEqual(await dates("webpack rust"), []);
+  });
+
+  await test("Punctuation and FTS syntax are searched as text, not parsed", async () => {
+    for (const query of ['!!!', '"', "-", "NEAR(", "a*b", "webpack OR rust"]) {
+      assert.deepEqual(await dates(query), [], query);
+    }
+    assert.deepEqual(await dates('"node.js"'), ["2024-05-01"], "quotes are dropped");
+    return "no syntax errors";
+  });
+
+  await test("Snippets highlight the matches", async () => {
+    const [result] = await alice.entries.search({ query: "rust life" });
+    assert.equal(result.snippet, "Learned about <mark>Rust</mark> <mark>lifetimes</mark>");
+    assert.deepEqual(Object.keys(result).sort(), ["createdAt", "date", "id", "snippet", "updatedAt"]);
+  });
+
+  await test("Results can be limited to a date range", async () => {
+    assert.deepEqual(await dates("webpack", { startDate: "2024-05-02" }), ["2024-05-02"]);
+    assert.deepEqual(await dates("webpack", { endDate: "2024-05-01" }), ["2024-05-01"]);
+  });
+
+  await test("Edits are searchable and deleted entries are not", async () => {
+    await alice.entries.upsert({ date: "2024-05-03", content: "Learned about Go generics" });
+    assert.deepEqual(await dates("rust"), []);
+    assert.deepEqual(await dates("generics"), ["2024-05-03"]);
+
+    await alice.entries.delete({ date: "2024-05-03" });
+    assert.deepEqual(await dates("generics"), []);
+  });
+
+  await test("Users only find their own entries", async () => {
+    const results = await bob.entries.search({ query: "webpack" });
+    assert.deepEqual(results.map((r) => r.snippet), ["Bob's <mark>webpack</mark> notes"]);
+  });
+
+  finish("ENTRY SEARCH");
+}
+
+runTests().catch((e) => {
+  console.error("Test suite failed:", e);
+  process.exit(1);
+});
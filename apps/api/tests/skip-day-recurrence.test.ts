@@ -0,0 +1,142 @@
+/**
+ * Skip Day Recurrence Test
+ * Tests the RRULE subset in @til-stack/shared skip-days: parsing, matching
+ * dates, descriptions, and recurring skip days in shouldSkipDate
+ *
+ * Run: pnpm tsx tests/skip-day-recurrence.test.ts
+ * No server or database needed
+ */
+
+import assert from "node:assert/strict";
+import {
+  buildSkipDaysRules,
+  describeRecurrence,
+  matchesRecurrence,
+  parseRecurrence,
+  shouldSkipDate,
+} from "@til-stack/shared";
+import { finish, test } from "./helpers.js";
+
+// Every date from `from` to `to` (inclusive) that the rule matches
+function occurrences(rule: string, from: string, to: string): string[] {
+  const recurrence = parseRecurrence(rule);
+  assert.ok(recurrence, `${rule} parses`);
+  const dates: string[] = [];
+  for (let day = new Date(`${from}T00:00:00Z`); day <= new Date(`${to}T00:00:00Z`); ) {
+    const date = day.toISOString().slice(0, 10);
+    if (matchesRecurrence(recurrence, date)) dates.push(date);
+    day.setUTCDate(day.getUTCDate() + 1);
+  }
+  return dates;
+}
+
+async function runTests() {
+  console.log("=".repeat(70));
+  console.log("SKIP DAY RECURRENCE TEST SUITE");
+  console.log("=".repeat(70));
+
+  await test("Weekly rules match their weekdays", () => {
+    assert.deepEqual(occurrences("FREQ=WEEKLY;BYDAY=MO,FR", "2024-03-01", "2024-03-10"), [
+      "2024-03-01",
+      "2024-03-04",
+      "2024-03-08",
+    ]);
+    // Without BYDAY, the start date's weekday
+    assert.deepEqual(occurrences("RRULE:FREQ=WEEKLY;DTSTART=20240305", "2024-03-01", "2024-03-14"), [
+      "2024-03-05",
+      "2024-03-12",
+    ]);
+  });
+
+  await test("Intervals count from the start date", () => {
+    assert.deepEqual(occurrences("FREQ=WEEKLY;INTERVAL=2;BYDAY=FR;DTSTART=20240301", "2024-02-01", "2024-03-31"), [
+      "2024-03-01",
+      "2024-03-15",
+      "2024-03-29",
+    ]);
+    assert.deepEqual(occurrences("FREQ=DAILY;INTERVAL=3;DTSTART=20240227", "2024-02-27", "2024-03-05"), [
+      "2024-02-27",
+      "2024-03-01",
+      "2024-03-04",
+    ]);
+    assert.deepEqual(occurrences("FREQ=MONTHLY;INTERVAL=6;BYMONTHDAY=1;DTSTART=20240101", "2024-01-01", "2024-12-31"), [
+      "2024-01-01",
+      "2024-07-01",
+    ]);
+  });
+
+  await test("Monthly rules pick the nth weekday or day from either end", () => {
+    assert.deepEqual(occurrences("FREQ=MONTHLY;BYDAY=2TU", "2024-03-01", "2024-04-30"), ["2024-03-12", "2024-04-09"]);
+    assert.deepEqual(occurrences("FREQ=MONTHLY;BYDAY=-1FR", "2024-02-01", "2024-03-31"), ["2024-02-23", "2024-03-29"]);
+    assert.deepEqual(occurrences("FREQ=MONTHLY;BYMONTHDAY=-1", "2024-02-01", "2024-04-30"), [
+      "2024-02-29",
+      "2024-03-31",
+      "2024-04-30",
+    ]);
+  });
+
+  await test("Yearly rules, start and end dates", () => {
+    assert.deepEqual(occurrences("FREQ=YEARLY;DTSTART=20201225", "2019-01-01", "2022-12-31"), [
+      "2020-12-25",
+      "2021-12-25",
+      "2022-12-25",
+    ]);
+    // Thanksgiving: 4th Thursday of November
+    assert.deepEqual(occurrences("FREQ=YEARLY;BYMONTH=11;BYDAY=4TH;UNTIL=20241231", "2023-01-01", "2025-12-31"), [
+      "2023-11-23",
+      "2024-11-28",
+    ]);
+  });
+
+  await test("Malformed or unsupported rules don't parse", () => {
+    const invalid = [
+      "FREQ=HOURLY",
+      "BYDAY=MO",
+      "FREQ=WEEKLY", // nothing to repeat on
+      "FREQ=DAILY;INTERVAL=2", // interval without a start date
+      "FREQ=WEEKLY;BYDAY=1MO", // ordinals only for monthly/yearly
+      "FREQ=MONTHLY;BYMONTHDAY=32",
+      "FREQ=YEARLY;BYMONTH=13",
+      "FREQ=DAILY;DTSTART=20240230",
+      "FREQ=DAILY;COUNT=5",
+      "FREQ=DAILY;FREQ=WEEKLY",
+    ];
+    for (const rule of invalid) {
+      assert.equal(parseRecurrence(rule), null, rule);
+    }
+    return `${invalid.length} rules rejected`;
+  });
+
+  await test("Rules are described in words", () => {
+    assert.equal(describeRecurrence("FREQ=WEEKLY;INTERVAL=2;BYDAY=FR;DTSTART=20240301"), "Every 2 weeks on Friday from 2024-03-01");
+    assert.equal(describeRecurrence("FREQ=MONTHLY;BYDAY=-1FR"), "Every month on the last Friday");
+    assert.equal(describeRecurrence("FREQ=MONTHLY;BYMONTHDAY=-2"), "Every month on the 2nd to last day");
+    assert.equal(describeRecurrence("not a rule"), "not a rule");
+  });
+
+  await test("Recurring skip days are skipped; malformed ones are ignored", () => {
+    const rules = buildSkipDaysRules([
+      { type: "rrule", value: "FREQ=MONTHLY;BYDAY=1MO" },
+      { type: "rrule", value: "FREQ=SOMETIMES" },
+    ]);
+    assert.deepEqual(rules.recurrences, ["FREQ=MONTHLY;BYDAY=1MO"]);
+    assert.equal(shouldSkipDate("2024-03-04", rules), true);
+    assert.equal(shouldSkipDate("2024-03-11", rules), false);
+  });
+
+  await test("Rules evicted from the parse cache parse the same again", () => {
+    const first = parseRecurrence("FREQ=MONTHLY;BYDAY=1MO");
+    for (let i = 0; i < 1000; i++) {
+      parseRecurrence(`FREQ=DAILY;DTSTART=2024010${(i % 9) + 1};INTERVAL=${i + 1}`);
+    }
+    assert.deepEqual(parseRecurrence("FREQ=MONTHLY;BYDAY=1MO"), first);
+    assert.equal(parseRecurrence("FREQ=DAILY;DTSTART=20240101;INTERVAL=1")?.interval, 1);
+  });
+
+  finish("SKIP DAY RECURRENCE");
+}
+
+runTests().catch((e) => {
+  console.error("Test suite failed:", e);
+  process.exit(1);
+});
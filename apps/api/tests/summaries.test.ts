@@ -0,0 +1,114 @@
+/**
+ * Summaries Test
+ * Tests saved AI summaries: keys, period ends, staleness after entries in the
+ * period change, older summaries never replacing newer ones, and delta sync
+ *
+ * Run: pnpm tsx tests/summaries.test.ts
+ * Uses a temporary database, no server needed
+ */
+
+import assert from "node:assert/strict";
+import { getSummaryPeriodEnd } from "@til-stack/shared";
+import { asUser, createTestDatabase, delay, finish, test } from "./helpers.js";
+
+createTestDatabase();
+const { appRouter } = await import("../src/routes/index.js");
+
+const alice = appRouter.createCaller(asUser("alice"));
+const bob = appRouter.createCaller(asUser("bob"));
+
+// The week of Monday 2024-03-04
+const WEEK = { periodType: "week", periodStart: "2024-03-04", backend: "openai", promptHash: "abc" } as const;
+
+async function runTests() {
+  console.log("=".repeat(70));
+  console.log("SUMMARIES TEST SUITE");
+  console.log("=".repeat(70));
+
+  await test("Periods end on their last day", () => {
+    assert.equal(getSummaryPeriodEnd("week", "2024-03-04"), "2024-03-10");
+    assert.equal(getSummaryPeriodEnd("week", "2024-12-30"), "2025-01-05");
+    assert.equal(getSummaryPeriodEnd("month", "2024-02-01"), "2024-02-29");
+    assert.equal(getSummaryPeriodEnd("year", "2024-01-01"), "2024-12-31");
+  });
+
+  await test("A saved summary is found by its full key", async () => {
+    await alice.entries.upsert({ date: "2024-03-05", content: "week notes" });
+    await delay(5);
+    await alice.summaries.save({ ...WEEK, content: "A quiet week" });
+
+    const saved = await alice.summaries.get(WEEK);
+    assert.equal(saved?.content, "A quiet week");
+    assert.equal(saved?.stale, false);
+    assert.equal(await alice.summaries.get({ ...WEEK, backend: "webllm" }), null);
+    assert.equal(await alice.summaries.get({ ...WEEK, promptHash: "other" }), null);
+    assert.equal(await bob.summaries.get(WEEK), null, "other users' summaries aren't seen");
+  });
+
+  await test("Entries outside the period don't make it stale", async () => {
+    await delay(5);
+    await alice.entries.upsert({ date: "2024-03-03", content: "the Sunday before" });
+    await alice.entries.upsert({ date: "2024-03-11", content: "the Monday after" });
+    await bob.entries.upsert({ date: "2024-03-05", content: "Bob's week" });
+    assert.equal((await alice.summaries.get(WEEK))?.stale, false);
+  });
+
+  await test("Editing an entry in the period makes it stale", async () => {
+    await delay(5);
+    await alice.entries.upsert({ date: "2024-03-10", content: "Sunday notes" });
+    assert.equal((await alice.summaries.get(WEEK))?.stale, true);
+
+    await delay(5);
+    await alice.summaries.save({ ...WEEK, content: "A busier week" });
+    assert.equal((await alice.summaries.get(WEEK))?.stale, false, "regenerating makes it fresh");
+  });
+
+  await test("Deleting an entry in the period makes it stale", async () => {
+    await delay(5);
+    await alice.entries.delete({ date: "2024-03-05" });
+    assert.equal((await alice.summaries.get(WEEK))?.stale, true);
+  });
+
+  await test("An older generatedAt never replaces a newer summary", async () => {
+    // Generated on other devices, relative to the summary saved above
+    const hoursFromNow = (hours: number) => new Date(Date.now() + hours * 3600_000).toISOString();
+    const newer = await alice.summaries.save({ ...WEEK, content: "Newest", generatedAt: hoursFromNow(2) });
+    const kept = await alice.summaries.save({ ...WEEK, content: "Older", generatedAt: hoursFromNow(1) });
+    assert.equal(newer.content, "Newest");
+    assert.deepEqual(kept, newer);
+
+    const { results } = await alice.sync.pushBatch({
+      operations: [
+        {
+          opId: "1",
+          kind: "summary.save",
+          input: { ...WEEK, content: "Offline copy", generatedAt: hoursFromNow(-1) },
+        },
+      ],
+    });
+    assert.equal(results[0].status, "applied");
+    assert.equal((await alice.summaries.get(WEEK))?.content, "Newest", "a late push doesn't win either");
+
+    await alice.summaries.save({ ...WEEK, content: "Newer still", generatedAt: hoursFromNow(3) });
+    assert.equal((await alice.summaries.get(WEEK))?.content, "Newer still");
+    return "newest generatedAt wins";
+  });
+
+  await test("Delta sync returns summaries saved since the watermark", async () => {
+    const { items, watermark } = await alice.summaries.changesSince({});
+    assert.deepEqual(items.map((s) => s.content), ["Newer still"]);
+
+    assert.deepEqual((await alice.summaries.changesSince({ since: watermark })).items, []);
+    await delay(5);
+    await alice.summaries.save({ ...WEEK, periodType: "month", periodStart: "2024-03-01", content: "March" });
+    const delta = await alice.summaries.changesSince({ since: watermark });
+    assert.deepEqual(delta.items.map((s) => s.content), ["March"]);
+  });
+
+  finish("SUMMARIES");
+}
+
+runTests().catch((e) => {
+  console.error("Test suite failed:", e);
+  process.exit(1);
+});
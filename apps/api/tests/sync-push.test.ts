@@ -0,0 +1,127 @@
+/**
+ * Batch Push Test
+ * Tests sync.pushBatch: operations applied in order, per-operation conflict
+ * and rejected results, idempotent replays, and rolling back the whole batch
+ * on an unexpected error
+ *
+ * Run: pnpm tsx tests/sync-push.test.ts
+ * Uses a temporary database, no server needed
+ */
+
+import assert from "node:assert/strict";
+import { asUser, createTestDatabase, finish, test } from "./helpers.js";
+
+const sqlite = createTestDatabase();
+const { appRouter } = await import("../src/routes/index.js");
+
+const alice = appRouter.createCaller(asUser("alice"));
+
+async function runTests() {
+  console.log("=".repeat(70));
+  console.log("BATCH PUSH TEST SUITE");
+  console.log("=".repeat(70));
+
+  await test("A batch is applied in order", async () => {
+    const { results } = await alice.sync.pushBatch({
+      operations: [
+        { opId: "1", kind: "entry.upsert", input: { date: "2024-05-01", content: "draft" } },
+        { opId: "2", kind: "entry.upsert", input: { date: "2024-05-01", content: "final #sync" } },
+        { opId: "3", kind: "entry.upsert", input: { date: "2024-05-02", content: "short-lived" } },
+        { opId: "4", kind: "entry.delete", input: { date: "2024-05-02" } },
+        { opId: "5", kind: "skipDay.add", input: { type: "weekday", value: 6 } },
+        { opId: "6", kind: "template.create", input: { name: "Daily", content: "## Today" } },
+      ],
+    });
+
+    assert.deepEqual(results.map((r) => [r.opId, r.status]), [
+      ["1", "applied"],
+      ["2", "applied"],
+      ["3", "applied"],
+      ["4", "applied"],
+      ["5", "applied"],
+      ["6", "applied"],
+    ]);
+
+    const entry = await alice.entries.getByDate({ date: "2024-05-01" });
+    assert.equal(entry?.content, "final #sync");
+    assert.equal(results[1].updatedAt, entry?.updatedAt, "upsert returns the server version");
+    assert.equal(await alice.entries.getByDate({ date: "2024-05-02" }), null);
+    assert.deepEqual((await alice.tags.list()).map((t) => t.tag), ["sync"]);
+
+    const skipDays = await alice.config.skipDaysChangesSince({});
+    assert.deepEqual(skipDays.items.map((s) => [s.type, s.value]), [["weekday", "6"]]);
+    const templates = await alice.config.getTemplates();
+    assert.deepEqual(templates.map((t) => [t.name, t.rules]), [["Daily", []]]);
+    return "6 operations applied";
+  });
+
+  await test("Invalid operations are rejected without failing the batch", async () => {
+    const { results } = await alice.sync.pushBatch({
+      operations: [
+        { opId: "1", kind: "entry.upsert", input: { date: "not-a-date", content: "x" } },
+        { opId: "2", kind: "skipDay.add", input: { type: "rrule", value: "FREQ=SOMETIMES" } },
+        { opId: "3", kind: "entry.upsert", input: { date: "2024-05-03", content: "still written" } },
+      ],
+    });
+
+    assert.deepEqual(results.map((r) => r.status), ["rejected", "rejected", "applied"]);
+    assert.ok(results[0].error, "rejection carries the validation error");
+    assert.equal((await alice.entries.getByDate({ date: "2024-05-03" }))?.content, "still written");
+    return `rejected: "${results[0].error}"`;
+  });
+
+  await test("Operations on missing targets are conflicts; deletes are idempotent", async () => {
+    const { results } = await alice.sync.pushBatch({
+      operations: [
+        { opId: "1", kind: "template.update", input: { id: "missing", name: "Renamed" } },
+        { opId: "2", kind: "template.delete", input: { id: "missing" } },
+        { opId: "3", kind: "entry.delete", input: { date: "2024-05-20" } },
+        { opId: "4", kind: "skipDay.remove", input: { type: "specific_date", value: "2024-05-20" } },
+        { opId: "5", kind: "skipDay.add", input: { type: "weekday", value: 6 } },
+      ],
+    });
+
+    assert.deepEqual(results.map((r) => r.status), ["conflict", "applied", "applied", "applied", "applied"]);
+    assert.equal(results[0].error, "Template not found");
+    const skipDays = await alice.config.skipDaysChangesSince({});
+    assert.equal(skipDays.items.length, 1, "re-adding a skip day doesn't duplicate it");
+    return "1 conflict, replays applied";
+  });
+
+  await test("An unexpected error rolls back the whole batch", async () => {
+    const before = await alice.entries.changesSince({});
+
+    sqlite.exec(`
+      CREATE TRIGGER fail_template BEFORE INSERT ON templates
+      WHEN NEW.name = 'Broken'
+      BEGIN SELECT RAISE(ABORT, 'template write failed'); END
+    `);
+    try {
+      await assert.rejects(
+        alice.sync.pushBatch({
+          operations: [
+            { opId: "1", kind: "entry.upsert", input: { date: "2024-05-01", content: "overwritten?" } },
+            { opId: "2", kind: "entry.upsert", input: { date: "2024-05-04", content: "new?" } },
+            { opId: "3", kind: "template.create", input: { name: "Broken", content: "x" } },
+          ],
+        }),
+        /template write failed/
+      );
+    } finally {
+      sqlite.exec("DROP TRIGGER fail_template");
+    }
+
+    const after = await alice.entries.changesSince({});
+    assert.deepEqual(after.items, before.items);
+    const history = await alice.entries.history({ date: "2024-05-01" });
+    assert.ok(history.every((r) => r.content !== "overwritten?"), "no revision left behind");
+    return "entries and revisions unchanged";
+  });
+
+  finish("BATCH PUSH");
+}
+
+runTests().catch((e) => {
+  console.error("Test suite failed:", e);
+  process.exit(1);
+});
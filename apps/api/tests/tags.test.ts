@@ -0,0 +1,110 @@
+/**
+ * Tags Test
+ * Tests extractTags from @til-stack/shared, tags.list counts,
+ * entries.listByTag paging, and the one-off tag backfill
+ *
+ * Run: pnpm tsx tests/tags.test.ts
+ * Uses a temporary database, no server needed
+ */
+
+import assert from "node:assert/strict";
+import { extractTags } from "@til-stack/shared";
+import { asUser, createTestDatabase, delay, finish, test } from "./helpers.js";
+
+const sqlite = createTestDatabase();
+const { appRouter } = await import("../src/routes/index.js");
+const { backfillEntryTags } = await import("../src/lib/tags.js");
+
+const alice = appRouter.createCaller(asUser("alice"));
+const bob = appRouter.createCaller(asUser("bob"));
+
+async function taggedDates(tag: string) {
+  return (await alice.entries.listByTag({ tag })).items.map((e) => e.date);
+}
+
+// An entry written before tagging existed: no entry_tags rows
+function insertUntaggedEntry(id: string, date: string, content: string) {
+  const now = new Date().toISOString();
+  sqlite
+    .prepare("INSERT INTO entries (id, date, content, user_id, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?)")
+    .run(id, date, content, "alice", now, now);
+}
+
+async function runTests() {
+  console.log("=".repeat(70));
+  console.log("TAGS TEST SUITE");
+  console.log("=".repeat(70));
+
+  await test("Hashtags become lowercase tags, once each", () => {
+    assert.deepEqual(extractTags("#Rust and #rust, then #til/web- (#CSS)"), ["rust", "til/web", "css"]);
+    assert.deepEqual(extractTags("Über #café #日本語"), ["café", "日本語"]);
+  });
+
+  await test("Headings, numbers, fragments and code aren't tags", () => {
+    const content = [
+      "# Title",
+      "Fixes #123, see https://example.com/page#section",
+      "`#inline` and",
+      "```",
+      "#fenced",
+      "```",
+      "word#joined",
+    ].join("\n");
+    assert.deepEqual(extractTags(content), []);
+    assert.deepEqual(extractTags(`#${"a".repeat(51)} #${"b".repeat(50)}`), ["b".repeat(50)], "too long is dropped");
+  });
+
+  await test("Tags are listed with entry counts, most used first", async () => {
+    await alice.entries.upsert({ date: "2024-02-01", content: "#rust #cli" });
+    await alice.entries.upsert({ date: "2024-02-02", content: "#rust again" });
+    await alice.entries.upsert({ date: "2024-02-03", content: "#css" });
+    await bob.entries.upsert({ date: "2024-02-01", content: "#bob-only" });
+
+    assert.deepEqual(await alice.tags.list(), [
+      { tag: "rust", count: 2 },
+      { tag: "cli", count: 1 },
+      { tag: "css", count: 1 },
+    ]);
+  });
+
+  await test("Entries are listed by tag, newest first, a page at a time", async () => {
+    assert.deepEqual(await taggedDates("rust"), ["2024-02-02", "2024-02-01"]);
+    assert.deepEqual(await taggedDates("  RUST "), ["2024-02-02", "2024-02-01"], "input is normalized");
+
+    const page = await alice.entries.listByTag({ tag: "rust", limit: 1 });
+    assert.deepEqual([page.items.map((e) => e.date), page.hasMore, page.nextCursor], [["2024-02-02"], true, "2024-02-02"]);
+    const next = await alice.entries.listByTag({ tag: "rust", limit: 1, cursor: page.nextCursor });
+    assert.deepEqual([next.items.map((e) => e.date), next.hasMore, next.nextCursor], [["2024-02-01"], false, undefined]);
+
+    assert.deepEqual(await taggedDates("bob-only"), [], "other users' tags aren't seen");
+  });
+
+  await test("Edits and deletes update the tags", async () => {
+    await delay(5);
+    await alice.entries.upsert({ date: "2024-02-02", content: "now about #go" });
+    assert.deepEqual(await taggedDates("rust"), ["2024-02-01"]);
+    assert.deepEqual(await taggedDates("go"), ["2024-02-02"]);
+
+    await alice.entries.delete({ date: "2024-02-03" });
+    assert.deepEqual(await taggedDates("css"), []);
+    assert.equal((await alice.tags.list()).some((t) => t.tag === "css"), false);
+  });
+
+  await test("The backfill tags older entries once", async () => {
+    insertUntaggedEntry("old-1", "2023-01-01", "from before tags #legacy");
+    await backfillEntryTags();
+    assert.deepEqual(await taggedDates("legacy"), ["2023-01-01"]);
+
+    insertUntaggedEntry("old-2", "2023-01-02", "also #legacy");
+    await backfillEntryTags();
+    assert.deepEqual(await taggedDates("legacy"), ["2023-01-01"], "the second run is skipped");
+    return "ran once";
+  });
+
+  finish("TAGS");
+}
+
+runTests().catch((e) => {
+  console.error("Test suite failed:", e);
+  process.exit(1);
+});
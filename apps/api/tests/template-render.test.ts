@@ -0,0 +1,71 @@
+/**
+ * Template Rendering Test
+ * Tests renderTemplate from @til-stack/shared: date placeholders, the
+ * previous entry, the cursor marker and unknown placeholders
+ *
+ * Run: pnpm tsx tests/template-render.test.ts
+ * No server or database needed
+ */
+
+import assert from "node:assert/strict";
+import { createTemplateSchema, renderTemplate, usesPreviousEntry } from "@til-stack/shared";
+import { finish, test } from "./helpers.js";
+
+async function runTests() {
+  console.log("=".repeat(70));
+  console.log("TEMPLATE RENDERING TEST SUITE");
+  console.log("=".repeat(70));
+
+  await test("Date placeholders are expanded", () => {
+    const { content } = renderTemplate("# {{date}} ({{ weekday }}, {{week}})", { date: "2024-03-14" });
+    assert.equal(content, "# 2024-03-14 (Thursday, 2024-W11)");
+    return content;
+  });
+
+  await test("ISO weeks belong to the year of their Thursday", () => {
+    const week = (date: string) => renderTemplate("{{week}}", { date }).content;
+    assert.equal(week("2021-01-01"), "2020-W53");
+    assert.equal(week("2021-01-04"), "2021-W01");
+    assert.equal(week("2024-12-30"), "2025-W01");
+    return "2021-01-01 is 2020-W53, 2024-12-30 is 2025-W01";
+  });
+
+  await test("Yesterday placeholders use the previous entry", () => {
+    const template = "Last time ({{yesterday.date}}):\n{{yesterday.content}}";
+    const previousEntry = { date: "2024-03-08", content: "\n- shipped sync\n\n" };
+
+    assert.equal(
+      renderTemplate(template, { date: "2024-03-11", previousEntry }).content,
+      "Last time (2024-03-08):\n- shipped sync"
+    );
+    assert.equal(renderTemplate(template, { date: "2024-03-11", previousEntry: null }).content, "Last time ():\n");
+    assert.equal(usesPreviousEntry(template), true);
+    assert.equal(usesPreviousEntry("{{date}} {{cursor}}"), false);
+    return "content trimmed, empty without an entry";
+  });
+
+  await test("The first cursor marker sets the caret and all markers are removed", () => {
+    const rendered = renderTemplate("## {{date}}\n{{cursor}}\n\n## Later{{cursor}}", { date: "2024-03-14" });
+    assert.equal(rendered.content, "## 2024-03-14\n\n\n## Later");
+    assert.equal(rendered.cursor, "## 2024-03-14\n".length);
+    assert.equal(renderTemplate("no marker", { date: "2024-03-14" }).cursor, null);
+    return `cursor at ${rendered.cursor}`;
+  });
+
+  await test("Unknown placeholders are kept as written but rejected on save", () => {
+    const { content } = renderTemplate("{{date}} {{ mood }} {{yesterday.title}}", { date: "2024-03-14" });
+    assert.equal(content, "2024-03-14 {{ mood }} {{yesterday.title}}");
+
+    const parsed = createTemplateSchema.safeParse({ name: "Bad", content: "{{mood}} {{date}}" });
+    assert.equal(parsed.success, false);
+    assert.match(parsed.error!.issues[0].message, /Unknown template variable: \{\{mood\}\}/);
+    return "left as written";
+  });
+
+  finish("TEMPLATE RENDERING");
+}
+
+runTests().catch((e) => {
+  console.error("Test suite failed:", e);
+  process.exit(1);
+});
@@ -0,0 +1,67 @@
+/**
+ * Template Rules Test
+ * Tests resolveTemplateForDate and parseTemplateRules from @til-stack/shared:
+ * which template a new entry on a date starts from
+ *
+ * Run: pnpm tsx tests/template-rules.test.ts
+ * No server or database needed
+ */
+
+import assert from "node:assert/strict";
+import { parseTemplateRules, resolveTemplateForDate, type TemplateRule } from "@til-stack/shared";
+import { finish, test } from "./helpers.js";
+
+function template(name: string, ...rules: TemplateRule[]) {
+  return { name, rules };
+}
+
+const templates = [
+  template("Default", { type: "always" }),
+  template("Standup", { type: "weekdays", weekdays: [1, 2, 3, 4, 5] }),
+  template("Conference", { type: "dateRange", start: "2024-03-12", end: "2024-03-15" }),
+  template("Birthday", { type: "date", date: "2024-03-14" }, { type: "date", date: "2025-03-14" }),
+];
+
+async function runTests() {
+  console.log("=".repeat(70));
+  console.log("TEMPLATE RULES TEST SUITE");
+  console.log("=".repeat(70));
+
+  await test("The most specific matching rule wins", () => {
+    const resolve = (date: string) => resolveTemplateForDate(templates, date)?.name;
+    assert.equal(resolve("2024-03-14"), "Birthday"); // date over everything
+    assert.equal(resolve("2024-03-13"), "Conference"); // range over weekdays
+    assert.equal(resolve("2024-03-11"), "Standup"); // weekdays over always
+    assert.equal(resolve("2024-03-16"), "Default"); // a Saturday
+    assert.equal(resolve("2025-03-14"), "Birthday"); // any of a template's rules
+    return "date > range > weekdays > always";
+  });
+
+  await test("Ties go to the first template by name, whatever the order", () => {
+    const tied = [template("Zeta", { type: "always" }), template("Alpha", { type: "always" })];
+    assert.equal(resolveTemplateForDate(tied, "2024-03-14")?.name, "Alpha");
+    assert.equal(resolveTemplateForDate([...tied].reverse(), "2024-03-14")?.name, "Alpha");
+    return "Alpha";
+  });
+
+  await test("Without a matching rule there is no template", () => {
+    const weekdaysOnly = templates.filter((t) => t.name === "Standup");
+    assert.equal(resolveTemplateForDate(weekdaysOnly, "2024-03-16"), null);
+    assert.equal(resolveTemplateForDate([template("Manual")], "2024-03-14"), null);
+    return "null";
+  });
+
+  await test("Malformed rules columns parse as no rules", () => {
+    assert.deepEqual(parseTemplateRules('[{"type":"always"}]'), [{ type: "always" }]);
+    assert.deepEqual(parseTemplateRules("not json"), []);
+    assert.deepEqual(parseTemplateRules('{"type":"always"}'), []);
+    assert.deepEqual(parseTemplateRules(null), []);
+  });
+
+  finish("TEMPLATE RULES");
+}
+
+runTests().catch((e) => {
+  console.error("Test suite failed:", e);
+  process.exit(1);
+});
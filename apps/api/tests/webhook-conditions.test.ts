@@ -0,0 +1,155 @@
+/**
+ * Webhook Conditions Test
+ * Tests getSkipReason for reminders (only if no entry, respect skip days,
+ * "today" in the webhook's timezone), todayInTimezone, and that digests
+ * are sent regardless of the conditions
+ *
+ * Run: pnpm tsx tests/webhook-conditions.test.ts
+ * Uses a temporary database and a local receiver, no server needed
+ */
+
+import assert from "node:assert/strict";
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { asUser, createTestDatabase, delay, finish, test } from "./helpers.js";
+
+const sqlite = createTestDatabase();
+const { appRouter } = await import("../src/routes/index.js");
+const { getSkipReason, todayInTimezone } = await import("../src/lib/webhook-conditions.js");
+const { startWebhookScheduler } = await import("../src/lib/webhook-scheduler.js");
+
+// UTC+14 and UTC-12 are always on different dates
+const AHEAD = "Etc/GMT-14";
+const BEHIND = "Etc/GMT+12";
+
+// The receiver records which paths it was sent to
+const received: string[] = [];
+const receiver = createServer((req, res) => {
+  received.push(req.url ?? "");
+  req.resume();
+  req.on("end", () => res.end("ok"));
+});
+await new Promise<void>((resolve) => receiver.listen(0, "127.0.0.1", resolve));
+const receiverUrl = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}`;
+
+type Caller = ReturnType<typeof appRouter.createCaller>;
+
+function createReminder(caller: Caller, conditions: { onlyIfNoEntry?: boolean; respectSkipDays?: boolean }) {
+  return caller.webhooks.create({
+    name: "Reminder",
+    url: `${receiverUrl}/reminder`,
+    time: "09:00",
+    days: ["mon"],
+    timezone: AHEAD,
+    ...conditions,
+  });
+}
+
+function weekdayOf(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+async function runTests() {
+  console.log("=".repeat(70));
+  console.log("WEBHOOK CONDITIONS TEST SUITE");
+  console.log("=".repeat(70));
+
+  await test("Today is the date in the given timezone", () => {
+    const now = new Date("2024-03-10T23:30:00Z");
+    assert.equal(todayInTimezone("UTC", now), "2024-03-10");
+    assert.equal(todayInTimezone("Asia/Tokyo", now), "2024-03-11");
+    assert.equal(todayInTimezone("America/Los_Angeles", now), "2024-03-10");
+  });
+
+  await test("Without conditions a reminder is always sent", async () => {
+    const alice = appRouter.createCaller(asUser("alice"));
+    const webhook = await createReminder(alice, {});
+    await alice.entries.upsert({ date: todayInTimezone(AHEAD), content: "written" });
+    await alice.config.addSkipDate({ date: todayInTimezone(AHEAD) });
+    assert.equal(getSkipReason(webhook), null);
+  });
+
+  await test("Only if no entry: skipped once today's entry is written", async () => {
+    const bob = appRouter.createCaller(asUser("bob"));
+    const webhook = await createReminder(bob, { onlyIfNoEntry: true });
+    const today = todayInTimezone(AHEAD);
+    assert.equal(getSkipReason(webhook), null);
+
+    await bob.entries.upsert({ date: today, content: "written" });
+    assert.equal(getSkipReason(webhook), `entry for ${today} already written`);
+    assert.equal(getSkipReason({ ...webhook, timezone: BEHIND }), null, "today is another date there");
+
+    await bob.entries.delete({ date: today });
+    assert.equal(getSkipReason(webhook), null, "deleted entries don't count");
+  });
+
+  await test("Other users' entries don't count", async () => {
+    const carol = appRouter.createCaller(asUser("carol"));
+    const webhook = await createReminder(carol, { onlyIfNoEntry: true });
+    await appRouter.createCaller(asUser("dave")).entries.upsert({ date: todayInTimezone(AHEAD), content: "Dave's" });
+    assert.equal(getSkipReason(webhook), null);
+  });
+
+  await test("Respect skip days: weekdays, dates and recurrences", async () => {
+    const today = todayInTimezone(AHEAD);
+    const rules = [
+      (caller: Caller) => caller.config.addSkipWeekday({ weekday: weekdayOf(today) }),
+      (caller: Caller) => caller.config.addSkipDate({ date: today }),
+      (caller: Caller) => caller.config.addSkipRecurrence({ rule: "FREQ=DAILY" }),
+    ];
+    for (const [i, addSkipDay] of rules.entries()) {
+      const caller = appRouter.createCaller(asUser(`skipper-${i}`));
+      const webhook = await createReminder(caller, { respectSkipDays: true });
+      assert.equal(getSkipReason(webhook), null);
+      await addSkipDay(caller);
+      assert.equal(getSkipReason(webhook), `${today} is a skip day`);
+      assert.equal(getSkipReason({ ...webhook, respectSkipDays: false }), null);
+    }
+
+    const caller = appRouter.createCaller(asUser("skipper-0"));
+    const [webhook] = await caller.webhooks.list();
+    assert.equal(getSkipReason({ ...webhook, timezone: BEHIND }), null, "another weekday there");
+  });
+
+  await test("A deleted webhook is skipped", async () => {
+    const erin = appRouter.createCaller(asUser("erin"));
+    const webhook = await createReminder(erin, { onlyIfNoEntry: true });
+    await erin.webhooks.delete({ id: webhook.id });
+    assert.equal(getSkipReason(webhook), "webhook no longer exists");
+  });
+
+  await test("Digests are sent regardless of the conditions", async () => {
+    const frank = appRouter.createCaller(asUser("frank"));
+    const conditions = { time: "09:00", days: ["mon" as const], timezone: "UTC", onlyIfNoEntry: true, respectSkipDays: true };
+    const reminder = await frank.webhooks.create({ ...conditions, name: "Reminder", url: `${receiverUrl}/reminder` });
+    const digest = await frank.webhooks.create({
+      ...conditions,
+      name: "Digest",
+      url: `${receiverUrl}/digest`,
+      type: "digest",
+      digestWeek: "current",
+    });
+    await frank.entries.upsert({ date: todayInTimezone("UTC"), content: "this week" });
+    await frank.config.addSkipDate({ date: todayInTimezone("UTC") });
+
+    // Make both due now, as if it were 09:00 on Monday
+    const due = new Date(Date.now() - 1000).toISOString();
+    for (const id of [reminder.id, digest.id]) {
+      sqlite.prepare("UPDATE webhook_jobs SET next_run_at = ? WHERE webhook_id = ?").run(due, id);
+    }
+    startWebhookScheduler();
+    for (let i = 0; i < 50 && !received.includes("/digest"); i++) await delay(20);
+    await delay(100);
+
+    assert.deepEqual(received, ["/digest"]);
+    return "reminder skipped, digest sent";
+  });
+
+  receiver.close();
+  finish("WEBHOOK CONDITIONS");
+}
+
+runTests().catch((e) => {
+  console.error("Test suite failed:", e);
+  process.exit(1);
+});
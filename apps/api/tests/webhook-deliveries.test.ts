@@ -0,0 +1,221 @@
+/**
+ * Webhook Deliveries Test
+ * Tests the delivery log and retries: what each attempt records, the log
+ * cap, the persisted retry schedule, which failures are retried, and
+ * auto-disabling after WEBHOOK_MAX_CONSECUTIVE_FAILURES
+ *
+ * Run: pnpm tsx tests/webhook-deliveries.test.ts
+ * Uses a temporary database and a local receiver, no server needed
+ */
+
+import assert from "node:assert/strict";
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { WEBHOOK_MAX_CONSECUTIVE_FAILURES } from "@til-stack/shared";
+import { asUser, createTestDatabase, delay, finish, test } from "./helpers.js";
+
+const sqlite = createTestDatabase();
+const { appRouter } = await import("../src/routes/index.js");
+const { startWebhookScheduler } = await import("../src/lib/webhook-scheduler.js");
+
+const alice = appRouter.createCaller(asUser("alice"));
+const bob = appRouter.createCaller(asUser("bob"));
+const carol = appRouter.createCaller(asUser("carol"));
+
+// The receiver answers with `status` and counts the requests it got
+let status = 200;
+let requests = 0;
+const receiver = createServer((req, res) => {
+  requests++;
+  req.resume();
+  req.on("end", () => {
+    res.statusCode = status;
+    res.end(status === 200 ? "ok" : "x".repeat(600));
+  });
+});
+await new Promise<void>((resolve) => receiver.listen(0, "127.0.0.1", resolve));
+const receiverUrl = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/hook`;
+
+type Caller = typeof alice;
+
+function createEventWebhook(caller: Caller, name: string) {
+  return caller.webhooks.create({
+    name,
+    url: receiverUrl,
+    time: "09:00",
+    days: ["mon"],
+    timezone: "UTC",
+    type: "event",
+    events: ["entry.created", "entry.updated"],
+  });
+}
+
+interface DeliveryRow {
+  attempt: number;
+  success: number;
+  status_code: number | null;
+  retry_at: string | null;
+  created_at: string;
+}
+
+function deliveryRows(webhookId: string) {
+  return sqlite
+    .prepare("SELECT * FROM webhook_deliveries WHERE webhook_id = ? ORDER BY created_at")
+    .all(webhookId) as DeliveryRow[];
+}
+
+// Event sends happen in the background; wait until the log has `count` rows
+async function waitForDeliveries(webhookId: string, count: number): Promise<DeliveryRow[]> {
+  for (let i = 0; i < 50 && deliveryRows(webhookId).length < count; i++) await delay(20);
+  return deliveryRows(webhookId);
+}
+
+// Make the pending retries due now and poll, as the next minute's poll would
+async function runRetriesNow(): Promise<void> {
+  sqlite.prepare("UPDATE webhook_deliveries SET retry_at = ? WHERE retry_at IS NOT NULL").run(new Date(0).toISOString());
+  startWebhookScheduler();
+}
+
+let writes = 0;
+async function writeEntry(caller: Caller) {
+  writes++;
+  await caller.entries.upsert({ date: "2024-01-01", content: `change ${writes}` });
+}
+
+async function runTests() {
+  console.log("=".repeat(70));
+  console.log("WEBHOOK DELIVERIES TEST SUITE");
+  console.log("=".repeat(70));
+
+  await test("Each attempt is logged with its status, latency and response", async () => {
+    const webhook = await createEventWebhook(alice, "Log");
+    assert.equal((await alice.webhooks.test({ id: webhook.id })).success, true);
+    status = 500;
+    assert.equal((await alice.webhooks.test({ id: webhook.id })).success, false);
+    status = 200;
+
+    const { items, consecutiveFailures } = await alice.webhooks.deliveries({ id: webhook.id });
+    assert.deepEqual(
+      items.map((d) => [d.trigger, d.attempt, d.success, d.statusCode, d.response.length]),
+      [
+        ["test", 1, false, 500, 500],
+        ["test", 1, true, 200, 2],
+      ]
+    );
+    assert.ok(items.every((d) => d.latencyMs >= 0));
+    assert.equal(consecutiveFailures, 0, "tests don't count towards disabling");
+    assert.deepEqual(deliveryRows(webhook.id).map((d) => d.retry_at), [null, null], "tests aren't retried");
+    return "response cut to 500 characters";
+  });
+
+  await test("The log keeps the latest 50 deliveries per webhook", async () => {
+    const [webhook] = await alice.webhooks.list();
+    for (let i = 0; i < 53; i++) {
+      await alice.webhooks.test({ id: webhook.id });
+    }
+    assert.equal(deliveryRows(webhook.id).length, 50);
+    assert.equal((await alice.webhooks.deliveries({ id: webhook.id, limit: 50 })).items.length, 50);
+    assert.equal((await alice.webhooks.deliveries({ id: webhook.id })).items.length, 10, "10 by default");
+  });
+
+  await test("Failed sends are retried after 30s, 2m and 8m, then count as one failure", async () => {
+    const webhook = await createEventWebhook(bob, "Retries");
+    status = 503;
+    await writeEntry(bob);
+
+    const expectedDelays = [30, 120, 480];
+    for (let attempt = 1; attempt <= 4; attempt++) {
+      const rows = await waitForDeliveries(webhook.id, attempt);
+      const latest = rows[attempt - 1];
+      assert.equal(latest.attempt, attempt);
+      if (attempt < 4) {
+        const seconds = (Date.parse(latest.retry_at!) - Date.parse(latest.created_at)) / 1000;
+        assert.equal(Math.round(seconds), expectedDelays[attempt - 1], `retry ${attempt} delay`);
+        await runRetriesNow();
+      } else {
+        assert.equal(latest.retry_at, null, "no retry after the 4th attempt");
+      }
+    }
+    assert.equal((await bob.webhooks.deliveries({ id: webhook.id })).consecutiveFailures, 1);
+    status = 200;
+    return "4 attempts, 1 failure";
+  });
+
+  await test("Pending retries are stored in the log and sent once", async () => {
+    const [webhook] = await bob.webhooks.list();
+    status = 503;
+    await writeEntry(bob);
+    const [pending] = (await waitForDeliveries(webhook.id, 5)).slice(4);
+    assert.ok(pending.retry_at, "stored with the failed delivery");
+
+    status = 200;
+    await runRetriesNow();
+    // A second poll (e.g. another instance) finds the retry leased
+    startWebhookScheduler();
+    const rows = await waitForDeliveries(webhook.id, 6);
+    await delay(100);
+    assert.equal(deliveryRows(webhook.id).length, 6, "sent by one poll only");
+    assert.deepEqual([rows[5].attempt, rows[5].success], [2, 1]);
+    assert.equal((await bob.webhooks.deliveries({ id: webhook.id })).consecutiveFailures, 0, "success resets the streak");
+  });
+
+  await test("Other 4xx responses aren't retried", async () => {
+    const [webhook] = await bob.webhooks.list();
+    status = 404;
+    await writeEntry(bob);
+    const [row] = (await waitForDeliveries(webhook.id, 7)).slice(6);
+    assert.deepEqual([row.status_code, row.retry_at], [404, null]);
+    assert.equal((await bob.webhooks.deliveries({ id: webhook.id })).consecutiveFailures, 1);
+    status = 200;
+  });
+
+  await test("Retries are dropped when the webhook is disabled meanwhile", async () => {
+    const webhook = await createEventWebhook(carol, "Disabled");
+    status = 503;
+    await writeEntry(carol);
+    await waitForDeliveries(webhook.id, 1);
+    await carol.webhooks.update({ id: webhook.id, enabled: false });
+    const before = requests;
+
+    await runRetriesNow();
+    await delay(200);
+    assert.equal(requests, before, "nothing sent");
+    assert.deepEqual(deliveryRows(webhook.id).map((d) => d.retry_at), [null], "retry cleared");
+    status = 200;
+  });
+
+  await test(`A webhook is disabled after ${WEBHOOK_MAX_CONSECUTIVE_FAILURES} failures in a row`, async () => {
+    const [webhook] = await carol.webhooks.list();
+    await carol.webhooks.update({ id: webhook.id, enabled: true });
+    status = 400;
+    for (let i = 1; i <= WEBHOOK_MAX_CONSECUTIVE_FAILURES; i++) {
+      await writeEntry(carol);
+      await waitForDeliveries(webhook.id, 1 + i);
+    }
+    await delay(50);
+    const [disabled] = await carol.webhooks.list();
+    assert.equal(disabled.enabled, false);
+
+    await writeEntry(carol);
+    await delay(100);
+    assert.equal(deliveryRows(webhook.id).length, 1 + WEBHOOK_MAX_CONSECUTIVE_FAILURES, "no more sends");
+
+    await carol.webhooks.update({ id: webhook.id, enabled: true });
+    assert.equal((await carol.webhooks.deliveries({ id: webhook.id })).consecutiveFailures, 0, "enabling resets the streak");
+    status = 200;
+  });
+
+  await test("Deleting a webhook deletes its deliveries", async () => {
+    const [webhook] = await carol.webhooks.list();
+    await carol.webhooks.delete({ id: webhook.id });
+    assert.deepEqual(deliveryRows(webhook.id), []);
+  });
+
+  receiver.close();
+  finish("WEBHOOK DELIVERIES");
+}
+
+runTests().catch((e) => {
+  console.error("Test suite failed:", e);
+  process.exit(1);
+});
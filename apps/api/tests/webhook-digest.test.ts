@@ -0,0 +1,136 @@
+/**
+ * Webhook Digest Test
+ * Tests weekly digests: which week they cover, the owner's entries for it,
+ * the stored AI summary (only while up to date), and skipping empty weeks
+ *
+ * Run: pnpm tsx tests/webhook-digest.test.ts
+ * Uses a temporary database and a local receiver, no server needed
+ */
+
+import assert from "node:assert/strict";
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { asUser, createTestDatabase, delay, finish, test } from "./helpers.js";
+
+const sqlite = createTestDatabase();
+const { appRouter } = await import("../src/routes/index.js");
+const { buildDigest, getDigestWeekStart } = await import("../src/lib/webhook-digest.js");
+const { startWebhookScheduler } = await import("../src/lib/webhook-scheduler.js");
+
+const alice = appRouter.createCaller(asUser("alice"));
+const bob = appRouter.createCaller(asUser("bob"));
+
+const DIGEST = {
+  id: "digest-1",
+  name: "Weekly digest",
+  timezone: "UTC",
+  includeContent: false,
+  digestWeek: "previous" as const,
+  userId: "alice",
+};
+
+// The week before this one, in UTC
+const WEEK_START = getDigestWeekStart("UTC", "previous");
+
+function dayOfWeek(offset: number): string {
+  const date = new Date(`${WEEK_START}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + offset);
+  return date.toISOString().slice(0, 10);
+}
+
+const SUMMARY = { periodType: "week", periodStart: WEEK_START, promptHash: "abc" } as const;
+
+// The receiver records which paths it was sent to
+const received: string[] = [];
+const receiver = createServer((req, res) => {
+  received.push(req.url ?? "");
+  req.resume();
+  req.on("end", () => res.end("ok"));
+});
+await new Promise<void>((resolve) => receiver.listen(0, "127.0.0.1", resolve));
+const receiverUrl = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}`;
+
+async function runTests() {
+  console.log("=".repeat(70));
+  console.log("WEBHOOK DIGEST TEST SUITE");
+  console.log("=".repeat(70));
+
+  await test("Digests cover the current or previous week, in the webhook's timezone", () => {
+    // Monday 2024-03-11, 01:00 UTC: still Sunday in New York
+    const now = new Date("2024-03-11T01:00:00Z");
+    assert.equal(getDigestWeekStart("UTC", "current", now), "2024-03-11");
+    assert.equal(getDigestWeekStart("UTC", "previous", now), "2024-03-04");
+    assert.equal(getDigestWeekStart("America/New_York", "current", now), "2024-03-04");
+    assert.equal(getDigestWeekStart("America/New_York", "previous", now), "2024-02-26");
+    assert.equal(getDigestWeekStart("UTC", "current", new Date("2024-03-17T23:00:00Z")), "2024-03-11", "Sunday");
+  });
+
+  await test("The owner's entries for the week are listed oldest first", async () => {
+    await alice.entries.upsert({ date: dayOfWeek(2), content: "Wednesday notes" });
+    await alice.entries.upsert({ date: dayOfWeek(0), content: "Monday notes" });
+    await alice.entries.upsert({ date: dayOfWeek(4), content: "deleted later" });
+    await alice.entries.delete({ date: dayOfWeek(4) });
+    await alice.entries.upsert({ date: dayOfWeek(7), content: "the next week" });
+    await bob.entries.upsert({ date: dayOfWeek(1), content: "Bob's notes" });
+
+    const digest = buildDigest(DIGEST, false);
+    assert.equal(digest.date, WEEK_START);
+    assert.deepEqual(digest.digest?.entries, [
+      { date: dayOfWeek(0), excerpt: "Monday notes" },
+      { date: dayOfWeek(2), excerpt: "Wednesday notes" },
+    ]);
+    assert.deepEqual([digest.digest?.totalEntries, digest.digest?.summary], [2, null]);
+    assert.ok(digest.message.startsWith(`**Mon ${dayOfWeek(0)}**\nMonday notes`), "rendered as markdown");
+
+    const full = buildDigest({ ...DIGEST, includeContent: true }, true);
+    assert.equal(full.digest?.entries[0].content, "Monday notes");
+    assert.equal(full.test, true);
+  });
+
+  await test("The week's stored summary is included while it's up to date", async () => {
+    await delay(5);
+    await alice.summaries.save({ ...SUMMARY, backend: "openai", content: "A focused week" });
+    let digest = buildDigest(DIGEST, false);
+    assert.equal(digest.digest?.summary, "A focused week");
+    assert.ok(digest.message.startsWith("**Summary**\nA focused week\n\n"));
+
+    await delay(5);
+    await alice.entries.upsert({ date: dayOfWeek(2), content: "Wednesday, edited" });
+    digest = buildDigest(DIGEST, false);
+    assert.equal(digest.digest?.summary, null, "stale summaries are left out");
+
+    await delay(5);
+    await alice.summaries.save({ ...SUMMARY, backend: "webllm", content: "Regenerated" });
+    assert.equal(buildDigest(DIGEST, false).digest?.summary, "Regenerated", "any backend's summary");
+    assert.equal(buildDigest({ ...DIGEST, userId: "bob" }, false).digest?.summary, null, "only the owner's");
+  });
+
+  await test("Scheduled digests for an empty week aren't sent", async () => {
+    const carol = appRouter.createCaller(asUser("carol"));
+    const options = { time: "09:00", days: ["mon" as const], timezone: "UTC", type: "digest" as const };
+    const empty = await carol.webhooks.create({ ...options, name: "Empty", url: `${receiverUrl}/empty` });
+    const busy = await alice.webhooks.create({ ...options, name: "Busy", url: `${receiverUrl}/busy` });
+
+    const due = new Date(Date.now() - 1000).toISOString();
+    for (const id of [empty.id, busy.id]) {
+      sqlite.prepare("UPDATE webhook_jobs SET next_run_at = ? WHERE webhook_id = ?").run(due, id);
+    }
+    startWebhookScheduler();
+    for (let i = 0; i < 50 && !received.includes("/busy"); i++) await delay(20);
+    await delay(100);
+
+    assert.deepEqual(received, ["/busy"]);
+    const nextRun = sqlite.prepare("SELECT next_run_at FROM webhook_jobs WHERE webhook_id = ?").get(empty.id) as {
+      next_run_at: string;
+    };
+    assert.ok(nextRun.next_run_at > due, "still moved on to the next week");
+  });
+
+  receiver.close();
+  finish("WEBHOOK DIGEST");
+}
+
+runTests().catch((e) => {
+  console.error("Test suite failed:", e);
+  process.exit(1);
+});
@@ -0,0 +1,202 @@
+/**
+ * Webhook Formats Test
+ * Tests the payloads in @til-stack/shared webhook-formats: format detection
+ * from the URL, each platform's request, and the reminder, entry event and
+ * digest notifications they're built from
+ *
+ * Run: pnpm tsx tests/webhook-formats.test.ts
+ * No server or database needed
+ */
+
+import assert from "node:assert/strict";
+import {
+  buildWebhookRequest,
+  detectWebhookFormat,
+  digestNotification,
+  entryEventNotification,
+  reminderNotification,
+  resolveWebhookFormat,
+  WEBHOOK_EXCERPT_LENGTH,
+  type ResolvedWebhookFormat,
+  type WebhookNotification,
+} from "@til-stack/shared";
+import { finish, test } from "./helpers.js";
+
+const WEBHOOK = { id: "wh-1", name: "Team channel", message: "Time to write your TIL!", includeContent: false };
+const OPTIONS = { id: "delivery-1", test: false, sentAt: "2024-03-14T09:00:00.000Z" };
+
+const reminder = reminderNotification(WEBHOOK, { ...OPTIONS, date: "2024-03-14" });
+const created = entryEventNotification(
+  WEBHOOK,
+  "entry.created",
+  { date: "2024-03-14", content: "Learned **bold** things" },
+  "alice",
+  OPTIONS
+);
+
+function payload(format: ResolvedWebhookFormat, notification: WebhookNotification, url = "https://example.com/hook") {
+  const request = buildWebhookRequest(format, url, notification);
+  assert.deepEqual(request.headers, { "Content-Type": "application/json" });
+  return { url: request.url, body: JSON.parse(request.body) };
+}
+
+async function runTests() {
+  console.log("=".repeat(70));
+  console.log("WEBHOOK FORMATS TEST SUITE");
+  console.log("=".repeat(70));
+
+  await test("The format is detected from the URL", () => {
+    const cases: [string, ResolvedWebhookFormat][] = [
+      ["https://hooks.slack.com/services/T0/B0/xyz", "slack"],
+      ["https://discord.com/api/webhooks/1/abc", "discord"],
+      ["https://ptb.discordapp.com/api/webhooks/1/abc", "discord"],
+      ["https://discord.com/channels/1", "generic"],
+      ["https://acme.webhook.office.com/webhookb2/abc", "teams"],
+      ["https://prod-01.westus.logic.azure.com/workflows/abc", "teams"],
+      ["https://ntfy.sh/my-topic", "ntfy"],
+      ["https://ntfy.example.com/my-topic", "ntfy"],
+      ["https://push.example.com/message?token=abc", "gotify"],
+      ["https://push.example.com/message", "generic"],
+      ["https://hooks.slack.com.evil.com/services/x", "generic"],
+      ["not a url", "generic"],
+    ];
+    for (const [url, format] of cases) {
+      assert.equal(detectWebhookFormat(url), format, url);
+    }
+  });
+
+  await test("Only auto is resolved from the URL", () => {
+    assert.equal(resolveWebhookFormat("auto", "https://hooks.slack.com/services/x"), "slack");
+    assert.equal(resolveWebhookFormat("generic", "https://hooks.slack.com/services/x"), "generic");
+    assert.equal(resolveWebhookFormat("discord", "https://example.com/hook"), "discord");
+  });
+
+  await test("Slack gets Block Kit with mrkdwn bold", () => {
+    const { body } = payload("slack", created);
+    assert.equal(body.text, "Learned *bold* things");
+    assert.deepEqual(
+      body.blocks.map((block: { type: string }) => block.type),
+      ["header", "section", "context"]
+    );
+    assert.equal(body.blocks[0].text.text, "New TIL for 2024-03-14");
+    assert.equal(body.blocks[2].elements[0].text, "2024-03-14 · Team channel");
+
+    const long = { ...reminder, message: "x".repeat(4000) };
+    assert.equal(payload("slack", long).body.blocks[1].text.text.length, 3000, "section cut to Slack's limit");
+  });
+
+  await test("Discord gets an embed", () => {
+    const { body } = payload("discord", reminder);
+    assert.equal(body.username, "TIL Reminder");
+    assert.deepEqual(body.embeds[0], {
+      title: "TIL Reminder",
+      description: "Time to write your TIL!",
+      color: 0x3b82f6,
+      footer: { text: "2024-03-14 · Team channel" },
+      timestamp: OPTIONS.sentAt,
+    });
+    const long = { ...reminder, message: "x".repeat(5000) };
+    assert.equal(payload("discord", long).body.embeds[0].description.length, 4096);
+  });
+
+  await test("Teams gets an Adaptive Card", () => {
+    const { body } = payload("teams", reminder);
+    assert.equal(body.type, "message");
+    const [attachment] = body.attachments;
+    assert.equal(attachment.contentType, "application/vnd.microsoft.card.adaptive");
+    assert.deepEqual(
+      attachment.content.body.map((block: { text: string }) => block.text),
+      ["TIL Reminder", "Time to write your TIL!", "2024-03-14 · Team channel"]
+    );
+  });
+
+  await test("ntfy is posted to the server root with the topic in the body", () => {
+    const { url, body } = payload("ntfy", reminder, "https://ntfy.example.com/sub/path/my-topic/");
+    assert.equal(url, "https://ntfy.example.com/sub/path/");
+    assert.deepEqual(body, {
+      topic: "my-topic",
+      title: "TIL Reminder",
+      message: "Time to write your TIL!",
+      markdown: true,
+      tags: ["memo"],
+    });
+  });
+
+  await test("Gotify gets a markdown message", () => {
+    const { url, body } = payload("gotify", reminder, "https://push.example.com/message?token=abc");
+    assert.equal(url, "https://push.example.com/message?token=abc");
+    assert.deepEqual(body, {
+      title: "TIL Reminder",
+      message: "Time to write your TIL!",
+      priority: 5,
+      extras: { "client::display": { contentType: "text/markdown" } },
+    });
+  });
+
+  await test("Generic gets the whole notification", () => {
+    assert.deepEqual(payload("generic", reminder).body, {
+      version: 1,
+      id: "delivery-1",
+      event: "reminder",
+      title: "TIL Reminder",
+      message: "Time to write your TIL!",
+      text: "Time to write your TIL!",
+      date: "2024-03-14",
+      webhook: { id: "wh-1", name: "Team channel" },
+      test: false,
+      sentAt: OPTIONS.sentAt,
+    });
+    const { body } = payload("generic", created);
+    assert.deepEqual([body.entry, body.user], [
+      { date: "2024-03-14", excerpt: "Learned **bold** things" },
+      { id: "alice" },
+    ]);
+  });
+
+  await test("Entry events carry an excerpt, or the content when included", () => {
+    const content = `  ${"word ".repeat(100)}`;
+    const entry = { date: "2024-03-14", content };
+    const excerpted = entryEventNotification(WEBHOOK, "entry.updated", entry, null, OPTIONS);
+    assert.equal(excerpted.title, "TIL updated: 2024-03-14");
+    assert.equal(excerpted.message.length, WEBHOOK_EXCERPT_LENGTH);
+    assert.ok(excerpted.message.endsWith("…"));
+    assert.equal(excerpted.entry?.content, undefined);
+
+    const full = entryEventNotification({ ...WEBHOOK, includeContent: true }, "entry.updated", entry, null, OPTIONS);
+    assert.deepEqual([full.message, full.entry?.content], [content, content]);
+
+    const deleted = entryEventNotification(WEBHOOK, "entry.deleted", entry, null, OPTIONS);
+    assert.deepEqual([deleted.title, deleted.message], ["TIL deleted: 2024-03-14", "The entry for 2024-03-14 was deleted."]);
+  });
+
+  await test("Digests list the week oldest first, after the summary", () => {
+    const week = {
+      weekStart: "2024-03-11",
+      weekEnd: "2024-03-17",
+      entries: [
+        { date: "2024-03-13", content: "Wednesday notes" },
+        { date: "2024-03-11", content: "Monday notes" },
+      ],
+      summary: "A good week",
+    };
+    const digest = digestNotification(WEBHOOK, week, OPTIONS);
+    assert.equal(digest.title, "TIL digest: 2024-03-11 – 2024-03-17");
+    assert.equal(digest.date, "2024-03-11");
+    assert.equal(
+      digest.message,
+      "**Summary**\nA good week\n\n**Mon 2024-03-11**\nMonday notes\n\n**Wed 2024-03-13**\nWednesday notes"
+    );
+    assert.deepEqual(digest.digest?.entries.map((e) => e.date), ["2024-03-11", "2024-03-13"]);
+    assert.equal(digest.digest?.totalEntries, 2);
+
+    const empty = digestNotification(WEBHOOK, { ...week, entries: [], summary: null }, OPTIONS);
+    assert.equal(empty.message, "No entries this week.");
+  });
+
+  finish("WEBHOOK FORMATS");
+}
+
+runTests().catch((e) => {
+  console.error("Test suite failed:", e);
+  process.exit(1);
+});
@@ -0,0 +1,183 @@
+/**
+ * Webhook Jobs Test
+ * Tests the persisted webhook schedule: next run times (timezones and DST),
+ * claiming due jobs with leases, completing them, syncing on startup, and
+ * catching up on runs missed while no instance was running
+ *
+ * Run: pnpm tsx tests/webhook-jobs.test.ts
+ * Uses a temporary database and a local receiver, no server needed
+ */
+
+import assert from "node:assert/strict";
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { DayOfWeek } from "@til-stack/shared";
+import { asUser, createTestDatabase, delay, finish, test } from "./helpers.js";
+
+const sqlite = createTestDatabase();
+const { appRouter } = await import("../src/routes/index.js");
+const { nextRunAfter, upsertJob, syncJobs, claimDueJobs, completeJob } = await import("../src/lib/webhook-jobs.js");
+const { startWebhookScheduler } = await import("../src/lib/webhook-scheduler.js");
+
+const alice = appRouter.createCaller(asUser("alice"));
+const bob = appRouter.createCaller(asUser("bob"));
+
+const EVERY_DAY: DayOfWeek[] = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+function nextRun(time: string, days: DayOfWeek[], timezone: string, after: string) {
+  return nextRunAfter({ time, days, timezone }, new Date(after))?.toISOString() ?? null;
+}
+
+function getJob(webhookId: string) {
+  return sqlite.prepare("SELECT * FROM webhook_jobs WHERE webhook_id = ?").get(webhookId) as
+    | { webhook_id: string; next_run_at: string; locked_by: string | null; locked_until: string | null }
+    | undefined;
+}
+
+let requests = 0;
+const receiver = createServer((req, res) => {
+  requests++;
+  req.resume();
+  req.on("end", () => res.end("ok"));
+});
+await new Promise<void>((resolve) => receiver.listen(0, "127.0.0.1", resolve));
+const receiverUrl = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/hook`;
+
+async function runTests() {
+  console.log("=".repeat(70));
+  console.log("WEBHOOK JOBS TEST SUITE");
+  console.log("=".repeat(70));
+
+  await test("The next run is the first scheduled time strictly after", () => {
+    // Wednesday 2024-03-13
+    assert.equal(nextRun("09:00", ["wed"], "UTC", "2024-03-13T08:59:00Z"), "2024-03-13T09:00:00.000Z");
+    assert.equal(nextRun("09:00", ["wed"], "UTC", "2024-03-13T09:00:00Z"), "2024-03-20T09:00:00.000Z");
+    assert.equal(nextRun("09:00", ["mon", "fri"], "Asia/Kolkata", "2024-03-13T00:00:00Z"), "2024-03-15T03:30:00.000Z");
+    assert.equal(nextRun("09:00", [], "UTC", "2024-03-13T00:00:00Z"), null);
+  });
+
+  await test("Runs follow the timezone's wall clock across DST changes", () => {
+    // New York springs forward at 02:00 on 2024-03-10; 02:30 doesn't exist, so it runs an hour later
+    assert.equal(nextRun("02:30", ["sun"], "America/New_York", "2024-03-09T12:00:00Z"), "2024-03-10T07:30:00.000Z");
+    assert.equal(nextRun("09:00", ["sun"], "America/New_York", "2024-03-09T12:00:00Z"), "2024-03-10T13:00:00.000Z");
+    // Falls back on 2024-11-03; 01:30 happens twice and runs the first time
+    assert.equal(nextRun("01:30", ["sun"], "America/New_York", "2024-11-02T12:00:00Z"), "2024-11-03T05:30:00.000Z");
+    assert.equal(nextRun("09:00", ["sun"], "America/New_York", "2024-11-02T12:00:00Z"), "2024-11-03T14:00:00.000Z");
+  });
+
+  await test("Due jobs are claimed by one instance until the lease expires", () => {
+    const now = new Date("2024-03-13T09:00:00Z");
+    upsertJob("due", new Date("2024-03-13T08:59:00Z"));
+    upsertJob("later", new Date("2024-03-13T09:01:00Z"));
+
+    assert.deepEqual(claimDueJobs("instance-a", now, 60_000).map((j) => j.webhookId), ["due"]);
+    assert.deepEqual(claimDueJobs("instance-b", now, 60_000), [], "leased jobs aren't claimed again");
+
+    const afterLease = new Date(now.getTime() + 60_000);
+    const reclaimed = claimDueJobs("instance-b", afterLease, 60_000);
+    assert.deepEqual(reclaimed.map((j) => [j.webhookId, j.lockedBy]), [
+      ["due", "instance-b"],
+      ["later", "instance-b"],
+    ]);
+    return "instance-b took over after the lease expired";
+  });
+
+  await test("Only the lease holder can complete a job", () => {
+    completeJob("due", "instance-a", new Date("2024-03-14T09:00:00Z"));
+    assert.equal(getJob("due")?.next_run_at, "2024-03-13T08:59:00.000Z", "a lost lease changes nothing");
+
+    completeJob("due", "instance-b", new Date("2024-03-14T09:00:00Z"));
+    assert.deepEqual(getJob("due"), {
+      webhook_id: "due",
+      next_run_at: "2024-03-14T09:00:00.000Z",
+      locked_by: null,
+      locked_until: null,
+    });
+
+    completeJob("later", "instance-b", null);
+    assert.equal(getJob("later"), undefined, "no next run deletes the job");
+  });
+
+  await test("Editing a webhook releases the lease of the run in progress", () => {
+    const now = new Date("2024-03-14T09:00:00Z");
+    assert.equal(claimDueJobs("instance-a", now, 60_000).length, 1);
+    upsertJob("due", new Date("2024-03-15T10:00:00Z"));
+    completeJob("due", "instance-a", new Date("2024-03-15T09:00:00Z"));
+
+    assert.equal(getJob("due")?.next_run_at, "2024-03-15T10:00:00.000Z", "the edit wins");
+    assert.equal(getJob("due")?.locked_by, null);
+  });
+
+  await test("Syncing keeps existing run times and drops orphaned jobs", () => {
+    syncJobs([
+      { webhookId: "due", nextRunAt: new Date("2024-04-01T09:00:00Z") },
+      { webhookId: "new", nextRunAt: new Date("2024-04-01T09:00:00Z") },
+    ]);
+    const rows = sqlite.prepare("SELECT webhook_id, next_run_at FROM webhook_jobs ORDER BY webhook_id").all();
+    assert.deepEqual(rows, [
+      { webhook_id: "due", next_run_at: "2024-03-15T10:00:00.000Z" },
+      { webhook_id: "new", next_run_at: "2024-04-01T09:00:00.000Z" },
+    ]);
+
+    syncJobs([]);
+    const { count } = sqlite.prepare("SELECT COUNT(*) AS count FROM webhook_jobs").get() as { count: number };
+    assert.equal(count, 0);
+  });
+
+  await test("Only the owner's delete removes a webhook's job", async () => {
+    const webhook = await alice.webhooks.create({
+      name: "Alice's reminder",
+      url: receiverUrl,
+      time: "09:00",
+      days: EVERY_DAY,
+      timezone: "UTC",
+    });
+    await bob.webhooks.delete({ id: webhook.id });
+    assert.ok(getJob(webhook.id), "another user's delete leaves the job");
+
+    await alice.webhooks.delete({ id: webhook.id });
+    assert.equal(getJob(webhook.id), undefined);
+  });
+
+  await test("On startup, recently missed runs are sent and older ones skipped", async () => {
+    // Scheduled well away from now, so only the overdue jobs set below can fire
+    const time = `${String((new Date().getUTCHours() + 6) % 24).padStart(2, "0")}:00`;
+    const schedule = { url: receiverUrl, time, days: EVERY_DAY, timezone: "UTC" };
+    const recent = await alice.webhooks.create({ name: "Missed 5 minutes ago", ...schedule });
+    const old = await alice.webhooks.create({ name: "Missed 10 hours ago", ...schedule });
+    const disabled = await alice.webhooks.create({ name: "Disabled", ...schedule, enabled: false });
+    const events = await alice.webhooks.create({ name: "Events", ...schedule, type: "event", events: ["entry.created"] });
+    assert.equal(getJob(disabled.id), undefined);
+    assert.equal(getJob(events.id), undefined);
+
+    const now = Date.now();
+    const setNextRun = (id: string, msAgo: number) =>
+      sqlite.prepare("UPDATE webhook_jobs SET next_run_at = ? WHERE webhook_id = ?")
+        .run(new Date(now - msAgo).toISOString(), id);
+    setNextRun(recent.id, 5 * 60_000);
+    setNextRun(old.id, 10 * 60 * 60_000);
+    upsertJob("deleted-webhook", new Date(now - 60_000));
+
+    startWebhookScheduler();
+    for (let i = 0; i < 50 && getJob(recent.id)!.next_run_at < new Date(now).toISOString(); i++) {
+      await delay(100);
+    }
+
+    assert.equal(requests, 1, "only the recent run was sent");
+    assert.equal((await alice.webhooks.deliveries({ id: recent.id })).items.length, 1);
+    assert.equal((await alice.webhooks.deliveries({ id: old.id })).items.length, 0);
+    for (const id of [recent.id, old.id]) {
+      assert.ok(new Date(getJob(id)!.next_run_at).getTime() > now, "moved on to the next run");
+    }
+    assert.equal(getJob("deleted-webhook"), undefined);
+    return "1 sent, 1 skipped, orphan removed";
+  });
+
+  receiver.close();
+  finish("WEBHOOK JOBS");
+}
+
+runTests().catch((e) => {
+  console.error("Test suite failed:", e);
+  process.exit(1);
+});
@@ -0,0 +1,118 @@
+/**
+ * Webhook Signature Test
+ * Tests HMAC signing of webhook requests: the signature format, and that a
+ * receiver can verify a real request with the webhook's secret until it is
+ * rotated
+ *
+ * Run: pnpm tsx tests/webhook-signature.test.ts
+ * Uses a temporary database and a local receiver, no server needed
+ */
+
+import assert from "node:assert/strict";
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { createServer, type IncomingHttpHeaders } from "node:http";
+import type { AddressInfo } from "node:net";
+import { asUser, createTestDatabase, finish, test } from "./helpers.js";
+
+createTestDatabase();
+const { appRouter } = await import("../src/routes/index.js");
+const { generateWebhookSecret, signWebhookRequest } = await import("../src/lib/webhook-signature.js");
+
+const alice = appRouter.createCaller(asUser("alice"));
+
+// What a receiver is told to do: HMAC the timestamp and raw body, compare in constant time
+function verify(secret: string, headers: IncomingHttpHeaders, body: string): boolean {
+  const expected = createHmac("sha256", secret).update(`${headers["x-til-timestamp"]}.${body}`).digest("hex");
+  const signature = String(headers["x-til-signature"] ?? "");
+  return signature.length === 71 && timingSafeEqual(Buffer.from(signature), Buffer.from(`sha256=${expected}`));
+}
+
+const received: { headers: IncomingHttpHeaders; body: string }[] = [];
+const receiver = createServer((req, res) => {
+  let body = "";
+  req.on("data", (chunk) => (body += chunk));
+  req.on("end", () => {
+    received.push({ headers: req.headers, body });
+    res.end("ok");
+  });
+});
+await new Promise<void>((resolve) => receiver.listen(0, "127.0.0.1", resolve));
+const receiverUrl = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/hook`;
+
+async function runTests() {
+  console.log("=".repeat(70));
+  console.log("WEBHOOK SIGNATURE TEST SUITE");
+  console.log("=".repeat(70));
+
+  await test("Requests are signed over the timestamp and body", () => {
+    const headers = signWebhookRequest("topsecret", '{"event":"reminder"}', 1700000000);
+    assert.deepEqual(headers, {
+      "X-TIL-Timestamp": "1700000000",
+      "X-TIL-Signature": "sha256=9bd2fc50b0a09fcca98975a9da48487e89d0858578840d12ec46a080d553697c",
+    });
+
+    const other = [
+      signWebhookRequest("topsecret", '{"event":"digest"}', 1700000000),
+      signWebhookRequest("topsecret", '{"event":"reminder"}', 1700000001),
+      signWebhookRequest("othersecret", '{"event":"reminder"}', 1700000000),
+    ];
+    for (const changed of other) {
+      assert.notEqual(changed["X-TIL-Signature"], headers["X-TIL-Signature"]);
+    }
+    return "matches a known HMAC-SHA256";
+  });
+
+  await test("The timestamp defaults to now, in seconds", () => {
+    const before = Math.floor(Date.now() / 1000);
+    const timestamp = Number(signWebhookRequest("s", "body")["X-TIL-Timestamp"]);
+    assert.ok(timestamp >= before && timestamp <= before + 1, `${timestamp} is now`);
+  });
+
+  await test("Secrets are 32 random bytes", () => {
+    const secret = generateWebhookSecret();
+    assert.match(secret, /^[0-9a-f]{64}$/);
+    assert.notEqual(generateWebhookSecret(), secret);
+  });
+
+  await test("A receiver verifies a sent request with the webhook's secret", async () => {
+    const webhook = await alice.webhooks.create({
+      name: "Receiver",
+      url: receiverUrl,
+      time: "09:00",
+      days: ["mon"],
+      timezone: "UTC",
+    });
+    const { secret } = await alice.webhooks.secret({ id: webhook.id });
+    assert.equal((webhook as Record<string, unknown>).secret, undefined, "secret isn't returned with the webhook");
+
+    assert.equal((await alice.webhooks.test({ id: webhook.id })).success, true);
+    const [request] = received.splice(0);
+    assert.equal(request.headers["x-til-event"], "reminder");
+    assert.ok(request.headers["x-til-delivery"], "delivery id sent");
+    assert.equal(verify(secret, request.headers, request.body), true);
+    assert.equal(verify(secret, request.headers, request.body + " "), false, "a changed body fails");
+    return "signature verified";
+  });
+
+  await test("After rotating, requests no longer verify with the old secret", async () => {
+    const [webhook] = await alice.webhooks.list();
+    const { secret: oldSecret } = await alice.webhooks.secret({ id: webhook.id });
+    await alice.webhooks.rotateSecret({ id: webhook.id });
+    const { secret: newSecret } = await alice.webhooks.secret({ id: webhook.id });
+    assert.notEqual(newSecret, oldSecret);
+
+    await alice.webhooks.test({ id: webhook.id });
+    const [request] = received.splice(0);
+    assert.equal(verify(oldSecret, request.headers, request.body), false);
+    assert.equal(verify(newSecret, request.headers, request.body), true);
+    return "only the new secret verifies";
+  });
+
+  receiver.close();
+  finish("WEBHOOK SIGNATURE");
+}
+
+runTests().catch((e) => {
+  console.error("Test suite failed:", e);
+  process.exit(1);
+});
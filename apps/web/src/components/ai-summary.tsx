@@ -1,7 +1,17 @@
-import { useState, useEffect, useCallback, useRef } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
+import { skipToken } from "@tanstack/react-query";
+import type { SummaryPeriodType } from "@til-stack/shared";
 import { Button } from "@/components/ui/button";
-import { useSummarizer } from "@/lib/summarizer";
+import { useSummarizer, hashPrompt } from "@/lib/summarizer";
 import { useAIConfig } from "@/lib/ai-config";
+import {
+  getDateRange,
+  getDefaultPrompt,
+  getPromptsForScope,
+  renderPrompt,
+  type PromptScope,
+} from "@/lib/prompts";
+import { trpc } from "@/lib/trpc";
 import {
   Sparkles,
   Loader2,
@@ -17,21 +27,95 @@ import remarkGfm from "remark-gfm";
 
 type SummaryState = "idle" | "generating" | "complete" | "error";
 
+// "entries" summarizes all entries in one request. "yearly" summarizes each
+// month first and then the monthly summaries, so a whole year stays within
+// the backends' context limits.
+export type AISummaryMode = "entries" | "yearly";
+
+type SummaryEntry = { date: string; content: string };
+
 interface AISummaryProps {
-  entries: Array<{ date: string; content: string }>;
+  entries: Array<SummaryEntry>;
   context: string; // e.g., "Week of Jan 6-12"
   autoStart?: boolean;
+  mode?: AISummaryMode;
+  // When set, the summary is saved and reused instead of regenerated every time
+  period?: { type: SummaryPeriodType; start: string };
+}
+
+const SELECT_CLASS_NAME = "h-7 rounded-md border border-input bg-background px-2 text-xs";
+
+function formatEntries(entries: SummaryEntry[]): string {
+  return entries.map((e) => `## ${e.date}\n${e.content}`).join("\n\n");
+}
+
+// Entries grouped by YYYY-MM, oldest month first
+function groupByMonth(entries: SummaryEntry[]): [string, SummaryEntry[]][] {
+  const months = new Map<string, SummaryEntry[]>();
+  for (const entry of [...entries].sort((a, b) => a.date.localeCompare(b.date))) {
+    const month = entry.date.slice(0, 7);
+    months.set(month, [...(months.get(month) ?? []), entry]);
+  }
+  return [...months];
+}
+
+function formatMonth(month: string): string {
+  return new Date(`${month}-01T00:00:00`).toLocaleDateString("en-US", {
+    month: "long",
+    year: "numeric",
+  });
 }
 
-export function AISummary({ entries, context, autoStart = false }: AISummaryProps) {
+export function AISummary({
+  entries,
+  context,
+  autoStart = false,
+  mode = "entries",
+  period,
+}: AISummaryProps) {
   const { config } = useAIConfig();
-  const { status: summarizerStatus, progress, summarizeStream, initDownload } =
+  const { status: summarizerStatus, progress, progressText, summarizeStream, initDownload } =
     useSummarizer();
+  const utils = trpc.useUtils();
+
+  // Prompts tagged for this period (plus ad-hoc ones); the first is the default
+  const scope: PromptScope = mode === "yearly" ? "year" : period?.type ?? "adhoc";
+  const defaultPrompt = getDefaultPrompt(config.prompts, scope);
+  const scopedPrompts = getPromptsForScope(config.prompts, scope);
+  const promptOptions = scopedPrompts.some((p) => p.id === defaultPrompt.id)
+    ? scopedPrompts
+    : [defaultPrompt, ...scopedPrompts];
+  const [promptId, setPromptId] = useState<string | null>(null);
+  const prompt = promptOptions.find((p) => p.id === promptId) ?? defaultPrompt;
+
+  const [promptHash, setPromptHash] = useState<string | null>(null);
+  useEffect(() => {
+    hashPrompt(prompt.content).then(setPromptHash);
+  }, [prompt.content]);
+
+  const summaryKey = useMemo(
+    () =>
+      period && promptHash
+        ? {
+            periodType: period.type,
+            periodStart: period.start,
+            backend: config.backend,
+            promptHash,
+          }
+        : null,
+    [period?.type, period?.start, config.backend, promptHash]
+  );
+  const savedQuery = trpc.summaries.get.useQuery(summaryKey ?? skipToken);
+  const saved = savedQuery.data;
+  const saveMutation = trpc.summaries.save.useMutation({
+    onSuccess: () => utils.summaries.get.invalidate(),
+  });
 
   const [state, setState] = useState<SummaryState>("idle");
   const [summary, setSummary] = useState("");
   const [error, setError] = useState<string | null>(null);
   const [copied, setCopied] = useState(false);
+  const [step, setStep] = useState<string | null>(null);
   const hasStartedRef = useRef(false);
   const abortRef = useRef(false);
 
@@ -48,19 +132,61 @@ export function AISummary({ entries, context, autoStart = false }: AISummaryProp
     setError(null);
     abortRef.current = false;
 
-    const inputText = entries
-      .map((e) => `## ${e.date}\n${e.content}`)
-      .join("\n\n");
+    try {
+      let inputText = formatEntries(entries);
+
+      if (mode === "yearly") {
+        // First pass: one summary per month with the month prompt, collected
+        // without streaming to the UI
+        const monthPrompt = getDefaultPrompt(config.prompts, "month");
+        const monthPromptHash = await hashPrompt(monthPrompt.content);
+        const months = groupByMonth(entries);
+        const monthlySummaries: string[] = [];
+        for (const [index, [month, monthEntries]] of months.entries()) {
+          setStep(`Summarizing ${formatMonth(month)} (${index + 1}/${months.length})...`);
+          // Reuse an up-to-date saved summary of the month if there is one
+          const monthKey = summaryKey && {
+            ...summaryKey,
+            periodType: "month" as const,
+            periodStart: `${month}-01`,
+            promptHash: monthPromptHash,
+          };
+          const savedMonth = monthKey ? await utils.summaries.get.fetch(monthKey) : null;
+          let monthSummary = savedMonth && !savedMonth.stale ? savedMonth.content : "";
+          if (!monthSummary) {
+            const renderedMonthPrompt = renderPrompt(monthPrompt.content, {
+              period: formatMonth(month),
+              entryCount: monthEntries.length,
+              dateRange: getDateRange(monthEntries.map((e) => e.date)),
+            });
+            for await (const chunk of summarizeStream(formatEntries(monthEntries), renderedMonthPrompt)) {
+              if (abortRef.current) return;
+              monthSummary += chunk;
+            }
+            if (monthKey && monthSummary.trim()) {
+              await saveMutation.mutateAsync({ ...monthKey, content: monthSummary.trim() });
+            }
+          }
+          monthlySummaries.push(`## ${formatMonth(month)}\n${monthSummary.trim()}`);
+        }
+        setStep("Summarizing the year...");
+        inputText = monthlySummaries.join("\n\n");
+      }
 
-    // Debug: Log entries being summarized
-    console.group("📝 AI Summary Input");
-    console.log("Entries count:", entries.length);
-    console.log("Entries:", entries.map(e => ({ date: e.date, contentLength: e.content.length })));
-    console.log("Generated input text:", inputText);
-    console.groupEnd();
+      // Debug: Log entries being summarized
+      console.group("📝 AI Summary Input");
+      console.log("Mode:", mode);
+      console.log("Entries count:", entries.length);
+      console.log("Entries:", entries.map(e => ({ date: e.date, contentLength: e.content.length })));
+      console.log("Generated input text:", inputText);
+      console.groupEnd();
 
-    try {
-      const generator = summarizeStream(inputText);
+      const renderedPrompt = renderPrompt(prompt.content, {
+        period: context,
+        entryCount: entries.length,
+        dateRange: getDateRange(entries.map((e) => e.date)),
+      });
+      const generator = summarizeStream(inputText, renderedPrompt);
       let fullText = "";
 
       for await (const chunk of generator) {
@@ -71,20 +197,36 @@ export function AISummary({ entries, context, autoStart = false }: AISummaryProp
 
       if (!abortRef.current) {
         setState("complete");
+        if (summaryKey && fullText.trim()) {
+          saveMutation.mutate({ ...summaryKey, content: fullText });
+        }
       }
     } catch (err) {
       if (!abortRef.current) {
         setError(err instanceof Error ? err.message : "Failed to generate summary");
         setState("error");
       }
+    } finally {
+      setStep(null);
+    }
+  }, [entries, context, mode, prompt.content, config.prompts, summarizeStream, summaryKey, utils, saveMutation.mutate, saveMutation.mutateAsync]);
+
+  // Show a saved summary instead of generating a new one
+  useEffect(() => {
+    if (saved && state === "idle") {
+      hasStartedRef.current = true;
+      setSummary(saved.content);
+      setState("complete");
     }
-  }, [entries, summarizeStream]);
+  }, [saved, state]);
 
-  // Auto-start when enabled and ready
+  // Auto-start when enabled and ready (and, for saved periods, nothing was saved yet)
   useEffect(() => {
+    const hasNoSavedSummary = !period || (savedQuery.isFetched && !saved);
     if (
       autoStart &&
       !hasStartedRef.current &&
+      hasNoSavedSummary &&
       config.enabled &&
       summarizerStatus === "ready" &&
       entries.length > 0
@@ -92,7 +234,16 @@ export function AISummary({ entries, context, autoStart = false }: AISummaryProp
       hasStartedRef.current = true;
       generateSummary();
     }
-  }, [autoStart, config.enabled, summarizerStatus, entries.length, generateSummary]);
+  }, [
+    autoStart,
+    period,
+    savedQuery.isFetched,
+    saved,
+    config.enabled,
+    summarizerStatus,
+    entries.length,
+    generateSummary,
+  ]);
 
   // Reset hasStartedRef when entries change
   useEffect(() => {
@@ -119,6 +270,15 @@ export function AISummary({ entries, context, autoStart = false }: AISummaryProp
     setTimeout(() => setCopied(false), 2000);
   };
 
+  // Switching prompts shows that prompt's saved summary, or generates one
+  const handlePromptChange = (id: string) => {
+    hasStartedRef.current = false;
+    setPromptId(id);
+    setSummary("");
+    setError(null);
+    setState("idle");
+  };
+
   const handleRetry = () => {
     hasStartedRef.current = false;
     generateSummary();
@@ -221,6 +381,26 @@ export function AISummary({ entries, context, autoStart = false }: AISummaryProp
 
         {/* Actions */}
         <div className="flex items-center gap-1">
+          {promptOptions.length > 1 && (
+            <select
+              value={prompt.id}
+              onChange={(e) => handlePromptChange(e.target.value)}
+              disabled={state === "generating"}
+              title="Prompt"
+              className={SELECT_CLASS_NAME}
+            >
+              {promptOptions.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.name}
+                </option>
+              ))}
+            </select>
+          )}
+          {state === "idle" && !autoStart && (
+            <Button variant="outline" size="sm" className="h-7" onClick={generateSummary}>
+              Generate
+            </Button>
+          )}
           {(state === "complete" || state === "error") && (
             <Button
               variant="ghost"
@@ -258,6 +438,13 @@ export function AISummary({ entries, context, autoStart = false }: AISummaryProp
         </div>
       )}
 
+      {state === "complete" && saved?.stale && summary === saved.content && (
+        <div className="flex items-center gap-2 text-xs text-amber-600 mb-1">
+          <AlertCircle className="h-3 w-3" />
+          <span>Entries changed since this summary was generated. Regenerate to update it.</span>
+        </div>
+      )}
+
       {state === "error" && (
         <div className="flex items-center gap-2 text-sm text-destructive">
           <AlertCircle className="h-4 w-4" />
@@ -273,7 +460,9 @@ export function AISummary({ entries, context, autoStart = false }: AISummaryProp
 
       {state === "generating" && !summary && (
         <div className="flex items-center gap-2 text-sm text-muted-foreground">
-          <span className="animate-pulse">Generating summary...</span>
+          <span className="animate-pulse">
+            {[step, progressText].filter(Boolean).join(" ") || "Generating summary..."}
+          </span>
         </div>
       )}
     </div>
@@ -0,0 +1,142 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Loader2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { trpc } from "@/lib/trpc";
+import { useAuth } from "@/lib/auth-context";
+import { sharedWorkerClient } from "@/lib/shared-worker-client";
+
+// Same day edited on this device and another one; kept in the worker's entry_conflicts table
+export interface EntryConflict {
+  date: string;
+  localContent: string;
+  serverContent: string;
+  serverUpdatedAt: string;
+  createdAt: string;
+}
+
+const CONFLICTS_QUERY_KEY = ["entryConflicts"];
+
+async function sendToSharedWorker<T>(message: Record<string, unknown>): Promise<T> {
+  await sharedWorkerClient.ready();
+  return sharedWorkerClient.send<T>(message);
+}
+
+/**
+ * Unresolved conflicts (only possible when logged in, since they come from sync)
+ */
+export function useEntryConflicts(): EntryConflict[] {
+  const { user } = useAuth();
+  const { data } = useQuery({
+    queryKey: CONFLICTS_QUERY_KEY,
+    queryFn: () => sendToSharedWorker<{ conflicts: EntryConflict[] }>({ type: "LIST_ENTRY_CONFLICTS" }),
+    enabled: !!user,
+    refetchInterval: 30_000,
+  });
+  return data?.conflicts ?? [];
+}
+
+interface EntryConflictDialogProps {
+  conflict: EntryConflict;
+  onClose: () => void;
+}
+
+/**
+ * Side-by-side merge of the local and server versions of an entry
+ */
+export function EntryConflictDialog({ conflict, onClose }: EntryConflictDialogProps) {
+  const queryClient = useQueryClient();
+  const utils = trpc.useUtils();
+  const [merged, setMerged] = useState(conflict.localContent);
+
+  const resolveMutation = useMutation({
+    mutationFn: (content: string) =>
+      sendToSharedWorker({ type: "RESOLVE_ENTRY_CONFLICT", date: conflict.date, content }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: CONFLICTS_QUERY_KEY });
+      utils.entries.getByDate.invalidate();
+      utils.entries.list.invalidate();
+      utils.entries.listByTag.invalidate();
+      utils.tags.list.invalidate();
+      onClose();
+    },
+  });
+
+  const versions = [
+    { label: "This device", content: conflict.localContent },
+    {
+      label: `Other device · ${new Date(conflict.serverUpdatedAt).toLocaleString()}`,
+      content: conflict.serverContent,
+    },
+  ];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+      <div className="w-full max-w-4xl max-h-[90vh] overflow-y-auto rounded-lg border bg-background p-6 shadow-lg space-y-4">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-semibold">Resolve conflict for {conflict.date}</h2>
+            <p className="text-sm text-muted-foreground">
+              This entry was edited on another device before your changes were synced.
+            </p>
+          </div>
+          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onClose}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          {versions.map(({ label, content }) => (
+            <div key={label} className="space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-xs font-medium text-muted-foreground">{label}</span>
+                <Button variant="outline" size="sm" onClick={() => setMerged(content)}>
+                  Use this
+                </Button>
+              </div>
+              <pre className="rounded-md bg-muted p-3 text-xs font-mono whitespace-pre-wrap max-h-64 overflow-y-auto">
+                {content}
+              </pre>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-xs font-medium text-muted-foreground">Merged version</span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setMerged(`${conflict.localContent}\n\n${conflict.serverContent}`)}
+            >
+              Combine both
+            </Button>
+          </div>
+          <Textarea
+            value={merged}
+            onChange={(e) => setMerged(e.target.value)}
+            className="min-h-[160px] font-mono text-sm"
+          />
+        </div>
+
+        <div className="flex items-center justify-end gap-2">
+          {resolveMutation.error && (
+            <span className="text-xs text-destructive">{resolveMutation.error.message}</span>
+          )}
+          <Button variant="secondary" size="sm" onClick={onClose}>
+            Later
+          </Button>
+          <Button
+            size="sm"
+            onClick={() => resolveMutation.mutate(merged)}
+            disabled={!merged.trim() || resolveMutation.isPending}
+          >
+            {resolveMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+            Save merge
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
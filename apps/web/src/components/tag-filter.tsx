@@ -0,0 +1,41 @@
+import { Hash, X } from "lucide-react";
+import { trpc } from "@/lib/trpc";
+import { useAuth } from "@/lib/auth-context";
+
+interface TagFilterProps {
+  selectedTag: string | null;
+  onSelect: (tag: string | null) => void;
+}
+
+export function TagFilter({ selectedTag, onSelect }: TagFilterProps) {
+  const { isLoading: isAuthLoading } = useAuth();
+  const { data: tags } = trpc.tags.list.useQuery(undefined, {
+    enabled: !isAuthLoading,
+  });
+
+  if (!tags || tags.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Hash className="h-4 w-4 text-muted-foreground" />
+      {tags.map(({ tag, count }) => {
+        const isSelected = tag === selectedTag;
+        return (
+          <button
+            key={tag}
+            onClick={() => onSelect(isSelected ? null : tag)}
+            className={`inline-flex items-center gap-1 rounded-full border px-2.5 py-0.5 text-xs transition-colors ${
+              isSelected
+                ? "bg-primary text-primary-foreground border-primary"
+                : "text-muted-foreground hover:bg-accent hover:text-foreground"
+            }`}
+          >
+            #{tag}
+            <span className={isSelected ? "opacity-80" : "opacity-60"}>{count}</span>
+            {isSelected && <X className="h-3 w-3" />}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
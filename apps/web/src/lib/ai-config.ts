@@ -1,12 +1,9 @@
 import { useMemo, useCallback, useEffect, useState } from "react";
 import { trpc } from "./trpc";
 import { useAuth } from "./auth-context";
+import { DEFAULT_PROMPTS, migratePrompts, type SummaryPrompt } from "./prompts";
 
-const DEFAULT_WEEKLY_PROMPT = `These are daily TIL (Today I Learned) entries from a developer's learning journal.
-Summarize the key technical learnings and insights from this week in 3-5 bullet points.
-Focus on: new concepts learned, problems solved, and skills practiced.`;
-
-export type AIBackend = "gemini-nano" | "webllm" | "groq" | "google-ai";
+export type AIBackend = "gemini-nano" | "webllm" | "groq" | "google-ai" | "openai-compatible";
 
 export const AI_BACKENDS: {
   id: AIBackend;
@@ -37,8 +34,16 @@ export const AI_BACKENDS: {
     description: "Gemini 2.0 Flash - Fast & Free tier available",
     requiresApiKey: true,
   },
+  {
+    id: "openai-compatible",
+    name: "OpenAI-compatible",
+    description: "Ollama, LM Studio, vLLM, llama.cpp or any /v1 server",
+  },
 ];
 
+// Ollama's default; LM Studio uses :1234, vLLM and llama.cpp :8000/:8080
+export const DEFAULT_OPENAI_BASE_URL = "http://localhost:11434/v1";
+
 // WebLLM model options - sorted by quality/size
 export const WEBLLM_MODELS: {
   id: string;
@@ -69,19 +74,27 @@ export const WEBLLM_MODELS: {
 export interface AIConfig {
   enabled: boolean;
   backend: AIBackend;
-  weeklyPrompt: string;
+  prompts: SummaryPrompt[];
   webllmModel: string;
   groqApiKey: string;
   googleAiApiKey: string;
+  openaiBaseUrl: string;
+  openaiModel: string;
+  openaiApiKey: string; // optional; local servers usually don't need one
+  openaiEmbeddingModel: string; // used by Ask to index entries
 }
 
 const DEFAULT_CONFIG: AIConfig = {
   enabled: true,
   backend: "gemini-nano",
-  weeklyPrompt: DEFAULT_WEEKLY_PROMPT,
+  prompts: DEFAULT_PROMPTS,
   webllmModel: "Qwen2.5-1.5B-Instruct-q4f16_1-MLC",
   groqApiKey: "",
   googleAiApiKey: "",
+  openaiBaseUrl: DEFAULT_OPENAI_BASE_URL,
+  openaiModel: "",
+  openaiApiKey: "",
+  openaiEmbeddingModel: "nomic-embed-text",
 };
 
 export function useAIConfig() {
@@ -110,8 +123,10 @@ export function useAIConfig() {
   const config = useMemo<AIConfig>(() => {
     if (!prefsQuery.data?.aiConfig) return DEFAULT_CONFIG;
     try {
-      const parsed = JSON.parse(prefsQuery.data.aiConfig);
-      return { ...DEFAULT_CONFIG, ...parsed };
+      const { weeklyPrompt, ...parsed } = JSON.parse(prefsQuery.data.aiConfig);
+      // Configs saved before the prompt library had a single weeklyPrompt
+      const prompts = Array.isArray(parsed.prompts) ? parsed.prompts : migratePrompts(weeklyPrompt);
+      return { ...DEFAULT_CONFIG, ...parsed, prompts };
     } catch {
       console.warn("[AIConfig] Failed to parse DB config, using default");
       return DEFAULT_CONFIG;
@@ -133,11 +148,24 @@ export function useAIConfig() {
     [setConfig]
   );
 
-  const setWeeklyPrompt = useCallback(
-    (weeklyPrompt: string) => {
-      setConfig({ weeklyPrompt });
+  // Add a prompt, or replace the one with the same id
+  const savePrompt = useCallback(
+    (prompt: SummaryPrompt) => {
+      const exists = config.prompts.some((p) => p.id === prompt.id);
+      setConfig({
+        prompts: exists
+          ? config.prompts.map((p) => (p.id === prompt.id ? prompt : p))
+          : [...config.prompts, prompt],
+      });
     },
-    [setConfig]
+    [config.prompts, setConfig]
+  );
+
+  const deletePrompt = useCallback(
+    (id: string) => {
+      setConfig({ prompts: config.prompts.filter((p) => p.id !== id) });
+    },
+    [config.prompts, setConfig]
   );
 
   const setBackend = useCallback(
@@ -168,8 +196,36 @@ export function useAIConfig() {
     [setConfig]
   );
 
-  const resetPrompt = useCallback(() => {
-    setConfig({ weeklyPrompt: DEFAULT_WEEKLY_PROMPT });
+  const setOpenaiBaseUrl = useCallback(
+    (openaiBaseUrl: string) => {
+      setConfig({ openaiBaseUrl });
+    },
+    [setConfig]
+  );
+
+  const setOpenaiModel = useCallback(
+    (openaiModel: string) => {
+      setConfig({ openaiModel });
+    },
+    [setConfig]
+  );
+
+  const setOpenaiApiKey = useCallback(
+    (openaiApiKey: string) => {
+      setConfig({ openaiApiKey });
+    },
+    [setConfig]
+  );
+
+  const setOpenaiEmbeddingModel = useCallback(
+    (openaiEmbeddingModel: string) => {
+      setConfig({ openaiEmbeddingModel });
+    },
+    [setConfig]
+  );
+
+  const resetPrompts = useCallback(() => {
+    setConfig({ prompts: DEFAULT_PROMPTS });
   }, [setConfig]);
 
   return {
@@ -181,8 +237,12 @@ export function useAIConfig() {
     setWebllmModel,
     setGroqApiKey,
     setGoogleAiApiKey,
-    setWeeklyPrompt,
-    resetPrompt,
-    DEFAULT_WEEKLY_PROMPT,
+    setOpenaiBaseUrl,
+    setOpenaiModel,
+    setOpenaiApiKey,
+    setOpenaiEmbeddingModel,
+    savePrompt,
+    deletePrompt,
+    resetPrompts,
   };
 }
@@ -0,0 +1,166 @@
+/**
+ * Ask-your-journal: retrieval-augmented answers over past entries.
+ *
+ * Entries are embedded with the embedding backend that matches the configured
+ * AI backend and the vectors are kept in the local worker (entry_embeddings),
+ * so only new or edited entries are embedded before each question. The
+ * entries closest to the question are passed to the summarizer backend with
+ * instructions to cite them by date.
+ *
+ * Google AI and OpenAI-compatible servers embed with their own API; every
+ * other backend (Gemini Nano, WebLLM, Groq) uses a small WebLLM embedding
+ * model running locally.
+ */
+
+import type { EmbeddingMatch, EntryEmbedding } from "@til-stack/shared";
+import type { AIConfig } from "./ai-config";
+import { embedWithGoogleAI } from "./google-ai-summarizer";
+import { fetchOpenAICompatibleEmbeddings } from "./openai-compatible-summarizer";
+import { embedWithWebLLM } from "./webllm-summarizer";
+import { sharedWorkerClient } from "./shared-worker-client";
+
+export interface EmbeddingBackend {
+  model: string; // key the vectors are stored under
+  name: string;
+  batchSize: number;
+  embed: (inputs: string[], kind: "document" | "query") => Promise<number[][]>;
+}
+
+interface StaleEmbeddings {
+  entries: { date: string; content: string; updatedAt: string }[];
+  total: number;
+}
+
+const WEBLLM_EMBEDDING_MODEL = "snowflake-arctic-embed-m-q0f32-MLC-b4";
+// arctic-embed is trained with this prefix on queries (not documents)
+const ARCTIC_QUERY_PREFIX = "Represent this sentence for searching relevant passages: ";
+
+// Embedding models only read the first ~512 tokens
+const MAX_EMBED_CHARS = 2000;
+
+export const ASK_SOURCE_LIMIT = 6;
+
+async function sendToSharedWorker<T>(message: Record<string, unknown>): Promise<T> {
+  await sharedWorkerClient.ready();
+  return sharedWorkerClient.send<T>(message);
+}
+
+export function getEmbeddingBackend(config: AIConfig): EmbeddingBackend {
+  if (config.backend === "google-ai" && config.googleAiApiKey) {
+    return {
+      model: "google-ai:text-embedding-004",
+      name: "Google AI text-embedding-004",
+      batchSize: 100,
+      embed: (inputs, kind) =>
+        embedWithGoogleAI(
+          config.googleAiApiKey,
+          inputs,
+          kind === "query" ? "RETRIEVAL_QUERY" : "RETRIEVAL_DOCUMENT"
+        ),
+    };
+  }
+
+  if (config.backend === "openai-compatible" && config.openaiBaseUrl && config.openaiEmbeddingModel) {
+    return {
+      model: `openai-compatible:${config.openaiEmbeddingModel}`,
+      name: config.openaiEmbeddingModel,
+      batchSize: 32,
+      embed: (inputs) =>
+        fetchOpenAICompatibleEmbeddings(
+          {
+            baseUrl: config.openaiBaseUrl,
+            model: config.openaiEmbeddingModel,
+            apiKey: config.openaiApiKey,
+          },
+          inputs
+        ),
+    };
+  }
+
+  return {
+    model: `webllm:${WEBLLM_EMBEDDING_MODEL}`,
+    name: "Snowflake Arctic Embed (local)",
+    batchSize: 4,
+    embed: (inputs, kind) =>
+      embedWithWebLLM(
+        WEBLLM_EMBEDDING_MODEL,
+        kind === "query" ? inputs.map((input) => ARCTIC_QUERY_PREFIX + input) : inputs
+      ),
+  };
+}
+
+/**
+ * Embed entries that are new or changed since they were last embedded
+ */
+export async function indexEntries(
+  backend: EmbeddingBackend,
+  onProgress?: (done: number, total: number) => void
+): Promise<void> {
+  const { entries } = await sendToSharedWorker<StaleEmbeddings>({
+    type: "GET_STALE_EMBEDDINGS",
+    model: backend.model,
+  });
+
+  for (let i = 0; i < entries.length; i += backend.batchSize) {
+    onProgress?.(i, entries.length);
+    const batch = entries.slice(i, i + backend.batchSize);
+    const vectors = await backend.embed(
+      batch.map((entry) => entry.content.slice(0, MAX_EMBED_CHARS)),
+      "document"
+    );
+    const embeddings: EntryEmbedding[] = batch.map((entry, index) => ({
+      date: entry.date,
+      updatedAt: entry.updatedAt,
+      vector: vectors[index],
+    }));
+    await sendToSharedWorker({ type: "SAVE_EMBEDDINGS", model: backend.model, embeddings });
+  }
+  onProgress?.(entries.length, entries.length);
+}
+
+/**
+ * The entries most similar to the question, most similar first
+ */
+export async function findRelevantEntries(
+  backend: EmbeddingBackend,
+  question: string,
+  limit = ASK_SOURCE_LIMIT
+): Promise<EmbeddingMatch[]> {
+  const [vector] = await backend.embed([question], "query");
+  const { matches } = await sendToSharedWorker<{ matches: EmbeddingMatch[] }>({
+    type: "SEARCH_EMBEDDINGS",
+    model: backend.model,
+    vector,
+    limit,
+  });
+  return matches;
+}
+
+export function buildAskPrompt(question: string, matches: EmbeddingMatch[]): string {
+  const entries = [...matches]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map((match) => `## [${match.date}]\n\n${match.content}`)
+    .join("\n\n");
+
+  return [
+    "# Task Description",
+    "",
+    "These are entries from a developer's TIL (Today I Learned) journal.",
+    "Answer the question using only these entries. Cite every entry you rely on",
+    "by its date in square brackets, e.g. [2024-03-14]. If the entries don't",
+    "answer the question, say so.",
+    "",
+    `Question: ${question}`,
+    "",
+    "---",
+    "",
+    "# Journal Entries",
+    "",
+    entries,
+  ].join("\n");
+}
+
+// Turn [YYYY-MM-DD] citations into links to that day
+export function linkCitations(answer: string): string {
+  return answer.replace(/\[(\d{4}-\d{2}-\d{2})\](?!\()/g, "[$1](/?date=$1)");
+}
@@ -0,0 +1,71 @@
+/**
+ * Token budgeting for summarization: rough token counts and splitting long
+ * input into chunks that fit a backend's context window.
+ *
+ * Input is expected to be markdown sections ("## 2024-03-14\n..." per entry,
+ * or "## March 2024\n..." per month), so chunks break between sections and
+ * only split a section when it doesn't fit on its own.
+ */
+
+// ~4 characters per token for English and code; CJK and Hangul text is
+// closer to one token per character
+export function estimateTokens(text: string): number {
+  let ascii = 0;
+  let other = 0;
+  for (const char of text) {
+    if (char.charCodeAt(0) < 128) {
+      ascii++;
+    } else {
+      other++;
+    }
+  }
+  return Math.ceil(ascii / 4) + other;
+}
+
+// Greedily join pieces while the result stays within maxTokens
+function pack(pieces: string[], maxTokens: number, separator: string): string[] {
+  const chunks: string[] = [];
+  let current = "";
+  for (const piece of pieces) {
+    const candidate = current ? `${current}${separator}${piece}` : piece;
+    if (current && estimateTokens(candidate) > maxTokens) {
+      chunks.push(current);
+      current = piece;
+    } else {
+      current = candidate;
+    }
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+// Split one oversized section on lines, cutting lines that are still too long
+function splitSection(section: string, maxTokens: number): string[] {
+  const lines = section.split("\n").flatMap((line) => {
+    if (estimateTokens(line) <= maxTokens) return [line];
+    // One token per character is the worst case, so maxTokens characters always fit
+    const pieces: string[] = [];
+    for (let i = 0; i < line.length; i += maxTokens) {
+      pieces.push(line.slice(i, i + maxTokens));
+    }
+    return pieces;
+  });
+  return pack(lines, maxTokens, "\n");
+}
+
+/**
+ * Split text into chunks of at most maxTokens (estimated), breaking between
+ * "## " sections where possible
+ */
+export function splitIntoChunks(text: string, maxTokens: number): string[] {
+  if (estimateTokens(text) <= maxTokens) return [text];
+
+  const sections = text
+    .split(/\n(?=## )/)
+    .map((section) => section.trim())
+    .filter(Boolean)
+    .flatMap((section) =>
+      estimateTokens(section) > maxTokens ? splitSection(section, maxTokens) : [section]
+    );
+  return pack(sections, maxTokens, "\n\n");
+}
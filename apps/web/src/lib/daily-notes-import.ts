@@ -0,0 +1,148 @@
+/**
+ * Read daily notes exported from other journaling apps into a JournalArchive
+ * that the local worker can import (see journal-archive.ts).
+ *
+ * Supported sources:
+ *   Obsidian  folder (or ZIP) of daily notes named YYYY-MM-DD.md
+ *   Logseq    journals/ folder (or ZIP) of pages named YYYY_MM_DD.md
+ *   Day One   JSON export (Journal.json), bare or inside its ZIP
+ *
+ * Notes that land on the same day are joined in file order.
+ */
+
+import { dateSchema, type JournalArchive } from "@til-stack/shared";
+import { FRONT_MATTER } from "./journal-archive";
+import { getLocalDateString } from "./date-utils";
+import { readZip, type ZipFile } from "./zip";
+
+export interface DailyNotesImport {
+  archive: JournalArchive;
+  notes: number; // notes that mapped to a date
+  ignored: string[]; // files that were not recognised as daily notes
+}
+
+interface DayOneEntry {
+  creationDate?: unknown;
+  timeZone?: unknown;
+  text?: unknown;
+}
+
+// YYYY-MM-DD (Obsidian), YYYY_MM_DD (Logseq), YYYY.MM.DD or YYYYMMDD
+const DAILY_NOTE_FILE = /^(\d{4})[-_.]?(\d{2})[-_.]?(\d{2})\.(?:md|markdown|txt)$/i;
+
+// Day One escapes markdown punctuation in plain text and links photos it can't export
+const DAY_ONE_ESCAPE = /\\([\\`*_{}[\]()#+\-.!>|])/g;
+const DAY_ONE_MOMENT = /!\[\]\(dayone-moment:\/\/[^)]*\)\n?/g;
+
+const NOTE_SEPARATOR = "\n\n";
+
+// App metadata, trash and Logseq's backup copies are never daily notes
+function isHiddenPath(path: string): boolean {
+  return path.split("/").some((segment) => segment.startsWith(".") || segment === "bak");
+}
+
+function dateFromFileName(path: string): string | null {
+  const match = path.split("/").pop()?.match(DAILY_NOTE_FILE);
+  if (!match) return null;
+  const date = `${match[1]}-${match[2]}-${match[3]}`;
+  return dateSchema.safeParse(date).success ? date : null;
+}
+
+function dayOneDate(entry: DayOneEntry): string | null {
+  if (typeof entry.creationDate !== "string") return null;
+  const created = new Date(entry.creationDate);
+  if (isNaN(created.getTime())) return null;
+
+  // Use the day as it was where the entry was written, not where it's imported
+  if (typeof entry.timeZone === "string") {
+    try {
+      return new Intl.DateTimeFormat("en-CA", {
+        timeZone: entry.timeZone,
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+      }).format(created);
+    } catch {
+      // Unknown time zone; fall back to the local day
+    }
+  }
+  return getLocalDateString(created);
+}
+
+function parseDayOne(text: string): { date: string; content: string }[] | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  const entries = (parsed as { entries?: unknown })?.entries;
+  if (!Array.isArray(entries)) return null;
+
+  return entries.flatMap((entry: DayOneEntry) => {
+    const date = dayOneDate(entry);
+    if (!date || typeof entry.text !== "string") return [];
+    const content = entry.text.replace(DAY_ONE_MOMENT, "").replace(DAY_ONE_ESCAPE, "$1").trim();
+    return content ? [{ date, content }] : [];
+  });
+}
+
+async function expandFiles(files: File[]): Promise<ZipFile[]> {
+  const expanded: ZipFile[] = [];
+  for (const file of files) {
+    const path = file.webkitRelativePath || file.name;
+    const data = new Uint8Array(await file.arrayBuffer());
+    if (/\.zip$/i.test(file.name)) {
+      expanded.push(...(await readZip(data.buffer)));
+    } else {
+      expanded.push({ path, data });
+    }
+  }
+  return expanded;
+}
+
+/**
+ * Map the selected files (a folder's contents, ZIPs or a Day One JSON export)
+ * to one entry per day
+ */
+export async function readDailyNotes(files: File[]): Promise<DailyNotesImport> {
+  const decoder = new TextDecoder();
+  const byDate = new Map<string, string[]>();
+  const ignored: string[] = [];
+  let notes = 0;
+
+  const add = (date: string, content: string) => {
+    byDate.set(date, [...(byDate.get(date) ?? []), content]);
+    notes++;
+  };
+
+  for (const file of await expandFiles(files)) {
+    if (isHiddenPath(file.path)) continue;
+
+    if (/\.json$/i.test(file.path)) {
+      const entries = parseDayOne(decoder.decode(file.data));
+      if (entries) {
+        entries.forEach(({ date, content }) => add(date, content));
+      } else {
+        ignored.push(file.path);
+      }
+      continue;
+    }
+
+    const date = dateFromFileName(file.path);
+    if (!date) {
+      ignored.push(file.path);
+      continue;
+    }
+    const content = decoder.decode(file.data).replace(FRONT_MATTER, "").trim();
+    if (content) {
+      add(date, content);
+    }
+  }
+
+  const entries = [...byDate]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, contents]) => ({ date, content: contents.join(NOTE_SEPARATOR) }));
+
+  return { archive: { entries, templates: [], skipDays: [] }, notes, ignored };
+}
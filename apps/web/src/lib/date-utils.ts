@@ -1,3 +1,5 @@
+import { shouldSkipDate, type SkipDaysRules } from "@til-stack/shared";
+
 /**
  * Get current date as YYYY-MM-DD string in local timezone
  */
@@ -52,31 +54,13 @@ export function addDays(dateStr: string, days: number): string {
   return getLocalDateString(date);
 }
 
-export interface SkipDaysConfig {
-  weekdays: number[];
-  specificDates: string[];
-}
+export type SkipDaysConfig = SkipDaysRules;
 
-/**
- * Check if a date should be skipped based on config
- */
-export function shouldSkipDate(
-  dateStr: string,
-  config: SkipDaysConfig | undefined
-): boolean {
-  if (!config) return false;
-
-  if (config.specificDates.includes(dateStr)) return true;
-
-  const date = new Date(dateStr + "T00:00:00");
-  const weekday = date.getDay();
-  if (config.weekdays.includes(weekday)) return true;
-
-  return false;
-}
+export { shouldSkipDate };
 
 /**
- * Get next valid day (skipping configured skip days)
+ * Get next valid day (skipping configured skip days). Date ranges are jumped
+ * over whole, so a long vacation doesn't use up the search limit.
  */
 export function getNextValidDay(
   dateStr: string,
@@ -87,6 +71,10 @@ export function getNextValidDay(
   let maxIterations = 365;
 
   do {
+    const range = config?.dateRanges?.find((r) => r.start <= result && result <= r.end);
+    if (range && result !== dateStr) {
+      result = direction > 0 ? range.end : range.start;
+    }
     result = addDays(result, direction);
     maxIterations--;
   } while (shouldSkipDate(result, config) && maxIterations > 0);
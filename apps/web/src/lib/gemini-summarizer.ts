@@ -88,9 +88,10 @@ export function useGeminiSummarizer(options: UseGeminiSummarizerOptions = {}) {
     }
   }, []);
 
-  // Summarize with streaming
+  // Summarize with streaming. A prompt other than the shared context is
+  // passed as per-request context.
   const summarizeStream = useCallback(
-    async function* (text: string): AsyncGenerator<string> {
+    async function* (text: string, prompt?: string): AsyncGenerator<string> {
       let summarizer = summarizerRef.current;
 
       // Initialize if needed
@@ -102,7 +103,8 @@ export function useGeminiSummarizer(options: UseGeminiSummarizerOptions = {}) {
         throw new Error("Failed to initialize summarizer");
       }
 
-      const stream = summarizer.summarizeStreaming(text);
+      const context = prompt && prompt !== optionsRef.current.sharedContext ? prompt : undefined;
+      const stream = summarizer.summarizeStreaming(text, context ? { context } : undefined);
       const reader = stream.getReader();
 
       try {
@@ -7,6 +7,46 @@ export type GoogleAIStatus = "idle" | "ready" | "generating" | "error";
 
 const GOOGLE_AI_API_URL = "https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:streamGenerateContent";
 
+const GOOGLE_AI_EMBED_MODEL = "models/text-embedding-004";
+const GOOGLE_AI_EMBED_URL = `https://generativelanguage.googleapis.com/v1beta/${GOOGLE_AI_EMBED_MODEL}:batchEmbedContents`;
+
+/**
+ * Embed texts with text-embedding-004. Documents and queries are embedded
+ * with different task types, which improves retrieval.
+ */
+export async function embedWithGoogleAI(
+  apiKey: string,
+  inputs: string[],
+  taskType: "RETRIEVAL_DOCUMENT" | "RETRIEVAL_QUERY"
+): Promise<number[][]> {
+  const response = await fetch(`${GOOGLE_AI_EMBED_URL}?key=${apiKey}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      requests: inputs.map((text) => ({
+        model: GOOGLE_AI_EMBED_MODEL,
+        content: { parts: [{ text }] },
+        taskType,
+      })),
+    }),
+  });
+
+  if (!response.ok) {
+    console.error("[GoogleAI] Embedding error:", response.status, await response.text());
+    if (response.status === 429) {
+      throw new Error("API quota exceeded.");
+    } else if (response.status === 400 || response.status === 403) {
+      throw new Error("Invalid API key.");
+    }
+    throw new Error(`API error (${response.status}).`);
+  }
+
+  const json = (await response.json()) as { embeddings?: { values: number[] }[] };
+  return (json.embeddings ?? []).map((embedding) => embedding.values);
+}
+
 export function useGoogleAISummarizer(apiKey: string, sharedContext?: string) {
   const [status, setStatus] = useState<GoogleAIStatus>(() => {
     const initial = apiKey ? "ready" : "idle";
@@ -26,9 +66,10 @@ export function useGoogleAISummarizer(apiKey: string, sharedContext?: string) {
     }
   }, [apiKey, status]);
 
-  const summarizeStream = useCallback(
-    async function* (text: string): AsyncGenerator<string> {
-      console.log("[GoogleAI] summarizeStream called, apiKey:", apiKey ? `${apiKey.slice(0, 8)}...` : "(empty)");
+  // Stream a completion for an arbitrary prompt
+  const generateStream = useCallback(
+    async function* (prompt: string): AsyncGenerator<string> {
+      console.log("[GoogleAI] generateStream called, apiKey:", apiKey ? `${apiKey.slice(0, 8)}...` : "(empty)");
       if (!apiKey) {
         throw new Error("Google AI API key is required");
       }
@@ -36,10 +77,7 @@ export function useGoogleAISummarizer(apiKey: string, sharedContext?: string) {
       setStatus("generating");
       console.log("[GoogleAI] Status set to generating");
 
-      const userPrompt = sharedContext || "Summarize the following entries concisely.";
-      const combinedContent = `# Task Description\n\n${userPrompt}\n\n---\n\n# Scrum Contents\n\n${text}`;
-
-      console.log("[GoogleAI] Request input:", { textLength: text.length, promptLength: combinedContent.length });
+      console.log("[GoogleAI] Request input:", { promptLength: prompt.length });
 
       try {
         console.log("[GoogleAI] Fetching from API...");
@@ -51,7 +89,7 @@ export function useGoogleAISummarizer(apiKey: string, sharedContext?: string) {
           body: JSON.stringify({
             contents: [
               {
-                parts: [{ text: combinedContent }],
+                parts: [{ text: prompt }],
               },
             ],
             generationConfig: {
@@ -119,11 +157,20 @@ export function useGoogleAISummarizer(apiKey: string, sharedContext?: string) {
         throw error;
       }
     },
-    [apiKey, sharedContext]
+    [apiKey]
+  );
+
+  const summarizeStream = useCallback(
+    async function* (text: string, prompt = sharedContext): AsyncGenerator<string> {
+      const userPrompt = prompt || "Summarize the following entries concisely.";
+      yield* generateStream(`# Task Description\n\n${userPrompt}\n\n---\n\n# Scrum Contents\n\n${text}`);
+    },
+    [generateStream, sharedContext]
   );
 
   return {
     status,
+    generateStream,
     summarizeStream,
   };
 }
@@ -20,17 +20,15 @@ export function useGroqSummarizer(apiKey: string, sharedContext?: string) {
     }
   }, [apiKey, status]);
 
-  const summarizeStream = useCallback(
-    async function* (text: string): AsyncGenerator<string> {
+  // Stream a completion for an arbitrary prompt
+  const generateStream = useCallback(
+    async function* (prompt: string): AsyncGenerator<string> {
       if (!apiKey) {
         throw new Error("Groq API key is required");
       }
 
       setStatus("generating");
 
-      const userPrompt = sharedContext || "Summarize the following entries concisely.";
-      const combinedContent = `# Task Description\n\n${userPrompt}\n\n---\n\n# Scrum Contents\n\n${text}`;
-
       try {
         const response = await fetch(GROQ_API_URL, {
           method: "POST",
@@ -40,7 +38,7 @@ export function useGroqSummarizer(apiKey: string, sharedContext?: string) {
           },
           body: JSON.stringify({
             model: MODEL,
-            messages: [{ role: "user", content: combinedContent }],
+            messages: [{ role: "user", content: prompt }],
             stream: true,
           }),
         });
@@ -98,11 +96,20 @@ export function useGroqSummarizer(apiKey: string, sharedContext?: string) {
         throw error;
       }
     },
-    [apiKey, sharedContext]
+    [apiKey]
+  );
+
+  const summarizeStream = useCallback(
+    async function* (text: string, prompt = sharedContext): AsyncGenerator<string> {
+      const userPrompt = prompt || "Summarize the following entries concisely.";
+      yield* generateStream(`# Task Description\n\n${userPrompt}\n\n---\n\n# Scrum Contents\n\n${text}`);
+    },
+    [generateStream, sharedContext]
   );
 
   return {
     status,
+    generateStream,
     summarizeStream,
   };
 }
@@ -0,0 +1,176 @@
+/**
+ * Journal backup: export everything in the local database as a ZIP of
+ * markdown files (one per day) plus templates/skip days as JSON, and read
+ * such an archive back for import. Both run against the local worker, so
+ * they work for anonymous and logged-in users alike.
+ *
+ * Archive layout:
+ *   entries/YYYY-MM-DD.md   front matter (date, tags, created, updated) + content
+ *   templates.json          [{ name, content, rules, createdAt, updatedAt }]
+ *   skip-days.json          [{ type, value, source }]
+ */
+
+import {
+  dateSchema,
+  archivedTemplateSchema,
+  skipDayOperationSchema,
+  extractTags,
+  type ImportStrategy,
+  type JournalArchive,
+  type JournalImportPreview,
+  type TemplateRule,
+} from "@til-stack/shared";
+import { z } from "zod";
+import { sharedWorkerClient } from "./shared-worker-client";
+import { createZip, readZip } from "./zip";
+
+interface ExportedData {
+  entries: { date: string; content: string; createdAt: string; updatedAt: string }[];
+  templates: { name: string; content: string; rules: TemplateRule[]; createdAt: string; updatedAt: string }[];
+  skipDays: { type: string; value: string; source?: string | null }[];
+}
+
+const ENTRY_FILE = /(?:^|\/)(\d{4}-\d{2}-\d{2})\.md$/;
+export const FRONT_MATTER = /^---\r?\n[\s\S]*?\r?\n---\r?\n?/;
+const timestampSchema = z.string().datetime();
+
+async function sendToSharedWorker<T>(message: Record<string, unknown>): Promise<T> {
+  await sharedWorkerClient.ready();
+  return sharedWorkerClient.send<T>(message);
+}
+
+function toMarkdown(entry: ExportedData["entries"][number]): string {
+  const tags = extractTags(entry.content);
+  return [
+    "---",
+    `date: ${entry.date}`,
+    `tags: [${tags.join(", ")}]`,
+    `created: ${entry.createdAt}`,
+    `updated: ${entry.updatedAt}`,
+    "---",
+    "",
+    entry.content,
+  ].join("\n");
+}
+
+/**
+ * Build the backup ZIP from the local database
+ */
+export async function exportJournal(): Promise<Blob> {
+  const data = await sendToSharedWorker<ExportedData>({ type: "EXPORT_DATA" });
+  const encoder = new TextEncoder();
+  const json = (value: unknown) => encoder.encode(JSON.stringify(value, null, 2));
+
+  return createZip([
+    ...data.entries.map((entry) => ({
+      path: `entries/${entry.date}.md`,
+      data: encoder.encode(toMarkdown(entry)),
+    })),
+    {
+      path: "templates.json",
+      data: json(
+        data.templates.map(({ name, content, rules, createdAt, updatedAt }) => ({
+          name,
+          content,
+          rules,
+          createdAt,
+          updatedAt,
+        }))
+      ),
+    },
+    {
+      path: "skip-days.json",
+      data: json(data.skipDays.map(({ type, value, source }) => ({ type, value, source: source ?? null }))),
+    },
+  ]);
+}
+
+export function journalExportFileName(today: string): string {
+  return `til-journal-${today}.zip`;
+}
+
+// The created/updated timestamps in an entry's front matter; invalid ones are dropped
+function readTimestamps(frontMatter: string): { createdAt?: string; updatedAt?: string } {
+  const timestamp = (key: string) => {
+    const value = frontMatter.match(new RegExp(`^${key}:[ \\t]*(.*?)[ \\t]*\\r?$`, "m"))?.[1];
+    return timestampSchema.safeParse(value).success ? value : undefined;
+  };
+  return { createdAt: timestamp("created"), updatedAt: timestamp("updated") };
+}
+
+function parseJsonList(text: string | undefined): unknown[] {
+  if (!text) return [];
+  const parsed = JSON.parse(text);
+  return Array.isArray(parsed) ? parsed : [];
+}
+
+/**
+ * Read a backup ZIP. Invalid dates, empty entries and malformed
+ * templates/skip days are dropped rather than failing the whole import.
+ * Entries and templates keep their created/updated timestamps.
+ */
+export async function readJournalArchive(file: File): Promise<JournalArchive> {
+  const files = await readZip(await file.arrayBuffer());
+  const decoder = new TextDecoder();
+  const text = (path: string) => {
+    const match = files.find((f) => f.path === path || f.path.endsWith(`/${path}`));
+    return match ? decoder.decode(match.data) : undefined;
+  };
+
+  const entries: JournalArchive["entries"] = [];
+  for (const f of files) {
+    const date = f.path.match(ENTRY_FILE)?.[1];
+    if (!date || !dateSchema.safeParse(date).success) continue;
+    const markdown = decoder.decode(f.data);
+    const frontMatter = markdown.match(FRONT_MATTER)?.[0] ?? "";
+    const content = markdown.slice(frontMatter.length).replace(/^\r?\n/, "");
+    if (content.trim()) {
+      entries.push({ date, content, ...readTimestamps(frontMatter) });
+    }
+  }
+
+  const templates = parseJsonList(text("templates.json")).flatMap((item) => {
+    const parsed = archivedTemplateSchema.safeParse(item);
+    return parsed.success ? [parsed.data] : [];
+  });
+
+  const skipDays = parseJsonList(text("skip-days.json")).flatMap((item) => {
+    const parsed = skipDayOperationSchema.safeParse(item);
+    return parsed.success
+      ? [{ type: parsed.data.type, value: String(parsed.data.value), source: parsed.data.source ?? null }]
+      : [];
+  });
+
+  return { entries, templates, skipDays };
+}
+
+/**
+ * Report which dates an import would create, overwrite, merge or skip
+ */
+export async function previewJournalImport(
+  archive: JournalArchive,
+  strategy: ImportStrategy = "overwrite"
+): Promise<JournalImportPreview> {
+  const { preview } = await sendToSharedWorker<{ preview: JournalImportPreview }>({
+    type: "IMPORT_JOURNAL",
+    archive,
+    strategy,
+    dryRun: true,
+  });
+  return preview;
+}
+
+/**
+ * Write an archive into the local database (queued for sync when logged in)
+ */
+export async function importJournal(
+  archive: JournalArchive,
+  strategy: ImportStrategy = "overwrite"
+): Promise<JournalImportPreview> {
+  const { preview } = await sendToSharedWorker<{ preview: JournalImportPreview }>({
+    type: "IMPORT_JOURNAL",
+    archive,
+    strategy,
+  });
+  return preview;
+}
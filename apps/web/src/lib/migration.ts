@@ -1,5 +1,7 @@
 // Data migration from local IndexedDB to server
 
+import type { TemplateRule } from "@til-stack/shared";
+
 interface LocalEntry {
   id: string;
   date: string;
@@ -15,13 +17,14 @@ interface LocalSkipDay {
   value: string;
   userId: string | null;
   createdAt: string;
+  source?: string | null;
 }
 
 interface LocalTemplate {
   id: string;
   name: string;
   content: string;
-  isDefault: boolean;
+  rules: TemplateRule[];
   userId: string | null;
   createdAt: string;
   updatedAt: string;
@@ -0,0 +1,205 @@
+// OpenAI-compatible Summarizer
+// Talks to any server exposing the OpenAI chat completions API: Ollama,
+// LM Studio, vLLM, llama.cpp server, or a hosted provider
+
+import { useState, useCallback, useEffect } from "react";
+
+export type OpenAICompatibleStatus = "idle" | "ready" | "generating" | "error";
+
+export interface OpenAICompatibleSettings {
+  baseUrl: string;
+  model: string;
+  apiKey: string;
+}
+
+// Accept both "http://localhost:11434" and "http://localhost:11434/v1"
+function apiUrl(baseUrl: string, path: string): string {
+  const base = baseUrl.trim().replace(/\/+$/, "");
+  return `${/\/v1$/.test(base) ? base : `${base}/v1`}${path}`;
+}
+
+function authHeaders(apiKey: string): Record<string, string> {
+  return apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+}
+
+/**
+ * List the models the server offers (GET /v1/models)
+ */
+export async function fetchOpenAICompatibleModels(
+  baseUrl: string,
+  apiKey: string
+): Promise<string[]> {
+  let response: Response;
+  try {
+    response = await fetch(apiUrl(baseUrl, "/models"), { headers: authHeaders(apiKey) });
+  } catch {
+    // fetch only rejects on network/CORS failures
+    throw new Error("Could not reach the server. Is it running and allowing this origin (CORS)?");
+  }
+
+  if (response.status === 401) {
+    throw new Error("Invalid API key.");
+  }
+  if (!response.ok) {
+    throw new Error(`API error (${response.status}).`);
+  }
+
+  const json = await response.json();
+  const models: unknown[] = Array.isArray(json?.data) ? json.data : [];
+  return models
+    .map((model) => (model as { id?: unknown })?.id)
+    .filter((id): id is string => typeof id === "string")
+    .sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Embed texts with an embedding model on the server (POST /v1/embeddings)
+ */
+export async function fetchOpenAICompatibleEmbeddings(
+  { baseUrl, model, apiKey }: OpenAICompatibleSettings,
+  inputs: string[]
+): Promise<number[][]> {
+  let response: Response;
+  try {
+    response = await fetch(apiUrl(baseUrl, "/embeddings"), {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...authHeaders(apiKey),
+      },
+      body: JSON.stringify({ model, input: inputs }),
+    });
+  } catch {
+    throw new Error("Could not reach the server. Is it running and allowing this origin (CORS)?");
+  }
+
+  if (!response.ok) {
+    console.error("[OpenAICompatible] Embeddings error:", response.status, await response.text());
+    if (response.status === 401) {
+      throw new Error("Invalid API key.");
+    } else if (response.status === 404) {
+      throw new Error(`Embedding model "${model}" not found on the server.`);
+    }
+    throw new Error(`API error (${response.status}).`);
+  }
+
+  const json = (await response.json()) as { data?: { embedding: number[]; index: number }[] };
+  return [...(json.data ?? [])].sort((a, b) => a.index - b.index).map((item) => item.embedding);
+}
+
+export function useOpenAICompatibleSummarizer(
+  { baseUrl, model, apiKey }: OpenAICompatibleSettings,
+  sharedContext?: string
+) {
+  const isConfigured = !!baseUrl && !!model;
+  const [status, setStatus] = useState<OpenAICompatibleStatus>(isConfigured ? "ready" : "idle");
+
+  // Update status when the server/model settings are loaded or cleared
+  useEffect(() => {
+    if (isConfigured && status === "idle") {
+      setStatus("ready");
+    } else if (!isConfigured && status === "ready") {
+      setStatus("idle");
+    }
+  }, [isConfigured, status]);
+
+  // Stream a completion for an arbitrary prompt
+  const generateStream = useCallback(
+    async function* (prompt: string): AsyncGenerator<string> {
+      if (!baseUrl || !model) {
+        throw new Error("Server URL and model are required");
+      }
+
+      setStatus("generating");
+
+      try {
+        let response: Response;
+        try {
+          response = await fetch(apiUrl(baseUrl, "/chat/completions"), {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+              ...authHeaders(apiKey),
+            },
+            body: JSON.stringify({
+              model,
+              messages: [{ role: "user", content: prompt }],
+              stream: true,
+            }),
+          });
+        } catch {
+          throw new Error("Could not reach the server. Is it running and allowing this origin (CORS)?");
+        }
+
+        if (!response.ok) {
+          const errorText = await response.text();
+          console.error("[OpenAICompatible] API error:", response.status, errorText);
+
+          if (response.status === 429) {
+            throw new Error("API quota exceeded.");
+          } else if (response.status === 401) {
+            throw new Error("Invalid API key.");
+          } else if (response.status === 404) {
+            throw new Error(`Model "${model}" not found on the server.`);
+          } else {
+            throw new Error(`API error (${response.status}).`);
+          }
+        }
+
+        const reader = response.body?.getReader();
+        if (!reader) {
+          throw new Error("No response body");
+        }
+
+        const decoder = new TextDecoder();
+        let buffer = "";
+
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+
+          buffer += decoder.decode(value, { stream: true });
+          const lines = buffer.split("\n");
+          buffer = lines.pop() || "";
+
+          for (const line of lines) {
+            const trimmed = line.trim();
+            if (!trimmed || trimmed === "data: [DONE]") continue;
+            if (!trimmed.startsWith("data:")) continue;
+
+            // Some servers omit the space after "data:"
+            try {
+              const json = JSON.parse(trimmed.slice(5).trim());
+              const content = json.choices?.[0]?.delta?.content;
+              if (content) {
+                yield content;
+              }
+            } catch {
+              // Skip invalid JSON
+            }
+          }
+        }
+
+        setStatus("ready");
+      } catch (error) {
+        setStatus("error");
+        throw error;
+      }
+    },
+    [baseUrl, model, apiKey]
+  );
+
+  const summarizeStream = useCallback(
+    async function* (text: string, prompt = sharedContext): AsyncGenerator<string> {
+      const userPrompt = prompt || "Summarize the following entries concisely.";
+      yield* generateStream(`# Task Description\n\n${userPrompt}\n\n---\n\n# Scrum Contents\n\n${text}`);
+    },
+    [generateStream, sharedContext]
+  );
+
+  return {
+    status,
+    generateStream,
+    summarizeStream,
+  };
+}
@@ -0,0 +1,118 @@
+/**
+ * Summary prompt library: named prompts tagged with the period they're for,
+ * stored in the AI config (user_preferences.aiConfig) so they sync with it.
+ *
+ * Prompts may use template variables, filled in when a summary is generated:
+ *   {{period}}      e.g. "Week of Jan 6 - 12", "March 2024", "Year 2024"
+ *   {{entryCount}}  number of entries being summarized
+ *   {{dateRange}}   first and last entry date, e.g. "2024-01-06 – 2024-01-12"
+ */
+
+export type PromptScope = "week" | "month" | "year" | "adhoc";
+
+export interface SummaryPrompt {
+  id: string;
+  name: string;
+  scope: PromptScope;
+  content: string;
+}
+
+export interface PromptVariables {
+  period: string;
+  entryCount: number;
+  dateRange: string;
+}
+
+export const PROMPT_SCOPES: { id: PromptScope; name: string }[] = [
+  { id: "week", name: "Week" },
+  { id: "month", name: "Month" },
+  { id: "year", name: "Year" },
+  { id: "adhoc", name: "Ad-hoc" },
+];
+
+export const PROMPT_VARIABLES = ["{{period}}", "{{entryCount}}", "{{dateRange}}"];
+
+export const DEFAULT_WEEKLY_PROMPT = `These are daily TIL (Today I Learned) entries from a developer's learning journal.
+Summarize the key technical learnings and insights from this week in 3-5 bullet points.
+Focus on: new concepts learned, problems solved, and skills practiced.`;
+
+export const DEFAULT_PROMPTS: SummaryPrompt[] = [
+  {
+    id: "weekly",
+    name: "Weekly learnings",
+    scope: "week",
+    content: DEFAULT_WEEKLY_PROMPT,
+  },
+  {
+    id: "monthly",
+    name: "Monthly review",
+    scope: "month",
+    content: `These are {{entryCount}} daily TIL (Today I Learned) entries from {{period}}.
+Summarize the month in 4-6 bullet points: the main topics studied, problems solved,
+and how the focus shifted over the month.`,
+  },
+  {
+    id: "yearly",
+    name: "Year in review",
+    scope: "year",
+    content: `These are summaries of a developer's TIL (Today I Learned) journal for {{period}} ({{dateRange}}).
+Write a short year in review: the main areas of growth, recurring themes,
+and the most notable things learned.`,
+  },
+  {
+    id: "blog-ideas",
+    name: "Blog post ideas",
+    scope: "adhoc",
+    content: `These are TIL (Today I Learned) entries from {{period}}.
+Suggest 3 blog post ideas based on them, each with a title and a one-sentence pitch.`,
+  },
+];
+
+/**
+ * Fill in {{variable}} placeholders; unknown ones are left as written
+ */
+export function renderPrompt(template: string, variables: PromptVariables): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+    name in variables ? String(variables[name as keyof PromptVariables]) : match
+  );
+}
+
+export function getDateRange(dates: string[]): string {
+  if (dates.length === 0) return "";
+  const sorted = [...dates].sort();
+  const first = sorted[0];
+  const last = sorted[sorted.length - 1];
+  return first === last ? first : `${first} – ${last}`;
+}
+
+/**
+ * Prompts offered for a period: the ones tagged for it, then ad-hoc ones
+ */
+export function getPromptsForScope(prompts: SummaryPrompt[], scope: PromptScope): SummaryPrompt[] {
+  return [
+    ...prompts.filter((prompt) => prompt.scope === scope),
+    ...(scope === "adhoc" ? [] : prompts.filter((prompt) => prompt.scope === "adhoc")),
+  ];
+}
+
+/**
+ * The prompt used for a period unless another one is picked: the first one
+ * tagged for it, else the built-in one
+ */
+export function getDefaultPrompt(prompts: SummaryPrompt[], scope: PromptScope): SummaryPrompt {
+  return (
+    prompts.find((prompt) => prompt.scope === scope) ??
+    DEFAULT_PROMPTS.find((prompt) => prompt.scope === scope) ??
+    DEFAULT_PROMPTS[0]
+  );
+}
+
+/**
+ * Build the library for configs saved before prompts existed, keeping the
+ * customized weekly prompt
+ */
+export function migratePrompts(weeklyPrompt: string | undefined): SummaryPrompt[] {
+  return DEFAULT_PROMPTS.map((prompt) =>
+    prompt.id === "weekly" && weeklyPrompt ? { ...prompt, content: weeklyPrompt } : prompt
+  );
+}
@@ -1,7 +1,7 @@
 // Unified Summarizer Hook
-// Switches between Gemini Nano, WebLLM, Groq, and Google AI based on config
+// Switches between Gemini Nano, WebLLM, Groq, Google AI and OpenAI-compatible servers based on config
 
-import { useCallback, useMemo } from "react";
+import { useCallback, useMemo, useState } from "react";
 import { useAIConfig, type AIBackend } from "./ai-config";
 import {
   useGeminiSummarizer,
@@ -10,6 +10,44 @@ import {
 import { useWebLLMSummarizer, type WebLLMStatus } from "./webllm-summarizer";
 import { useGroqSummarizer, type GroqStatus } from "./groq-summarizer";
 import { useGoogleAISummarizer, type GoogleAIStatus } from "./google-ai-summarizer";
+import {
+  useOpenAICompatibleSummarizer,
+  type OpenAICompatibleStatus,
+} from "./openai-compatible-summarizer";
+import { estimateTokens, splitIntoChunks } from "./chunking";
+import { getDefaultPrompt } from "./prompts";
+
+/**
+ * Short, stable hash of a prompt, used to key saved summaries
+ */
+export async function hashPrompt(prompt: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(prompt));
+  return Array.from(new Uint8Array(digest).slice(0, 8))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+// Context window per backend, in tokens. Conservative where it depends on the
+// model or server: WebLLM's models are compiled with 4k, Ollama defaults to
+// num_ctx 4096, and Groq's free tier limits tokens per minute.
+const CONTEXT_WINDOW_TOKENS: Record<AIBackend, number> = {
+  "gemini-nano": 4000,
+  webllm: 4096,
+  groq: 12000,
+  "google-ai": 100000,
+  "openai-compatible": 4096,
+};
+
+// Room left for the prompt wrapper and the model's answer
+const RESPONSE_TOKENS = 1024;
+
+/**
+ * How many tokens of entries fit in one request to `backend` with `prompt`
+ */
+export function getInputBudget(backend: AIBackend, prompt: string): number {
+  const wrapper = `# Task Description\n\n${prompt}\n\n---\n\n# Scrum Contents\n\n`;
+  return Math.max(256, CONTEXT_WINDOW_TOKENS[backend] - RESPONSE_TOKENS - estimateTokens(wrapper));
+}
 
 export type SummarizerStatus =
   | "unavailable"
@@ -39,7 +77,10 @@ function mapWebLLMStatus(status: WebLLMStatus): SummarizerStatus {
 }
 
 // Map cloud status to unified status
-function mapCloudStatus(status: GroqStatus | GoogleAIStatus, hasApiKey: boolean): SummarizerStatus {
+function mapCloudStatus(
+  status: GroqStatus | GoogleAIStatus | OpenAICompatibleStatus,
+  hasApiKey: boolean
+): SummarizerStatus {
   if (!hasApiKey) return "idle";
   if (status === "error") return "error";
   return status;
@@ -56,18 +97,32 @@ export function useSummarizer() {
     googleAiKeyPreview: config.googleAiApiKey ? `${config.googleAiApiKey.slice(0, 8)}...` : "(empty)",
   });
 
+  // Used when no prompt is passed to summarizeStream
+  const defaultPrompt = getDefaultPrompt(config.prompts, "week").content;
+
   const gemini = useGeminiSummarizer({
-    sharedContext: config.weeklyPrompt,
+    sharedContext: defaultPrompt,
   });
 
-  const webllm = useWebLLMSummarizer(config.webllmModel, config.weeklyPrompt);
+  const webllm = useWebLLMSummarizer(config.webllmModel, defaultPrompt);
 
-  const groq = useGroqSummarizer(config.groqApiKey, config.weeklyPrompt);
+  const groq = useGroqSummarizer(config.groqApiKey, defaultPrompt);
 
-  const googleAi = useGoogleAISummarizer(config.googleAiApiKey, config.weeklyPrompt);
+  const googleAi = useGoogleAISummarizer(config.googleAiApiKey, defaultPrompt);
+
+  const openaiCompatible = useOpenAICompatibleSummarizer(
+    { baseUrl: config.openaiBaseUrl, model: config.openaiModel, apiKey: config.openaiApiKey },
+    defaultPrompt
+  );
+  const isOpenAIConfigured = !!config.openaiBaseUrl && !!config.openaiModel;
 
   const backend = config.backend;
 
+  // Set while a long input is summarized in chunks
+  const [chunkProgress, setChunkProgress] = useState<{ progress: number; text: string } | null>(
+    null
+  );
+
   // Unified status
   const status: SummarizerStatus = useMemo(() => {
     let result: SummarizerStatus;
@@ -79,6 +134,8 @@ export function useSummarizer() {
       result = mapCloudStatus(groq.status, !!config.groqApiKey);
     } else if (backend === "google-ai") {
       result = mapCloudStatus(googleAi.status, !!config.googleAiApiKey);
+    } else if (backend === "openai-compatible") {
+      result = mapCloudStatus(openaiCompatible.status, isOpenAIConfigured);
     } else {
       result = "unavailable";
     }
@@ -89,10 +146,13 @@ export function useSummarizer() {
       mappedStatus: result,
     });
     return result;
-  }, [backend, gemini.status, webllm.status, groq.status, googleAi.status, config.groqApiKey, config.googleAiApiKey]);
+  }, [backend, gemini.status, webllm.status, groq.status, googleAi.status, openaiCompatible.status, config.groqApiKey, config.googleAiApiKey, isOpenAIConfigured]);
 
   // Unified progress
   const progress = useMemo(() => {
+    if (chunkProgress) {
+      return chunkProgress.progress;
+    }
     if (backend === "gemini-nano") {
       return gemini.downloadProgress;
     }
@@ -101,15 +161,18 @@ export function useSummarizer() {
     }
     // Cloud backends don't have progress
     return 0;
-  }, [backend, gemini.downloadProgress, webllm.progress]);
+  }, [backend, chunkProgress, gemini.downloadProgress, webllm.progress]);
 
-  // Progress text (WebLLM specific)
+  // Progress text (WebLLM loading, or which chunk is being summarized)
   const progressText = useMemo(() => {
-    if (backend === "webllm") {
+    if (chunkProgress) {
+      return chunkProgress.text;
+    }
+    if (backend === "webllm" && webllm.status === "loading") {
       return webllm.progressText;
     }
     return "";
-  }, [backend, webllm.progressText]);
+  }, [backend, chunkProgress, webllm.status, webllm.progressText]);
 
   // Initialize/download model
   const initDownload = useCallback(async () => {
@@ -122,10 +185,39 @@ export function useSummarizer() {
     // Cloud backends don't need initialization
   }, [backend, gemini.initDownload, webllm.loadModel]);
 
-  // Streaming summarize
-  const summarizeStream = useCallback(
-    async function* (text: string): AsyncGenerator<string> {
-      const userPrompt = config.weeklyPrompt;
+  // Stream a completion for an arbitrary prompt (e.g. a question plus retrieved entries)
+  const generateStream = useCallback(
+    async function* (prompt: string): AsyncGenerator<string> {
+      if (backend === "gemini-nano") {
+        // Chrome's Summarizer API only summarizes; it can't follow other instructions
+        throw new Error("Gemini Nano only supports summaries. Choose another backend in Settings.");
+      } else if (backend === "webllm") {
+        yield* webllm.generateStream(prompt);
+      } else if (backend === "groq") {
+        if (!config.groqApiKey) {
+          throw new Error("Groq API key is required. Please add it in Settings.");
+        }
+        yield* groq.generateStream(prompt);
+      } else if (backend === "google-ai") {
+        if (!config.googleAiApiKey) {
+          throw new Error("Google AI API key is required. Please add it in Settings.");
+        }
+        yield* googleAi.generateStream(prompt);
+      } else if (backend === "openai-compatible") {
+        if (!isOpenAIConfigured) {
+          throw new Error("Server URL and model are required. Please set them in Settings.");
+        }
+        yield* openaiCompatible.generateStream(prompt);
+      } else {
+        throw new Error(`Unsupported backend: ${backend}`);
+      }
+    },
+    [backend, config.groqApiKey, config.googleAiApiKey, isOpenAIConfigured, webllm.generateStream, groq.generateStream, googleAi.generateStream, openaiCompatible.generateStream]
+  );
+
+  // Summarize input that fits in one request
+  const summarizeChunkStream = useCallback(
+    async function* (text: string, userPrompt: string): AsyncGenerator<string> {
       const combinedPrompt = `# Task Description\n\n${userPrompt}\n\n---\n\n# Scrum Contents\n\n${text}`;
 
       console.group("🤖 AI Summary Request");
@@ -137,24 +229,76 @@ export function useSummarizer() {
       console.groupEnd();
 
       if (backend === "gemini-nano") {
-        yield* gemini.summarizeStream(text);
+        yield* gemini.summarizeStream(text, userPrompt);
       } else if (backend === "webllm") {
-        yield* webllm.summarizeStream(text);
+        yield* webllm.summarizeStream(text, userPrompt);
       } else if (backend === "groq") {
         if (!config.groqApiKey) {
           throw new Error("Groq API key is required. Please add it in Settings.");
         }
-        yield* groq.summarizeStream(text);
+        yield* groq.summarizeStream(text, userPrompt);
       } else if (backend === "google-ai") {
         if (!config.googleAiApiKey) {
           throw new Error("Google AI API key is required. Please add it in Settings.");
         }
-        yield* googleAi.summarizeStream(text);
+        yield* googleAi.summarizeStream(text, userPrompt);
+      } else if (backend === "openai-compatible") {
+        if (!isOpenAIConfigured) {
+          throw new Error("Server URL and model are required. Please set them in Settings.");
+        }
+        yield* openaiCompatible.summarizeStream(text, userPrompt);
       } else {
         throw new Error(`Unsupported backend: ${backend}`);
       }
     },
-    [backend, config.weeklyPrompt, config.groqApiKey, config.googleAiApiKey, gemini.summarizeStream, webllm.summarizeStream, groq.summarizeStream, googleAi.summarizeStream]
+    [backend, config.groqApiKey, config.googleAiApiKey, isOpenAIConfigured, gemini.summarizeStream, webllm.summarizeStream, groq.summarizeStream, googleAi.summarizeStream, openaiCompatible.summarizeStream]
+  );
+
+  // Streaming summarize. Input too long for the backend's context window is
+  // split into chunks that are summarized separately (map), then the partial
+  // summaries are summarized together (reduce); only the final pass streams.
+  const summarizeStream = useCallback(
+    async function* (text: string, prompt: string = defaultPrompt): AsyncGenerator<string> {
+      const budget = getInputBudget(backend, prompt);
+      let input = text;
+      let chunks = splitIntoChunks(input, budget);
+      if (chunks.length === 1) {
+        yield* summarizeChunkStream(input, prompt);
+        return;
+      }
+
+      try {
+        // Partial summaries can themselves overflow, so reduce until they fit
+        for (let pass = 1; chunks.length > 1; pass++) {
+          const partials: string[] = [];
+          for (const [index, chunk] of chunks.entries()) {
+            setChunkProgress({
+              progress: index / chunks.length,
+              text:
+                pass === 1
+                  ? `Summarizing part ${index + 1} of ${chunks.length}...`
+                  : `Merging summaries (${index + 1}/${chunks.length})...`,
+            });
+            let partial = "";
+            for await (const piece of summarizeChunkStream(chunk, prompt)) {
+              partial += piece;
+            }
+            partials.push(`## Part ${index + 1}\n${partial.trim()}`);
+          }
+          input = partials.join("\n\n");
+          const next = splitIntoChunks(input, budget);
+          // Stop if the summaries aren't getting shorter rather than looping
+          if (next.length >= chunks.length) break;
+          chunks = next;
+        }
+
+        setChunkProgress({ progress: 1, text: "Merging summaries..." });
+        yield* summarizeChunkStream(input, prompt);
+      } finally {
+        setChunkProgress(null);
+      }
+    },
+    [backend, defaultPrompt, summarizeChunkStream]
   );
 
   return {
@@ -163,6 +307,7 @@ export function useSummarizer() {
     progress,
     progressText,
     initDownload,
+    generateStream,
     summarizeStream,
   };
 }
@@ -19,8 +19,16 @@ export function createTRPCClient(): ReturnType<typeof trpc.createClient> {
     links: [
       splitLink({
         condition(op) {
-          // Auth and webhook test go to backend, rest through SharedWorker
-          return op.path.startsWith("auth.") || op.path === "webhooks.test";
+          // Auth, webhook test, deliveries and secrets, and entry history
+          // (server-only data) go to backend, rest through SharedWorker
+          return (
+            op.path.startsWith("auth.") ||
+            op.path === "webhooks.test" ||
+            op.path === "webhooks.deliveries" ||
+            op.path === "webhooks.secret" ||
+            op.path === "webhooks.rotateSecret" ||
+            op.path === "entries.history"
+          );
         },
         true: httpLink({ url: getBaseUrl() }),
         false: sharedWorkerLink(() => sharedWorkerClient.getPort()),
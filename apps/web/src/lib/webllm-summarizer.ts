@@ -161,6 +161,14 @@ function sendMessage(
   });
 }
 
+/**
+ * Embed texts with a WebLLM embedding model (loaded on first use)
+ */
+export async function embedWithWebLLM(model: string, inputs: string[]): Promise<number[][]> {
+  const result = (await sendMessage("embed", { model, inputs })) as { embeddings: number[][] };
+  return result.embeddings;
+}
+
 export function useWebLLMSummarizer(model: string, sharedContext?: string) {
   const [status, setStatus] = useState<WebLLMStatus>("idle");
   const [progress, setProgress] = useState(0);
@@ -232,8 +240,9 @@ export function useWebLLMSummarizer(model: string, sharedContext?: string) {
     }
   }, [status]);
 
-  const summarizeStream = useCallback(
-    async function* (text: string): AsyncGenerator<string> {
+  // Stream a completion for an arbitrary prompt
+  const generateStream = useCallback(
+    async function* (prompt: string): AsyncGenerator<string> {
       if (status === "unavailable") {
         throw new Error("WebGPU not available");
       }
@@ -245,22 +254,10 @@ export function useWebLLMSummarizer(model: string, sharedContext?: string) {
 
       setStatus("generating");
 
-      // Combine prompt and input into a single user message
-      const userPrompt = sharedContext || "Summarize the following entries concisely.";
-      const combinedContent = `# Task Description\n\n${userPrompt}\n\n---\n\n# Scrum Contents\n\n${text}`;
-
       const messages: ChatCompletionMessageParam[] = [
-        { role: "user", content: combinedContent },
+        { role: "user", content: prompt },
       ];
 
-      // Debug: Log the actual prompt
-      console.group("🤖 AI Summary Request");
-      console.log("User Prompt:", userPrompt);
-      console.log("Input Text:", text);
-      console.log("--- Combined Message ---");
-      console.log(combinedContent);
-      console.groupEnd();
-
       const chunks: string[] = [];
       let resolveNext: ((value: IteratorResult<string>) => void) | null = null;
       let done = false;
@@ -317,7 +314,26 @@ export function useWebLLMSummarizer(model: string, sharedContext?: string) {
         throw error;
       }
     },
-    [status, loadModel, sharedContext]
+    [status, loadModel]
+  );
+
+  const summarizeStream = useCallback(
+    async function* (text: string, prompt = sharedContext): AsyncGenerator<string> {
+      // Combine prompt and input into a single user message
+      const userPrompt = prompt || "Summarize the following entries concisely.";
+      const combinedContent = `# Task Description\n\n${userPrompt}\n\n---\n\n# Scrum Contents\n\n${text}`;
+
+      // Debug: Log the actual prompt
+      console.group("🤖 AI Summary Request");
+      console.log("User Prompt:", userPrompt);
+      console.log("Input Text:", text);
+      console.log("--- Combined Message ---");
+      console.log(combinedContent);
+      console.groupEnd();
+
+      yield* generateStream(combinedContent);
+    },
+    [generateStream, sharedContext]
   );
 
   const unload = useCallback(async () => {
@@ -330,6 +346,7 @@ export function useWebLLMSummarizer(model: string, sharedContext?: string) {
     progress,
     progressText,
     loadModel,
+    generateStream,
     summarizeStream,
     unload,
   };
@@ -14,7 +14,7 @@ import {
 
 interface WorkerMessage {
   id: string;
-  type: "init" | "generate" | "status" | "unload";
+  type: "init" | "generate" | "embed" | "status" | "unload";
   payload?: unknown;
 }
 
@@ -27,6 +27,11 @@ interface GeneratePayload {
   stream?: boolean;
 }
 
+interface EmbedPayload {
+  model: string;
+  inputs: string[];
+}
+
 interface WorkerResponse {
   id: string;
   type: "progress" | "chunk" | "complete" | "error" | "status";
@@ -40,6 +45,11 @@ let lastProgress = 0;
 let lastProgressText = "";
 const ports: MessagePort[] = [];
 
+// Embedding models are small and kept in their own engine so asking a question
+// doesn't unload the chat model
+let embeddingEngine: Promise<MLCEngine> | null = null;
+let embeddingModel: string | null = null;
+
 // Broadcast to all connected ports
 function broadcast(response: WorkerResponse) {
   ports.forEach((port) => {
@@ -188,6 +198,34 @@ async function generate(
   }
 }
 
+async function embed(port: MessagePort, id: string, model: string, inputs: string[]) {
+  try {
+    if (!embeddingEngine || embeddingModel !== model) {
+      const previous = embeddingEngine;
+      embeddingModel = model;
+      embeddingEngine = (async () => {
+        await (await previous?.catch(() => null))?.unload();
+        return CreateMLCEngine(model);
+      })();
+    }
+
+    const response = await (await embeddingEngine).embeddings.create({ input: inputs });
+    respond(port, {
+      id,
+      type: "complete",
+      payload: { embeddings: response.data.map((item) => item.embedding) },
+    });
+  } catch (error) {
+    embeddingEngine = null;
+    embeddingModel = null;
+    respond(port, {
+      id,
+      type: "error",
+      payload: error instanceof Error ? error.message : "Embedding failed",
+    });
+  }
+}
+
 function getStatus(port: MessagePort, id: string) {
   respond(port, {
     id,
@@ -224,6 +262,10 @@ function handleMessage(port: MessagePort, message: WorkerMessage) {
       const genPayload = payload as GeneratePayload;
       generate(port, id, genPayload.messages, genPayload.stream ?? true);
       break;
+    case "embed":
+      const embedPayload = payload as EmbedPayload;
+      embed(port, id, embedPayload.model, embedPayload.inputs);
+      break;
     case "status":
       getStatus(port, id);
       break;
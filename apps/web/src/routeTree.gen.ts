@@ -1,6 +1,10 @@
 import { rootRoute } from "./routes/__root";
 import { indexRoute } from "./routes/index";
 import { monthlyRoute } from "./routes/monthly";
+import { yearlyRoute } from "./routes/yearly";
+import { statsRoute } from "./routes/stats";
+import { searchRoute } from "./routes/search";
+import { askRoute } from "./routes/ask";
 import { configRoute } from "./routes/config";
 import { loginRoute } from "./routes/login";
 import { authCallbackRoute } from "./routes/auth.callback";
@@ -8,6 +12,10 @@ import { authCallbackRoute } from "./routes/auth.callback";
 export const routeTree = rootRoute.addChildren([
   indexRoute,
   monthlyRoute,
+  yearlyRoute,
+  statsRoute,
+  searchRoute,
+  askRoute,
   configRoute,
   loginRoute,
   authCallbackRoute,
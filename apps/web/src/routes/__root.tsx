@@ -1,5 +1,13 @@
 import { createRootRoute, Outlet, Link } from "@tanstack/react-router";
-import { BookOpen, Calendar, Settings } from "lucide-react";
+import {
+  BookOpen,
+  Calendar,
+  CalendarRange,
+  Flame,
+  MessageCircleQuestion,
+  Search,
+  Settings,
+} from "lucide-react";
 
 export const rootRoute = createRootRoute({
   component: () => (
@@ -27,6 +35,34 @@ export const rootRoute = createRootRoute({
               <Calendar className="h-4 w-4" />
               <span className="hidden sm:inline">Monthly</span>
             </Link>
+            <Link
+              to="/yearly"
+              className="flex items-center gap-2 px-3 py-2 rounded-md text-sm font-medium text-muted-foreground hover:text-foreground hover:bg-accent transition-colors [&.active]:bg-accent [&.active]:text-foreground"
+            >
+              <CalendarRange className="h-4 w-4" />
+              <span className="hidden sm:inline">Yearly</span>
+            </Link>
+            <Link
+              to="/stats"
+              className="flex items-center gap-2 px-3 py-2 rounded-md text-sm font-medium text-muted-foreground hover:text-foreground hover:bg-accent transition-colors [&.active]:bg-accent [&.active]:text-foreground"
+            >
+              <Flame className="h-4 w-4" />
+              <span className="hidden sm:inline">Stats</span>
+            </Link>
+            <Link
+              to="/search"
+              className="flex items-center gap-2 px-3 py-2 rounded-md text-sm font-medium text-muted-foreground hover:text-foreground hover:bg-accent transition-colors [&.active]:bg-accent [&.active]:text-foreground"
+            >
+              <Search className="h-4 w-4" />
+              <span className="hidden sm:inline">Search</span>
+            </Link>
+            <Link
+              to="/ask"
+              className="flex items-center gap-2 px-3 py-2 rounded-md text-sm font-medium text-muted-foreground hover:text-foreground hover:bg-accent transition-colors [&.active]:bg-accent [&.active]:text-foreground"
+            >
+              <MessageCircleQuestion className="h-4 w-4" />
+              <span className="hidden sm:inline">Ask</span>
+            </Link>
             <Link
               to="/config"
               className="flex items-center gap-2 px-3 py-2 rounded-md text-sm font-medium text-muted-foreground hover:text-foreground hover:bg-accent transition-colors [&.active]:bg-accent [&.active]:text-foreground"
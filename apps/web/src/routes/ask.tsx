@@ -0,0 +1,202 @@
+import { createRoute, Link } from "@tanstack/react-router";
+import { useState } from "react";
+import type { EmbeddingMatch } from "@til-stack/shared";
+import ReactMarkdown from "react-markdown";
+import remarkGfm from "remark-gfm";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Loader2, MessageCircleQuestion } from "lucide-react";
+import { rootRoute } from "./__root";
+import { useAIConfig } from "@/lib/ai-config";
+import { useSummarizer } from "@/lib/summarizer";
+import {
+  getEmbeddingBackend,
+  indexEntries,
+  findRelevantEntries,
+  buildAskPrompt,
+  linkCitations,
+} from "@/lib/ask";
+import { formatDateFull } from "@/lib/date-utils";
+
+export const askRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: "/ask",
+  component: AskPage,
+});
+
+type AskStep = "idle" | "indexing" | "searching" | "answering" | "done" | "error";
+
+const SNIPPET_LENGTH = 200;
+
+function AskPage() {
+  const { config } = useAIConfig();
+  const { generateStream } = useSummarizer();
+  const [question, setQuestion] = useState("");
+  const [step, setStep] = useState<AskStep>("idle");
+  const [indexProgress, setIndexProgress] = useState({ done: 0, total: 0 });
+  const [sources, setSources] = useState<EmbeddingMatch[]>([]);
+  const [answer, setAnswer] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const embeddingBackend = getEmbeddingBackend(config);
+  const isBusy = step === "indexing" || step === "searching" || step === "answering";
+
+  const handleAsk = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = question.trim();
+    if (!trimmed || isBusy) return;
+
+    setAnswer("");
+    setSources([]);
+    setError(null);
+
+    try {
+      setStep("indexing");
+      await indexEntries(embeddingBackend, (done, total) => setIndexProgress({ done, total }));
+
+      setStep("searching");
+      const matches = await findRelevantEntries(embeddingBackend, trimmed);
+      setSources(matches);
+      if (matches.length === 0) {
+        setAnswer("There are no entries to search yet.");
+        setStep("done");
+        return;
+      }
+
+      setStep("answering");
+      let text = "";
+      for await (const chunk of generateStream(buildAskPrompt(trimmed, matches))) {
+        text += chunk;
+        setAnswer(text);
+      }
+      setStep("done");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to answer the question");
+      setStep("error");
+    }
+  };
+
+  if (!config.enabled) {
+    return (
+      <Card>
+        <CardContent className="py-8 text-center text-muted-foreground">
+          AI features are disabled.{" "}
+          <Link to="/config" className="text-primary underline">
+            Enable them in Settings
+          </Link>{" "}
+          to ask questions about your journal.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <MessageCircleQuestion className="h-5 w-5" />
+            Ask your journal
+          </CardTitle>
+          <CardDescription>
+            Finds the entries most related to your question and answers from them, citing
+            the days it used. Embeddings: {embeddingBackend.name}.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleAsk} className="flex gap-2">
+            <Input
+              value={question}
+              onChange={(e) => setQuestion(e.target.value)}
+              placeholder="When did I learn about Postgres advisory locks?"
+              autoFocus
+            />
+            <Button type="submit" disabled={!question.trim() || isBusy}>
+              {isBusy ? <Loader2 className="h-4 w-4 animate-spin" /> : "Ask"}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {step === "indexing" && (
+        <p className="text-sm text-muted-foreground flex items-center gap-2">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          {indexProgress.total > 0
+            ? `Indexing entries (${indexProgress.done}/${indexProgress.total})...`
+            : "Checking for new entries..."}
+        </p>
+      )}
+      {step === "searching" && (
+        <p className="text-sm text-muted-foreground flex items-center gap-2">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Finding related entries...
+        </p>
+      )}
+
+      {error && (
+        <Card>
+          <CardContent className="py-4 text-sm text-destructive">{error}</CardContent>
+        </Card>
+      )}
+
+      {answer && (
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-lg">Answer</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="prose prose-sm max-w-none dark:prose-invert prose-p:my-1 prose-ul:my-1 prose-li:my-0">
+              <ReactMarkdown
+                remarkPlugins={[remarkGfm]}
+                components={{
+                  a: ({ href, children }) =>
+                    href?.startsWith("/?date=") ? (
+                      <Link to="/" search={{ date: href.slice("/?date=".length) }}>
+                        {children}
+                      </Link>
+                    ) : (
+                      <a href={href} target="_blank" rel="noopener noreferrer">
+                        {children}
+                      </a>
+                    ),
+                }}
+              >
+                {linkCitations(answer)}
+              </ReactMarkdown>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {sources.length > 0 && (
+        <div className="space-y-2">
+          <h2 className="text-sm font-medium text-muted-foreground">Related entries</h2>
+          {sources.map((source) => (
+            <Link key={source.date} to="/" search={{ date: source.date }} className="block">
+              <Card className="hover:bg-accent transition-colors">
+                <CardContent className="p-4 space-y-1">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium">{formatDateFull(source.date)}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {Math.round(source.score * 100)}% match
+                    </span>
+                  </div>
+                  <p className="text-sm text-muted-foreground line-clamp-2">
+                    {source.content.slice(0, SNIPPET_LENGTH)}
+                  </p>
+                </CardContent>
+              </Card>
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
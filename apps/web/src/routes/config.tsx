@@ -1,5 +1,31 @@
 import { createRoute, useNavigate, Link } from "@tanstack/react-router";
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import type {
+  ImportStrategy,
+  JournalArchive,
+  JournalImportPreview,
+  TemplateRule,
+  WebhookDigestWeek,
+  WebhookEvent,
+  WebhookFormat,
+  WebhookType,
+} from "@til-stack/shared";
+import {
+  TEMPLATE_VARIABLES,
+  findUnknownTemplateVariables,
+  renderTemplate,
+  usesPreviousEntry,
+  parseRecurrence,
+  describeRecurrence,
+  parseIcs,
+  WEBHOOK_MAX_CONSECUTIVE_FAILURES,
+  buildWebhookRequest,
+  resolveWebhookFormat,
+  reminderNotification,
+  entryEventNotification,
+  digestNotification,
+} from "@til-stack/shared";
 import {
   Card,
   CardContent,
@@ -12,7 +38,6 @@ import { Textarea } from "@/components/ui/textarea";
 import {
   Trash2,
   Plus,
-  Star,
   Loader2,
   Webhook,
   X,
@@ -26,17 +51,46 @@ import {
   RotateCcw,
   Play,
   Power,
+  KeyRound,
+  Copy,
   User,
   LogOut,
   RefreshCw,
   Cloud,
   CloudOff,
+  Upload,
+  Archive,
+  FolderOpen,
+  FileInput,
+  ChevronLeft,
+  ChevronRight,
 } from "lucide-react";
 import { trpc } from "@/lib/trpc";
 import { useTheme, type Theme } from "@/lib/theme";
 import { useAIConfig, AI_BACKENDS, WEBLLM_MODELS, type AIBackend } from "@/lib/ai-config";
+import { fetchOpenAICompatibleModels } from "@/lib/openai-compatible-summarizer";
+import {
+  PROMPT_SCOPES,
+  PROMPT_VARIABLES,
+  type PromptScope,
+  type SummaryPrompt,
+} from "@/lib/prompts";
 import { useSummarizer, type SummarizerStatus } from "@/lib/summarizer";
 import { useAuth } from "@/lib/auth-context";
+import {
+  exportJournal,
+  journalExportFileName,
+  readJournalArchive,
+  previewJournalImport,
+  importJournal,
+} from "@/lib/journal-archive";
+import { readDailyNotes, type DailyNotesImport } from "@/lib/daily-notes-import";
+import {
+  getLocalDateString,
+  formatDateShort,
+  shouldSkipDate,
+  type SkipDaysConfig,
+} from "@/lib/date-utils";
 import { GoogleIcon } from "@/components/icons/google";
 import { rootRoute } from "./__root";
 
@@ -67,6 +121,8 @@ function ConfigPage() {
       <SkipDaysSection />
       <TemplatesSection />
       <WebhooksSection />
+      <BackupSection />
+      <ImportNotesSection />
     </div>
   );
 }
@@ -259,35 +315,12 @@ function AISection() {
     setWebllmModel,
     setGroqApiKey,
     setGoogleAiApiKey,
-    setWeeklyPrompt,
-    resetPrompt,
-    DEFAULT_WEEKLY_PROMPT,
+    setOpenaiBaseUrl,
+    setOpenaiModel,
+    setOpenaiApiKey,
+    setOpenaiEmbeddingModel,
   } = useAIConfig();
   const { status, progress, progressText, initDownload } = useSummarizer();
-  const [promptValue, setPromptValue] = useState(config.weeklyPrompt);
-  const [hasChanges, setHasChanges] = useState(false);
-
-  // Sync promptValue when config changes
-  useEffect(() => {
-    setPromptValue(config.weeklyPrompt);
-    setHasChanges(false);
-  }, [config.weeklyPrompt]);
-
-  const handlePromptChange = (value: string) => {
-    setPromptValue(value);
-    setHasChanges(value !== config.weeklyPrompt);
-  };
-
-  const handleSavePrompt = () => {
-    setWeeklyPrompt(promptValue);
-    setHasChanges(false);
-  };
-
-  const handleResetPrompt = () => {
-    resetPrompt();
-    setPromptValue(DEFAULT_WEEKLY_PROMPT);
-    setHasChanges(false);
-  };
 
   const statusInfo = getStatusLabel(status);
   const isModelReady = status === "ready";
@@ -450,6 +483,20 @@ function AISection() {
               </div>
             )}
 
+            {/* OpenAI-compatible server */}
+            {config.backend === "openai-compatible" && (
+              <OpenAICompatibleSettings
+                baseUrl={config.openaiBaseUrl}
+                model={config.openaiModel}
+                apiKey={config.openaiApiKey}
+                embeddingModel={config.openaiEmbeddingModel}
+                onBaseUrlChange={setOpenaiBaseUrl}
+                onModelChange={setOpenaiModel}
+                onApiKeyChange={setOpenaiApiKey}
+                onEmbeddingModelChange={setOpenaiEmbeddingModel}
+              />
+            )}
+
             {/* Status - only for local models */}
             {(config.backend === "gemini-nano" || config.backend === "webllm") && (
               <>
@@ -485,41 +532,580 @@ function AISection() {
               </>
             )}
 
-            {/* Weekly prompt */}
-            <div className="space-y-2">
-              <div className="flex items-center justify-between">
-                <label className="text-sm font-medium">Summary Prompt</label>
+            <PromptLibrary />
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+type PromptForm = Omit<SummaryPrompt, "id">;
+
+const EMPTY_PROMPT_FORM: PromptForm = { name: "", scope: "week", content: "" };
+
+function PromptLibrary() {
+  const { config, savePrompt, deletePrompt, resetPrompts } = useAIConfig();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [form, setForm] = useState<PromptForm>(EMPTY_PROMPT_FORM);
+
+  const startCreate = () => {
+    setEditingId(null);
+    setForm(EMPTY_PROMPT_FORM);
+    setIsCreating(true);
+  };
+
+  const startEdit = (prompt: SummaryPrompt) => {
+    setIsCreating(false);
+    setForm({ name: prompt.name, scope: prompt.scope, content: prompt.content });
+    setEditingId(prompt.id);
+  };
+
+  const handleSave = () => {
+    savePrompt({ id: editingId ?? crypto.randomUUID(), ...form });
+    setEditingId(null);
+    setIsCreating(false);
+  };
+
+  const handleCancel = () => {
+    setEditingId(null);
+    setIsCreating(false);
+  };
+
+  const scopeName = (scope: PromptScope) =>
+    PROMPT_SCOPES.find((s) => s.id === scope)?.name ?? scope;
+
+  const promptForm = (
+    <div className="border rounded-lg p-3 space-y-3">
+      <div className="flex gap-2">
+        <input
+          type="text"
+          placeholder="Prompt name"
+          value={form.name}
+          onChange={(e) => setForm((prev) => ({ ...prev, name: e.target.value }))}
+          className="flex-1 h-9 rounded-md border border-input bg-background px-3 py-1 text-sm"
+        />
+        <select
+          value={form.scope}
+          onChange={(e) => setForm((prev) => ({ ...prev, scope: e.target.value as PromptScope }))}
+          className="h-9 rounded-md border border-input bg-background px-3 py-1 text-sm"
+        >
+          {PROMPT_SCOPES.map((scope) => (
+            <option key={scope.id} value={scope.id}>
+              {scope.name}
+            </option>
+          ))}
+        </select>
+      </div>
+      <Textarea
+        placeholder="Instructions for the summary..."
+        value={form.content}
+        onChange={(e) => setForm((prev) => ({ ...prev, content: e.target.value }))}
+        className="min-h-[100px] font-mono text-sm"
+      />
+      <p className="text-xs text-muted-foreground">
+        Variables: {PROMPT_VARIABLES.map((variable) => (
+          <code key={variable} className="font-mono mr-2">{variable}</code>
+        ))}
+      </p>
+      <div className="flex gap-2">
+        <Button size="sm" onClick={handleSave} disabled={!form.name.trim() || !form.content.trim()}>
+          Save
+        </Button>
+        <Button size="sm" variant="secondary" onClick={handleCancel}>
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-medium">Summary Prompts</label>
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => confirm("Replace all prompts with the defaults?") && resetPrompts()}
+            className="h-7 text-xs"
+          >
+            <RotateCcw className="h-3 w-3 mr-1" />
+            Reset
+          </Button>
+          {!isCreating && (
+            <Button variant="ghost" size="sm" onClick={startCreate} className="h-7 text-xs">
+              <Plus className="h-3 w-3 mr-1" />
+              New
+            </Button>
+          )}
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Each summary uses the first prompt tagged for its period; others (and ad-hoc
+        prompts) can be picked next to the summary.
+      </p>
+
+      {isCreating && promptForm}
+
+      {config.prompts.map((prompt) =>
+        editingId === prompt.id ? (
+          <div key={prompt.id}>{promptForm}</div>
+        ) : (
+          <div key={prompt.id} className="border rounded-lg p-3">
+            <div className="flex items-center justify-between mb-1">
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-medium">{prompt.name}</span>
+                <span className="text-xs bg-muted px-1.5 py-0.5 rounded">
+                  {scopeName(prompt.scope)}
+                </span>
+              </div>
+              <div className="flex items-center gap-1">
                 <Button
                   variant="ghost"
-                  size="sm"
-                  onClick={handleResetPrompt}
-                  className="h-7 text-xs"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => startEdit(prompt)}
+                >
+                  <Pencil className="h-3 w-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 text-destructive"
+                  onClick={() => confirm("Delete this prompt?") && deletePrompt(prompt.id)}
                 >
-                  <RotateCcw className="h-3 w-3 mr-1" />
-                  Reset
+                  <Trash2 className="h-3 w-3" />
                 </Button>
               </div>
-              <Textarea
-                value={promptValue}
-                onChange={(e) => handlePromptChange(e.target.value)}
-                placeholder="Enter your custom prompt..."
-                className="min-h-[100px] font-mono text-sm"
+            </div>
+            <pre className="text-xs text-muted-foreground whitespace-pre-wrap line-clamp-3">
+              {prompt.content}
+            </pre>
+          </div>
+        )
+      )}
+    </div>
+  );
+}
+
+function OpenAICompatibleSettings({
+  baseUrl,
+  model,
+  apiKey,
+  embeddingModel,
+  onBaseUrlChange,
+  onModelChange,
+  onApiKeyChange,
+  onEmbeddingModelChange,
+}: {
+  baseUrl: string;
+  model: string;
+  apiKey: string;
+  embeddingModel: string;
+  onBaseUrlChange: (baseUrl: string) => void;
+  onModelChange: (model: string) => void;
+  onApiKeyChange: (apiKey: string) => void;
+  onEmbeddingModelChange: (embeddingModel: string) => void;
+}) {
+  const [models, setModels] = useState<string[] | null>(null);
+  const [isFetching, setIsFetching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadModels = async () => {
+    if (!baseUrl) return;
+    setIsFetching(true);
+    setError(null);
+    try {
+      setModels(await fetchOpenAICompatibleModels(baseUrl, apiKey));
+    } catch (err) {
+      setModels(null);
+      setError(err instanceof Error ? err.message : "Failed to load models");
+    } finally {
+      setIsFetching(false);
+    }
+  };
+
+  // List the server's models when the backend is first shown
+  useEffect(() => {
+    loadModels();
+  }, []);
+
+  const inputClassName =
+    "w-full h-9 rounded-md border border-input bg-background px-3 py-1 text-sm font-mono";
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <label className="text-sm font-medium">Server URL</label>
+        <input
+          type="url"
+          value={baseUrl}
+          onChange={(e) => onBaseUrlChange(e.target.value)}
+          placeholder="http://localhost:11434/v1"
+          className={inputClassName}
+        />
+        <p className="text-xs text-muted-foreground">
+          The server must allow requests from this site. For Ollama, set{" "}
+          <code className="font-mono">OLLAMA_ORIGINS</code> to this origin.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-sm font-medium">API Key (optional)</label>
+        <input
+          type="password"
+          value={apiKey}
+          onChange={(e) => onApiKeyChange(e.target.value)}
+          placeholder="Not needed for most local servers"
+          className={inputClassName}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <label className="text-sm font-medium">Model</label>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={loadModels}
+            disabled={!baseUrl || isFetching}
+            className="h-7 text-xs"
+          >
+            {isFetching ? (
+              <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+            ) : (
+              <RefreshCw className="h-3 w-3 mr-1" />
+            )}
+            Refresh
+          </Button>
+        </div>
+        {models && models.length > 0 && (
+          <div className="grid gap-2 max-h-48 overflow-y-auto">
+            {models.map((id) => (
+              <button
+                key={id}
+                onClick={() => onModelChange(id)}
+                className={`
+                  flex items-center justify-between p-2 rounded-lg border text-left
+                  transition-colors cursor-pointer hover:bg-accent
+                  ${model === id ? "border-primary bg-accent" : "border-border"}
+                `}
+              >
+                <span className="text-sm font-mono truncate">{id}</span>
+                {model === id && <Check className="h-4 w-4 text-primary shrink-0" />}
+              </button>
+            ))}
+          </div>
+        )}
+        {models && models.length === 0 && (
+          <p className="text-xs text-muted-foreground">
+            The server reported no models. Pull one first, e.g.{" "}
+            <code className="font-mono">ollama pull llama3.2</code>
+          </p>
+        )}
+        {error && <p className="text-xs text-destructive">{error}</p>}
+        <input
+          type="text"
+          value={model}
+          onChange={(e) => onModelChange(e.target.value)}
+          placeholder="e.g. llama3.2"
+          className={inputClassName}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-sm font-medium">Embedding Model</label>
+        <input
+          type="text"
+          value={embeddingModel}
+          onChange={(e) => onEmbeddingModelChange(e.target.value)}
+          placeholder="e.g. nomic-embed-text"
+          className={inputClassName}
+        />
+        <p className="text-xs text-muted-foreground">
+          Used by Ask to find relevant entries
+        </p>
+      </div>
+    </div>
+  );
+}
+
+const DAY_INITIALS = ["S", "M", "T", "W", "T", "F", "S"];
+
+// Calendar grid for a month: leading nulls up to the first weekday, then each date
+function getMonthDates(year: number, month: number): (string | null)[] {
+  const startDayOfWeek = new Date(year, month, 1).getDay();
+  const daysInMonth = new Date(year, month + 1, 0).getDate();
+
+  const dates: (string | null)[] = Array(startDayOfWeek).fill(null);
+  for (let day = 1; day <= daysInMonth; day++) {
+    dates.push(getLocalDateString(new Date(year, month, day)));
+  }
+  return dates;
+}
+
+// YYYY-MM-DD to the YYYYMMDD form recurrence rules use
+function toRRuleDate(dateStr: string): string {
+  return dateStr.replace(/-/g, "");
+}
+
+// The given weekday on or after today
+function nextWeekday(weekday: number): string {
+  const date = new Date();
+  date.setDate(date.getDate() + ((weekday - date.getDay() + 7) % 7));
+  return getLocalDateString(date);
+}
+
+const RECURRENCE_PRESETS = [
+  {
+    name: "Every other Friday",
+    rule: () => `FREQ=WEEKLY;INTERVAL=2;BYDAY=FR;DTSTART=${toRRuleDate(nextWeekday(5))}`,
+  },
+  { name: "Last day of month", rule: () => "FREQ=MONTHLY;BYMONTHDAY=-1" },
+  { name: "First Monday of month", rule: () => "FREQ=MONTHLY;BYDAY=1MO" },
+];
+
+// Month calendar of skipped days; click a start and an end date to skip a range
+function SkipDaysCalendar({
+  skipDays,
+  onAddRange,
+  disabled,
+}: {
+  skipDays: SkipDaysConfig | undefined;
+  onAddRange: (date: string, endDate: string) => void;
+  disabled: boolean;
+}) {
+  const today = new Date();
+  const todayStr = getLocalDateString(today);
+  const [month, setMonth] = useState({ year: today.getFullYear(), month: today.getMonth() });
+  const [rangeStart, setRangeStart] = useState<string | null>(null);
+  const [hoverDate, setHoverDate] = useState<string | null>(null);
+
+  const changeMonth = (delta: number) => {
+    const date = new Date(month.year, month.month + delta, 1);
+    setMonth({ year: date.getFullYear(), month: date.getMonth() });
+  };
+
+  const handleClick = (dateStr: string) => {
+    if (!rangeStart) {
+      setRangeStart(dateStr);
+      return;
+    }
+    const [start, end] = rangeStart <= dateStr ? [rangeStart, dateStr] : [dateStr, rangeStart];
+    onAddRange(start, end);
+    setRangeStart(null);
+  };
+
+  // Dates between the picked start and the hovered date
+  const selectionEnd = rangeStart ? hoverDate ?? rangeStart : null;
+  const isSelected = (dateStr: string) =>
+    rangeStart !== null &&
+    selectionEnd !== null &&
+    dateStr >= (rangeStart < selectionEnd ? rangeStart : selectionEnd) &&
+    dateStr <= (rangeStart < selectionEnd ? selectionEnd : rangeStart);
+
+  return (
+    <div className="max-w-xs">
+      <div className="flex items-center justify-between mb-2">
+        <Button variant="ghost" size="icon" onClick={() => changeMonth(-1)}>
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <span className="text-sm font-medium">
+          {new Date(month.year, month.month).toLocaleDateString("en-US", {
+            month: "long",
+            year: "numeric",
+          })}
+        </span>
+        <Button variant="ghost" size="icon" onClick={() => changeMonth(1)}>
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+      </div>
+      <div className="grid grid-cols-7 gap-0.5" onMouseLeave={() => setHoverDate(null)}>
+        {DAY_INITIALS.map((day, i) => (
+          <div key={i} className="text-center text-xs font-medium text-muted-foreground py-1">
+            {day}
+          </div>
+        ))}
+        {getMonthDates(month.year, month.month).map((dateStr, index) => {
+          if (!dateStr) {
+            return <div key={`empty-${index}`} className="aspect-square" />;
+          }
+
+          // Dates and ranges are highlighted; days skipped by a weekday or
+          // recurrence rule are dimmed
+          const isPicked =
+            skipDays?.specificDates.includes(dateStr) ||
+            skipDays?.dateRanges?.some((range) => range.start <= dateStr && dateStr <= range.end);
+          const isSkipped = !isPicked && shouldSkipDate(dateStr, skipDays);
+
+          return (
+            <button
+              key={dateStr}
+              title={formatDateShort(dateStr)}
+              onClick={() => handleClick(dateStr)}
+              onMouseEnter={() => setHoverDate(dateStr)}
+              disabled={disabled}
+              className={`
+                aspect-square flex items-center justify-center rounded text-xs transition-colors
+                ${isPicked ? "bg-primary text-primary-foreground" : "hover:bg-accent"}
+                ${isSkipped ? "bg-secondary text-muted-foreground line-through" : ""}
+                ${isSelected(dateStr) ? "ring-2 ring-primary ring-inset" : ""}
+                ${dateStr === todayStr ? "font-bold" : ""}
+              `}
+            >
+              {parseInt(dateStr.split("-")[2])}
+            </button>
+          );
+        })}
+      </div>
+      <p className="text-xs text-muted-foreground mt-2">
+        {rangeStart ? (
+          <>
+            Click the last day to skip (or {formatDateShort(rangeStart)} again for a single day).{" "}
+            <button className="underline" onClick={() => setRangeStart(null)}>
+              Cancel
+            </button>
+          </>
+        ) : (
+          "Click a day, then the last day of the range to skip"
+        )}
+      </p>
+    </div>
+  );
+}
+
+// Import a holiday calendar (.ics) into skip days, tagged with its name so
+// the whole calendar can be removed again
+function HolidayCalendars({ skipDays }: { skipDays: { source: string | null }[] }) {
+  const utils = trpc.useUtils();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [ics, setIcs] = useState("");
+  const [source, setSource] = useState("");
+  const [message, setMessage] = useState<string | null>(null);
+
+  const calendar = ics.trim() ? parseIcs(ics) : null;
+
+  const importMutation = trpc.config.importSkipDaysIcs.useMutation({
+    onSuccess: (result) => {
+      utils.config.getSkipDays.invalidate();
+      setMessage(`Imported ${result.events} events from ${result.source}.`);
+      setIcs("");
+      setSource("");
+    },
+  });
+
+  const removeSourceMutation = trpc.config.removeSkipDaySource.useMutation({
+    onSuccess: () => utils.config.getSkipDays.invalidate(),
+  });
+
+  const handleFileSelected = async (file: File | undefined) => {
+    if (!file) return;
+    setMessage(null);
+    const text = await file.text();
+    setIcs(text);
+    setSource(parseIcs(text).name ?? file.name.replace(/\.ics$/i, ""));
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  const counts = new Map<string, number>();
+  for (const skipDay of skipDays) {
+    if (skipDay.source) counts.set(skipDay.source, (counts.get(skipDay.source) ?? 0) + 1);
+  }
+
+  return (
+    <div>
+      <h3 className="text-sm font-medium mb-3">Holiday Calendars</h3>
+      <div className="space-y-2">
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+            <Upload className="h-4 w-4 mr-2" />
+            Upload .ics
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".ics,text/calendar"
+            className="hidden"
+            onChange={(e) => handleFileSelected(e.target.files?.[0])}
+          />
+        </div>
+        <Textarea
+          placeholder="...or paste the calendar (BEGIN:VCALENDAR ...)"
+          value={ics}
+          onChange={(e) => {
+            setIcs(e.target.value);
+            setMessage(null);
+          }}
+          className="min-h-[80px] font-mono text-xs"
+        />
+        {calendar && (
+          <>
+            <p className={`text-xs ${calendar.events.length > 0 ? "text-muted-foreground" : "text-destructive"}`}>
+              {calendar.events.length > 0
+                ? `${calendar.events.length} events found`
+                : "No events found in calendar"}
+            </p>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={source}
+                onChange={(e) => setSource(e.target.value)}
+                placeholder={calendar.name ?? "Calendar name, e.g. Korean holidays"}
+                className="flex h-9 flex-1 rounded-md border border-input bg-background px-3 py-1 text-sm"
               />
-              <div className="flex items-center justify-between">
-                <p className="text-xs text-muted-foreground">
-                  This context helps the AI understand your entries
-                </p>
-                {hasChanges && (
-                  <Button size="sm" onClick={handleSavePrompt}>
-                    Save Prompt
-                  </Button>
+              <Button
+                size="sm"
+                onClick={() =>
+                  importMutation.mutate({ ics, source: source.trim() || undefined })
+                }
+                disabled={calendar.events.length === 0 || importMutation.isPending}
+              >
+                {importMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 animate-spin mr-1" />
+                ) : (
+                  <Plus className="h-4 w-4 mr-1" />
                 )}
-              </div>
+                Import
+              </Button>
             </div>
           </>
         )}
-      </CardContent>
-    </Card>
+        {importMutation.error && (
+          <p className="text-xs text-destructive">{importMutation.error.message}</p>
+        )}
+        {message && <p className="text-xs text-muted-foreground">{message}</p>}
+      </div>
+
+      {counts.size === 0 ? (
+        <p className="text-sm text-muted-foreground mt-3">No calendars imported</p>
+      ) : (
+        <div className="space-y-2 mt-3">
+          {[...counts].sort(([a], [b]) => a.localeCompare(b)).map(([name, count]) => (
+            <div
+              key={name}
+              className="flex items-center justify-between gap-2 px-3 py-2 bg-secondary rounded-md text-sm"
+            >
+              <div>
+                {name}
+                <span className="text-xs text-muted-foreground ml-2">
+                  {count} skip {count === 1 ? "day" : "days"}
+                </span>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => removeSourceMutation.mutate({ source: name })}
+                disabled={removeSourceMutation.isPending}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
   );
 }
 
@@ -529,16 +1115,20 @@ function SkipDaysSection() {
   const { data: skipDays, isLoading } = trpc.config.getSkipDays.useQuery(undefined, {
     enabled: !isAuthLoading,  // Wait for auth to complete before querying
   });
-  const [newDate, setNewDate] = useState("");
+  const [newRule, setNewRule] = useState("");
 
   const addWeekdayMutation = trpc.config.addSkipWeekday.useMutation({
     onSuccess: () => utils.config.getSkipDays.invalidate(),
   });
 
   const addDateMutation = trpc.config.addSkipDate.useMutation({
+    onSuccess: () => utils.config.getSkipDays.invalidate(),
+  });
+
+  const addRecurrenceMutation = trpc.config.addSkipRecurrence.useMutation({
     onSuccess: () => {
       utils.config.getSkipDays.invalidate();
-      setNewDate("");
+      setNewRule("");
     },
   });
 
@@ -558,6 +1148,8 @@ function SkipDaysSection() {
     }
   };
 
+  const isRuleValid = parseRecurrence(newRule) !== null;
+
   if (isLoading || isAuthLoading) {
     return (
       <Card>
@@ -568,6 +1160,12 @@ function SkipDaysSection() {
     );
   }
 
+  // Days from imported calendars are listed per calendar instead
+  const dates = skipDays?.raw
+    .filter((s) => !s.source && (s.type === "specific_date" || s.type === "date_range"))
+    .sort((a, b) => a.value.localeCompare(b.value)) ?? [];
+  const recurrences = skipDays?.raw.filter((s) => !s.source && s.type === "rrule") ?? [];
+
   return (
     <Card>
       <CardHeader>
@@ -595,56 +1193,288 @@ function SkipDaysSection() {
           </div>
         </div>
 
-        {/* Specific dates */}
+        {/* Specific dates and ranges */}
+        <div>
+          <h3 className="text-sm font-medium mb-3">Dates and Ranges</h3>
+          <SkipDaysCalendar
+            skipDays={skipDays}
+            onAddRange={(date, endDate) => addDateMutation.mutate({ date, endDate })}
+            disabled={addDateMutation.isPending}
+          />
+
+          {dates.length === 0 ? (
+            <p className="text-sm text-muted-foreground mt-3">
+              No dates or ranges configured
+            </p>
+          ) : (
+            <div className="flex flex-wrap gap-2 mt-3">
+              {dates.map((item) => (
+                <div
+                  key={item.id}
+                  className="flex items-center gap-1 px-3 py-1 bg-secondary rounded-md text-sm"
+                >
+                  {item.value.replace("/", " – ")}
+                  <button
+                    onClick={() => removeMutation.mutate({ id: item.id })}
+                    className="ml-1 hover:text-destructive"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Recurrence rules */}
         <div>
-          <h3 className="text-sm font-medium mb-3">Specific Dates</h3>
-          <div className="flex gap-2 mb-3">
+          <h3 className="text-sm font-medium mb-3">Recurrences</h3>
+          <div className="flex flex-wrap gap-2 mb-2">
+            {RECURRENCE_PRESETS.map((preset) => (
+              <Button
+                key={preset.name}
+                variant="outline"
+                size="sm"
+                onClick={() => setNewRule(preset.rule())}
+              >
+                {preset.name}
+              </Button>
+            ))}
+          </div>
+          <div className="flex gap-2">
             <input
-              type="date"
-              value={newDate}
-              onChange={(e) => setNewDate(e.target.value)}
-              className="flex h-9 rounded-md border border-input bg-background px-3 py-1 text-sm"
+              type="text"
+              value={newRule}
+              onChange={(e) => setNewRule(e.target.value)}
+              placeholder="FREQ=WEEKLY;INTERVAL=2;BYDAY=FR;DTSTART=20240105"
+              className="flex h-9 flex-1 rounded-md border border-input bg-background px-3 py-1 text-sm font-mono"
             />
             <Button
               size="sm"
-              onClick={() => newDate && addDateMutation.mutate({ date: newDate })}
-              disabled={!newDate || addDateMutation.isPending}
+              onClick={() => addRecurrenceMutation.mutate({ rule: newRule.trim() })}
+              disabled={!isRuleValid || addRecurrenceMutation.isPending}
             >
               <Plus className="h-4 w-4 mr-1" /> Add
             </Button>
           </div>
+          {newRule.trim() && (
+            <p className={`text-xs mt-1 ${isRuleValid ? "text-muted-foreground" : "text-destructive"}`}>
+              {isRuleValid ? describeRecurrence(newRule) : "Unsupported recurrence rule"}
+            </p>
+          )}
 
-          {skipDays?.specificDates.length === 0 ? (
-            <p className="text-sm text-muted-foreground">
-              No specific dates configured
+          {recurrences.length === 0 ? (
+            <p className="text-sm text-muted-foreground mt-3">
+              No recurrences configured
             </p>
           ) : (
-            <div className="flex flex-wrap gap-2">
-              {skipDays?.raw
-                .filter((s) => s.type === "specific_date")
-                .sort((a, b) => a.value.localeCompare(b.value))
-                .map((item) => (
-                  <div
-                    key={item.id}
-                    className="flex items-center gap-1 px-3 py-1 bg-secondary rounded-md text-sm"
-                  >
-                    {item.value}
-                    <button
-                      onClick={() => removeMutation.mutate({ id: item.id })}
-                      className="ml-1 hover:text-destructive"
-                    >
-                      <X className="h-3 w-3" />
-                    </button>
+            <div className="space-y-2 mt-3">
+              {recurrences.map((item) => (
+                <div
+                  key={item.id}
+                  className="flex items-center justify-between gap-2 px-3 py-2 bg-secondary rounded-md text-sm"
+                >
+                  <div className="min-w-0">
+                    <div>{describeRecurrence(item.value)}</div>
+                    <div className="text-xs text-muted-foreground font-mono truncate">{item.value}</div>
                   </div>
-                ))}
+                  <button
+                    onClick={() => removeMutation.mutate({ id: item.id })}
+                    className="hover:text-destructive"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </div>
+              ))}
             </div>
           )}
         </div>
+
+        <HolidayCalendars skipDays={skipDays?.raw ?? []} />
       </CardContent>
     </Card>
   );
 }
 
+// Live preview of a template as it would be applied to today's entry
+function TemplatePreview({ content }: { content: string }) {
+  const today = getLocalDateString();
+  const { data: previousEntries } = trpc.entries.list.useQuery(
+    { cursor: today, limit: 1 },
+    { enabled: usesPreviousEntry(content) }
+  );
+  const unknown = findUnknownTemplateVariables(content);
+  const rendered = renderTemplate(content, {
+    date: today,
+    previousEntry: previousEntries?.items[0] ?? null,
+  });
+  // Show where the caret will land
+  const preview =
+    rendered.cursor === null
+      ? rendered.content
+      : `${rendered.content.slice(0, rendered.cursor)}▍${rendered.content.slice(rendered.cursor)}`;
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-muted-foreground">
+        Variables: {TEMPLATE_VARIABLES.map((variable) => (
+          <code key={variable} className="font-mono mr-2">{`{{${variable}}}`}</code>
+        ))}
+      </p>
+      {unknown.length > 0 && (
+        <p className="text-xs text-destructive">
+          Unknown variable{unknown.length > 1 ? "s" : ""}:{" "}
+          {unknown.map((name) => `{{${name}}}`).join(", ")}
+        </p>
+      )}
+      {content && (
+        <div>
+          <p className="text-xs font-medium text-muted-foreground mb-1">Preview for today</p>
+          <pre className="text-xs text-muted-foreground bg-muted p-2 rounded overflow-x-auto whitespace-pre-wrap">
+            {preview}
+          </pre>
+        </div>
+      )}
+    </div>
+  );
+}
+
+const TEMPLATE_RULE_TYPES: { id: TemplateRule["type"]; name: string }[] = [
+  { id: "weekdays", name: "Weekdays" },
+  { id: "date", name: "Specific date" },
+  { id: "dateRange", name: "Date range" },
+  { id: "always", name: "Every day" },
+];
+
+function describeTemplateRule(rule: TemplateRule): string {
+  switch (rule.type) {
+    case "always":
+      return "Every day";
+    case "weekdays":
+      return [...rule.weekdays]
+        .sort()
+        .map((day) => WEEKDAY_NAMES[day].slice(0, 3))
+        .join(", ");
+    case "date":
+      return rule.date;
+    case "dateRange":
+      return `${rule.start} – ${rule.end}`;
+  }
+}
+
+// Which days a template is applied to. The most specific matching rule across
+// all templates wins: a date over a range, a range over weekdays.
+function TemplateRulesEditor({
+  rules,
+  onChange,
+}: {
+  rules: TemplateRule[];
+  onChange: (rules: TemplateRule[]) => void;
+}) {
+  const [ruleType, setRuleType] = useState<TemplateRule["type"]>("weekdays");
+  const [weekdays, setWeekdays] = useState<number[]>([]);
+  const [start, setStart] = useState("");
+  const [end, setEnd] = useState("");
+
+  const buildRule = (): TemplateRule | null => {
+    switch (ruleType) {
+      case "always":
+        return { type: "always" };
+      case "weekdays":
+        return weekdays.length > 0 ? { type: "weekdays", weekdays } : null;
+      case "date":
+        return start ? { type: "date", date: start } : null;
+      case "dateRange":
+        return start && end && start <= end ? { type: "dateRange", start, end } : null;
+    }
+  };
+  const newRule = buildRule();
+
+  const toggleWeekday = (day: number) => {
+    setWeekdays((prev) => (prev.includes(day) ? prev.filter((d) => d !== day) : [...prev, day]));
+  };
+
+  const handleAdd = () => {
+    if (!newRule) return;
+    onChange([...rules, newRule]);
+    setWeekdays([]);
+    setStart("");
+    setEnd("");
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs font-medium text-muted-foreground">Use for new entries on</p>
+      {rules.length === 0 ? (
+        <p className="text-xs text-muted-foreground">Not assigned to any day</p>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {rules.map((rule, index) => (
+            <div
+              key={index}
+              className="flex items-center gap-1 px-3 py-1 bg-secondary rounded-md text-sm"
+            >
+              {describeTemplateRule(rule)}
+              <button
+                type="button"
+                onClick={() => onChange(rules.filter((_, i) => i !== index))}
+                className="ml-1 hover:text-destructive"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={ruleType}
+          onChange={(e) => setRuleType(e.target.value as TemplateRule["type"])}
+          className="h-9 rounded-md border border-input bg-background px-3 py-1 text-sm"
+        >
+          {TEMPLATE_RULE_TYPES.map((type) => (
+            <option key={type.id} value={type.id}>
+              {type.name}
+            </option>
+          ))}
+        </select>
+        {ruleType === "weekdays" &&
+          WEEKDAY_NAMES.map((name, index) => (
+            <Button
+              key={index}
+              type="button"
+              variant={weekdays.includes(index) ? "default" : "outline"}
+              size="sm"
+              onClick={() => toggleWeekday(index)}
+            >
+              {name.slice(0, 3)}
+            </Button>
+          ))}
+        {(ruleType === "date" || ruleType === "dateRange") && (
+          <input
+            type="date"
+            value={start}
+            onChange={(e) => setStart(e.target.value)}
+            className="flex h-9 rounded-md border border-input bg-background px-3 py-1 text-sm"
+          />
+        )}
+        {ruleType === "dateRange" && (
+          <input
+            type="date"
+            value={end}
+            min={start}
+            onChange={(e) => setEnd(e.target.value)}
+            className="flex h-9 rounded-md border border-input bg-background px-3 py-1 text-sm"
+          />
+        )}
+        <Button type="button" size="sm" variant="secondary" onClick={handleAdd} disabled={!newRule}>
+          <Plus className="h-4 w-4 mr-1" /> Add
+        </Button>
+      </div>
+    </div>
+  );
+}
+
 function TemplatesSection() {
   const { isLoading: isAuthLoading } = useAuth();
   const utils = trpc.useUtils();
@@ -652,15 +1482,16 @@ function TemplatesSection() {
     enabled: !isAuthLoading,  // Wait for auth to complete before querying
   });
   const [editingId, setEditingId] = useState<string | null>(null);
-  const [newTemplate, setNewTemplate] = useState({ name: "", content: "" });
-  const [editForm, setEditForm] = useState({ name: "", content: "" });
+  const emptyForm = { name: "", content: "", rules: [] as TemplateRule[] };
+  const [newTemplate, setNewTemplate] = useState(emptyForm);
+  const [editForm, setEditForm] = useState(emptyForm);
   const [isCreating, setIsCreating] = useState(false);
 
   const createMutation = trpc.config.createTemplate.useMutation({
     onSuccess: () => {
       utils.config.getTemplates.invalidate();
-      utils.config.getDefaultTemplate.invalidate();
-      setNewTemplate({ name: "", content: "" });
+      utils.config.getTemplateForDate.invalidate();
+      setNewTemplate(emptyForm);
       setIsCreating(false);
     },
   });
@@ -668,6 +1499,7 @@ function TemplatesSection() {
   const updateMutation = trpc.config.updateTemplate.useMutation({
     onSuccess: () => {
       utils.config.getTemplates.invalidate();
+      utils.config.getTemplateForDate.invalidate();
       setEditingId(null);
     },
   });
@@ -675,20 +1507,13 @@ function TemplatesSection() {
   const deleteMutation = trpc.config.deleteTemplate.useMutation({
     onSuccess: () => {
       utils.config.getTemplates.invalidate();
-      utils.config.getDefaultTemplate.invalidate();
-    },
-  });
-
-  const setDefaultMutation = trpc.config.setDefaultTemplate.useMutation({
-    onSuccess: () => {
-      utils.config.getTemplates.invalidate();
-      utils.config.getDefaultTemplate.invalidate();
+      utils.config.getTemplateForDate.invalidate();
     },
   });
 
-  const startEdit = (template: { id: string; name: string; content: string }) => {
+  const startEdit = (template: { id: string; name: string; content: string; rules: TemplateRule[] }) => {
     setEditingId(template.id);
-    setEditForm({ name: template.name, content: template.content });
+    setEditForm({ name: template.name, content: template.content, rules: template.rules });
   };
 
   if (isLoading || isAuthLoading) {
@@ -705,7 +1530,9 @@ function TemplatesSection() {
     <Card>
       <CardHeader>
         <CardTitle>Templates</CardTitle>
-        <CardDescription>Create templates for new entries</CardDescription>
+        <CardDescription>
+          Create templates for new entries and choose the days they're used on
+        </CardDescription>
         {!isCreating && (
           <Button size="sm" className="w-fit mt-2" onClick={() => setIsCreating(true)}>
             <Plus className="h-4 w-4 mr-1" /> New Template
@@ -733,12 +1560,20 @@ function TemplatesSection() {
               }
               className="min-h-[100px] font-mono text-sm"
             />
+            <TemplatePreview content={newTemplate.content} />
+            <TemplateRulesEditor
+              rules={newTemplate.rules}
+              onChange={(rules) => setNewTemplate((prev) => ({ ...prev, rules }))}
+            />
             <div className="flex gap-2">
               <Button
                 size="sm"
                 onClick={() => createMutation.mutate(newTemplate)}
                 disabled={
-                  !newTemplate.name || !newTemplate.content || createMutation.isPending
+                  !newTemplate.name ||
+                  !newTemplate.content ||
+                  findUnknownTemplateVariables(newTemplate.content).length > 0 ||
+                  createMutation.isPending
                 }
               >
                 Create
@@ -779,13 +1614,21 @@ function TemplatesSection() {
                     }
                     className="min-h-[100px] font-mono text-sm"
                   />
+                  <TemplatePreview content={editForm.content} />
+                  <TemplateRulesEditor
+                    rules={editForm.rules}
+                    onChange={(rules) => setEditForm((prev) => ({ ...prev, rules }))}
+                  />
                   <div className="flex gap-2">
                     <Button
                       size="sm"
                       onClick={() =>
                         updateMutation.mutate({ id: template.id, ...editForm })
                       }
-                      disabled={updateMutation.isPending}
+                      disabled={
+                        findUnknownTemplateVariables(editForm.content).length > 0 ||
+                        updateMutation.isPending
+                      }
                     >
                       Save
                     </Button>
@@ -801,34 +1644,18 @@ function TemplatesSection() {
               ) : (
                 <>
                   <div className="flex items-center justify-between mb-2">
-                    <div className="flex items-center gap-2">
+                    <div className="flex flex-wrap items-center gap-2">
                       <span className="font-medium">{template.name}</span>
-                      {template.isDefault && (
-                        <span className="text-xs bg-primary text-primary-foreground px-2 py-0.5 rounded">
-                          Default
+                      {template.rules.map((rule, index) => (
+                        <span
+                          key={index}
+                          className="text-xs bg-primary text-primary-foreground px-2 py-0.5 rounded"
+                        >
+                          {describeTemplateRule(rule)}
                         </span>
-                      )}
+                      ))}
                     </div>
                     <div className="flex items-center gap-1">
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        className="h-8 w-8"
-                        onClick={() =>
-                          setDefaultMutation.mutate({
-                            id: template.isDefault ? null : template.id,
-                          })
-                        }
-                        title={
-                          template.isDefault
-                            ? "Remove as default"
-                            : "Set as default"
-                        }
-                      >
-                        <Star
-                          className={`h-4 w-4 ${template.isDefault ? "fill-current" : ""}`}
-                        />
-                      </Button>
                       <Button
                         variant="ghost"
                         size="icon"
@@ -889,6 +1716,411 @@ const COMMON_TIMEZONES = [
 
 const MAX_WEBHOOKS = 5;
 
+const WEBHOOK_FORMATS: { value: WebhookFormat; label: string }[] = [
+  { value: "auto", label: "Auto-detect from URL" },
+  { value: "slack", label: "Slack (Block Kit)" },
+  { value: "discord", label: "Discord (embed)" },
+  { value: "teams", label: "Microsoft Teams (Adaptive Card)" },
+  { value: "ntfy", label: "ntfy" },
+  { value: "gotify", label: "Gotify" },
+  { value: "generic", label: "Generic JSON" },
+];
+
+const WEBHOOK_TYPES: { value: WebhookType; label: string }[] = [
+  { value: "reminder", label: "Scheduled reminder" },
+  { value: "event", label: "Entry events" },
+  { value: "digest", label: "Weekly digest" },
+];
+
+const WEBHOOK_DIGEST_WEEKS: { value: WebhookDigestWeek; label: string }[] = [
+  { value: "previous", label: "Last week" },
+  { value: "current", label: "This week" },
+];
+
+const WEBHOOK_EVENTS: { value: WebhookEvent; label: string }[] = [
+  { value: "entry.created", label: "Created" },
+  { value: "entry.updated", label: "Updated" },
+  { value: "entry.deleted", label: "Deleted" },
+];
+
+interface WebhookFormFields {
+  name: string;
+  url: string;
+  type: WebhookType;
+  message: string;
+  timezone: string;
+  format: WebhookFormat;
+  events: WebhookEvent[];
+  includeContent: boolean;
+  digestWeek: WebhookDigestWeek;
+}
+
+// Payload format picker with a preview of the request the server would send
+function WebhookFormatPicker({
+  form,
+  onChange,
+}: {
+  form: WebhookFormFields;
+  onChange: (format: WebhookFormat) => void;
+}) {
+  const [showPreview, setShowPreview] = useState(false);
+  const resolved = resolveWebhookFormat(form.format, form.url);
+
+  let preview: { url: string; body: string } | null = null;
+  if (showPreview) {
+    try {
+      const webhook = { ...form, id: "preview", name: form.name || "Webhook" };
+      const date = new Intl.DateTimeFormat("en-CA", { timeZone: form.timezone || undefined }).format(new Date());
+      const options = { id: "preview", test: false, sentAt: new Date().toISOString() };
+      const notification =
+        form.type === "event"
+          ? entryEventNotification(
+              webhook,
+              form.events[0] ?? "entry.created",
+              { date, content: "Today I learned how HMAC signatures protect webhooks from forgery." },
+              "preview-user",
+              options
+            )
+          : form.type === "digest"
+            ? digestNotification(
+                webhook,
+                {
+                  weekStart: date,
+                  weekEnd: date,
+                  entries: [
+                    { date, content: "Today I learned how HMAC signatures protect webhooks from forgery." },
+                  ],
+                  summary: null,
+                },
+                options
+              )
+            : reminderNotification(webhook, { ...options, date });
+      const request = buildWebhookRequest(resolved, form.url, notification);
+      preview = { url: request.url, body: JSON.stringify(JSON.parse(request.body), null, 2) };
+    } catch {
+      // Not a valid URL or timezone yet
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2 items-end flex-wrap">
+        <div className="flex-1 min-w-[200px]">
+          <label className="text-xs text-muted-foreground mb-1 block">
+            Format
+          </label>
+          <select
+            value={form.format}
+            onChange={(e) => onChange(e.target.value as WebhookFormat)}
+            className="w-full h-9 rounded-md border border-input bg-background px-3 py-1 text-sm"
+          >
+            {WEBHOOK_FORMATS.map(({ value, label }) => (
+              <option key={value} value={value}>
+                {value === "auto" && form.url
+                  ? `${label} (${WEBHOOK_FORMATS.find((f) => f.value === resolved)?.label})`
+                  : label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="h-9"
+          onClick={() => setShowPreview(!showPreview)}
+        >
+          {showPreview ? "Hide payload" : "Preview payload"}
+        </Button>
+      </div>
+      {showPreview &&
+        (preview ? (
+          <div>
+            <p className="text-xs font-medium text-muted-foreground mb-1 truncate">
+              POST {preview.url}
+            </p>
+            <pre className="text-xs text-muted-foreground bg-muted p-2 rounded overflow-x-auto max-h-64 overflow-y-auto">
+              {preview.body}
+            </pre>
+          </div>
+        ) : (
+          <p className="text-xs text-muted-foreground">Enter a valid URL to preview the payload</p>
+        ))}
+    </div>
+  );
+}
+
+// Which entry changes an event webhook sends, and how much of the entry
+function WebhookEventsPicker({
+  value,
+  onChange,
+}: {
+  value: { events: WebhookEvent[]; includeContent: boolean };
+  onChange: (update: { events?: WebhookEvent[]; includeContent?: boolean }) => void;
+}) {
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className="text-xs text-muted-foreground mb-1 block">
+          Send when an entry is
+        </label>
+        <div className="flex gap-1 flex-wrap">
+          {WEBHOOK_EVENTS.map(({ value: event, label }) => (
+            <Button
+              key={event}
+              type="button"
+              variant={value.events.includes(event) ? "default" : "outline"}
+              size="sm"
+              className="h-8 px-2"
+              onClick={() =>
+                onChange({
+                  events: value.events.includes(event)
+                    ? value.events.filter((e) => e !== event)
+                    : [...value.events, event],
+                })
+              }
+            >
+              {label}
+            </Button>
+          ))}
+        </div>
+      </div>
+      <WebhookContentPicker
+        value={value.includeContent}
+        onChange={(includeContent) => onChange({ includeContent })}
+      />
+    </div>
+  );
+}
+
+// Which week a digest webhook sends, and how much of each entry
+function WebhookDigestPicker({
+  value,
+  onChange,
+}: {
+  value: { digestWeek: WebhookDigestWeek; includeContent: boolean };
+  onChange: (update: { digestWeek?: WebhookDigestWeek; includeContent?: boolean }) => void;
+}) {
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className="text-xs text-muted-foreground mb-1 block">
+          Week
+        </label>
+        <div className="flex gap-1 flex-wrap">
+          {WEBHOOK_DIGEST_WEEKS.map(({ value: digestWeek, label }) => (
+            <Button
+              key={digestWeek}
+              type="button"
+              variant={value.digestWeek === digestWeek ? "default" : "outline"}
+              size="sm"
+              className="h-8 px-2"
+              onClick={() => onChange({ digestWeek })}
+            >
+              {label}
+            </Button>
+          ))}
+        </div>
+      </div>
+      <WebhookContentPicker
+        value={value.includeContent}
+        onChange={(includeContent) => onChange({ includeContent })}
+      />
+    </div>
+  );
+}
+
+// Whether entry and digest payloads carry full entries or excerpts
+function WebhookContentPicker({
+  value,
+  onChange,
+}: {
+  value: boolean;
+  onChange: (includeContent: boolean) => void;
+}) {
+  return (
+    <div>
+      <label className="text-xs text-muted-foreground mb-1 block">
+        Content
+      </label>
+      <div className="flex gap-1 flex-wrap">
+        <Button
+          type="button"
+          variant={!value ? "default" : "outline"}
+          size="sm"
+          className="h-8 px-2"
+          onClick={() => onChange(false)}
+        >
+          Excerpt
+        </Button>
+        <Button
+          type="button"
+          variant={value ? "default" : "outline"}
+          size="sm"
+          className="h-8 px-2"
+          onClick={() => onChange(true)}
+        >
+          Full entry
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// HMAC signing secret of a webhook, fetched from the server on demand
+function WebhookSigningSecret({ webhookId }: { webhookId: string }) {
+  const utils = trpc.useUtils();
+  const [show, setShow] = useState(false);
+  const { data, isError } = trpc.webhooks.secret.useQuery(
+    { id: webhookId },
+    { enabled: show }
+  );
+  const rotateMutation = trpc.webhooks.rotateSecret.useMutation({
+    onSuccess: () => utils.webhooks.secret.invalidate({ id: webhookId }),
+  });
+
+  if (!show) {
+    return (
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-7 px-2 mt-2 text-xs text-muted-foreground"
+        onClick={() => setShow(true)}
+      >
+        <KeyRound className="h-3 w-3 mr-1" /> Signing secret
+      </Button>
+    );
+  }
+
+  return (
+    <div className="mt-3 pt-3 border-t space-y-1">
+      <div className="flex items-center justify-between">
+        <p className="text-xs font-medium text-muted-foreground">Signing secret (HMAC-SHA256)</p>
+        <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => setShow(false)}>
+          <X className="h-3 w-3" />
+        </Button>
+      </div>
+      {isError ? (
+        <p className="text-xs text-muted-foreground">Available once the webhook has synced</p>
+      ) : !data ? (
+        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+      ) : (
+        <div className="flex items-center gap-1">
+          <code className="flex-1 text-xs font-mono bg-muted px-2 py-1 rounded truncate">
+            {data.secret}
+          </code>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={() => navigator.clipboard.writeText(data.secret)}
+            title="Copy"
+          >
+            <Copy className="h-3 w-3" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={() =>
+              confirm("Rotate the secret? Receivers must be updated with the new one.") &&
+              rotateMutation.mutate({ id: webhookId })
+            }
+            disabled={rotateMutation.isPending}
+            title="Rotate"
+          >
+            <RefreshCw className={`h-3 w-3 ${rotateMutation.isPending ? "animate-spin" : ""}`} />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Conditions the server checks when a reminder fires
+const WEBHOOK_CONDITIONS = [
+  { key: "onlyIfNoEntry", label: "Only if no entry yet" },
+  { key: "respectSkipDays", label: "Not on skip days" },
+] as const;
+
+type WebhookConditionKey = (typeof WEBHOOK_CONDITIONS)[number]["key"];
+
+function WebhookConditionsPicker({
+  value,
+  onChange,
+}: {
+  value: Record<WebhookConditionKey, boolean>;
+  onChange: (key: WebhookConditionKey, enabled: boolean) => void;
+}) {
+  return (
+    <div>
+      <label className="text-xs text-muted-foreground mb-1 block">
+        Conditions
+      </label>
+      <div className="flex gap-1 flex-wrap">
+        {WEBHOOK_CONDITIONS.map(({ key, label }) => (
+          <Button
+            key={key}
+            type="button"
+            variant={value[key] ? "default" : "outline"}
+            size="sm"
+            className="h-8 px-2"
+            onClick={() => onChange(key, !value[key])}
+          >
+            {label}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// Latest send attempts of a webhook, as logged by the server
+function WebhookDeliveries({ webhookId, enabled }: { webhookId: string; enabled: boolean }) {
+  const { data } = trpc.webhooks.deliveries.useQuery({ id: webhookId, limit: 5 });
+  if (!data) return null;
+
+  const autoDisabled = !enabled && data.consecutiveFailures >= WEBHOOK_MAX_CONSECUTIVE_FAILURES;
+
+  return (
+    <div className="mt-3 space-y-1">
+      {autoDisabled && (
+        <p className="text-xs text-destructive">
+          Disabled after {data.consecutiveFailures} failed deliveries in a row. Check the URL, then
+          enable it again.
+        </p>
+      )}
+      {data.items.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No deliveries yet</p>
+      ) : (
+        <>
+          <h4 className="text-xs font-medium text-muted-foreground">Recent deliveries</h4>
+          {data.items.map((delivery) => (
+            <div key={delivery.id} className="flex items-center gap-2 text-xs">
+              <span
+                className={`h-2 w-2 shrink-0 rounded-full ${delivery.success ? "bg-green-600" : "bg-destructive"}`}
+              />
+              <span className="text-muted-foreground shrink-0">
+                {new Date(delivery.createdAt).toLocaleString()}
+              </span>
+              <span className="font-mono shrink-0">{delivery.statusCode ?? "—"}</span>
+              <span className="text-muted-foreground shrink-0">{delivery.latencyMs} ms</span>
+              {delivery.trigger === "test" ? (
+                <span className="text-muted-foreground shrink-0">test</span>
+              ) : delivery.attempt > 1 ? (
+                <span className="text-muted-foreground shrink-0">retry {delivery.attempt - 1}</span>
+              ) : null}
+              <span className="truncate opacity-60" title={delivery.response}>
+                {delivery.response}
+              </span>
+            </div>
+          ))}
+        </>
+      )}
+    </div>
+  );
+}
+
 function WebhooksSection() {
   const { isLoggedIn, isLoading: isAuthLoading } = useAuth();
   const utils = trpc.useUtils();
@@ -910,6 +2142,13 @@ function WebhooksSection() {
     days: ["mon", "tue", "wed", "thu", "fri"] as DayOfWeek[],
     timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC",
     enabled: true,
+    type: "reminder" as WebhookType,
+    format: "auto" as WebhookFormat,
+    onlyIfNoEntry: false,
+    respectSkipDays: false,
+    events: [] as WebhookEvent[],
+    includeContent: false,
+    digestWeek: "previous" as WebhookDigestWeek,
   });
 
   // Form state for editing
@@ -921,6 +2160,13 @@ function WebhooksSection() {
     days: [] as DayOfWeek[],
     timezone: "",
     enabled: true,
+    type: "reminder" as WebhookType,
+    format: "auto" as WebhookFormat,
+    onlyIfNoEntry: false,
+    respectSkipDays: false,
+    events: [] as WebhookEvent[],
+    includeContent: false,
+    digestWeek: "previous" as WebhookDigestWeek,
   });
 
   const createMutation = trpc.webhooks.create.useMutation({
@@ -934,6 +2180,13 @@ function WebhooksSection() {
         days: ["mon", "tue", "wed", "thu", "fri"],
         timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC",
         enabled: true,
+        type: "reminder",
+        format: "auto",
+        onlyIfNoEntry: false,
+        respectSkipDays: false,
+        events: [],
+        includeContent: false,
+        digestWeek: "previous",
       });
       setIsCreating(false);
     },
@@ -951,6 +2204,7 @@ function WebhooksSection() {
   });
 
   const testMutation = trpc.webhooks.test.useMutation({
+    onSettled: () => utils.webhooks.deliveries.invalidate(),
     onSuccess: (data) => {
       setTestingId(null);
       if (data.success) {
@@ -989,6 +2243,13 @@ function WebhooksSection() {
       days: webhook.days as DayOfWeek[],
       timezone: webhook.timezone,
       enabled: webhook.enabled,
+      type: webhook.type,
+      format: webhook.format,
+      onlyIfNoEntry: webhook.onlyIfNoEntry,
+      respectSkipDays: webhook.respectSkipDays,
+      events: webhook.events,
+      includeContent: webhook.includeContent,
+      digestWeek: webhook.digestWeek,
     });
   };
 
@@ -1065,7 +2326,7 @@ function WebhooksSection() {
           </span>
         </CardTitle>
         <CardDescription>
-          Schedule webhook notifications for Slack, Discord, or other services
+          Schedule reminders and weekly digests, or send new entries to Slack, Discord, or other services
         </CardDescription>
         {!isCreating && (
           <Button
@@ -1105,82 +2366,134 @@ function WebhooksSection() {
               }
               className="w-full h-9 rounded-md border border-input bg-background px-3 py-1 text-sm font-mono"
             />
-            <div>
-              <label className="text-xs text-muted-foreground mb-1 block">
-                Message
-              </label>
-              <input
-                type="text"
-                placeholder="Custom notification message"
-                value={newWebhook.message}
-                onChange={(e) =>
-                  setNewWebhook((prev) => ({ ...prev, message: e.target.value }))
-                }
-                maxLength={500}
-                className="w-full h-9 rounded-md border border-input bg-background px-3 py-1 text-sm"
-              />
+            <div className="flex gap-1 flex-wrap">
+              {WEBHOOK_TYPES.map(({ value, label }) => (
+                <Button
+                  key={value}
+                  type="button"
+                  variant={newWebhook.type === value ? "default" : "outline"}
+                  size="sm"
+                  className="h-8 px-2"
+                  onClick={() =>
+                    setNewWebhook((prev) => ({
+                      ...prev,
+                      type: value,
+                      events:
+                        value === "event" && prev.events.length === 0
+                          ? ["entry.created"]
+                          : prev.events,
+                    }))
+                  }
+                >
+                  {label}
+                </Button>
+              ))}
             </div>
-            <div className="flex gap-4 flex-wrap">
-              <div className="flex-1 min-w-[120px]">
+            {newWebhook.type === "reminder" && (
+              <div>
                 <label className="text-xs text-muted-foreground mb-1 block">
-                  Time
+                  Message
                 </label>
                 <input
-                  type="time"
-                  value={newWebhook.time}
+                  type="text"
+                  placeholder="Custom notification message"
+                  value={newWebhook.message}
                   onChange={(e) =>
-                    setNewWebhook((prev) => ({ ...prev, time: e.target.value }))
+                    setNewWebhook((prev) => ({ ...prev, message: e.target.value }))
                   }
+                  maxLength={500}
                   className="w-full h-9 rounded-md border border-input bg-background px-3 py-1 text-sm"
                 />
               </div>
-              <div className="flex-1 min-w-[150px]">
-                <label className="text-xs text-muted-foreground mb-1 block">
-                  Timezone
-                </label>
-                <select
-                  value={newWebhook.timezone}
-                  onChange={(e) =>
-                    setNewWebhook((prev) => ({
-                      ...prev,
-                      timezone: e.target.value,
-                    }))
-                  }
-                  className="w-full h-9 rounded-md border border-input bg-background px-3 py-1 text-sm"
-                >
-                  {COMMON_TIMEZONES.map((tz) => (
-                    <option key={tz} value={tz}>
-                      {tz}
-                    </option>
-                  ))}
-                </select>
-              </div>
-            </div>
-            <div>
-              <label className="text-xs text-muted-foreground mb-1 block">
-                Days
-              </label>
-              <div className="flex gap-1 flex-wrap">
-                {DAYS_OF_WEEK.map(({ value, label }) => (
-                  <Button
-                    key={value}
-                    type="button"
-                    variant={
-                      newWebhook.days.includes(value) ? "default" : "outline"
-                    }
-                    size="sm"
-                    className="h-8 px-2"
-                    onClick={() =>
-                      toggleDay(newWebhook.days, value, (days) =>
-                        setNewWebhook((prev) => ({ ...prev, days }))
-                      )
-                    }
-                  >
-                    {label}
-                  </Button>
-                ))}
-              </div>
-            </div>
+            )}
+            {newWebhook.type !== "event" ? (
+              <>
+                <div className="flex gap-4 flex-wrap">
+                  <div className="flex-1 min-w-[120px]">
+                    <label className="text-xs text-muted-foreground mb-1 block">
+                      Time
+                    </label>
+                    <input
+                      type="time"
+                      value={newWebhook.time}
+                      onChange={(e) =>
+                        setNewWebhook((prev) => ({ ...prev, time: e.target.value }))
+                      }
+                      className="w-full h-9 rounded-md border border-input bg-background px-3 py-1 text-sm"
+                    />
+                  </div>
+                  <div className="flex-1 min-w-[150px]">
+                    <label className="text-xs text-muted-foreground mb-1 block">
+                      Timezone
+                    </label>
+                    <select
+                      value={newWebhook.timezone}
+                      onChange={(e) =>
+                        setNewWebhook((prev) => ({
+                          ...prev,
+                          timezone: e.target.value,
+                        }))
+                      }
+                      className="w-full h-9 rounded-md border border-input bg-background px-3 py-1 text-sm"
+                    >
+                      {COMMON_TIMEZONES.map((tz) => (
+                        <option key={tz} value={tz}>
+                          {tz}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+                <div>
+                  <label className="text-xs text-muted-foreground mb-1 block">
+                    Days
+                  </label>
+                  <div className="flex gap-1 flex-wrap">
+                    {DAYS_OF_WEEK.map(({ value, label }) => (
+                      <Button
+                        key={value}
+                        type="button"
+                        variant={
+                          newWebhook.days.includes(value) ? "default" : "outline"
+                        }
+                        size="sm"
+                        className="h-8 px-2"
+                        onClick={() =>
+                          toggleDay(newWebhook.days, value, (days) =>
+                            setNewWebhook((prev) => ({ ...prev, days }))
+                          )
+                        }
+                      >
+                        {label}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              </>
+            ) : (
+              <WebhookEventsPicker
+                value={newWebhook}
+                onChange={(update) => setNewWebhook((prev) => ({ ...prev, ...update }))}
+              />
+            )}
+            {newWebhook.type === "digest" && (
+              <WebhookDigestPicker
+                value={newWebhook}
+                onChange={(update) => setNewWebhook((prev) => ({ ...prev, ...update }))}
+              />
+            )}
+            <WebhookFormatPicker
+              form={newWebhook}
+              onChange={(format) => setNewWebhook((prev) => ({ ...prev, format }))}
+            />
+            {newWebhook.type === "reminder" && (
+              <WebhookConditionsPicker
+                value={newWebhook}
+                onChange={(key, enabled) =>
+                  setNewWebhook((prev) => ({ ...prev, [key]: enabled }))
+                }
+              />
+            )}
             <div className="flex gap-2">
               <Button
                 size="sm"
@@ -1189,6 +2502,7 @@ function WebhooksSection() {
                   !newWebhook.name ||
                   !newWebhook.url ||
                   newWebhook.days.length === 0 ||
+                  (newWebhook.type === "event" && newWebhook.events.length === 0) ||
                   createMutation.isPending
                 }
               >
@@ -1234,91 +2548,128 @@ function WebhooksSection() {
                     }
                     className="w-full h-9 rounded-md border border-input bg-background px-3 py-1 text-sm font-mono"
                   />
-                  <div>
-                    <label className="text-xs text-muted-foreground mb-1 block">
-                      Message
-                    </label>
-                    <input
-                      type="text"
-                      value={editForm.message}
-                      onChange={(e) =>
-                        setEditForm((prev) => ({ ...prev, message: e.target.value }))
-                      }
-                      maxLength={500}
-                      className="w-full h-9 rounded-md border border-input bg-background px-3 py-1 text-sm"
-                    />
-                  </div>
-                  <div className="flex gap-4 flex-wrap">
-                    <div className="flex-1 min-w-[120px]">
+                  {editForm.type === "reminder" && (
+                    <div>
                       <label className="text-xs text-muted-foreground mb-1 block">
-                        Time
+                        Message
                       </label>
                       <input
-                        type="time"
-                        value={editForm.time}
+                        type="text"
+                        value={editForm.message}
                         onChange={(e) =>
-                          setEditForm((prev) => ({
-                            ...prev,
-                            time: e.target.value,
-                          }))
+                          setEditForm((prev) => ({ ...prev, message: e.target.value }))
                         }
+                        maxLength={500}
                         className="w-full h-9 rounded-md border border-input bg-background px-3 py-1 text-sm"
                       />
                     </div>
-                    <div className="flex-1 min-w-[150px]">
-                      <label className="text-xs text-muted-foreground mb-1 block">
-                        Timezone
-                      </label>
-                      <select
-                        value={editForm.timezone}
-                        onChange={(e) =>
-                          setEditForm((prev) => ({
-                            ...prev,
-                            timezone: e.target.value,
-                          }))
-                        }
-                        className="w-full h-9 rounded-md border border-input bg-background px-3 py-1 text-sm"
-                      >
-                        {COMMON_TIMEZONES.map((tz) => (
-                          <option key={tz} value={tz}>
-                            {tz}
-                          </option>
-                        ))}
-                      </select>
-                    </div>
-                  </div>
-                  <div>
-                    <label className="text-xs text-muted-foreground mb-1 block">
-                      Days
-                    </label>
-                    <div className="flex gap-1 flex-wrap">
-                      {DAYS_OF_WEEK.map(({ value, label }) => (
-                        <Button
-                          key={value}
-                          type="button"
-                          variant={
-                            editForm.days.includes(value) ? "default" : "outline"
-                          }
-                          size="sm"
-                          className="h-8 px-2"
-                          onClick={() =>
-                            toggleDay(editForm.days, value, (days) =>
-                              setEditForm((prev) => ({ ...prev, days }))
-                            )
-                          }
-                        >
-                          {label}
-                        </Button>
-                      ))}
-                    </div>
-                  </div>
+                  )}
+                  {editForm.type !== "event" ? (
+                    <>
+                      <div className="flex gap-4 flex-wrap">
+                        <div className="flex-1 min-w-[120px]">
+                          <label className="text-xs text-muted-foreground mb-1 block">
+                            Time
+                          </label>
+                          <input
+                            type="time"
+                            value={editForm.time}
+                            onChange={(e) =>
+                              setEditForm((prev) => ({
+                                ...prev,
+                                time: e.target.value,
+                              }))
+                            }
+                            className="w-full h-9 rounded-md border border-input bg-background px-3 py-1 text-sm"
+                          />
+                        </div>
+                        <div className="flex-1 min-w-[150px]">
+                          <label className="text-xs text-muted-foreground mb-1 block">
+                            Timezone
+                          </label>
+                          <select
+                            value={editForm.timezone}
+                            onChange={(e) =>
+                              setEditForm((prev) => ({
+                                ...prev,
+                                timezone: e.target.value,
+                              }))
+                            }
+                            className="w-full h-9 rounded-md border border-input bg-background px-3 py-1 text-sm"
+                          >
+                            {COMMON_TIMEZONES.map((tz) => (
+                              <option key={tz} value={tz}>
+                                {tz}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                      </div>
+                      <div>
+                        <label className="text-xs text-muted-foreground mb-1 block">
+                          Days
+                        </label>
+                        <div className="flex gap-1 flex-wrap">
+                          {DAYS_OF_WEEK.map(({ value, label }) => (
+                            <Button
+                              key={value}
+                              type="button"
+                              variant={
+                                editForm.days.includes(value) ? "default" : "outline"
+                              }
+                              size="sm"
+                              className="h-8 px-2"
+                              onClick={() =>
+                                toggleDay(editForm.days, value, (days) =>
+                                  setEditForm((prev) => ({ ...prev, days }))
+                                )
+                              }
+                            >
+                              {label}
+                            </Button>
+                          ))}
+                        </div>
+                      </div>
+                    </>
+                  ) : (
+                    <WebhookEventsPicker
+                      value={editForm}
+                      onChange={(update) => setEditForm((prev) => ({ ...prev, ...update }))}
+                    />
+                  )}
+                  {editForm.type === "digest" && (
+                    <WebhookDigestPicker
+                      value={editForm}
+                      onChange={(update) => setEditForm((prev) => ({ ...prev, ...update }))}
+                    />
+                  )}
+                  <WebhookFormatPicker
+                    form={editForm}
+                    onChange={(format) => setEditForm((prev) => ({ ...prev, format }))}
+                  />
+                  {editForm.type === "reminder" && (
+                    <WebhookConditionsPicker
+                      value={editForm}
+                      onChange={(key, enabled) =>
+                        setEditForm((prev) => ({ ...prev, [key]: enabled }))
+                      }
+                    />
+                  )}
                   <div className="flex gap-2">
                     <Button
                       size="sm"
-                      onClick={() =>
-                        updateMutation.mutate({ id: webhook.id, ...editForm })
+                      onClick={() => {
+                        const { type, events, ...fields } = editForm;
+                        updateMutation.mutate({
+                          id: webhook.id,
+                          ...fields,
+                          ...(type === "event" && { events }),
+                        });
+                      }}
+                      disabled={
+                        (editForm.type === "event" && editForm.events.length === 0) ||
+                        updateMutation.isPending
                       }
-                      disabled={updateMutation.isPending}
                     >
                       {updateMutation.isPending ? (
                         <Loader2 className="h-4 w-4 animate-spin mr-1" />
@@ -1397,24 +2748,53 @@ function WebhooksSection() {
                     </div>
                   </div>
                   <div className="text-sm text-muted-foreground space-y-1">
-                    <div className="flex items-center gap-2">
-                      <span className="font-medium">
-                        {webhook.time} ({webhook.timezone})
-                      </span>
-                      <span>•</span>
-                      <span>
-                        {webhook.days
-                          .map(
-                            (d) =>
-                              DAYS_OF_WEEK.find((day) => day.value === d)?.label
-                          )
-                          .join(", ")}
-                      </span>
-                    </div>
+                    {webhook.type === "event" ? (
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">
+                          Entry{" "}
+                          {WEBHOOK_EVENTS.filter(({ value }) => webhook.events.includes(value))
+                            .map(({ label }) => label.toLowerCase())
+                            .join(", ")}
+                        </span>
+                        <span>•</span>
+                        <span>{webhook.includeContent ? "Full entry" : "Excerpt"}</span>
+                      </div>
+                    ) : (
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">
+                          {webhook.time} ({webhook.timezone})
+                        </span>
+                        <span>•</span>
+                        <span>
+                          {webhook.days
+                            .map(
+                              (d) =>
+                                DAYS_OF_WEEK.find((day) => day.value === d)?.label
+                            )
+                            .join(", ")}
+                        </span>
+                      </div>
+                    )}
+                    {webhook.type === "digest" && (
+                      <div className="text-xs">
+                        {WEBHOOK_DIGEST_WEEKS.find(({ value }) => value === webhook.digestWeek)?.label}
+                        {" • "}
+                        {webhook.includeContent ? "Full entries" : "Excerpts"}
+                      </div>
+                    )}
+                    {webhook.type === "reminder" && (webhook.onlyIfNoEntry || webhook.respectSkipDays) && (
+                      <div className="text-xs">
+                        {WEBHOOK_CONDITIONS.filter(({ key }) => webhook[key])
+                          .map(({ label }) => label)
+                          .join(" • ")}
+                      </div>
+                    )}
                     <div className="font-mono text-xs truncate opacity-60">
                       {webhook.url}
                     </div>
                   </div>
+                  <WebhookDeliveries webhookId={webhook.id} enabled={webhook.enabled} />
+                  <WebhookSigningSecret webhookId={webhook.id} />
                 </>
               )}
             </div>
@@ -1424,3 +2804,368 @@ function WebhooksSection() {
     </Card>
   );
 }
+
+function BackupSection() {
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [pending, setPending] = useState<{
+    archive: JournalArchive;
+    preview: JournalImportPreview;
+  } | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      const blob = await exportJournal();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = journalExportFileName(getLocalDateString());
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleFileSelected = async (file: File | undefined) => {
+    if (!file) return;
+    setError(null);
+    setMessage(null);
+    setIsImporting(true);
+    try {
+      const archive = await readJournalArchive(file);
+      const preview = await previewJournalImport(archive);
+      setPending({ archive, preview });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsImporting(false);
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  const handleConfirmImport = async () => {
+    if (!pending) return;
+    setIsImporting(true);
+    try {
+      const result = await importJournal(pending.archive);
+      await queryClient.invalidateQueries();
+      setMessage(
+        `Imported ${result.create.length + result.overwrite.length} entries, ` +
+          `${result.templates.length} templates and ${result.skipDays} skip days.`
+      );
+      setPending(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const preview = pending?.preview;
+  const hasChanges =
+    !!preview &&
+    preview.create.length + preview.overwrite.length + preview.templates.length + preview.skipDays > 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Archive className="h-5 w-5" />
+          Backup
+        </CardTitle>
+        <CardDescription>
+          Export your journal as markdown files (one per day) in a ZIP, or import a backup
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" onClick={handleExport} disabled={isExporting}>
+            {isExporting ? (
+              <Loader2 className="h-4 w-4 animate-spin mr-2" />
+            ) : (
+              <Download className="h-4 w-4 mr-2" />
+            )}
+            Export ZIP
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isImporting}
+          >
+            {isImporting && !pending ? (
+              <Loader2 className="h-4 w-4 animate-spin mr-2" />
+            ) : (
+              <Upload className="h-4 w-4 mr-2" />
+            )}
+            Import ZIP
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".zip,application/zip"
+            className="hidden"
+            onChange={(e) => handleFileSelected(e.target.files?.[0])}
+          />
+        </div>
+
+        {preview && (
+          <div className="rounded-md border p-4 space-y-3 text-sm">
+            <h3 className="font-medium">Import preview</h3>
+            <ul className="space-y-1 text-muted-foreground">
+              <li>{preview.create.length} new entries</li>
+              <li>{preview.overwrite.length} existing entries will be overwritten</li>
+              <li>{preview.unchanged.length} entries are already identical</li>
+              <li>{preview.templates.length} new templates</li>
+              <li>{preview.skipDays} new skip days</li>
+            </ul>
+            {preview.overwrite.length > 0 && (
+              <div>
+                <p className="text-xs font-medium mb-1">Overwritten dates</p>
+                <div className="flex flex-wrap gap-1 max-h-32 overflow-y-auto">
+                  {preview.overwrite.map((date) => (
+                    <span key={date} className="px-2 py-0.5 bg-secondary rounded text-xs">
+                      {date}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            )}
+            <div className="flex gap-2">
+              <Button size="sm" onClick={handleConfirmImport} disabled={!hasChanges || isImporting}>
+                {isImporting && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                Import
+              </Button>
+              <Button variant="secondary" size="sm" onClick={() => setPending(null)}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {message && <p className="text-sm text-green-600">{message}</p>}
+        {error && <p className="text-sm text-destructive">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+}
+
+const IMPORT_STRATEGIES: { value: ImportStrategy; label: string; description: string }[] = [
+  { value: "merge", label: "Merge", description: "Append imported notes to existing entries" },
+  { value: "skip", label: "Skip", description: "Keep existing entries as they are" },
+  { value: "overwrite", label: "Overwrite", description: "Replace existing entries with imported notes" },
+];
+
+// Allows picking a whole folder (not in React's input typings)
+const DIRECTORY_INPUT_PROPS = { webkitdirectory: "", directory: "" } as Record<string, string>;
+
+function ImportNotesSection() {
+  const queryClient = useQueryClient();
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [strategy, setStrategy] = useState<ImportStrategy>("merge");
+  const [isImporting, setIsImporting] = useState(false);
+  const [pending, setPending] = useState<{
+    notes: DailyNotesImport;
+    preview: JournalImportPreview;
+  } | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const runPreview = async (notes: DailyNotesImport, nextStrategy: ImportStrategy) => {
+    setError(null);
+    setIsImporting(true);
+    try {
+      const preview = await previewJournalImport(notes.archive, nextStrategy);
+      setPending({ notes, preview });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleFilesSelected = async (fileList: FileList | null) => {
+    const files = fileList ? Array.from(fileList) : [];
+    if (folderInputRef.current) folderInputRef.current.value = "";
+    if (fileInputRef.current) fileInputRef.current.value = "";
+    if (files.length === 0) return;
+
+    setMessage(null);
+    setError(null);
+    setIsImporting(true);
+    try {
+      const notes = await readDailyNotes(files);
+      if (notes.archive.entries.length === 0) {
+        setPending(null);
+        setError("No daily notes found. Expected files named like 2024-01-31.md or a Day One JSON export.");
+        return;
+      }
+      await runPreview(notes, strategy);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleStrategyChange = (value: ImportStrategy) => {
+    setStrategy(value);
+    if (pending) {
+      runPreview(pending.notes, value);
+    }
+  };
+
+  const handleConfirmImport = async () => {
+    if (!pending) return;
+    setIsImporting(true);
+    try {
+      const result = await importJournal(pending.notes.archive, strategy);
+      await queryClient.invalidateQueries();
+      setMessage(
+        `Imported ${result.create.length} new entries, ` +
+          `merged ${result.merge.length}, overwrote ${result.overwrite.length} ` +
+          `and skipped ${result.skip.length}.`
+      );
+      setPending(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const preview = pending?.preview;
+  const collisions = preview ? [...preview.merge, ...preview.overwrite, ...preview.skip].sort() : [];
+  const hasChanges =
+    !!preview && preview.create.length + preview.merge.length + preview.overwrite.length > 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileInput className="h-5 w-5" />
+          Import from Other Apps
+        </CardTitle>
+        <CardDescription>
+          Bring in daily notes from Obsidian or Logseq (a folder or ZIP of files named by date) or a
+          Day One JSON export
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => folderInputRef.current?.click()}
+            disabled={isImporting}
+          >
+            <FolderOpen className="h-4 w-4 mr-2" />
+            Choose folder
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isImporting}
+          >
+            {isImporting && !pending ? (
+              <Loader2 className="h-4 w-4 animate-spin mr-2" />
+            ) : (
+              <Upload className="h-4 w-4 mr-2" />
+            )}
+            Choose ZIP or JSON
+          </Button>
+          <input
+            ref={folderInputRef}
+            type="file"
+            multiple
+            className="hidden"
+            onChange={(e) => handleFilesSelected(e.target.files)}
+            {...DIRECTORY_INPUT_PROPS}
+          />
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            accept=".zip,.json,.md,.markdown,.txt"
+            className="hidden"
+            onChange={(e) => handleFilesSelected(e.target.files)}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium">When a day already has an entry</p>
+          <div className="flex gap-2">
+            {IMPORT_STRATEGIES.map(({ value, label }) => (
+              <Button
+                key={value}
+                variant={strategy === value ? "default" : "outline"}
+                size="sm"
+                className="flex-1"
+                onClick={() => handleStrategyChange(value)}
+                disabled={isImporting}
+              >
+                {label}
+              </Button>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {IMPORT_STRATEGIES.find((s) => s.value === strategy)?.description}
+          </p>
+        </div>
+
+        {pending && preview && (
+          <div className="rounded-md border p-4 space-y-3 text-sm">
+            <h3 className="font-medium">Import preview</h3>
+            <ul className="space-y-1 text-muted-foreground">
+              <li>
+                {pending.notes.notes} notes found for {pending.notes.archive.entries.length} days
+                {pending.notes.ignored.length > 0 &&
+                  ` (${pending.notes.ignored.length} other files ignored)`}
+              </li>
+              <li>{preview.create.length} new entries</li>
+              <li>{preview.merge.length} existing entries will be merged</li>
+              <li>{preview.overwrite.length} existing entries will be overwritten</li>
+              <li>{preview.skip.length} existing entries will be skipped</li>
+              <li>{preview.unchanged.length} entries already contain the imported notes</li>
+            </ul>
+            {collisions.length > 0 && (
+              <div>
+                <p className="text-xs font-medium mb-1">Days that already have an entry</p>
+                <div className="flex flex-wrap gap-1 max-h-32 overflow-y-auto">
+                  {collisions.map((date) => (
+                    <span key={date} className="px-2 py-0.5 bg-secondary rounded text-xs">
+                      {date}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            )}
+            <div className="flex gap-2">
+              <Button size="sm" onClick={handleConfirmImport} disabled={!hasChanges || isImporting}>
+                {isImporting && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                Import
+              </Button>
+              <Button variant="secondary" size="sm" onClick={() => setPending(null)}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {message && <p className="text-sm text-green-600">{message}</p>}
+        {error && <p className="text-sm text-destructive">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+}
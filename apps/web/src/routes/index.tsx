@@ -1,4 +1,4 @@
-import { createRoute } from "@tanstack/react-router";
+import { createRoute, useNavigate } from "@tanstack/react-router";
 import { useState, useEffect, useCallback, useRef } from "react";
 import {
   Card,
@@ -8,9 +8,10 @@ import {
 } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
-import { ChevronLeft, ChevronRight, Trash2, Save, Loader2, Pencil, Copy, Check, X } from "lucide-react";
+import { ChevronLeft, ChevronRight, Trash2, Save, Loader2, Pencil, Copy, Check, X, History, RotateCcw, GitMerge } from "lucide-react";
 import { trpc } from "@/lib/trpc";
 import { loadDraft, saveDraft, removeDraft } from "@/lib/draft";
+import { diffLines } from "@/lib/diff";
 import { useAuth } from "@/lib/auth-context";
 import {
   getLocalDateString,
@@ -23,10 +24,14 @@ import remarkGfm from "remark-gfm";
 import rehypeHighlight from "rehype-highlight";
 import "highlight.js/styles/github.css";
 import { rootRoute } from "./__root";
+import { TagFilter } from "@/components/tag-filter";
+import { EntryConflictDialog, useEntryConflicts } from "@/components/entry-conflict";
+import { renderTemplate, usesPreviousEntry } from "@til-stack/shared";
 import { z } from "zod";
 
 const searchSchema = z.object({
   date: z.string().optional(),
+  tag: z.string().optional(),
 });
 
 export const indexRoute = createRoute({
@@ -41,11 +46,20 @@ export const indexRoute = createRoute({
 // =============================================================================
 interface NewEntryCardProps {
   date: string;
-  defaultTemplate?: string;
+  template?: string; // the template assigned to this date, if any
 }
 
-function NewEntryCard({ date, defaultTemplate }: NewEntryCardProps) {
-  const baseContent = defaultTemplate || "";
+function NewEntryCard({ date, template }: NewEntryCardProps) {
+  // {{yesterday.*}} refers to the most recent entry before this date
+  const { data: previousEntries } = trpc.entries.list.useQuery(
+    { cursor: date, limit: 1 },
+    { enabled: !!template && usesPreviousEntry(template) }
+  );
+  const rendered = renderTemplate(template || "", {
+    date,
+    previousEntry: previousEntries?.items[0] ?? null,
+  });
+  const baseContent = rendered.content;
   const [content, setContent] = useState(() => {
     const draft = loadDraft(date);
     return draft !== null ? draft : baseContent;
@@ -55,8 +69,27 @@ function NewEntryCard({ date, defaultTemplate }: NewEntryCardProps) {
     return draft !== null && draft !== baseContent;
   });
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const pendingCursorRef = useRef<number | null>(null);
   const utils = trpc.useUtils();
 
+  // Apply the template once it (and the entry it refers to) has loaded,
+  // unless there's a draft or the user has started typing
+  useEffect(() => {
+    if (hasChanges) return;
+    setContent(baseContent);
+    pendingCursorRef.current = rendered.cursor;
+  }, [baseContent]);
+
+  // Place the caret at {{cursor}} once the template is in the textarea
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    const cursor = pendingCursorRef.current;
+    if (!textarea || cursor === null || content !== baseContent) return;
+    pendingCursorRef.current = null;
+    textarea.focus();
+    textarea.setSelectionRange(cursor, cursor);
+  }, [content, baseContent]);
+
   const upsertMutation = trpc.entries.upsert.useMutation({
     onSuccess: () => {
       removeDraft(date);
@@ -65,6 +98,8 @@ function NewEntryCard({ date, defaultTemplate }: NewEntryCardProps) {
     onSettled: () => {
       utils.entries.getByDate.invalidate();
       utils.entries.list.invalidate();
+      utils.entries.listByTag.invalidate();
+      utils.tags.list.invalidate();
     },
   });
 
@@ -151,7 +186,11 @@ interface EntryViewProps {
 }
 
 function EntryView({ entry }: EntryViewProps) {
+  const { user } = useAuth();
   const [isEditing, setIsEditing] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showConflict, setShowConflict] = useState(false);
+  const conflict = useEntryConflicts().find((c) => c.date === entry.date);
   const [content, setContent] = useState(entry.content);
   const [hasChanges, setHasChanges] = useState(false);
   const [copiedId, setCopiedId] = useState<string | null>(null);
@@ -176,6 +215,8 @@ function EntryView({ entry }: EntryViewProps) {
     onSettled: () => {
       utils.entries.getByDate.invalidate();
       utils.entries.list.invalidate();
+      utils.entries.listByTag.invalidate();
+      utils.tags.list.invalidate();
     },
   });
 
@@ -187,6 +228,8 @@ function EntryView({ entry }: EntryViewProps) {
     onSettled: () => {
       utils.entries.getByDate.invalidate();
       utils.entries.list.invalidate();
+      utils.entries.listByTag.invalidate();
+      utils.tags.list.invalidate();
     },
   });
 
@@ -270,6 +313,29 @@ function EntryView({ entry }: EntryViewProps) {
                   <Copy className="h-4 w-4" />
                 )}
               </Button>
+              {conflict && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-8 border-amber-500 text-amber-600 dark:text-amber-400"
+                  onClick={() => setShowConflict(true)}
+                >
+                  <GitMerge className="h-4 w-4 mr-1" />
+                  Resolve conflict
+                </Button>
+              )}
+              {user && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className={`h-8 w-8 transition-opacity duration-200 ${
+                    showHistory ? "bg-accent" : "opacity-100 sm:opacity-0 sm:group-hover:opacity-100"
+                  }`}
+                  onClick={() => setShowHistory(!showHistory)}
+                >
+                  <History className="h-4 w-4" />
+                </Button>
+              )}
               <Button
                 variant="ghost"
                 size="icon"
@@ -333,17 +399,150 @@ function EntryView({ entry }: EntryViewProps) {
             </ReactMarkdown>
           </div>
         )}
+        {showHistory && !isEditing && (
+          <EntryHistory date={entry.date} currentContent={entry.content} />
+        )}
+        {showConflict && conflict && (
+          <EntryConflictDialog conflict={conflict} onClose={() => setShowConflict(false)} />
+        )}
       </CardContent>
     </Card>
   );
 }
 
+// =============================================================================
+// EntryHistory - Revision list with line diffs (server-side history)
+// =============================================================================
+interface EntryHistoryProps {
+  date: string;
+  currentContent: string;
+}
+
+const revisionActionLabels = {
+  create: "Created",
+  update: "Edited",
+  delete: "Deleted",
+  restore: "Restored",
+} as const;
+
+function EntryHistory({ date, currentContent }: EntryHistoryProps) {
+  const utils = trpc.useUtils();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const { data: revisions, isLoading } = trpc.entries.history.useQuery({ date });
+
+  const restoreMutation = trpc.entries.restoreRevision.useMutation({
+    onSettled: () => {
+      utils.entries.getByDate.invalidate();
+      utils.entries.list.invalidate();
+      utils.entries.listByTag.invalidate();
+      utils.tags.list.invalidate();
+      utils.entries.history.invalidate({ date });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-6 border-t">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!revisions || revisions.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground text-center py-4 border-t">
+        No history recorded for this entry yet.
+      </p>
+    );
+  }
+
+  // Revisions are newest first; each one is diffed against the one before it
+  const selectedIndex = Math.max(
+    0,
+    revisions.findIndex((r) => r.id === selectedId)
+  );
+  const selected = revisions[selectedIndex];
+  const previous = revisions[selectedIndex + 1];
+  const diff = diffLines(previous?.content ?? "", selected.content);
+
+  const handleRestore = () => {
+    if (confirm(`Restore the version from ${new Date(selected.createdAt).toLocaleString()}?`)) {
+      restoreMutation.mutate({ id: selected.id });
+    }
+  };
+
+  return (
+    <div className="border-t pt-4 space-y-3">
+      <div className="flex flex-wrap gap-2">
+        {revisions.map((revision, index) => (
+          <button
+            key={revision.id}
+            onClick={() => setSelectedId(revision.id)}
+            className={`rounded-md border px-2 py-1 text-xs transition-colors ${
+              index === selectedIndex
+                ? "bg-accent text-foreground"
+                : "text-muted-foreground hover:bg-accent"
+            }`}
+          >
+            {revisionActionLabels[revision.action]} ·{" "}
+            {new Date(revision.createdAt).toLocaleString()}
+          </button>
+        ))}
+      </div>
+
+      {selected.action === "delete" ? (
+        <p className="text-sm text-muted-foreground">The entry was deleted.</p>
+      ) : (
+        <pre className="rounded-md bg-muted p-3 text-xs font-mono overflow-x-auto">
+          {diff.map((line, index) => (
+            <div
+              key={index}
+              className={
+                line.type === "added"
+                  ? "bg-green-500/15 text-green-700 dark:text-green-400"
+                  : line.type === "removed"
+                    ? "bg-red-500/15 text-red-700 dark:text-red-400"
+                    : "text-muted-foreground"
+              }
+            >
+              {line.type === "added" ? "+ " : line.type === "removed" ? "- " : "  "}
+              {line.text}
+            </div>
+          ))}
+        </pre>
+      )}
+
+      {selected.content !== currentContent && (
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleRestore}
+            disabled={restoreMutation.isPending}
+          >
+            {restoreMutation.isPending ? (
+              <Loader2 className="h-4 w-4 animate-spin mr-2" />
+            ) : (
+              <RotateCcw className="h-4 w-4 mr-2" />
+            )}
+            Restore this version
+          </Button>
+          {restoreMutation.error && (
+            <span className="text-xs text-destructive">{restoreMutation.error.message}</span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
 // =============================================================================
 // HomePage - Main component
 // =============================================================================
 function HomePage() {
   const { isLoading: isAuthLoading } = useAuth();
-  const { date: initialDate } = indexRoute.useSearch();
+  const navigate = useNavigate();
+  const { date: initialDate, tag: selectedTag } = indexRoute.useSearch();
   const today = getLocalDateString(new Date());
   const [selectedDate, setSelectedDate] = useState(initialDate || today);
   const [copiedId, setCopiedId] = useState<string | null>(null);
@@ -359,24 +558,35 @@ function HomePage() {
   const { data: skipDaysConfig } = trpc.config.getSkipDays.useQuery(undefined, {
     enabled: !isAuthLoading,
   });
-  const { data: defaultTemplate } = trpc.config.getDefaultTemplate.useQuery(undefined, {
-    enabled: !isAuthLoading,
-  });
+  const { data: dateTemplate } = trpc.config.getTemplateForDate.useQuery(
+    { date: selectedDate },
+    { enabled: !isAuthLoading }
+  );
 
   // Infinite scroll list (fetch first so we can use as placeholder)
-  const {
-    data: entriesData,
-    fetchNextPage,
-    hasNextPage,
-    isFetchingNextPage,
-  } = trpc.entries.list.useInfiniteQuery(
+  const allEntriesQuery = trpc.entries.list.useInfiniteQuery(
     { limit: 20 },
     {
       getNextPageParam: (lastPage) => lastPage.nextCursor,
       staleTime: 0,
-      enabled: !isAuthLoading,
+      enabled: !isAuthLoading && !selectedTag,
+    }
+  );
+  // Same list restricted to a tag when the tag filter is active
+  const taggedEntriesQuery = trpc.entries.listByTag.useInfiniteQuery(
+    { tag: selectedTag ?? "", limit: 20 },
+    {
+      getNextPageParam: (lastPage) => lastPage.nextCursor,
+      staleTime: 0,
+      enabled: !isAuthLoading && !!selectedTag,
     }
   );
+  const {
+    data: entriesData,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = selectedTag ? taggedEntriesQuery : allEntriesQuery;
 
   // Compute allEntries early for placeholderData
   const allEntries = entriesData?.pages.flatMap((page) => page.items) ?? [];
@@ -436,6 +646,10 @@ function HomePage() {
     window.scrollTo({ top: 0, behavior: "smooth" });
   };
 
+  const handleTagSelect = (tag: string | null) => {
+    navigate({ to: "/", search: (prev) => ({ ...prev, tag: tag ?? undefined }) });
+  };
+
   const stackEntries = allEntries.filter((e) => e.date < selectedDate);
   const isToday = selectedDate === today;
 
@@ -475,16 +689,19 @@ function HomePage() {
       ) : entry ? (
         <EntryView key={entry.id} entry={entry} />
       ) : (
-        <NewEntryCard key={selectedDate} date={selectedDate} defaultTemplate={defaultTemplate?.content} />
+        <NewEntryCard key={selectedDate} date={selectedDate} template={dateTemplate?.content} />
       )}
 
       {/* Stack - entries before selected date */}
       <div className="space-y-4">
         <h2 className="text-lg font-semibold">Stack</h2>
+        <TagFilter selectedTag={selectedTag ?? null} onSelect={handleTagSelect} />
         {stackEntries.length === 0 ? (
           <Card className="p-6">
             <p className="text-center text-muted-foreground">
-              No previous entries in the stack.
+              {selectedTag
+                ? `No previous entries tagged #${selectedTag}.`
+                : "No previous entries in the stack."}
             </p>
           </Card>
         ) : (
@@ -14,8 +14,9 @@ import { trpc } from "@/lib/trpc";
 import { formatDateShort, getLocalDateString } from "@/lib/date-utils";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
-import type { Entry } from "@til-stack/shared";
+import { extractTags, type Entry } from "@til-stack/shared";
 import { AISummary } from "@/components/ai-summary";
+import { TagFilter } from "@/components/tag-filter";
 
 export const monthlyRoute = createRoute({
   getParentRoute: () => rootRoute,
@@ -80,6 +81,7 @@ function MonthlyPage() {
   const [currentYear, setCurrentYear] = useState(today.getFullYear());
   const [currentMonth, setCurrentMonth] = useState(today.getMonth());
   const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const [selectedTag, setSelectedTag] = useState<string | null>(null);
 
   const monthYear = new Date(currentYear, currentMonth).toLocaleDateString("en-US", {
     month: "long",
@@ -105,11 +107,18 @@ function MonthlyPage() {
     month: monthStr,
   });
 
+  // Entries shown in the calendar and summaries (narrowed by the tag filter)
+  const monthEntries = useMemo(() => {
+    if (!monthlySummary) return [];
+    if (!selectedTag) return monthlySummary.entries;
+    return monthlySummary.entries.filter((e) => extractTags(e.content).includes(selectedTag));
+  }, [monthlySummary, selectedTag]);
+
   // Create a set of dates that have entries for quick lookup
-  const datesWithEntries = useMemo(() => {
-    if (!monthlySummary) return new Set<string>();
-    return new Set(monthlySummary.entries.map((e) => e.date));
-  }, [monthlySummary]);
+  const datesWithEntries = useMemo(
+    () => new Set(monthEntries.map((e) => e.date)),
+    [monthEntries]
+  );
 
   // Group entries by date for quick access
   const entriesByDate = useMemo(() => {
@@ -177,6 +186,8 @@ function MonthlyPage() {
         </Button>
       </div>
 
+      <TagFilter selectedTag={selectedTag} onSelect={setSelectedTag} />
+
       {/* Calendar Grid */}
       <Card>
         <CardHeader className="pb-2">
@@ -289,7 +300,8 @@ function MonthlyPage() {
         <CardHeader className="pb-2">
           <CardTitle className="text-lg">Monthly Summary</CardTitle>
           <CardDescription>
-            {monthlySummary?.totalEntries ?? 0} entries this month
+            {monthEntries.length} entries this month
+            {selectedTag && ` tagged #${selectedTag}`}
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -297,9 +309,9 @@ function MonthlyPage() {
             <div className="flex items-center justify-center py-8">
               <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
             </div>
-          ) : monthlySummary && monthlySummary.entries.length > 0 ? (
+          ) : monthEntries.length > 0 ? (
             <div className="space-y-2 max-h-[300px] overflow-y-auto">
-              {monthlySummary.entries.map((entry) => (
+              {monthEntries.map((entry) => (
                 <button
                   key={entry.id}
                   onClick={() => handleDayClick(entry.date)}
@@ -339,9 +351,9 @@ function MonthlyPage() {
           ) : (
             <div className="space-y-4">
               {weeks.map((week) => {
-                const weekEntries = monthlySummary?.entries.filter(
+                const weekEntries = monthEntries.filter(
                   (e) => e.date >= week.weekStart && e.date <= week.weekEnd
-                ) ?? [];
+                );
 
                 return (
                   <WeekSummary
@@ -401,7 +413,12 @@ function WeekSummary({ weekStart, weekEnd, entries, onDayClick }: WeekSummaryPro
       {expanded && entries.length > 0 && (
         <div className="mt-3 border-t pt-3">
           {/* AI Summary - auto-starts when expanded */}
-          <AISummary entries={entries} context={weekContext} autoStart />
+          <AISummary
+            entries={entries}
+            context={weekContext}
+            period={{ type: "week", start: weekStart }}
+            autoStart
+          />
 
           {/* Entry list */}
           <div className="space-y-3">
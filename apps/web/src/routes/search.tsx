@@ -0,0 +1,134 @@
+import { createRoute, useNavigate } from "@tanstack/react-router";
+import { useState, useEffect } from "react";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, Search } from "lucide-react";
+import { rootRoute } from "./__root";
+import { trpc } from "@/lib/trpc";
+import { formatDateFull } from "@/lib/date-utils";
+
+export const searchRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: "/search",
+  component: SearchPage,
+});
+
+// Render a snippet with <mark></mark> markers as React nodes (no innerHTML)
+function Snippet({ text }: { text: string }) {
+  const parts = text.split(/<mark>|<\/mark>/);
+  return (
+    <p className="text-sm text-muted-foreground whitespace-pre-wrap">
+      {parts.map((part, index) =>
+        index % 2 === 1 ? (
+          <mark key={index} className="bg-primary/20 text-foreground rounded-sm px-0.5">
+            {part}
+          </mark>
+        ) : (
+          <span key={index}>{part}</span>
+        )
+      )}
+    </p>
+  );
+}
+
+function SearchPage() {
+  const navigate = useNavigate();
+  const [query, setQuery] = useState("");
+  const [debouncedQuery, setDebouncedQuery] = useState("");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+
+  // Debounce typing so we don't search on every keystroke
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(query.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const { data: results, isFetching } = trpc.entries.search.useQuery(
+    {
+      query: debouncedQuery,
+      startDate: startDate || undefined,
+      endDate: endDate || undefined,
+    },
+    { enabled: debouncedQuery.length > 0 }
+  );
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-6">
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-lg">Search</CardTitle>
+          <CardDescription>Find entries by the words they contain</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search your entries..."
+              className="pl-9"
+              autoFocus
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="search-start">From</Label>
+              <Input
+                id="search-start"
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="search-end">To</Label>
+              <Input
+                id="search-end"
+                type="date"
+                value={endDate}
+                onChange={(e) => setEndDate(e.target.value)}
+              />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {debouncedQuery.length > 0 && (
+        <Card>
+          <CardContent className="pt-6">
+            {isFetching && !results ? (
+              <div className="flex items-center justify-center py-12">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : !results || results.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">
+                No entries match "{debouncedQuery}"
+              </p>
+            ) : (
+              <div className="divide-y">
+                {results.map((result) => (
+                  <button
+                    key={result.id}
+                    onClick={() => navigate({ to: "/", search: { date: result.date } })}
+                    className="w-full text-left py-3 px-2 rounded-md hover:bg-accent transition-colors space-y-1"
+                  >
+                    <div className="text-sm font-medium">{formatDateFull(result.date)}</div>
+                    <Snippet text={result.snippet} />
+                  </button>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,224 @@
+import { createRoute, useNavigate } from "@tanstack/react-router";
+import { useState, useMemo } from "react";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ChevronLeft, ChevronRight, Flame, Loader2 } from "lucide-react";
+import { rootRoute } from "./__root";
+import { trpc } from "@/lib/trpc";
+import { addDays, formatDateShort, getLocalDateString } from "@/lib/date-utils";
+
+export const statsRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: "/stats",
+  component: StatsPage,
+});
+
+const DAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// Heatmap shades by entry length (characters), like GitHub's contribution levels
+const LEVEL_THRESHOLDS = [200, 500, 1000];
+const LEVEL_CLASSES = ["bg-muted", "bg-primary/25", "bg-primary/50", "bg-primary/75", "bg-primary"];
+
+function getLevel(length: number | undefined): number {
+  if (length === undefined) return 0;
+  return 1 + LEVEL_THRESHOLDS.filter((threshold) => length >= threshold).length;
+}
+
+// Weeks (Sunday-first columns) covering the whole year; days outside it are null
+function getYearWeeks(year: number): (string | null)[][] {
+  const first = `${year}-01-01`;
+  const last = `${year}-12-31`;
+  const weeks: (string | null)[][] = [];
+  let date = addDays(first, -new Date(first + "T00:00:00").getDay());
+
+  while (date <= last) {
+    const week: (string | null)[] = [];
+    for (let i = 0; i < 7; i++) {
+      week.push(date >= first && date <= last ? date : null);
+      date = addDays(date, 1);
+    }
+    weeks.push(week);
+  }
+  return weeks;
+}
+
+function StatsPage() {
+  const navigate = useNavigate();
+  const todayStr = getLocalDateString();
+  const currentYear = new Date().getFullYear();
+  const [year, setYear] = useState(currentYear);
+
+  const { data: stats, isLoading } = trpc.entries.getStats.useQuery({ today: todayStr });
+
+  const lengthByDate = useMemo(
+    () => new Map(stats?.activity.map((day) => [day.date, day.length]) ?? []),
+    [stats]
+  );
+  const weeks = useMemo(() => getYearWeeks(year), [year]);
+  const yearEntries = useMemo(
+    () => stats?.activity.filter((day) => day.date.startsWith(`${year}-`)).length ?? 0,
+    [stats, year]
+  );
+  const recentMonths = stats?.byMonth.slice(-12) ?? [];
+  const maxMonthCount = Math.max(1, ...recentMonths.map((m) => m.count));
+  const maxWeekdayCount = Math.max(1, ...(stats?.byWeekday ?? []));
+
+  if (isLoading || !stats) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const summary = [
+    { label: "Current streak", value: `${stats.currentStreak} days` },
+    { label: "Longest streak", value: `${stats.longestStreak} days` },
+    { label: "Total entries", value: stats.totalEntries },
+    { label: "Average length", value: `${stats.averageLength} chars` },
+    { label: "Completion", value: `${Math.round(stats.completionRate * 100)}%` },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-2xl font-bold flex items-center gap-2">
+        <Flame className="h-6 w-6 text-orange-500" />
+        Stats
+      </h1>
+
+      <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+        {summary.map(({ label, value }) => (
+          <Card key={label}>
+            <CardContent className="p-4">
+              <div className="text-xs text-muted-foreground">{label}</div>
+              <div className="text-xl font-semibold">{value}</div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {/* Contribution heatmap */}
+      <Card>
+        <CardHeader className="pb-2">
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="text-lg">{year}</CardTitle>
+              <CardDescription>{yearEntries} entries · click a day to open it</CardDescription>
+            </div>
+            <div className="flex items-center gap-1">
+              <Button variant="ghost" size="icon" onClick={() => setYear(year - 1)}>
+                <ChevronLeft className="h-5 w-5" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setYear(year + 1)}
+                disabled={year >= currentYear}
+              >
+                <ChevronRight className="h-5 w-5" />
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="flex gap-[3px] overflow-x-auto pb-2">
+            <div className="flex flex-col gap-[3px] pr-1">
+              {DAY_NAMES.map((day, i) => (
+                <div key={day} className="h-3 text-[10px] leading-3 text-muted-foreground">
+                  {i % 2 === 1 ? day : ""}
+                </div>
+              ))}
+            </div>
+            {weeks.map((week, weekIndex) => (
+              <div key={weekIndex} className="flex flex-col gap-[3px]">
+                {week.map((dateStr, dayIndex) => {
+                  if (!dateStr) {
+                    return <div key={dayIndex} className="h-3 w-3" />;
+                  }
+                  const length = lengthByDate.get(dateStr);
+                  const isFuture = dateStr > todayStr;
+                  return (
+                    <button
+                      key={dateStr}
+                      title={`${formatDateShort(dateStr)}: ${
+                        length === undefined ? "no entry" : `${length} chars`
+                      }`}
+                      onClick={() => navigate({ to: "/", search: { date: dateStr } })}
+                      disabled={isFuture}
+                      className={`h-3 w-3 rounded-sm ${LEVEL_CLASSES[getLevel(length)]} ${
+                        isFuture ? "opacity-40" : "hover:ring-1 hover:ring-foreground"
+                      } ${dateStr === todayStr ? "ring-1 ring-primary" : ""}`}
+                    />
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+          <div className="flex items-center justify-end gap-1 text-xs text-muted-foreground">
+            <span>Less</span>
+            {LEVEL_CLASSES.map((className) => (
+              <span key={className} className={`h-3 w-3 rounded-sm ${className}`} />
+            ))}
+            <span>More</span>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-6 md:grid-cols-2">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-lg">By weekday</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {stats.byWeekday.map((count, i) => (
+              <div key={DAY_NAMES[i]} className="flex items-center gap-2 text-sm">
+                <span className="w-8 text-muted-foreground">{DAY_NAMES[i]}</span>
+                <div className="flex-1 h-2 rounded bg-muted">
+                  <div
+                    className="h-2 rounded bg-primary"
+                    style={{ width: `${(count / maxWeekdayCount) * 100}%` }}
+                  />
+                </div>
+                <span className="w-8 text-right">{count}</span>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-lg">By month</CardTitle>
+            <CardDescription>Last 12 months</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {recentMonths.length > 0 ? (
+              <div className="flex items-end gap-1 h-32">
+                {recentMonths.map(({ month, count }) => (
+                  <div
+                    key={month}
+                    className="flex-1 flex flex-col items-center justify-end gap-1 h-full"
+                    title={`${month}: ${count} entries`}
+                  >
+                    <div
+                      className="w-full rounded-t bg-primary"
+                      style={{ height: `${(count / maxMonthCount) * 100}%` }}
+                    />
+                    <span className="text-[10px] text-muted-foreground">{month.slice(5)}</span>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-muted-foreground text-center py-4">No entries yet.</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
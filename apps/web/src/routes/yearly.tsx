@@ -0,0 +1,156 @@
+import { createRoute, useNavigate } from "@tanstack/react-router";
+import { useState, useMemo } from "react";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ChevronLeft, ChevronRight, Loader2 } from "lucide-react";
+import { rootRoute } from "./__root";
+import { trpc } from "@/lib/trpc";
+import { formatDateShort, getLocalDateString } from "@/lib/date-utils";
+import { AISummary } from "@/components/ai-summary";
+
+export const yearlyRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: "/yearly",
+  component: YearlyPage,
+});
+
+const DAY_INITIALS = ["S", "M", "T", "W", "T", "F", "S"];
+
+// Calendar grid for a month: leading nulls up to the first weekday, then each date
+function getMonthDates(year: number, month: number): (string | null)[] {
+  const startDayOfWeek = new Date(year, month, 1).getDay();
+  const daysInMonth = new Date(year, month + 1, 0).getDate();
+
+  const dates: (string | null)[] = Array(startDayOfWeek).fill(null);
+  for (let day = 1; day <= daysInMonth; day++) {
+    dates.push(getLocalDateString(new Date(year, month, day)));
+  }
+  return dates;
+}
+
+function YearlyPage() {
+  const navigate = useNavigate();
+  const today = new Date();
+  const todayStr = getLocalDateString(today);
+  const [year, setYear] = useState(today.getFullYear());
+
+  const { data: yearlySummary, isLoading } = trpc.entries.getYearlySummary.useQuery({
+    year: String(year),
+  });
+
+  const datesWithEntries = useMemo(
+    () => new Set(yearlySummary?.entries.map((e) => e.date) ?? []),
+    [yearlySummary]
+  );
+
+  // Stable reference so the summary isn't reset on every render
+  const summaryEntries = useMemo(() => yearlySummary?.entries ?? [], [yearlySummary]);
+
+  const isCurrentYear = year === today.getFullYear();
+
+  return (
+    <div className="space-y-6">
+      {/* Year Navigator */}
+      <div className="flex items-center justify-center gap-4">
+        <Button variant="ghost" size="icon" onClick={() => setYear(year - 1)}>
+          <ChevronLeft className="h-5 w-5" />
+        </Button>
+        <h1 className="text-xl font-semibold min-w-[100px] text-center">{year}</h1>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => setYear(year + 1)}
+          disabled={isCurrentYear}
+        >
+          <ChevronRight className="h-5 w-5" />
+        </Button>
+      </div>
+
+      {/* Year in Review */}
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-lg">Year in Review</CardTitle>
+          <CardDescription>
+            {yearlySummary?.totalEntries ?? 0} entries in {year}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <AISummary
+            key={year}
+            entries={summaryEntries}
+            context={`Year ${year}`}
+            period={{ type: "year", start: `${year}-01-01` }}
+            mode="yearly"
+          />
+        </CardContent>
+      </Card>
+
+      {/* Twelve mini calendars */}
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <div className="grid gap-4 grid-cols-1 sm:grid-cols-2 lg:grid-cols-3">
+          {yearlySummary?.months.map(({ month, totalEntries }, monthIndex) => (
+            <Card key={month}>
+              <CardHeader className="p-4 pb-2">
+                <div className="flex items-center justify-between">
+                  <CardTitle className="text-sm">
+                    {new Date(year, monthIndex).toLocaleDateString("en-US", { month: "long" })}
+                  </CardTitle>
+                  <span className="text-xs text-muted-foreground">{totalEntries} entries</span>
+                </div>
+              </CardHeader>
+              <CardContent className="p-4 pt-0">
+                <div className="grid grid-cols-7 gap-0.5">
+                  {DAY_INITIALS.map((day, i) => (
+                    <div
+                      key={i}
+                      className="text-center text-[10px] font-medium text-muted-foreground py-1"
+                    >
+                      {day}
+                    </div>
+                  ))}
+                  {getMonthDates(year, monthIndex).map((dateStr, index) => {
+                    if (!dateStr) {
+                      return <div key={`empty-${index}`} className="aspect-square" />;
+                    }
+
+                    const hasEntry = datesWithEntries.has(dateStr);
+                    const isToday = dateStr === todayStr;
+                    const isFuture = dateStr > todayStr;
+
+                    return (
+                      <button
+                        key={dateStr}
+                        title={formatDateShort(dateStr)}
+                        onClick={() => navigate({ to: "/", search: { date: dateStr } })}
+                        disabled={isFuture}
+                        className={`
+                          aspect-square flex items-center justify-center rounded text-[10px]
+                          transition-colors
+                          ${isFuture ? "text-muted-foreground/50 cursor-not-allowed" : "hover:bg-accent"}
+                          ${hasEntry ? "bg-primary/20 font-semibold text-foreground" : ""}
+                          ${isToday ? "ring-1 ring-primary" : ""}
+                        `}
+                      >
+                        {parseInt(dateStr.split("-")[2])}
+                      </button>
+                    );
+                  })}
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,109 +5,118 @@
  * NO sync logic - just database operations
  */
 
+import type { SkipDayType, SkipDaysRules, TemplateRule } from '@til-stack/shared';
+import { buildSkipDaysRules, parseTemplateRules, resolveTemplateForDate } from '@til-stack/shared';
 import type { Database } from '../types';
 
 // ===== Skip Days =====
 
 export interface SkipDay {
   id: string;
-  type: 'weekday' | 'specific_date';
+  type: SkipDayType;
   value: string;
   userId: string | null;
   createdAt: string;
+  source: string | null;
 }
 
-export interface SkipDaysResult {
-  weekdays: number[];
-  specificDates: string[];
-  raw: SkipDay[];
-}
+export type SkipDaysResult = Required<SkipDaysRules> & { raw: SkipDay[] };
 
-export function getSkipDays(db: Database): SkipDaysResult {
-  const results = db.exec(`SELECT * FROM skip_days`);
-  const raw: SkipDay[] = results[0]?.values.map((row) => ({
+const SKIP_DAY_COLUMNS = 'id, type, value, user_id, created_at, source';
+
+function rowToSkipDay(row: unknown[]): SkipDay {
+  return {
     id: row[0] as string,
-    type: row[1] as 'weekday' | 'specific_date',
+    type: row[1] as SkipDayType,
     value: row[2] as string,
     userId: row[3] as string | null,
     createdAt: row[4] as string,
-  })) || [];
-
-  const weekdays = raw
-    .filter((s) => s.type === 'weekday')
-    .map((s) => parseInt(s.value));
+    source: row[5] as string | null,
+  };
+}
 
-  const specificDates = raw
-    .filter((s) => s.type === 'specific_date')
-    .map((s) => s.value);
+export function getSkipDays(db: Database): SkipDaysResult {
+  const results = db.exec(`SELECT ${SKIP_DAY_COLUMNS} FROM skip_days`);
+  const raw: SkipDay[] = results[0]?.values.map(rowToSkipDay) || [];
 
-  return { weekdays, specificDates, raw };
+  return { ...buildSkipDaysRules(raw), raw };
 }
 
-export function addSkipWeekday(db: Database, weekday: number): SkipDay {
-  // Check if already exists
+function findSkipDay(db: Database, type: SkipDayType, value: string, source: string | null): SkipDay | null {
   const existing = db.exec(
-    `SELECT * FROM skip_days WHERE type = 'weekday' AND value = ?`,
-    [weekday.toString()]
+    `SELECT ${SKIP_DAY_COLUMNS} FROM skip_days WHERE type = ? AND value = ? AND source IS ?`,
+    [type, value, source]
   );
+  return existing[0]?.values[0] ? rowToSkipDay(existing[0].values[0]) : null;
+}
 
-  if (existing[0]?.values[0]) {
-    const row = existing[0].values[0];
-    return {
-      id: row[0] as string,
-      type: 'weekday',
-      value: row[1] as string,
-      userId: row[2] as string | null,
-      createdAt: row[3] as string,
-    };
-  }
+/**
+ * Add a skip day. They're unique per (type, value, source), so adding an
+ * existing one returns it.
+ */
+export function addSkipDay(
+  db: Database,
+  type: SkipDayType,
+  value: string,
+  source: string | null = null
+): SkipDay {
+  const existing = findSkipDay(db, type, value, source);
+  if (existing) return existing;
 
   const id = crypto.randomUUID();
   const now = new Date().toISOString();
   db.run(
-    `INSERT INTO skip_days (id, type, value, created_at) VALUES (?, 'weekday', ?, ?)`,
-    [id, weekday.toString(), now]
+    `INSERT INTO skip_days (id, type, value, created_at, source) VALUES (?, ?, ?, ?, ?)`,
+    [id, type, value, now, source]
   );
 
-  return { id, type: 'weekday', value: weekday.toString(), userId: null, createdAt: now };
+  return { id, type, value, userId: null, createdAt: now, source };
 }
 
-export function addSkipDate(db: Database, date: string): SkipDay {
-  // Check if already exists
-  const existing = db.exec(
-    `SELECT * FROM skip_days WHERE type = 'specific_date' AND value = ?`,
-    [date]
-  );
-
-  if (existing[0]?.values[0]) {
-    const row = existing[0].values[0];
-    return {
-      id: row[0] as string,
-      type: 'specific_date',
-      value: row[1] as string,
-      userId: row[2] as string | null,
-      createdAt: row[3] as string,
-    };
+/**
+ * Add skip days imported from a calendar. Returns the ones that were new.
+ */
+export function importSkipDays(
+  db: Database,
+  source: string,
+  skipDays: { type: SkipDayType; value: string }[]
+): SkipDay[] {
+  const added: SkipDay[] = [];
+  for (const { type, value } of skipDays) {
+    if (!findSkipDay(db, type, value, source)) {
+      added.push(addSkipDay(db, type, value, source));
+    }
   }
+  return added;
+}
 
-  const id = crypto.randomUUID();
-  const now = new Date().toISOString();
-  db.run(
-    `INSERT INTO skip_days (id, type, value, created_at) VALUES (?, 'specific_date', ?, ?)`,
-    [id, date, now]
-  );
+export function addSkipWeekday(db: Database, weekday: number): SkipDay {
+  return addSkipDay(db, 'weekday', weekday.toString());
+}
 
-  return { id, type: 'specific_date', value: date, userId: null, createdAt: now };
+/**
+ * Add a single date, or a date range when endDate is given
+ */
+export function addSkipDate(db: Database, date: string, endDate?: string): SkipDay {
+  if (endDate && endDate !== date) {
+    return addSkipDay(db, 'date_range', `${date}/${endDate}`);
+  }
+  return addSkipDay(db, 'specific_date', date);
+}
+
+export function addSkipRecurrence(db: Database, rule: string): SkipDay {
+  return addSkipDay(db, 'rrule', rule);
 }
 
 export interface SkipDayInfo {
-  type: 'weekday' | 'specific_date';
+  type: SkipDayType;
   value: string;
+  source: string | null;
 }
 
 export function removeSkipDay(db: Database, id: string): SkipDayInfo | null {
   // Get skip day info before deletion (for sync)
-  const skipDayInfo = db.exec(`SELECT type, value FROM skip_days WHERE id = ?`, [id]);
+  const skipDayInfo = db.exec(`SELECT type, value, source FROM skip_days WHERE id = ?`, [id]);
   const skipDayType = skipDayInfo[0]?.values[0]?.[0] as string | undefined;
   const skipDayValue = skipDayInfo[0]?.values[0]?.[1] as string | undefined;
 
@@ -118,76 +127,92 @@ export function removeSkipDay(db: Database, id: string): SkipDayInfo | null {
   db.run(`DELETE FROM skip_days WHERE id = ?`, [id]);
 
   return {
-    type: skipDayType as 'weekday' | 'specific_date',
+    type: skipDayType as SkipDayType,
     value: skipDayValue,
+    source: (skipDayInfo[0].values[0][2] as string | null) ?? null,
   };
 }
 
+/**
+ * Remove every skip day imported from a calendar; returns them for sync
+ */
+export function removeSkipDaySource(db: Database, source: string): SkipDayInfo[] {
+  const results = db.exec(`SELECT type, value FROM skip_days WHERE source = ?`, [source]);
+  db.run(`DELETE FROM skip_days WHERE source = ?`, [source]);
+
+  return results[0]?.values.map((row) => ({
+    type: row[0] as SkipDayType,
+    value: row[1] as string,
+    source,
+  })) || [];
+}
+
 // ===== Templates =====
 
 export interface Template {
   id: string;
   name: string;
   content: string;
-  isDefault: boolean;
+  rules: TemplateRule[];
   userId: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
-export function getTemplates(db: Database): Template[] {
-  const results = db.exec(`SELECT * FROM templates ORDER BY name`);
-  return results[0]?.values.map((row) => ({
+// Explicit columns: databases migrated from is_default have `rules` last
+const TEMPLATE_COLUMNS = `id, name, content, rules, user_id, created_at, updated_at`;
+
+function rowToTemplate(row: unknown[]): Template {
+  return {
     id: row[0] as string,
     name: row[1] as string,
     content: row[2] as string,
-    isDefault: Boolean(row[3]),
+    rules: parseTemplateRules(row[3] as string),
     userId: row[4] as string | null,
     createdAt: row[5] as string,
     updatedAt: row[6] as string,
-  })) || [];
+  };
 }
 
-export function getDefaultTemplate(db: Database): Template | null {
-  const results = db.exec(`SELECT * FROM templates WHERE is_default = 1 LIMIT 1`);
-  if (results[0]?.values[0]) {
-    const row = results[0].values[0];
-    return {
-      id: row[0] as string,
-      name: row[1] as string,
-      content: row[2] as string,
-      isDefault: Boolean(row[3]),
-      userId: row[4] as string | null,
-      createdAt: row[5] as string,
-      updatedAt: row[6] as string,
-    };
-  }
-  return null;
+export function getTemplates(db: Database): Template[] {
+  const results = db.exec(`SELECT ${TEMPLATE_COLUMNS} FROM templates ORDER BY name`);
+  return results[0]?.values.map(rowToTemplate) || [];
+}
+
+export function getTemplateForDate(db: Database, date: string): Template | null {
+  return resolveTemplateForDate(getTemplates(db), date);
 }
 
-export function createTemplate(db: Database, template: { name: string; content: string }): Template {
+export function createTemplate(
+  db: Database,
+  template: { name: string; content: string; rules?: TemplateRule[]; createdAt?: string; updatedAt?: string }
+): Template {
   const id = crypto.randomUUID();
   const now = new Date().toISOString();
+  const rules = template.rules ?? [];
+  // Imported templates keep the timestamps from the backup
+  const createdAt = template.createdAt ?? now;
+  const updatedAt = template.updatedAt ?? createdAt;
   db.run(
-    `INSERT INTO templates (id, name, content, is_default, created_at, updated_at) VALUES (?, ?, ?, 0, ?, ?)`,
-    [id, template.name, template.content, now, now]
+    `INSERT INTO templates (id, name, content, rules, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?)`,
+    [id, template.name, template.content, JSON.stringify(rules), createdAt, updatedAt]
   );
 
   return {
     id,
     name: template.name,
     content: template.content,
-    isDefault: false,
+    rules,
     userId: null,
-    createdAt: now,
-    updatedAt: now,
+    createdAt,
+    updatedAt,
   };
 }
 
 export function updateTemplate(
   db: Database,
   id: string,
-  updates: { name?: string; content?: string }
+  updates: { name?: string; content?: string; rules?: TemplateRule[] }
 ): Template | null {
   const now = new Date().toISOString();
 
@@ -197,32 +222,15 @@ export function updateTemplate(
   if (updates.content !== undefined) {
     db.run(`UPDATE templates SET content = ?, updated_at = ? WHERE id = ?`, [updates.content, now, id]);
   }
-
-  const result = db.exec(`SELECT * FROM templates WHERE id = ?`, [id]);
-  if (result[0]?.values[0]) {
-    const row = result[0].values[0];
-    return {
-      id: row[0] as string,
-      name: row[1] as string,
-      content: row[2] as string,
-      isDefault: Boolean(row[3]),
-      userId: row[4] as string | null,
-      createdAt: row[5] as string,
-      updatedAt: row[6] as string,
-    };
+  if (updates.rules !== undefined) {
+    db.run(`UPDATE templates SET rules = ?, updated_at = ? WHERE id = ?`, [JSON.stringify(updates.rules), now, id]);
   }
-  return null;
+
+  const result = db.exec(`SELECT ${TEMPLATE_COLUMNS} FROM templates WHERE id = ?`, [id]);
+  return result[0]?.values[0] ? rowToTemplate(result[0].values[0]) : null;
 }
 
 export function deleteTemplate(db: Database, id: string): boolean {
   db.run(`DELETE FROM templates WHERE id = ?`, [id]);
   return true;
 }
-
-export function setDefaultTemplate(db: Database, id: string | null): void {
-  const now = new Date().toISOString();
-  db.run(`UPDATE templates SET is_default = 0, updated_at = ?`, [now]);
-  if (id) {
-    db.run(`UPDATE templates SET is_default = 1, updated_at = ? WHERE id = ?`, [now, id]);
-  }
-}
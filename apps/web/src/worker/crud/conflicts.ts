@@ -0,0 +1,82 @@
+/**
+ * Pure CRUD functions for entry conflicts
+ *
+ * A conflict is recorded when the same day was edited here and on another
+ * device since the last sync. The local entry keeps its content; the server
+ * version is stored alongside it until the user merges the two.
+ */
+
+import type { Database } from '../types';
+
+export interface EntryConflict {
+  date: string;
+  localContent: string;
+  serverContent: string;
+  serverUpdatedAt: string;
+  createdAt: string;
+}
+
+// The local side reflects the current local entry, in case it was edited since
+const SELECT_CONFLICTS = `
+  SELECT c.date, COALESCE(e.content, c.local_content), c.server_content, c.server_updated_at, c.created_at
+  FROM entry_conflicts c
+  LEFT JOIN entries e ON e.date = c.date
+`;
+
+function rowToConflict(row: unknown[]): EntryConflict {
+  return {
+    date: row[0] as string,
+    localContent: row[1] as string,
+    serverContent: row[2] as string,
+    serverUpdatedAt: row[3] as string,
+    createdAt: row[4] as string,
+  };
+}
+
+/**
+ * List unresolved conflicts, newest date first
+ */
+export function listConflicts(db: Database): EntryConflict[] {
+  const results = db.exec(`${SELECT_CONFLICTS} ORDER BY c.date DESC`);
+  return (results[0]?.values || []).map(rowToConflict);
+}
+
+/**
+ * Get the conflict for a date, if any
+ */
+export function getConflict(db: Database, date: string): EntryConflict | null {
+  const results = db.exec(`${SELECT_CONFLICTS} WHERE c.date = ?`, [date]);
+  const row = results[0]?.values[0];
+  return row ? rowToConflict(row) : null;
+}
+
+/**
+ * Record (or refresh) a conflict between the local entry and a server version
+ */
+export function saveConflict(
+  db: Database,
+  conflict: Omit<EntryConflict, 'createdAt'>
+): void {
+  db.run(
+    `INSERT INTO entry_conflicts (date, local_content, server_content, server_updated_at, created_at)
+     VALUES (?, ?, ?, ?, ?)
+     ON CONFLICT(date) DO UPDATE SET
+       local_content = excluded.local_content,
+       server_content = excluded.server_content,
+       server_updated_at = excluded.server_updated_at`,
+    [
+      conflict.date,
+      conflict.localContent,
+      conflict.serverContent,
+      conflict.serverUpdatedAt,
+      new Date().toISOString(),
+    ]
+  );
+}
+
+/**
+ * Remove the conflict for a date (after it has been resolved)
+ */
+export function deleteConflict(db: Database, date: string): void {
+  db.run(`DELETE FROM entry_conflicts WHERE date = ?`, [date]);
+}
@@ -0,0 +1,90 @@
+/**
+ * Pure CRUD functions for entry embeddings (Ask-your-journal retrieval)
+ *
+ * Vectors are computed in the page by the configured embedding backend and
+ * stored here per model, so switching models doesn't mix vector spaces.
+ * They are local-only derived data: never synced, and rebuilt when an entry
+ * changes (its updated_at moves past the embedded one). Rows for deleted
+ * entries are removed by the entry_embeddings_ad trigger.
+ */
+
+import type { EmbeddingMatch, EntryEmbedding } from '@til-stack/shared';
+import type { Database } from '../types';
+
+export interface StaleEmbeddings {
+  entries: { date: string; content: string; updatedAt: string }[];
+  total: number; // entries in the journal
+}
+
+/**
+ * Entries that have no embedding for `model`, or changed since theirs was computed
+ */
+export function getStaleEmbeddings(db: Database, model: string): StaleEmbeddings {
+  const results = db.exec(
+    `SELECT e.date, e.content, e.updated_at
+     FROM entries e
+     LEFT JOIN entry_embeddings v ON v.date = e.date AND v.model = ?
+     WHERE v.date IS NULL OR v.entry_updated_at <> e.updated_at
+     ORDER BY e.date DESC`,
+    [model]
+  );
+  const total = db.exec(`SELECT COUNT(*) FROM entries`);
+
+  return {
+    entries: (results[0]?.values || []).map((row: unknown[]) => ({
+      date: row[0] as string,
+      content: row[1] as string,
+      updatedAt: row[2] as string,
+    })),
+    total: (total[0]?.values[0]?.[0] as number) ?? 0,
+  };
+}
+
+export function saveEmbeddings(db: Database, model: string, embeddings: EntryEmbedding[]): void {
+  for (const embedding of embeddings) {
+    db.run(
+      `INSERT OR REPLACE INTO entry_embeddings (date, model, entry_updated_at, vector)
+       VALUES (?, ?, ?, ?)`,
+      [embedding.date, model, embedding.updatedAt, JSON.stringify(embedding.vector)]
+    );
+  }
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * The `limit` entries whose embedding is closest to `vector`
+ */
+export function searchEmbeddings(
+  db: Database,
+  model: string,
+  vector: number[],
+  limit = 8
+): EmbeddingMatch[] {
+  const results = db.exec(
+    `SELECT e.date, e.content, v.vector
+     FROM entry_embeddings v
+     JOIN entries e ON e.date = v.date
+     WHERE v.model = ?`,
+    [model]
+  );
+
+  return (results[0]?.values || [])
+    .map((row: unknown[]) => ({
+      date: row[0] as string,
+      content: row[1] as string,
+      score: cosineSimilarity(vector, JSON.parse(row[2] as string) as number[]),
+    }))
+    .sort((a: EmbeddingMatch, b: EmbeddingMatch) => b.score - a.score)
+    .slice(0, limit);
+}
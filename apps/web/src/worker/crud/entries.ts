@@ -5,7 +5,10 @@
  * NO sync logic, NO side effects beyond database operations.
  */
 
+import { computeEntryStats, type EntryStats } from '@til-stack/shared';
 import type { Database } from '../types';
+import { setEntryTags } from './tags';
+import { getSkipDays } from './config';
 
 export interface Entry {
   id: string;
@@ -56,6 +59,41 @@ export interface MonthlySummaryResult {
   weeks: WeekGroup[];
 }
 
+export interface YearlySummaryParams {
+  year: string;
+}
+
+export interface MonthBucket {
+  month: string;
+  totalEntries: number;
+}
+
+export interface YearlySummaryResult {
+  year: string;
+  entries: Entry[];
+  totalEntries: number;
+  months: MonthBucket[];
+}
+
+export interface EntryStatsParams {
+  today: string;
+}
+
+export interface SearchEntriesParams {
+  query: string;
+  startDate?: string;
+  endDate?: string;
+  limit?: number;
+}
+
+export interface EntrySearchResult {
+  id: string;
+  date: string;
+  snippet: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
 /**
  * List entries with pagination
  */
@@ -124,11 +162,52 @@ export function getEntriesByDateRange(
   })) || [];
 }
 
+/**
+ * Full-text search over entry content using the local FTS4 index
+ * Every word is matched as a prefix; matches are wrapped in <mark></mark>
+ */
+export function searchEntries(db: Database, params: SearchEntriesParams): EntrySearchResult[] {
+  const { startDate, endDate, limit = 20 } = params;
+  const terms = params.query
+    .split(/\s+/)
+    .map((term) => term.replace(/"/g, ""))
+    .filter((term) => term.length > 0);
+  if (terms.length === 0) return [];
+  const matchQuery = terms.map((term) => `"${term}*"`).join(" ");
+
+  let query = `SELECT e.id, e.date, snippet(entries_fts, '<mark>', '</mark>', '…', -1, 16), e.created_at, e.updated_at
+    FROM entries_fts JOIN entries e ON e.rowid = entries_fts.docid
+    WHERE entries_fts MATCH ?`;
+  const queryParams: (string | number)[] = [matchQuery];
+  if (startDate) {
+    query += ` AND e.date >= ?`;
+    queryParams.push(startDate);
+  }
+  if (endDate) {
+    query += ` AND e.date <= ?`;
+    queryParams.push(endDate);
+  }
+  query += ` ORDER BY e.date DESC LIMIT ?`;
+  queryParams.push(limit);
+
+  const results = db.exec(query, queryParams);
+  return results[0]?.values.map((row) => ({
+    id: row[0] as string,
+    date: row[1] as string,
+    snippet: row[2] as string,
+    createdAt: row[3] as string,
+    updatedAt: row[4] as string,
+  })) || [];
+}
+
 /**
  * Upsert entry (create or update)
  * Returns the upserted entry
  */
-export function upsertEntry(db: Database, entry: { date: string; content: string }): Entry {
+export function upsertEntry(
+  db: Database,
+  entry: { date: string; content: string; createdAt?: string; updatedAt?: string }
+): Entry {
   const { date, content } = entry;
   const now = new Date().toISOString();
   const existing = db.exec(`SELECT id FROM entries WHERE date = ?`, [date]);
@@ -140,11 +219,15 @@ export function upsertEntry(db: Database, entry: { date: string; content: string
     ]);
   } else {
     const id = crypto.randomUUID();
+    // Imported entries keep the timestamps from the backup
+    const createdAt = entry.createdAt ?? now;
+    const updatedAt = entry.updatedAt ?? createdAt;
     db.run(
       `INSERT INTO entries (id, date, content, created_at, updated_at) VALUES (?, ?, ?, ?, ?)`,
-      [id, date, content, now, now]
+      [id, date, content, createdAt, updatedAt]
     );
   }
+  setEntryTags(db, date, content);
 
   // Return the upserted entry
   const result = db.exec(`SELECT * FROM entries WHERE date = ?`, [date]);
@@ -264,6 +347,41 @@ export function getMonthlySummary(db: Database, params: MonthlySummaryParams): M
   };
 }
 
+/**
+ * Get yearly summary data (entries bucketed by month)
+ */
+export function getYearlySummary(db: Database, params: YearlySummaryParams): YearlySummaryResult {
+  const { year } = params;
+  const entries = getEntriesByDateRange(db, `${year}-01-01`, `${year}-12-31`);
+
+  // One count per month, including months without entries (the entries
+  // themselves are only sent once, in the flat list)
+  const months = Array.from({ length: 12 }, (_, i) => {
+    const month = `${year}-${String(i + 1).padStart(2, "0")}`;
+    const totalEntries = entries.filter((e) => e.date.startsWith(`${month}-`)).length;
+    return { month, totalEntries };
+  });
+
+  return {
+    year,
+    entries,
+    totalEntries: entries.length,
+    months,
+  };
+}
+
+/**
+ * Get streaks and writing statistics (see computeEntryStats)
+ */
+export function getEntryStats(db: Database, params: EntryStatsParams): EntryStats {
+  const results = db.exec(`SELECT date, content FROM entries`);
+  const entries = results[0]?.values.map((row) => ({
+    date: row[0] as string,
+    content: row[1] as string,
+  })) || [];
+  return computeEntryStats(entries, getSkipDays(db), params.today);
+}
+
 /**
  * Get all local entries (for sync operations)
  */
@@ -0,0 +1,134 @@
+/**
+ * Pure functions for importing a journal archive into the local database
+ *
+ * Entries are matched by date; a day that already has different content is
+ * overwritten, merged (imported content appended) or skipped depending on the
+ * strategy. Templates are matched by name and skip days by (type, value), and
+ * only missing ones are added.
+ */
+
+import type { ImportStrategy, JournalArchive, JournalImportPreview } from '@til-stack/shared';
+import type { Database } from '../types';
+import { getEntryByDate, upsertEntry } from './entries';
+import { getSkipDays, getTemplates, createTemplate, addSkipDay } from './config';
+
+type ArchivedEntry = JournalArchive['entries'][number];
+
+interface ImportPlan {
+  preview: JournalImportPreview;
+  entries: ArchivedEntry[]; // to write; new ones keep the archive's timestamps
+  templates: JournalArchive['templates'];
+  skipDays: JournalArchive['skipDays'];
+}
+
+// Separator between the existing entry and appended imported content
+const MERGE_SEPARATOR = '\n\n';
+
+function planImport(db: Database, archive: JournalArchive, strategy: ImportStrategy): ImportPlan {
+  const preview: JournalImportPreview = {
+    create: [],
+    overwrite: [],
+    merge: [],
+    skip: [],
+    unchanged: [],
+    templates: [],
+    skipDays: 0,
+  };
+
+  // Later files win if the archive repeats a date
+  const incoming = new Map(archive.entries.map((entry) => [entry.date, entry]));
+  const entries: ArchivedEntry[] = [];
+  for (const [date, entry] of [...incoming].sort(([a], [b]) => a.localeCompare(b))) {
+    const { content } = entry;
+    const existing = getEntryByDate(db, date);
+    if (!existing) {
+      preview.create.push(date);
+      entries.push(entry);
+    } else if (existing.content === content) {
+      preview.unchanged.push(date);
+    } else if (strategy === 'merge') {
+      // Re-importing the same notes shouldn't append them twice
+      if (existing.content.includes(content)) {
+        preview.unchanged.push(date);
+        continue;
+      }
+      preview.merge.push(date);
+      entries.push({ date, content: `${existing.content.trimEnd()}${MERGE_SEPARATOR}${content}` });
+    } else if (strategy === 'overwrite') {
+      preview.overwrite.push(date);
+      entries.push({ date, content });
+    } else {
+      preview.skip.push(date);
+    }
+  }
+
+  const templateNames = new Set(getTemplates(db).map((t) => t.name));
+  const templates: JournalArchive['templates'] = [];
+  for (const template of archive.templates) {
+    if (templateNames.has(template.name)) continue;
+    templateNames.add(template.name);
+    templates.push(template);
+    preview.templates.push(template.name);
+  }
+
+  const skipDayKeys = new Set(getSkipDays(db).raw.map((s) => `${s.type}:${s.value}:${s.source ?? ''}`));
+  const skipDays: JournalArchive['skipDays'] = [];
+  for (const skipDay of archive.skipDays) {
+    const key = `${skipDay.type}:${skipDay.value}:${skipDay.source ?? ''}`;
+    if (skipDayKeys.has(key)) continue;
+    skipDayKeys.add(key);
+    skipDays.push(skipDay);
+  }
+  preview.skipDays = skipDays.length;
+
+  return { preview, entries, templates, skipDays };
+}
+
+/**
+ * Report which dates would be created, overwritten, merged or skipped, without writing anything
+ */
+export function previewImport(
+  db: Database,
+  archive: JournalArchive,
+  strategy: ImportStrategy = 'overwrite'
+): JournalImportPreview {
+  return planImport(db, archive, strategy).preview;
+}
+
+export interface ImportResult {
+  preview: JournalImportPreview;
+  entries: ArchivedEntry[];
+  templates: JournalArchive['templates'];
+  skipDays: JournalArchive['skipDays'];
+}
+
+/**
+ * Apply an archive in one transaction, so a failure part way through writes
+ * nothing. Returns what was written so callers can queue it for sync.
+ */
+export function applyImport(
+  db: Database,
+  archive: JournalArchive,
+  strategy: ImportStrategy = 'overwrite'
+): ImportResult {
+  const plan = planImport(db, archive, strategy);
+
+  db.run('BEGIN');
+  try {
+    for (const entry of plan.entries) {
+      upsertEntry(db, entry);
+    }
+    for (const template of plan.templates) {
+      createTemplate(db, template);
+    }
+    for (const skipDay of plan.skipDays) {
+      addSkipDay(db, skipDay.type, skipDay.value, skipDay.source ?? null);
+    }
+    db.run('COMMIT');
+  } catch (error) {
+    db.run('ROLLBACK');
+    throw error;
+  }
+
+  return { preview: plan.preview, entries: plan.entries, templates: plan.templates, skipDays: plan.skipDays };
+}
@@ -5,6 +5,7 @@
  * which stores operations that need to be synced to the server when online.
  */
 
+import type { PushOperation } from '@til-stack/shared';
 import type { Database, PendingOperation } from '../types';
 
 /**
@@ -14,6 +15,7 @@ import type { Database, PendingOperation } from '../types';
  * - Entry operations (upsert/delete): dedupe by date
  * - Skip day operations: dedupe by (action, type, value)
  * - Template operations: dedupe by (action, templateId) or (action, name) for creates
+ * - Summary operations: dedupe by (periodType, periodStart, backend, promptHash)
  *
  * @param db - The sql.js database instance
  * @param op - The operation to add (without id and createdAt)
@@ -30,7 +32,7 @@ export function addPendingOperation(
     // Entry operations: dedupe by date
     db.run(`DELETE FROM sync_pending WHERE date = ?`, [op.date]);
   } else if (op.type === 'skip_day' && op.payload) {
-    // Skip day operations: dedupe by (action, type, value)
+    // Skip day operations: dedupe by (action, type, value, source)
     const payload = JSON.parse(op.payload);
     const existing = db.exec(
       `SELECT id, payload FROM sync_pending WHERE type = 'skip_day'`
@@ -39,7 +41,12 @@ export function addPendingOperation(
       for (const [existingId, existingPayload] of existing[0].values) {
         try {
           const p = JSON.parse(existingPayload as string);
-          if (p.action === payload.action && p.type === payload.type && p.value === payload.value) {
+          if (
+            p.action === payload.action &&
+            p.type === payload.type &&
+            p.value === payload.value &&
+            (p.source ?? null) === (payload.source ?? null)
+          ) {
             db.run(`DELETE FROM sync_pending WHERE id = ?`, [existingId]);
           }
         } catch {
@@ -68,6 +75,29 @@ export function addPendingOperation(
         }
       }
     }
+  } else if (op.type === 'summary' && op.payload) {
+    // Summary operations: only the latest save per key matters
+    const payload = JSON.parse(op.payload);
+    const existing = db.exec(
+      `SELECT id, payload FROM sync_pending WHERE type = 'summary'`
+    );
+    if (existing[0]?.values) {
+      for (const [existingId, existingPayload] of existing[0].values) {
+        try {
+          const p = JSON.parse(existingPayload as string);
+          const shouldDelete =
+            p.periodType === payload.periodType &&
+            p.periodStart === payload.periodStart &&
+            p.backend === payload.backend &&
+            p.promptHash === payload.promptHash;
+          if (shouldDelete) {
+            db.run(`DELETE FROM sync_pending WHERE id = ?`, [existingId]);
+          }
+        } catch {
+          // Invalid JSON, skip
+        }
+      }
+    }
   } else if (op.type === 'webhook' && op.payload) {
     // Webhook operations: dedupe by (action, webhook.id) for updates/deletes, (action, webhook.name) for creates
     const payload = JSON.parse(op.payload);
@@ -155,3 +185,60 @@ export function getPendingOperationCount(db: Database): number {
 export function hasPendingOperations(db: Database): boolean {
   return getPendingOperationCount(db) > 0;
 }
+
+/**
+ * Get the queued upsert for an entry date, if any (i.e. unpushed local edits).
+ *
+ * @param db - The sql.js database instance
+ * @param date - The entry date
+ * @returns The pending upsert, or null
+ */
+export function getPendingUpsert(db: Database, date: string): PendingOperation | null {
+  return getPendingOperations(db).find((op) => op.type === 'upsert' && op.date === date) ?? null;
+}
+
+/**
+ * Convert a queued operation into a `sync.pushBatch` operation.
+ * Webhook operations are not part of the batch and return null.
+ *
+ * @param op - The pending operation
+ * @param baseUpdatedAt - For upserts, the server version the edit was based on
+ * @returns The batch operation, keyed by the pending operation id
+ */
+export function toPushOperation(op: PendingOperation, baseUpdatedAt?: string): PushOperation | null {
+  if (op.type === 'upsert') {
+    return {
+      opId: op.id,
+      kind: 'entry.upsert',
+      input: { date: op.date, content: op.content, baseUpdatedAt },
+    };
+  }
+  if (op.type === 'delete') {
+    return { opId: op.id, kind: 'entry.delete', input: { date: op.date } };
+  }
+  if (!op.payload) return null;
+
+  if (op.type === 'skip_day') {
+    const { action, type, value, source } = JSON.parse(op.payload);
+    return {
+      opId: op.id,
+      kind: action === 'add' ? 'skipDay.add' : 'skipDay.remove',
+      input: { type, value, source },
+    };
+  }
+  if (op.type === 'template') {
+    const { action, id, name, content, rules } = JSON.parse(op.payload);
+    switch (action) {
+      case 'create':
+        return { opId: op.id, kind: 'template.create', input: { name, content, rules } };
+      case 'update':
+        return { opId: op.id, kind: 'template.update', input: { id, name, content, rules } };
+      case 'delete':
+        return { opId: op.id, kind: 'template.delete', input: { id } };
+    }
+  }
+  if (op.type === 'summary') {
+    return { opId: op.id, kind: 'summary.save', input: JSON.parse(op.payload) };
+  }
+  return null;
+}
@@ -0,0 +1,96 @@
+/**
+ * Pure CRUD functions for saved AI summaries
+ *
+ * Summaries are keyed by (period type, period start, backend, prompt hash).
+ * A summary is stale once an entry in its period was updated after it was
+ * generated; it is kept (and shown) until it's regenerated.
+ */
+
+import {
+  getSummaryPeriodEnd,
+  type SavedSummary,
+  type SaveSummaryInput,
+  type Summary,
+  type SummaryKeyInput,
+} from '@til-stack/shared';
+import type { Database } from '../types';
+
+const SELECT_SUMMARIES = `
+  SELECT id, period_type, period_start, backend, prompt_hash, content, generated_at, created_at, updated_at
+  FROM summaries
+`;
+
+function rowToSummary(row: unknown[]): Summary {
+  return {
+    id: row[0] as string,
+    periodType: row[1] as Summary['periodType'],
+    periodStart: row[2] as string,
+    backend: row[3] as string,
+    promptHash: row[4] as string,
+    content: row[5] as string,
+    generatedAt: row[6] as string,
+    createdAt: row[7] as string,
+    updatedAt: row[8] as string,
+  };
+}
+
+function findSummary(db: Database, key: SummaryKeyInput): Summary | null {
+  const results = db.exec(
+    `${SELECT_SUMMARIES} WHERE period_type = ? AND period_start = ? AND backend = ? AND prompt_hash = ?`,
+    [key.periodType, key.periodStart, key.backend, key.promptHash]
+  );
+  const row = results[0]?.values[0];
+  return row ? rowToSummary(row) : null;
+}
+
+function isStale(db: Database, summary: Summary): boolean {
+  const results = db.exec(
+    `SELECT 1 FROM entries WHERE date >= ? AND date <= ? AND updated_at > ? LIMIT 1`,
+    [
+      summary.periodStart,
+      getSummaryPeriodEnd(summary.periodType, summary.periodStart),
+      summary.generatedAt,
+    ]
+  );
+  return !!results[0]?.values[0];
+}
+
+/**
+ * Get the saved summary for a key, with its staleness
+ */
+export function getSummary(db: Database, key: SummaryKeyInput): SavedSummary | null {
+  const summary = findSummary(db, key);
+  return summary ? { ...summary, stale: isStale(db, summary) } : null;
+}
+
+/**
+ * Create or replace the summary for a key.
+ * An older `generatedAt` (e.g. pulled from the server) never replaces a newer summary.
+ */
+export function saveSummary(db: Database, input: SaveSummaryInput): Summary {
+  const now = new Date().toISOString();
+  const generatedAt = input.generatedAt ?? now;
+
+  db.run(
+    `INSERT INTO summaries (id, period_type, period_start, backend, prompt_hash, content, generated_at, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+     ON CONFLICT (period_type, period_start, backend, prompt_hash) DO UPDATE SET
+       content = excluded.content,
+       generated_at = excluded.generated_at,
+       updated_at = excluded.updated_at
+     WHERE excluded.generated_at >= summaries.generated_at`,
+    [
+      crypto.randomUUID(),
+      input.periodType,
+      input.periodStart,
+      input.backend,
+      input.promptHash,
+      input.content,
+      generatedAt,
+      now,
+      now,
+    ]
+  );
+
+  return findSummary(db, input)!;
+}
@@ -0,0 +1,74 @@
+/**
+ * Pure functions for sync bookkeeping (key/value rows in sync_state).
+ *
+ * Used to persist delta sync watermarks between pulls, and the server
+ * version each local entry is based on (for conflict detection).
+ */
+
+import type { Database } from '../types';
+
+export type SyncCollection = 'entries' | 'skip_days' | 'templates' | 'webhooks' | 'summaries';
+
+function watermarkKey(collection: SyncCollection, userId: string | null): string {
+  return `watermark:${collection}:${userId ?? 'anonymous'}`;
+}
+
+/**
+ * Get the last pull watermark for a collection (null = never pulled, do a full sync)
+ */
+export function getWatermark(
+  db: Database,
+  collection: SyncCollection,
+  userId: string | null
+): string | null {
+  const results = db.exec(`SELECT value FROM sync_state WHERE key = ?`, [
+    watermarkKey(collection, userId),
+  ]);
+  return (results[0]?.values[0]?.[0] as string) ?? null;
+}
+
+/**
+ * Store the watermark returned by the server after changes were applied
+ */
+export function setWatermark(
+  db: Database,
+  collection: SyncCollection,
+  userId: string | null,
+  watermark: string
+): void {
+  db.run(`INSERT OR REPLACE INTO sync_state (key, value) VALUES (?, ?)`, [
+    watermarkKey(collection, userId),
+    watermark,
+  ]);
+}
+
+
+function entryBaseKey(date: string): string {
+  return `base:entries:${date}`;
+}
+
+/**
+ * Get the server `updatedAt` the local entry for a date was last synced at
+ * (undefined = unknown, e.g. the entry has never been pushed or pulled)
+ */
+export function getEntryBase(db: Database, date: string): string | undefined {
+  const results = db.exec(`SELECT value FROM sync_state WHERE key = ?`, [entryBaseKey(date)]);
+  return (results[0]?.values[0]?.[0] as string) ?? undefined;
+}
+
+/**
+ * Record the server version the local entry now matches
+ */
+export function setEntryBase(db: Database, date: string, updatedAt: string): void {
+  db.run(`INSERT OR REPLACE INTO sync_state (key, value) VALUES (?, ?)`, [
+    entryBaseKey(date),
+    updatedAt,
+  ]);
+}
+
+/**
+ * Forget the server version for a date (entry deleted on the server)
+ */
+export function clearEntryBase(db: Database, date: string): void {
+  db.run(`DELETE FROM sync_state WHERE key = ?`, [entryBaseKey(date)]);
+}
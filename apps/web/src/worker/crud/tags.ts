@@ -0,0 +1,79 @@
+/**
+ * Pure CRUD functions for entry tags
+ *
+ * Tags are derived from #hashtags in entry content, so they are rebuilt
+ * whenever an entry is written locally or pulled from the server.
+ * Rows for deleted entries are removed by the entry_tags_ad trigger.
+ */
+
+import { extractTags, type TagCount } from '@til-stack/shared';
+import type { Database } from '../types';
+import type { Entry, ListEntriesResult } from './entries';
+
+export interface ListByTagParams {
+  tag: string;
+  cursor?: string;
+  limit?: number;
+}
+
+/**
+ * Replace the tags stored for the entry on `date` with the tags in `content`
+ */
+export function setEntryTags(db: Database, date: string, content: string): void {
+  db.run(`DELETE FROM entry_tags WHERE date = ?`, [date]);
+  for (const tag of extractTags(content)) {
+    db.run(`INSERT OR IGNORE INTO entry_tags (date, tag) VALUES (?, ?)`, [date, tag]);
+  }
+}
+
+/**
+ * Rebuild the whole tag index from entry content
+ */
+export function rebuildAllTags(db: Database): void {
+  db.run(`DELETE FROM entry_tags`);
+  const results = db.exec(`SELECT date, content FROM entries`);
+  for (const row of results[0]?.values || []) {
+    setEntryTags(db, row[0] as string, row[1] as string);
+  }
+}
+
+/**
+ * List all tags with the number of entries using them, most used first
+ */
+export function listTags(db: Database): TagCount[] {
+  const results = db.exec(
+    `SELECT tag, COUNT(*) AS count FROM entry_tags GROUP BY tag ORDER BY count DESC, tag ASC`
+  );
+  return results[0]?.values.map((row) => ({
+    tag: row[0] as string,
+    count: row[1] as number,
+  })) || [];
+}
+
+/**
+ * List entries with the given tag, paginated by date like listEntries
+ */
+export function listEntriesByTag(db: Database, params: ListByTagParams): ListEntriesResult {
+  const { cursor, limit = 20 } = params;
+  const tag = params.tag.trim().toLowerCase();
+  const query = cursor
+    ? `SELECT e.* FROM entries e JOIN entry_tags t ON t.date = e.date WHERE t.tag = ? AND e.date < ? ORDER BY e.date DESC LIMIT ?`
+    : `SELECT e.* FROM entries e JOIN entry_tags t ON t.date = e.date WHERE t.tag = ? ORDER BY e.date DESC LIMIT ?`;
+  const queryParams = cursor ? [tag, cursor, limit + 1] : [tag, limit + 1];
+  const results = db.exec(query, queryParams);
+  const items: Entry[] = results[0]?.values.map((row) => ({
+    id: row[0] as string,
+    date: row[1] as string,
+    content: row[2] as string,
+    userId: (row[3] as string) ?? null,
+    createdAt: row[4] as string,
+    updatedAt: row[5] as string,
+  })) || [];
+  const hasMore = items.length > limit;
+  if (hasMore) items.pop();
+  return {
+    items,
+    hasMore,
+    nextCursor: hasMore && items.length > 0 ? items[items.length - 1].date : undefined,
+  };
+}
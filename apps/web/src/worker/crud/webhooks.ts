@@ -13,11 +13,18 @@ export interface Webhook {
   id: string;
   name: string;
   url: string;
+  type: string; // 'reminder' | 'event' | 'digest'
   message: string;
   time: string; // HH:MM format
   days: string[]; // ['mon', 'tue', etc]
   timezone: string;
   enabled: boolean;
+  format: string; // WebhookFormat
+  onlyIfNoEntry: boolean;
+  respectSkipDays: boolean;
+  events: string[]; // ['entry.created', etc]
+  includeContent: boolean;
+  digestWeek: string; // 'current' | 'previous'
   userId: string;
   createdAt: string;
   updatedAt: string;
@@ -26,10 +33,17 @@ export interface Webhook {
 export interface CreateWebhookInput {
   name: string;
   url: string;
+  type?: string;
   message?: string;
   time: string;
   days: string[];
   timezone?: string;
+  format?: string;
+  onlyIfNoEntry?: boolean;
+  respectSkipDays?: boolean;
+  events?: string[];
+  includeContent?: boolean;
+  digestWeek?: string;
 }
 
 export interface UpdateWebhookInput {
@@ -40,52 +54,58 @@ export interface UpdateWebhookInput {
   days?: string[];
   timezone?: string;
   enabled?: boolean;
+  format?: string;
+  onlyIfNoEntry?: boolean;
+  respectSkipDays?: boolean;
+  events?: string[];
+  includeContent?: boolean;
+  digestWeek?: string;
 }
 
 const MAX_WEBHOOKS = 5;
 
+// Columns listed explicitly: newer columns are appended by ALTER TABLE on older databases
+const WEBHOOK_COLUMNS =
+  'id, name, url, type, message, time, days, timezone, enabled, format, only_if_no_entry, respect_skip_days, events, include_content, digest_week, user_id, created_at, updated_at';
+
+function rowToWebhook(row: unknown[]): Webhook {
+  return {
+    id: row[0] as string,
+    name: row[1] as string,
+    url: row[2] as string,
+    type: row[3] as string,
+    message: row[4] as string,
+    time: row[5] as string,
+    days: JSON.parse(row[6] as string) as string[],
+    timezone: row[7] as string,
+    enabled: Boolean(row[8]),
+    format: row[9] as string,
+    onlyIfNoEntry: Boolean(row[10]),
+    respectSkipDays: Boolean(row[11]),
+    events: JSON.parse(row[12] as string) as string[],
+    includeContent: Boolean(row[13]),
+    digestWeek: row[14] as string,
+    userId: row[15] as string,
+    createdAt: row[16] as string,
+    updatedAt: row[17] as string,
+  };
+}
+
 /**
  * Get all webhooks for a user
  */
 export function getWebhooks(db: Database, userId: string): Webhook[] {
-  const results = db.exec(`SELECT * FROM webhooks WHERE user_id = ? ORDER BY created_at`, [userId]);
-  return results[0]?.values.map((row) => ({
-    id: row[0] as string,
-    name: row[1] as string,
-    url: row[2] as string,
-    message: row[3] as string,
-    time: row[4] as string,
-    days: JSON.parse(row[5] as string) as string[],
-    timezone: row[6] as string,
-    enabled: Boolean(row[7]),
-    userId: row[8] as string,
-    createdAt: row[9] as string,
-    updatedAt: row[10] as string,
-  })) || [];
+  const results = db.exec(`SELECT ${WEBHOOK_COLUMNS} FROM webhooks WHERE user_id = ? ORDER BY created_at`, [userId]);
+  return results[0]?.values.map(rowToWebhook) || [];
 }
 
 /**
  * Get a specific webhook by ID
  */
 export function getWebhookById(db: Database, userId: string, id: string): Webhook | null {
-  const results = db.exec(`SELECT * FROM webhooks WHERE id = ? AND user_id = ?`, [id, userId]);
-  if (results[0]?.values[0]) {
-    const row = results[0].values[0];
-    return {
-      id: row[0] as string,
-      name: row[1] as string,
-      url: row[2] as string,
-      message: row[3] as string,
-      time: row[4] as string,
-      days: JSON.parse(row[5] as string) as string[],
-      timezone: row[6] as string,
-      enabled: Boolean(row[7]),
-      userId: row[8] as string,
-      createdAt: row[9] as string,
-      updatedAt: row[10] as string,
-    };
-  }
-  return null;
+  const results = db.exec(`SELECT ${WEBHOOK_COLUMNS} FROM webhooks WHERE id = ? AND user_id = ?`, [id, userId]);
+  const row = results[0]?.values[0];
+  return row ? rowToWebhook(row) : null;
 }
 
 /**
@@ -105,22 +125,40 @@ export function createWebhook(db: Database, userId: string, input: CreateWebhook
   const message = input.message || '⏰ Time to write your TIL!';
   const timezone = input.timezone || 'UTC';
   const daysJson = JSON.stringify(input.days);
+  const type = input.type || 'reminder';
+  const format = input.format || 'auto';
+  const events = input.events ?? [];
+  const includeContent = input.includeContent ?? false;
+  const digestWeek = input.digestWeek || 'previous';
+  const onlyIfNoEntry = input.onlyIfNoEntry ?? false;
+  const respectSkipDays = input.respectSkipDays ?? false;
 
   db.run(
-    `INSERT INTO webhooks (id, name, url, message, time, days, timezone, enabled, user_id, created_at, updated_at)
-     VALUES (?, ?, ?, ?, ?, ?, ?, 1, ?, ?, ?)`,
-    [id, input.name, input.url, message, input.time, daysJson, timezone, userId, now, now]
+    `INSERT INTO webhooks (id, name, url, type, message, time, days, timezone, enabled, format, only_if_no_entry, respect_skip_days, events, include_content, digest_week, user_id, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, 1, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      id, input.name, input.url, type, message, input.time, daysJson, timezone, format,
+      onlyIfNoEntry ? 1 : 0, respectSkipDays ? 1 : 0, JSON.stringify(events), includeContent ? 1 : 0,
+      digestWeek, userId, now, now,
+    ]
   );
 
   return {
     id,
     name: input.name,
     url: input.url,
+    type,
     message,
     time: input.time,
     days: input.days,
     timezone,
     enabled: true,
+    format,
+    onlyIfNoEntry,
+    respectSkipDays,
+    events,
+    includeContent,
+    digestWeek,
     userId,
     createdAt: now,
     updatedAt: now,
@@ -170,6 +208,30 @@ export function updateWebhook(
     updateParts.push('enabled = ?');
     params.push(updates.enabled ? 1 : 0);
   }
+  if (updates.format !== undefined) {
+    updateParts.push('format = ?');
+    params.push(updates.format);
+  }
+  if (updates.onlyIfNoEntry !== undefined) {
+    updateParts.push('only_if_no_entry = ?');
+    params.push(updates.onlyIfNoEntry ? 1 : 0);
+  }
+  if (updates.respectSkipDays !== undefined) {
+    updateParts.push('respect_skip_days = ?');
+    params.push(updates.respectSkipDays ? 1 : 0);
+  }
+  if (updates.events !== undefined) {
+    updateParts.push('events = ?');
+    params.push(JSON.stringify(updates.events));
+  }
+  if (updates.includeContent !== undefined) {
+    updateParts.push('include_content = ?');
+    params.push(updates.includeContent ? 1 : 0);
+  }
+  if (updates.digestWeek !== undefined) {
+    updateParts.push('digest_week = ?');
+    params.push(updates.digestWeek);
+  }
 
   if (updateParts.length === 0) {
     // No updates, just return existing webhook
@@ -15,8 +15,11 @@ import {
   saveToIndexedDB,
   setCurrentUserId,
 } from "./persistence";
+import { rebuildAllTags } from "./crud/tags";
 
 // Schema SQL for creating tables
+// Note: the sql.js build ships FTS3/FTS4 but not FTS5, so the local search
+// index uses an external-content FTS4 table (the server uses FTS5).
 const SCHEMA_SQL = `
   CREATE TABLE IF NOT EXISTS entries (
     id TEXT PRIMARY KEY,
@@ -31,13 +34,14 @@ const SCHEMA_SQL = `
     type TEXT NOT NULL,
     value TEXT NOT NULL,
     user_id TEXT,
-    created_at TEXT NOT NULL
+    created_at TEXT NOT NULL,
+    source TEXT
   );
   CREATE TABLE IF NOT EXISTS templates (
     id TEXT PRIMARY KEY,
     name TEXT NOT NULL,
     content TEXT NOT NULL,
-    is_default INTEGER DEFAULT 0,
+    rules TEXT NOT NULL DEFAULT '[]',
     user_id TEXT,
     created_at TEXT NOT NULL,
     updated_at TEXT NOT NULL
@@ -50,6 +54,10 @@ const SCHEMA_SQL = `
     payload TEXT,
     created_at TEXT NOT NULL
   );
+  CREATE TABLE IF NOT EXISTS sync_state (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
   CREATE TABLE IF NOT EXISTS user_preferences (
     id TEXT PRIMARY KEY,
     user_id TEXT NOT NULL UNIQUE,
@@ -62,15 +70,72 @@ const SCHEMA_SQL = `
     id TEXT PRIMARY KEY,
     name TEXT NOT NULL,
     url TEXT NOT NULL,
+    type TEXT NOT NULL DEFAULT 'reminder',
     message TEXT NOT NULL DEFAULT '⏰ Time to write your TIL!',
     time TEXT NOT NULL,
     days TEXT NOT NULL,
     timezone TEXT NOT NULL DEFAULT 'UTC',
     enabled INTEGER DEFAULT 1,
+    format TEXT NOT NULL DEFAULT 'auto',
+    only_if_no_entry INTEGER NOT NULL DEFAULT 0,
+    respect_skip_days INTEGER NOT NULL DEFAULT 0,
+    events TEXT NOT NULL DEFAULT '[]',
+    include_content INTEGER NOT NULL DEFAULT 0,
+    digest_week TEXT NOT NULL DEFAULT 'previous',
     user_id TEXT NOT NULL,
     created_at TEXT NOT NULL,
     updated_at TEXT NOT NULL
   );
+  CREATE TABLE IF NOT EXISTS entry_conflicts (
+    date TEXT PRIMARY KEY,
+    local_content TEXT NOT NULL,
+    server_content TEXT NOT NULL,
+    server_updated_at TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS summaries (
+    id TEXT PRIMARY KEY,
+    period_type TEXT NOT NULL,
+    period_start TEXT NOT NULL,
+    backend TEXT NOT NULL,
+    prompt_hash TEXT NOT NULL,
+    content TEXT NOT NULL,
+    generated_at TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    UNIQUE (period_type, period_start, backend, prompt_hash)
+  );
+  CREATE TABLE IF NOT EXISTS entry_tags (
+    date TEXT NOT NULL,
+    tag TEXT NOT NULL,
+    PRIMARY KEY (date, tag)
+  );
+  CREATE TRIGGER IF NOT EXISTS entry_tags_ad AFTER DELETE ON entries BEGIN
+    DELETE FROM entry_tags WHERE date = old.date;
+  END;
+  CREATE TABLE IF NOT EXISTS entry_embeddings (
+    date TEXT NOT NULL,
+    model TEXT NOT NULL,
+    entry_updated_at TEXT NOT NULL,
+    vector TEXT NOT NULL,
+    PRIMARY KEY (date, model)
+  );
+  CREATE TRIGGER IF NOT EXISTS entry_embeddings_ad AFTER DELETE ON entries BEGIN
+    DELETE FROM entry_embeddings WHERE date = old.date;
+  END;
+  CREATE VIRTUAL TABLE IF NOT EXISTS entries_fts USING fts4(content="entries", content);
+  CREATE TRIGGER IF NOT EXISTS entries_fts_bu BEFORE UPDATE ON entries BEGIN
+    DELETE FROM entries_fts WHERE docid = old.rowid;
+  END;
+  CREATE TRIGGER IF NOT EXISTS entries_fts_bd BEFORE DELETE ON entries BEGIN
+    DELETE FROM entries_fts WHERE docid = old.rowid;
+  END;
+  CREATE TRIGGER IF NOT EXISTS entries_fts_au AFTER UPDATE ON entries BEGIN
+    INSERT INTO entries_fts(docid, content) VALUES (new.rowid, new.content);
+  END;
+  CREATE TRIGGER IF NOT EXISTS entries_fts_ai AFTER INSERT ON entries BEGIN
+    INSERT INTO entries_fts(docid, content) VALUES (new.rowid, new.content);
+  END;
 `;
 
 export class DatabaseManager {
@@ -277,9 +342,69 @@ export class DatabaseManager {
       );
     }
 
+    // Derived tables created below for existing databases must be backfilled
+    const indexCheck = db!.exec(
+      `SELECT name FROM sqlite_master WHERE type='table' AND name IN ('entries_fts', 'entry_tags')`
+    );
+    const existingIndexes = new Set(indexCheck[0]?.values.map((row: unknown[]) => row[0] as string) || []);
+
     // Create tables if they don't exist
     db!.run(SCHEMA_SQL);
 
+    // Templates had a single is_default flag before per-template rules
+    const templateColumns = db!.exec(`PRAGMA table_info(templates)`);
+    if (!templateColumns[0]?.values.some((row: unknown[]) => row[1] === "rules")) {
+      db!.run(`ALTER TABLE templates ADD COLUMN rules TEXT NOT NULL DEFAULT '[]'`);
+      db!.run(`UPDATE templates SET rules = '[{"type":"always"}]' WHERE is_default = 1`);
+      db!.run(`ALTER TABLE templates DROP COLUMN is_default`);
+      // Queued "set default" operations become rule updates
+      db!.run(
+        `UPDATE sync_pending
+         SET payload = json_object('action', 'update', 'id', json_extract(payload, '$.id'), 'rules', json('[{"type":"always"}]'))
+         WHERE type = 'template' AND json_extract(payload, '$.action') = 'setDefault' AND json_extract(payload, '$.id') IS NOT NULL`
+      );
+      db!.run(
+        `DELETE FROM sync_pending WHERE type = 'template' AND json_extract(payload, '$.action') = 'setDefault'`
+      );
+      this.ctx.debug.log("db", "Migrated default template to template rules");
+    }
+
+    // Skip days imported from a calendar are tagged with its name
+    const skipDayColumns = db!.exec(`PRAGMA table_info(skip_days)`);
+    if (!skipDayColumns[0]?.values.some((row: unknown[]) => row[1] === "source")) {
+      db!.run(`ALTER TABLE skip_days ADD COLUMN source TEXT`);
+    }
+
+    // Reminder conditions
+    const webhookColumns = db!.exec(`PRAGMA table_info(webhooks)`);
+    if (!webhookColumns[0]?.values.some((row: unknown[]) => row[1] === "only_if_no_entry")) {
+      db!.run(`ALTER TABLE webhooks ADD COLUMN only_if_no_entry INTEGER NOT NULL DEFAULT 0`);
+      db!.run(`ALTER TABLE webhooks ADD COLUMN respect_skip_days INTEGER NOT NULL DEFAULT 0`);
+    }
+    // Payload format
+    if (!webhookColumns[0]?.values.some((row: unknown[]) => row[1] === "format")) {
+      db!.run(`ALTER TABLE webhooks ADD COLUMN format TEXT NOT NULL DEFAULT 'auto'`);
+    }
+    // Event webhooks
+    if (!webhookColumns[0]?.values.some((row: unknown[]) => row[1] === "type")) {
+      db!.run(`ALTER TABLE webhooks ADD COLUMN type TEXT NOT NULL DEFAULT 'reminder'`);
+      db!.run(`ALTER TABLE webhooks ADD COLUMN events TEXT NOT NULL DEFAULT '[]'`);
+      db!.run(`ALTER TABLE webhooks ADD COLUMN include_content INTEGER NOT NULL DEFAULT 0`);
+    }
+    // Digest webhooks
+    if (!webhookColumns[0]?.values.some((row: unknown[]) => row[1] === "digest_week")) {
+      db!.run(`ALTER TABLE webhooks ADD COLUMN digest_week TEXT NOT NULL DEFAULT 'previous'`);
+    }
+
+    if (!wasEmpty && !existingIndexes.has("entries_fts")) {
+      db!.run(`INSERT INTO entries_fts(entries_fts) VALUES ('rebuild')`);
+      this.ctx.debug.log("db", "Rebuilt full-text search index for existing entries");
+    }
+    if (!wasEmpty && !existingIndexes.has("entry_tags")) {
+      rebuildAllTags(db!);
+      this.ctx.debug.log("db", "Rebuilt tag index for existing entries");
+    }
+
     // Persist after schema changes to ensure new tables are saved to IndexedDB
     // This is important when upgrading existing databases with new tables (e.g., webhooks)
     if (!wasEmpty) {
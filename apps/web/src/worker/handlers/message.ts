@@ -5,6 +5,7 @@
  * Supports login/logout, sync, data export/import, and debug operations.
  */
 
+import type { EntryEmbedding, ImportStrategy, JournalArchive } from '@til-stack/shared';
 import type { ServiceWorkerContext, ServiceWorkerMessage } from '../types';
 import type { SessionManager } from '../session';
 import type { SyncOrchestrator } from '../sync/orchestrator';
@@ -12,6 +13,10 @@ import type { DatabaseManager } from '../database';
 import * as entriesCrud from '../crud/entries';
 import * as configCrud from '../crud/config';
 import * as pendingCrud from '../crud/pending';
+import * as tagsCrud from '../crud/tags';
+import * as conflictsCrud from '../crud/conflicts';
+import * as importCrud from '../crud/import';
+import * as embeddingsCrud from '../crud/embeddings';
 import { clearUserDatabase, resetClearedKeys, migrateAnonymousToUser } from '../persistence';
 
 export class MessageHandler {
@@ -89,6 +94,28 @@ export class MessageHandler {
       case 'CHECK_PENDING_SYNC':
         return this.handleCheckPendingSync();
 
+      case 'LIST_ENTRY_CONFLICTS':
+        return this.handleListEntryConflicts();
+
+      case 'RESOLVE_ENTRY_CONFLICT':
+        return this.handleResolveEntryConflict(message.date, message.content);
+
+      case 'IMPORT_JOURNAL':
+        return this.handleImportJournal(
+          message.archive,
+          message.strategy ?? 'overwrite',
+          message.dryRun ?? false
+        );
+
+      case 'GET_STALE_EMBEDDINGS':
+        return this.handleGetStaleEmbeddings(message.model);
+
+      case 'SAVE_EMBEDDINGS':
+        return this.handleSaveEmbeddings(message.model, message.embeddings);
+
+      case 'SEARCH_EMBEDDINGS':
+        return this.handleSearchEmbeddings(message.model, message.vector, message.limit);
+
       default:
         throw new Error(`Unknown message type: ${(message as { type: string }).type}`);
     }
@@ -304,6 +331,7 @@ export class MessageHandler {
           [entry.id, entry.date, entry.content, entry.userId, entry.createdAt, entry.updatedAt]
         );
       }
+      tagsCrud.setEntryTags(db, entry.date, entry.content);
     }
 
     await this.dbManager.persist();
@@ -311,7 +339,7 @@ export class MessageHandler {
   }
 
   /**
-   * Handle EXPORT_DATA message (export all data for migration)
+   * Handle EXPORT_DATA message (export all data for migration and journal backups)
    */
   private async handleExportData(): Promise<unknown> {
     this.ctx.debug.log('message', 'EXPORT_DATA');
@@ -320,7 +348,6 @@ export class MessageHandler {
 
     const entries = db.exec(`SELECT * FROM entries`);
     const skipDays = db.exec(`SELECT * FROM skip_days`);
-    const templates = db.exec(`SELECT * FROM templates`);
 
     const entriesList = entries[0]?.values.map((row) => ({
       id: row[0],
@@ -337,22 +364,13 @@ export class MessageHandler {
       value: row[2],
       userId: row[3],
       createdAt: row[4],
-    })) || [];
-
-    const templatesList = templates[0]?.values.map((row) => ({
-      id: row[0],
-      name: row[1],
-      content: row[2],
-      isDefault: Boolean(row[3]),
-      userId: row[4],
-      createdAt: row[5],
-      updatedAt: row[6],
+      source: row[5] ?? null,
     })) || [];
 
     return {
       entries: entriesList,
       skipDays: skipDaysList,
-      templates: templatesList,
+      templates: configCrud.getTemplates(db),
     };
   }
 
@@ -432,4 +450,107 @@ export class MessageHandler {
       return { hasPending: false, pendingCount: 0, error: String(error) };
     }
   }
+
+  /**
+   * Handle LIST_ENTRY_CONFLICTS message (entries edited on two devices)
+   */
+  private async handleListEntryConflicts(): Promise<unknown> {
+    this.ctx.debug.log('message', 'LIST_ENTRY_CONFLICTS');
+
+    const db = this.dbManager.getDatabase();
+    if (!db) {
+      return { conflicts: [] };
+    }
+    return { conflicts: conflictsCrud.listConflicts(db) };
+  }
+
+  /**
+   * Handle RESOLVE_ENTRY_CONFLICT message (save the merged content)
+   */
+  private async handleResolveEntryConflict(date: string, content: string): Promise<unknown> {
+    this.ctx.debug.log('message', `RESOLVE_ENTRY_CONFLICT: ${date}`);
+
+    await this.syncOrchestrator.resolveEntryConflict(date, content);
+    return { success: true };
+  }
+
+  /**
+   * Handle IMPORT_JOURNAL message (restore a journal backup archive).
+   * Written locally first, then queued for sync when logged in.
+   */
+  private async handleImportJournal(
+    archive: JournalArchive,
+    strategy: ImportStrategy,
+    dryRun: boolean
+  ): Promise<unknown> {
+    this.ctx.debug.log(
+      'message',
+      `IMPORT_JOURNAL: ${archive.entries.length} entries, strategy=${strategy}, dryRun=${dryRun}`
+    );
+
+    const db = await this.dbManager.ensureInitialized();
+    if (dryRun) {
+      return { preview: importCrud.previewImport(db, archive, strategy) };
+    }
+
+    const result = importCrud.applyImport(db, archive, strategy);
+
+    if (this.sessionManager.getUserId()) {
+      for (const entry of result.entries) {
+        pendingCrud.addPendingOperation(db, { type: 'upsert', date: entry.date, content: entry.content });
+      }
+      for (const template of result.templates) {
+        pendingCrud.addPendingOperation(db, {
+          type: 'template',
+          date: '',
+          payload: JSON.stringify({ action: 'create', ...template }),
+        });
+      }
+      for (const skipDay of result.skipDays) {
+        pendingCrud.addPendingOperation(db, {
+          type: 'skip_day',
+          date: '',
+          payload: JSON.stringify({ action: 'add', ...skipDay }),
+        });
+      }
+    }
+    await this.dbManager.persist();
+
+    // Pushes the queue in one batch when online; otherwise it waits for the next sync
+    await this.syncOrchestrator.processPendingOperations();
+
+    return { preview: result.preview };
+  }
+
+  /**
+   * Handle GET_STALE_EMBEDDINGS message (entries to embed before asking)
+   */
+  private async handleGetStaleEmbeddings(model: string): Promise<unknown> {
+    this.ctx.debug.log('message', `GET_STALE_EMBEDDINGS: ${model}`);
+
+    const db = await this.dbManager.ensureInitialized();
+    return embeddingsCrud.getStaleEmbeddings(db, model);
+  }
+
+  /**
+   * Handle SAVE_EMBEDDINGS message (local-only, never synced)
+   */
+  private async handleSaveEmbeddings(model: string, embeddings: EntryEmbedding[]): Promise<unknown> {
+    this.ctx.debug.log('message', `SAVE_EMBEDDINGS: ${embeddings.length} for ${model}`);
+
+    const db = await this.dbManager.ensureInitialized();
+    embeddingsCrud.saveEmbeddings(db, model, embeddings);
+    await this.dbManager.persist();
+    return { success: true };
+  }
+
+  /**
+   * Handle SEARCH_EMBEDDINGS message
+   */
+  private async handleSearchEmbeddings(model: string, vector: number[], limit?: number): Promise<unknown> {
+    this.ctx.debug.log('message', `SEARCH_EMBEDDINGS: ${model}`);
+
+    const db = await this.dbManager.ensureInitialized();
+    return { matches: embeddingsCrud.searchEmbeddings(db, model, vector, limit) };
+  }
 }
@@ -8,6 +8,8 @@
  * - Background sync triggering
  */
 
+import type { SaveSummaryInput, SkipDayType, SummaryKeyInput, TemplateRule } from '@til-stack/shared';
+import { icsSourceName, icsToSkipDays, parseIcs } from '@til-stack/shared';
 import type { ServiceWorkerContext, Database } from '../types';
 import type { DatabaseManager } from '../database';
 import type { SyncOrchestrator } from '../sync/orchestrator';
@@ -16,6 +18,8 @@ import * as configCrud from '../crud/config';
 import * as pendingCrud from '../crud/pending';
 import * as preferencesCrud from '../crud/preferences';
 import * as webhooksCrud from '../crud/webhooks';
+import * as tagsCrud from '../crud/tags';
+import * as summariesCrud from '../crud/summaries';
 
 // ====== Types ======
 
@@ -74,6 +78,10 @@ export class RequestHandler {
         return this.handleConfig(db, method, input);
       case 'webhooks':
         return this.handleWebhooks(db, method, input);
+      case 'tags':
+        return this.handleTags(db, method);
+      case 'summaries':
+        return this.handleSummaries(db, method, input);
       case 'auth':
         // In local-first mode, return null for auth.me (same as server when not logged in)
         return null;
@@ -111,6 +119,37 @@ export class RequestHandler {
         return entriesCrud.getMonthlySummary(db, params);
       }
 
+      case 'getYearlySummary': {
+        const params = input as entriesCrud.YearlySummaryParams;
+        return entriesCrud.getYearlySummary(db, params);
+      }
+
+      case 'getStats': {
+        const params = input as entriesCrud.EntryStatsParams;
+        return entriesCrud.getEntryStats(db, params);
+      }
+
+      case 'restoreRevision': {
+        const { id } = input as { id: string };
+        if (!this.config.getCurrentUserId()) {
+          throw new Error('Revision history requires login. Please sign in to use this feature.');
+        }
+        if (!this.config.getOnlineStatus()) {
+          throw new Error('Restoring a revision requires a network connection.');
+        }
+        return this.syncOrchestrator.restoreRevision(id);
+      }
+
+      case 'listByTag': {
+        const params = input as tagsCrud.ListByTagParams;
+        return tagsCrud.listEntriesByTag(db, params);
+      }
+
+      case 'search': {
+        const params = input as entriesCrud.SearchEntriesParams;
+        return entriesCrud.searchEntries(db, params);
+      }
+
       case 'upsert': {
         const { date, content } = input as { date: string; content: string };
         const entry = entriesCrud.upsertEntry(db, { date, content });
@@ -203,8 +242,9 @@ export class RequestHandler {
         return configCrud.getTemplates(db);
       }
 
-      case 'getDefaultTemplate': {
-        return configCrud.getDefaultTemplate(db);
+      case 'getTemplateForDate': {
+        const { date } = input as { date: string };
+        return configCrud.getTemplateForDate(db, date);
       }
 
       case 'addSkipWeekday': {
@@ -223,15 +263,30 @@ export class RequestHandler {
       }
 
       case 'addSkipDate': {
-        const { date } = input as { date: string };
-        const skipDay = configCrud.addSkipDate(db, date);
+        const { date, endDate } = input as { date: string; endDate?: string };
+        const skipDay = configCrud.addSkipDate(db, date, endDate);
+        await this.dbManager.persist();
+
+        // Sync to server if logged in
+        await this.syncSkipDayOperation(db, {
+          action: 'add',
+          type: skipDay.type,
+          value: skipDay.value,
+        });
+
+        return skipDay;
+      }
+
+      case 'addSkipRecurrence': {
+        const { rule } = input as { rule: string };
+        const skipDay = configCrud.addSkipRecurrence(db, rule);
         await this.dbManager.persist();
 
         // Sync to server if logged in
         await this.syncSkipDayOperation(db, {
           action: 'add',
-          type: 'specific_date',
-          value: date,
+          type: 'rrule',
+          value: rule,
         });
 
         return skipDay;
@@ -248,6 +303,7 @@ export class RequestHandler {
             action: 'remove',
             type: removed.type,
             value: removed.value,
+            source: removed.source,
             id,
           });
         }
@@ -255,9 +311,36 @@ export class RequestHandler {
         return { success: true };
       }
 
+      case 'importSkipDaysIcs': {
+        const { ics, source: name } = input as { ics: string; source?: string };
+        const calendar = parseIcs(ics);
+        if (calendar.events.length === 0) {
+          throw new Error('No events found in calendar');
+        }
+
+        const source = icsSourceName(name, calendar);
+        const skipDays = icsToSkipDays(calendar);
+        const added = configCrud.importSkipDays(db, source, skipDays);
+        await this.dbManager.persist();
+
+        await this.queueSkipDayOperations(db, 'add', added);
+
+        return { source, events: calendar.events.length, skipDays: skipDays.length };
+      }
+
+      case 'removeSkipDaySource': {
+        const { source } = input as { source: string };
+        const removed = configCrud.removeSkipDaySource(db, source);
+        await this.dbManager.persist();
+
+        await this.queueSkipDayOperations(db, 'remove', removed);
+
+        return { success: true };
+      }
+
       case 'createTemplate': {
-        const { name, content } = input as { name: string; content: string };
-        const template = configCrud.createTemplate(db, { name, content });
+        const { name, content, rules } = input as { name: string; content: string; rules?: TemplateRule[] };
+        const template = configCrud.createTemplate(db, { name, content, rules });
         await this.dbManager.persist();
 
         // Sync to server if logged in
@@ -265,14 +348,20 @@ export class RequestHandler {
           action: 'create',
           name,
           content,
+          rules,
         });
 
         return template;
       }
 
       case 'updateTemplate': {
-        const { id, name, content } = input as { id: string; name?: string; content?: string };
-        const template = configCrud.updateTemplate(db, id, { name, content });
+        const { id, name, content, rules } = input as {
+          id: string;
+          name?: string;
+          content?: string;
+          rules?: TemplateRule[];
+        };
+        const template = configCrud.updateTemplate(db, id, { name, content, rules });
         await this.dbManager.persist();
 
         // Sync to server if logged in
@@ -281,6 +370,7 @@ export class RequestHandler {
           id,
           name,
           content,
+          rules,
         });
 
         return template;
@@ -300,20 +390,6 @@ export class RequestHandler {
         return { success: true };
       }
 
-      case 'setDefaultTemplate': {
-        const { id } = input as { id: string | null };
-        configCrud.setDefaultTemplate(db, id);
-        await this.dbManager.persist();
-
-        // Sync to server if logged in
-        await this.syncTemplateOperation(db, {
-          action: 'setDefault',
-          id,
-        });
-
-        return { success: true };
-      }
-
       case 'getPreferences': {
         const userId = this.config.getCurrentUserId();
         return preferencesCrud.getPreferences(db, userId);
@@ -338,6 +414,62 @@ export class RequestHandler {
     }
   }
 
+  // ====== Tags Handler ======
+
+  private handleTags(db: Database, method: string): unknown {
+    switch (method) {
+      case 'list':
+        return tagsCrud.listTags(db);
+
+      default:
+        return { error: `Unknown method: ${method}` };
+    }
+  }
+
+  // ====== Summaries Handler ======
+
+  private async handleSummaries(db: Database, method: string, input: unknown): Promise<unknown> {
+    switch (method) {
+      case 'get':
+        return summariesCrud.getSummary(db, input as SummaryKeyInput);
+
+      case 'save': {
+        const params = input as SaveSummaryInput;
+        const summary = summariesCrud.saveSummary(db, params);
+        await this.dbManager.persist();
+
+        // Queue for sync with the generation time, so another device's newer summary wins
+        if (this.config.getCurrentUserId()) {
+          pendingCrud.addPendingOperation(db, {
+            type: 'summary',
+            date: '',
+            payload: JSON.stringify({
+              periodType: summary.periodType,
+              periodStart: summary.periodStart,
+              backend: summary.backend,
+              promptHash: summary.promptHash,
+              content: summary.content,
+              generatedAt: summary.generatedAt,
+            }),
+          });
+          await this.dbManager.persist();
+          if (this.config.getOnlineStatus()) {
+            this.syncOrchestrator.processPendingOperations().catch((err) => {
+              this.ctx.debug.log('request', 'Background summary push failed:', err);
+            });
+          } else {
+            await this.config.registerBackgroundSync();
+          }
+        }
+
+        return summary;
+      }
+
+      default:
+        throw new Error(`Unknown summaries method: ${method}`);
+    }
+  }
+
   // ====== Webhooks Handler ======
 
   private async handleWebhooks(db: Database, method: string, input: unknown): Promise<unknown> {
@@ -397,8 +529,9 @@ export class RequestHandler {
     db: Database,
     payload: {
       action: 'add' | 'remove';
-      type: 'weekday' | 'specific_date';
+      type: SkipDayType;
       value: string;
+      source?: string | null;
       id?: string;
     }
   ): Promise<void> {
@@ -427,16 +560,46 @@ export class RequestHandler {
     }
   }
 
+  /**
+   * Queue many skip day operations (a calendar import or removal) and push
+   * them in one batch when online
+   */
+  private async queueSkipDayOperations(
+    db: Database,
+    action: 'add' | 'remove',
+    skipDays: { type: SkipDayType; value: string; source: string | null }[]
+  ): Promise<void> {
+    if (!this.config.getCurrentUserId() || skipDays.length === 0) return;
+
+    for (const { type, value, source } of skipDays) {
+      pendingCrud.addPendingOperation(db, {
+        type: 'skip_day',
+        date: '',
+        payload: JSON.stringify({ action, type, value, source }),
+      });
+    }
+    await this.dbManager.persist();
+
+    if (this.config.getOnlineStatus()) {
+      this.syncOrchestrator.processPendingOperations().catch((err) => {
+        this.ctx.debug.log('request', 'Background skip day push failed:', err);
+      });
+    } else {
+      await this.config.registerBackgroundSync();
+    }
+  }
+
   /**
    * Sync template operation to server (or queue if offline)
    */
   private async syncTemplateOperation(
     db: Database,
     payload: {
-      action: 'create' | 'update' | 'delete' | 'setDefault';
-      id?: string | null;
+      action: 'create' | 'update' | 'delete';
+      id?: string;
       name?: string;
       content?: string;
+      rules?: TemplateRule[];
     }
   ): Promise<void> {
     const userId = this.config.getCurrentUserId();
@@ -5,6 +5,7 @@
  * Handles entries, skip days, and templates sync with the backend.
  */
 
+import type { SkipDayType, TemplateRule } from '@til-stack/shared';
 import type { ServiceWorkerContext } from '../types';
 
 // ====== SERVER TYPES ======
@@ -21,22 +22,43 @@ export interface ServerEntry {
 
 export interface ServerSkipDay {
   id: string;
-  type: 'weekday' | 'specific_date';
+  type: SkipDayType;
   value: string;
   userId: string | null;
   createdAt: string;
+  source: string | null;
 }
 
 export interface ServerTemplate {
   id: string;
   name: string;
   content: string;
-  isDefault: boolean;
+  rules: TemplateRule[];
   userId: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
+// ====== HELPERS ======
+
+/**
+ * Server procedure and input that add a skip day of the given type
+ */
+export function skipDayAddRequest(type: SkipDayType, value: string): { procedure: string; input: unknown } {
+  switch (type) {
+    case 'weekday':
+      return { procedure: 'config.addSkipWeekday', input: { weekday: parseInt(value) } };
+    case 'specific_date':
+      return { procedure: 'config.addSkipDate', input: { date: value } };
+    case 'date_range': {
+      const [date, endDate] = value.split('/');
+      return { procedure: 'config.addSkipDate', input: { date, endDate } };
+    }
+    case 'rrule':
+      return { procedure: 'config.addSkipRecurrence', input: { rule: value } };
+  }
+}
+
 // ====== SYNC API CLIENT ======
 
 export class SyncApiClient {
@@ -175,14 +197,15 @@ export class SyncApiClient {
       const data = await response.json();
       const result = data.result?.data;
 
-      // Server returns { weekdays: number[], specificDates: string[], raw: [] }
+      // Server returns the rules grouped by type plus the rows as `raw`
       const raw = result?.raw || [];
       return raw.map((item: Record<string, unknown>) => ({
         id: item.id as string,
-        type: item.type as 'weekday' | 'specific_date',
+        type: item.type as SkipDayType,
         value: item.value as string,
         userId: (item.userId as string) ?? null,
         createdAt: item.createdAt as string,
+        source: (item.source as string) ?? null,
       }));
     } catch (error) {
       console.error('[SyncApiClient] Failed to fetch server skip days:', error);
@@ -195,16 +218,13 @@ export class SyncApiClient {
    */
   async pushSkipDay(skipDay: {
     action: 'add' | 'remove';
-    type: 'weekday' | 'specific_date';
+    type: SkipDayType;
     value: string;
     id?: string;
   }): Promise<void> {
     try {
       if (skipDay.action === 'add') {
-        const procedure = skipDay.type === 'weekday' ? 'config.addSkipWeekday' : 'config.addSkipDate';
-        const input = skipDay.type === 'weekday'
-          ? { weekday: parseInt(skipDay.value) }
-          : { date: skipDay.value };
+        const { procedure, input } = skipDayAddRequest(skipDay.type, skipDay.value);
 
         const response = await fetch(`${this.API_URL}/trpc/${procedure}`, {
           method: 'POST',
@@ -278,7 +298,7 @@ export class SyncApiClient {
         id: item.id as string,
         name: item.name as string,
         content: item.content as string,
-        isDefault: Boolean(item.isDefault),
+        rules: Array.isArray(item.rules) ? (item.rules as TemplateRule[]) : [],
         userId: (item.userId as string) ?? null,
         createdAt: item.createdAt as string,
         updatedAt: item.updatedAt as string,
@@ -290,13 +310,14 @@ export class SyncApiClient {
   }
 
   /**
-   * Push template to server (create, update, delete, or set default)
+   * Push template to server (create, update, or delete)
    */
   async pushTemplate(template: {
-    action: 'create' | 'update' | 'delete' | 'setDefault';
-    id?: string | null;
+    action: 'create' | 'update' | 'delete';
+    id?: string;
     name?: string;
     content?: string;
+    rules?: TemplateRule[];
   }): Promise<void> {
     try {
       let procedure: string;
@@ -305,20 +326,16 @@ export class SyncApiClient {
       switch (template.action) {
         case 'create':
           procedure = 'config.createTemplate';
-          input = { name: template.name, content: template.content };
+          input = { name: template.name, content: template.content, rules: template.rules };
           break;
         case 'update':
           procedure = 'config.updateTemplate';
-          input = { id: template.id, name: template.name, content: template.content };
+          input = { id: template.id, name: template.name, content: template.content, rules: template.rules };
           break;
         case 'delete':
           procedure = 'config.deleteTemplate';
           input = { id: template.id };
           break;
-        case 'setDefault':
-          procedure = 'config.setDefaultTemplate';
-          input = { id: template.id ?? null };
-          break;
         default:
           throw new Error(`Unknown template action: ${template.action}`);
       }
@@ -360,25 +377,4 @@ export class SyncApiClient {
       throw error;
     }
   }
-
-  /**
-   * Set default template on server
-   */
-  async setDefaultTemplate(id: string | null): Promise<void> {
-    try {
-      const response = await fetch(`${this.API_URL}/trpc/config.setDefaultTemplate`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        credentials: 'include',
-        body: JSON.stringify({ id }),
-      });
-
-      if (!response.ok) {
-        throw new Error(`Server returned ${response.status}`);
-      }
-    } catch (error) {
-      console.error('[SyncApiClient] Failed to set default template:', error);
-      throw error;
-    }
-  }
 }
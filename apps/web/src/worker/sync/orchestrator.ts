@@ -3,10 +3,10 @@
  *
  * Responsibilities:
  * - Full sync (pull from server, process pending operations)
- * - Pull from server (entries, skip days, templates)
+ * - Pull from server (entries, skip days, templates, summaries)
  * - Push pending operations to server
  * - Handle login/logout sync transitions
- * - Conflict resolution (last-write-wins)
+ * - Conflict detection (unpushed local edit vs. newer server version)
  *
  * Sync strategy (Last-Push-Wins):
  * 1. Pull from server first to get latest state
@@ -22,16 +22,32 @@ import type {
   SyncTemplate,
   SyncPreferences,
   SyncWebhook,
+  SyncChanges,
   Database,
   FullSyncResult,
+  PendingOperation,
   PendingOperationsResult,
   UserLoginResult,
 } from '../types';
+import {
+  MAX_PUSH_BATCH_SIZE,
+  type PushOperation,
+  type PushOperationResult,
+  type EntryConflictVersion,
+  type Summary,
+  type SkipDayType,
+  type TemplateRule,
+} from '@til-stack/shared';
 import type { DatabaseManager } from '../database';
+import { skipDayAddRequest } from './client';
 import * as entriesCrud from '../crud/entries';
 import * as configCrud from '../crud/config';
 import * as pendingCrud from '../crud/pending';
 import * as preferencesCrud from '../crud/preferences';
+import * as tagsCrud from '../crud/tags';
+import * as syncStateCrud from '../crud/sync-state';
+import * as conflictsCrud from '../crud/conflicts';
+import * as summariesCrud from '../crud/summaries';
 
 // ====== Types ======
 
@@ -48,8 +64,8 @@ export interface SyncApiClientInterface {
   fetchTemplates(): Promise<SyncTemplate[]>;
   pushEntry(entry: { date: string; content: string }): Promise<SyncEntry>;
   deleteEntry(date: string): Promise<void>;
-  pushSkipDay(skipDay: { action: 'add' | 'remove'; type: 'weekday' | 'specific_date'; value: string; id?: string }): Promise<void>;
-  pushTemplate(template: { action: 'create' | 'update' | 'delete' | 'setDefault'; id?: string | null; name?: string; content?: string }): Promise<void>;
+  pushSkipDay(skipDay: { action: 'add' | 'remove'; type: SkipDayType; value: string; id?: string }): Promise<void>;
+  pushTemplate(template: { action: 'create' | 'update' | 'delete'; id?: string; name?: string; content?: string; rules?: TemplateRule[] }): Promise<void>;
 }
 
 // ====== SyncOrchestrator Implementation ======
@@ -202,8 +218,9 @@ export class SyncOrchestrator {
   // ====== Pull from Server ======
 
   /**
-   * Pull all data from server and merge with local database
-   * Uses last-write-wins conflict resolution
+   * Pull data changed on the server since the last pull and merge it locally.
+   * Watermarks are persisted per user and collection; without one, the server
+   * returns everything (full sync). Uses last-write-wins conflict resolution.
    */
   async pullFromServer(): Promise<number> {
     if (!this.isOnline) {
@@ -216,37 +233,58 @@ export class SyncOrchestrator {
       throw new Error('Database not initialized');
     }
 
-    this.ctx.debug.log('sync', `Pulling from server... currentUserId=${this.currentUserId}`);
+    const userId = this.currentUserId;
+    this.ctx.debug.log('sync', `Pulling from server... currentUserId=${userId}`);
 
     try {
       // Pull entries (including tombstones for deletion sync)
-      const serverEntries = await this.fetchServerEntries();
+      const entriesSince = syncStateCrud.getWatermark(db, 'entries', userId);
+      const entryChanges = await this.fetchEntryChanges(entriesSince);
+      const serverEntries = entryChanges.items;
       const activeEntries = serverEntries.filter(e => !e.deletedAt);
       const deletedEntries = serverEntries.filter(e => e.deletedAt);
-      this.ctx.debug.log('sync', `Got ${serverEntries.length} entries from server (${activeEntries.length} active, ${deletedEntries.length} deleted)`);
+      this.ctx.debug.log('sync', `Got ${serverEntries.length} changed entries since ${entriesSince ?? 'beginning'} (${activeEntries.length} active, ${deletedEntries.length} deleted)`);
 
       for (const entry of serverEntries) {
         this.updateLocalEntry(db, entry);
       }
+      syncStateCrud.setWatermark(db, 'entries', userId, entryChanges.watermark);
 
       // Pull skip days
       try {
-        const serverSkipDays = await this.fetchServerSkipDays();
-        this.ctx.debug.log('sync', `Got ${serverSkipDays.length} skip days from server`);
-        this.updateLocalSkipDays(db, serverSkipDays);
+        const since = syncStateCrud.getWatermark(db, 'skip_days', userId);
+        const changes = await this.fetchSkipDayChanges(since);
+        this.ctx.debug.log('sync', `Got ${changes.items.length} changed skip days from server`);
+        this.updateLocalSkipDays(db, changes);
+        syncStateCrud.setWatermark(db, 'skip_days', userId, changes.watermark);
       } catch (error) {
         this.ctx.debug.log('sync', 'Failed to pull skip days:', error);
       }
 
       // Pull templates
       try {
-        const serverTemplates = await this.fetchServerTemplates();
-        this.ctx.debug.log('sync', `Got ${serverTemplates.length} templates from server`);
-        this.updateLocalTemplates(db, serverTemplates);
+        const since = syncStateCrud.getWatermark(db, 'templates', userId);
+        const changes = await this.fetchTemplateChanges(since);
+        this.ctx.debug.log('sync', `Got ${changes.items.length} changed templates from server`);
+        this.updateLocalTemplates(db, changes);
+        syncStateCrud.setWatermark(db, 'templates', userId, changes.watermark);
       } catch (error) {
         this.ctx.debug.log('sync', 'Failed to pull templates:', error);
       }
 
+      // Pull AI summaries (a newer local summary for the same key is kept)
+      try {
+        const since = syncStateCrud.getWatermark(db, 'summaries', userId);
+        const changes = await this.fetchSummaryChanges(since);
+        this.ctx.debug.log('sync', `Got ${changes.items.length} changed summaries from server`);
+        for (const summary of changes.items) {
+          summariesCrud.saveSummary(db, summary);
+        }
+        syncStateCrud.setWatermark(db, 'summaries', userId, changes.watermark);
+      } catch (error) {
+        this.ctx.debug.log('sync', 'Failed to pull summaries:', error);
+      }
+
       // Pull preferences
       try {
         const serverPreferences = await this.fetchServerPreferences();
@@ -259,11 +297,13 @@ export class SyncOrchestrator {
       }
 
       // Pull webhooks (only for logged-in users, server is authoritative)
-      if (this.currentUserId) {
+      if (userId) {
         try {
-          const serverWebhooks = await this.fetchServerWebhooks();
-          this.ctx.debug.log('sync', `Got ${serverWebhooks.length} webhooks from server`);
-          this.updateLocalWebhooks(db, serverWebhooks);
+          const since = syncStateCrud.getWatermark(db, 'webhooks', userId);
+          const changes = await this.fetchWebhookChanges(since);
+          this.ctx.debug.log('sync', `Got ${changes.items.length} changed webhooks from server`);
+          this.updateLocalWebhooks(db, changes);
+          syncStateCrud.setWatermark(db, 'webhooks', userId, changes.watermark);
         } catch (error) {
           this.ctx.debug.log('sync', 'Failed to pull webhooks:', error);
         }
@@ -307,16 +347,18 @@ export class SyncOrchestrator {
         pushed++;
       }
 
-      // Push skip days (server is idempotent - returns existing if duplicate)
+      // Push skip days in batches (server is idempotent - keeps existing if duplicate);
+      // imported calendars can hold hundreds
       try {
         const skipDays = configCrud.getSkipDays(db);
         this.ctx.debug.log('sync', `Pushing ${skipDays.raw.length} skip days`);
-        for (const skipDay of skipDays.raw) {
-          await this.pushSkipDayToServer({
-            action: 'add',
-            type: skipDay.type,
-            value: skipDay.value,
-          });
+        const operations: PushOperation[] = skipDays.raw.map((skipDay) => ({
+          opId: skipDay.id,
+          kind: 'skipDay.add',
+          input: { type: skipDay.type, value: skipDay.value, source: skipDay.source },
+        }));
+        for (let i = 0; i < operations.length; i += MAX_PUSH_BATCH_SIZE) {
+          await this.pushBatchToServer(operations.slice(i, i + MAX_PUSH_BATCH_SIZE));
         }
       } catch (error) {
         this.ctx.debug.log('sync', 'Failed to push skip days:', error);
@@ -331,6 +373,7 @@ export class SyncOrchestrator {
             action: 'create',
             name: template.name,
             content: template.content,
+            rules: template.rules,
           });
         }
       } catch (error) {
@@ -386,27 +429,63 @@ export class SyncOrchestrator {
 
     let synced = 0;
     let failed = 0;
+    let cleared = 0;
 
     const pending = pendingCrud.getPendingOperations(db);
     this.ctx.debug.log('sync', `Processing ${pending.length} pending operations`);
 
+    // Entry, skip day and template operations go to the server in one
+    // transactional batch per chunk; webhooks are still replayed one by one
+    const batch: PushOperation[] = [];
+    const webhookOps: PendingOperation[] = [];
+    const pendingById = new Map(pending.map((op) => [op.id, op]));
     for (const op of pending) {
+      const baseUpdatedAt =
+        op.type === 'upsert' ? syncStateCrud.getEntryBase(db, op.date) : undefined;
+      const pushOp = pendingCrud.toPushOperation(op, baseUpdatedAt);
+      if (pushOp) {
+        batch.push(pushOp);
+      } else if (op.type === 'webhook' && op.payload) {
+        webhookOps.push(op);
+      }
+    }
+
+    for (let i = 0; i < batch.length; i += MAX_PUSH_BATCH_SIZE) {
+      const chunk = batch.slice(i, i + MAX_PUSH_BATCH_SIZE);
       try {
-        if (op.type === 'upsert' && op.content !== undefined) {
-          await this.pushEntryToServer({ date: op.date, content: op.content });
-        } else if (op.type === 'delete') {
-          await this.deleteEntryOnServer(op.date);
-        } else if (op.type === 'skip_day' && op.payload) {
-          const payload = JSON.parse(op.payload);
-          await this.pushSkipDayToServer(payload);
-        } else if (op.type === 'template' && op.payload) {
-          const payload = JSON.parse(op.payload);
-          await this.pushTemplateToServer(payload);
-        } else if (op.type === 'webhook' && op.payload) {
-          const payload = JSON.parse(op.payload);
-          await this.pushWebhookToServer(payload);
+        const results = await this.pushBatchToServer(chunk);
+        for (const result of results) {
+          const op = pendingById.get(result.opId);
+          if (result.status === 'applied') {
+            if (op?.type === 'upsert' && result.updatedAt) {
+              syncStateCrud.setEntryBase(db, op.date, result.updatedAt);
+            }
+            synced++;
+          } else if (op?.type === 'upsert' && result.current) {
+            // Edited on another device since our base version - keep both for merging
+            this.recordEntryConflict(db, op.date, op.content ?? '', result.current);
+            failed++;
+          } else {
+            // Conflicting or invalid operations can never succeed, so drop them
+            this.ctx.debug.log('sync', `Dropping op ${result.opId} (${result.status}):`, result.error);
+            failed++;
+          }
+          pendingCrud.clearPendingOperation(db, result.opId);
+          cleared++;
         }
+      } catch (error) {
+        // Nothing was applied - keep the whole chunk (and the rest) for retry
+        this.ctx.debug.log('sync', 'Failed to push pending batch:', error);
+        failed += batch.length - i;
+        break;
+      }
+    }
+
+    for (const op of webhookOps) {
+      try {
+        await this.pushWebhookToServer(JSON.parse(op.payload!));
         pendingCrud.clearPendingOperation(db, op.id);
+        cleared++;
         synced++;
       } catch (error) {
         this.ctx.debug.log('sync', `Failed to sync op ${op.id}:`, error);
@@ -415,7 +494,7 @@ export class SyncOrchestrator {
       }
     }
 
-    if (synced > 0) {
+    if (cleared > 0) {
       await this.dbManager.persist();
     }
 
@@ -425,28 +504,39 @@ export class SyncOrchestrator {
   // ====== Server API Functions ======
 
   /**
-   * Fetch all entries from server using cursor-based pagination
+   * Fetch rows changed since a watermark from a `changesSince` procedure
+   * (since = null returns everything)
    */
-  private async fetchServerEntries(): Promise<SyncEntry[]> {
-    const allEntries: SyncEntry[] = [];
-    let cursor: string | undefined;
-    const PAGE_SIZE = 50;
-
-    do {
-      const input = { limit: PAGE_SIZE, includeDeleted: true, cursor };
-      const response = await fetch(
-        `${this.apiUrl}/trpc/entries.list?input=${encodeURIComponent(JSON.stringify(input))}`,
-        { credentials: 'include' }
-      );
+  private async fetchChanges(
+    procedure: string,
+    since: string | null
+  ): Promise<SyncChanges<Record<string, unknown>>> {
+    const input = since ? { since } : {};
+    const response = await fetch(
+      `${this.apiUrl}/trpc/${procedure}?input=${encodeURIComponent(JSON.stringify(input))}`,
+      { credentials: 'include' }
+    );
 
-      if (!response.ok) {
-        throw new Error(`Server returned ${response.status}`);
-      }
+    if (!response.ok) {
+      throw new Error(`Server returned ${response.status}`);
+    }
 
-      const data = await response.json();
-      const { items, nextCursor } = data.result?.data || { items: [], nextCursor: undefined };
+    const data = await response.json();
+    const result = data.result?.data;
+    if (!result?.watermark) {
+      throw new Error(`Invalid ${procedure} response`);
+    }
+    return { items: result.items ?? [], ids: result.ids, watermark: result.watermark };
+  }
 
-      const entries = items.map((item: Record<string, unknown>) => ({
+  /**
+   * Fetch entries (including tombstones) changed on the server since a watermark
+   */
+  private async fetchEntryChanges(since: string | null): Promise<SyncChanges<SyncEntry>> {
+    const changes = await this.fetchChanges('entries.changesSince', since);
+    return {
+      ...changes,
+      items: changes.items.map((item) => ({
         id: item.id as string,
         date: item.date as string,
         content: item.content as string,
@@ -454,66 +544,66 @@ export class SyncOrchestrator {
         createdAt: item.createdAt as string,
         updatedAt: item.updatedAt as string,
         deletedAt: (item.deletedAt as string) ?? null,
-      }));
-
-      allEntries.push(...entries);
-      cursor = nextCursor;
-
-      this.ctx.debug.log('sync', `Fetched ${entries.length} entries, total: ${allEntries.length}, hasMore: ${!!cursor}`);
-    } while (cursor);
-
-    return allEntries;
+      })),
+    };
   }
 
   /**
-   * Fetch skip days from server
+   * Fetch skip days added on the server since a watermark
    */
-  private async fetchServerSkipDays(): Promise<SyncSkipDay[]> {
-    const response = await fetch(`${this.apiUrl}/trpc/config.getSkipDays`, {
-      credentials: 'include',
-    });
-
-    if (!response.ok) {
-      throw new Error(`Server returned ${response.status}`);
-    }
-
-    const data = await response.json();
-    const result = data.result?.data;
-    const raw = result?.raw || [];
-
-    return raw.map((item: Record<string, unknown>) => ({
-      id: item.id as string,
-      type: item.type as 'weekday' | 'specific_date',
-      value: item.value as string,
-      userId: (item.userId as string) ?? null,
-      createdAt: item.createdAt as string,
-    }));
+  private async fetchSkipDayChanges(since: string | null): Promise<SyncChanges<SyncSkipDay>> {
+    const changes = await this.fetchChanges('config.skipDaysChangesSince', since);
+    return {
+      ...changes,
+      items: changes.items.map((item) => ({
+        id: item.id as string,
+        type: item.type as SkipDayType,
+        value: item.value as string,
+        userId: (item.userId as string) ?? null,
+        createdAt: item.createdAt as string,
+        source: (item.source as string) ?? null,
+      })),
+    };
   }
 
   /**
-   * Fetch templates from server
+   * Fetch templates changed on the server since a watermark
    */
-  private async fetchServerTemplates(): Promise<SyncTemplate[]> {
-    const response = await fetch(`${this.apiUrl}/trpc/config.getTemplates`, {
-      credentials: 'include',
-    });
-
-    if (!response.ok) {
-      throw new Error(`Server returned ${response.status}`);
-    }
-
-    const data = await response.json();
-    const items = data.result?.data || [];
+  private async fetchTemplateChanges(since: string | null): Promise<SyncChanges<SyncTemplate>> {
+    const changes = await this.fetchChanges('config.templatesChangesSince', since);
+    return {
+      ...changes,
+      items: changes.items.map((item) => ({
+        id: item.id as string,
+        name: item.name as string,
+        content: item.content as string,
+        rules: Array.isArray(item.rules) ? (item.rules as TemplateRule[]) : [],
+        userId: (item.userId as string) ?? null,
+        createdAt: item.createdAt as string,
+        updatedAt: item.updatedAt as string,
+      })),
+    };
+  }
 
-    return items.map((item: Record<string, unknown>) => ({
-      id: item.id as string,
-      name: item.name as string,
-      content: item.content as string,
-      isDefault: Boolean(item.isDefault),
-      userId: (item.userId as string) ?? null,
-      createdAt: item.createdAt as string,
-      updatedAt: item.updatedAt as string,
-    }));
+  /**
+   * Fetch AI summaries saved on the server since a watermark
+   */
+  private async fetchSummaryChanges(since: string | null): Promise<SyncChanges<Summary>> {
+    const changes = await this.fetchChanges('summaries.changesSince', since);
+    return {
+      ...changes,
+      items: changes.items.map((item) => ({
+        id: item.id as string,
+        periodType: item.periodType as Summary['periodType'],
+        periodStart: item.periodStart as string,
+        backend: item.backend as string,
+        promptHash: item.promptHash as string,
+        content: item.content as string,
+        generatedAt: item.generatedAt as string,
+        createdAt: item.createdAt as string,
+        updatedAt: item.updatedAt as string,
+      })),
+    };
   }
 
   /**
@@ -545,23 +635,58 @@ export class SyncOrchestrator {
     };
   }
 
+  /**
+   * Push a batch of queued operations; the server applies them in one transaction
+   */
+  private async pushBatchToServer(operations: PushOperation[]): Promise<PushOperationResult[]> {
+    const response = await fetch(`${this.apiUrl}/trpc/sync.pushBatch`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({ operations }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Server returned ${response.status}`);
+    }
+
+    const data = await response.json();
+    return data.result?.data?.results ?? [];
+  }
+
   /**
    * Push entry to server
    */
-  async pushEntryToServer(entry: { date: string; content: string }): Promise<SyncEntry> {
+  async pushEntryToServer(entry: { date: string; content: string }): Promise<SyncEntry | null> {
+    const db = this.dbManager.getDatabase();
+    const baseUpdatedAt = db ? syncStateCrud.getEntryBase(db, entry.date) : undefined;
+
     const response = await fetch(`${this.apiUrl}/trpc/entries.upsert`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       credentials: 'include',
-      body: JSON.stringify(entry),
+      body: JSON.stringify({ ...entry, baseUpdatedAt }),
     });
 
+    // The entry changed on the server since our base version
+    if (response.status === 409 && db) {
+      const current = await this.fetchServerEntry(entry.date);
+      if (current) {
+        this.recordEntryConflict(db, entry.date, entry.content, current);
+        await this.dbManager.persist();
+      }
+      return null;
+    }
+
     if (!response.ok) {
       throw new Error(`Server returned ${response.status}`);
     }
 
     const data = await response.json();
     const result = data.result?.data;
+    if (db) {
+      syncStateCrud.setEntryBase(db, result.date, result.updatedAt);
+    }
 
     return {
       id: result.id,
@@ -574,30 +699,91 @@ export class SyncOrchestrator {
   }
 
   /**
-   * Delete entry on server
+   * Fetch the server's current version of an entry (null if none)
+   */
+  private async fetchServerEntry(date: string): Promise<EntryConflictVersion | null> {
+    const response = await fetch(
+      `${this.apiUrl}/trpc/entries.getByDate?input=${encodeURIComponent(JSON.stringify({ date }))}`,
+      { credentials: 'include' }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Server returned ${response.status}`);
+    }
+
+    const data = await response.json();
+    const result = data.result?.data;
+    return result ? { content: result.content, updatedAt: result.updatedAt } : null;
+  }
+
+  /**
+   * Resolve a conflict with the merged content chosen by the user.
+   * The merge supersedes the server version the conflict was recorded against,
+   * so it is pushed with that version as its base.
+   */
+  async resolveEntryConflict(date: string, content: string): Promise<void> {
+    const db = this.dbManager.getDatabase();
+    if (!db) {
+      throw new Error('Database not initialized');
+    }
+
+    const conflict = conflictsCrud.getConflict(db, date);
+    if (!conflict) {
+      throw new Error('Conflict not found');
+    }
+
+    entriesCrud.upsertEntry(db, { date, content });
+    syncStateCrud.setEntryBase(db, date, conflict.serverUpdatedAt);
+    conflictsCrud.deleteConflict(db, date);
+    pendingCrud.addPendingOperation(db, { type: 'upsert', date, content });
+    await this.dbManager.persist();
+
+    await this.processPendingOperations();
+  }
+
+  /**
+   * Restore an entry revision on the server and apply the result locally
+   * (revision history only exists on the server)
    */
-  private async deleteEntryOnServer(date: string): Promise<void> {
-    const response = await fetch(`${this.apiUrl}/trpc/entries.delete`, {
+  async restoreRevision(revisionId: string): Promise<SyncEntry> {
+    const db = this.dbManager.getDatabase();
+    if (!db) {
+      throw new Error('Database not initialized');
+    }
+
+    const response = await fetch(`${this.apiUrl}/trpc/entries.restoreRevision`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       credentials: 'include',
-      body: JSON.stringify({ date }),
+      body: JSON.stringify({ id: revisionId }),
     });
 
     if (!response.ok) {
       throw new Error(`Server returned ${response.status}`);
     }
+
+    const data = await response.json();
+    const result = data.result?.data;
+    const entry: SyncEntry = {
+      id: result.id,
+      date: result.date,
+      content: result.content,
+      userId: result.userId ?? null,
+      createdAt: result.createdAt,
+      updatedAt: result.updatedAt,
+    };
+
+    this.updateLocalEntry(db, entry);
+    await this.dbManager.persist();
+    return entry;
   }
 
   /**
    * Push skip day to server
    */
-  async pushSkipDayToServer(skipDay: { action: 'add' | 'remove'; type: 'weekday' | 'specific_date'; value: string; id?: string }): Promise<void> {
+  async pushSkipDayToServer(skipDay: { action: 'add' | 'remove'; type: SkipDayType; value: string; id?: string }): Promise<void> {
     if (skipDay.action === 'add') {
-      const procedure = skipDay.type === 'weekday' ? 'config.addSkipWeekday' : 'config.addSkipDate';
-      const input = skipDay.type === 'weekday'
-        ? { weekday: parseInt(skipDay.value) }
-        : { date: skipDay.value };
+      const { procedure, input } = skipDayAddRequest(skipDay.type, skipDay.value);
 
       const response = await fetch(`${this.apiUrl}/trpc/${procedure}`, {
         method: 'POST',
@@ -628,27 +814,23 @@ export class SyncOrchestrator {
   /**
    * Push template to server
    */
-  async pushTemplateToServer(template: { action: 'create' | 'update' | 'delete' | 'setDefault'; id?: string | null; name?: string; content?: string }): Promise<void> {
+  async pushTemplateToServer(template: { action: 'create' | 'update' | 'delete'; id?: string; name?: string; content?: string; rules?: TemplateRule[] }): Promise<void> {
     let procedure: string;
     let input: Record<string, unknown>;
 
     switch (template.action) {
       case 'create':
         procedure = 'config.createTemplate';
-        input = { name: template.name, content: template.content };
+        input = { name: template.name, content: template.content, rules: template.rules };
         break;
       case 'update':
         procedure = 'config.updateTemplate';
-        input = { id: template.id, name: template.name, content: template.content };
+        input = { id: template.id, name: template.name, content: template.content, rules: template.rules };
         break;
       case 'delete':
         procedure = 'config.deleteTemplate';
         input = { id: template.id };
         break;
-      case 'setDefault':
-        procedure = 'config.setDefaultTemplate';
-        input = { id: template.id ?? null };
-        break;
       default:
         throw new Error(`Unknown template action: ${template.action}`);
     }
@@ -668,18 +850,11 @@ export class SyncOrchestrator {
   }
 
   /**
-   * Fetch webhooks from server
+   * Fetch webhooks changed on the server since a watermark
    */
-  private async fetchServerWebhooks(): Promise<SyncWebhook[]> {
-    const response = await fetch(`${this.apiUrl}/trpc/webhooks.list`, {
-      method: 'GET',
-      credentials: 'include',
-    });
-    if (!response.ok) {
-      throw new Error(`Failed to fetch webhooks: ${response.status}`);
-    }
-    const data = await response.json();
-    return data.result?.data ?? [];
+  private async fetchWebhookChanges(since: string | null): Promise<SyncChanges<SyncWebhook>> {
+    const changes = await this.fetchChanges('webhooks.changesSince', since);
+    return { ...changes, items: changes.items as unknown as SyncWebhook[] };
   }
 
   /**
@@ -701,10 +876,17 @@ export class SyncOrchestrator {
         body = {
           name: payload.webhook!.name,
           url: payload.webhook!.url,
+          type: payload.webhook!.type,
           message: payload.webhook!.message,
           time: payload.webhook!.time,
           days: payload.webhook!.days,
           timezone: payload.webhook!.timezone,
+          format: payload.webhook!.format,
+          onlyIfNoEntry: payload.webhook!.onlyIfNoEntry,
+          respectSkipDays: payload.webhook!.respectSkipDays,
+          events: payload.webhook!.events,
+          includeContent: payload.webhook!.includeContent,
+          digestWeek: payload.webhook!.digestWeek,
         };
         break;
       case 'update':
@@ -718,6 +900,13 @@ export class SyncOrchestrator {
           days: payload.webhook!.days,
           timezone: payload.webhook!.timezone,
           enabled: payload.webhook!.enabled,
+          format: payload.webhook!.format,
+          onlyIfNoEntry: payload.webhook!.onlyIfNoEntry,
+          respectSkipDays: payload.webhook!.respectSkipDays,
+          // An update can't clear the events, so reminders leave them out
+          ...(payload.webhook!.events.length > 0 && { events: payload.webhook!.events }),
+          includeContent: payload.webhook!.includeContent,
+          digestWeek: payload.webhook!.digestWeek,
         };
         break;
       case 'delete':
@@ -740,19 +929,39 @@ export class SyncOrchestrator {
    * Update local entry from server data (handles tombstones for deletion sync)
    */
   private updateLocalEntry(db: Database, entry: SyncEntry): void {
-    const existing = db.exec(`SELECT id FROM entries WHERE date = ?`, [entry.date]);
+    const existing = db.exec(`SELECT id, content FROM entries WHERE date = ?`, [entry.date]);
+    const local = existing[0]?.values[0];
 
     // If entry is deleted on server, delete locally
     if (entry.deletedAt) {
-      if (existing[0]?.values[0]) {
+      if (local) {
         db.run(`DELETE FROM entries WHERE date = ?`, [entry.date]);
         this.ctx.debug.log('sync', `Deleted local entry for ${entry.date} (tombstone from server)`);
       }
+      syncStateCrud.clearEntryBase(db, entry.date);
+      conflictsCrud.deleteConflict(db, entry.date);
+      return;
+    }
+
+    // Local edits not yet pushed (or awaiting a merge) must not be overwritten
+    const localContent = local?.[1] as string | undefined;
+    const pendingUpsert = pendingCrud.getPendingUpsert(db, entry.date);
+    const unresolved = conflictsCrud.getConflict(db, entry.date) !== null;
+    if (localContent !== undefined && localContent !== entry.content && (pendingUpsert || unresolved)) {
+      if (syncStateCrud.getEntryBase(db, entry.date) === entry.updatedAt) {
+        // Server still at our base version - the pending push will update it
+        return;
+      }
+      // Both sides changed since the last sync - keep both versions for merging
+      this.recordEntryConflict(db, entry.date, localContent, entry);
+      if (pendingUpsert) {
+        pendingCrud.clearPendingOperation(db, pendingUpsert.id);
+      }
       return;
     }
 
     // Normal upsert for non-deleted entries
-    if (existing[0]?.values[0]) {
+    if (local) {
       db.run(
         `UPDATE entries SET content = ?, updated_at = ?, user_id = ? WHERE date = ?`,
         [entry.content, entry.updatedAt, entry.userId, entry.date]
@@ -763,53 +972,72 @@ export class SyncOrchestrator {
         [entry.id, entry.date, entry.content, entry.userId, entry.createdAt, entry.updatedAt]
       );
     }
+    tagsCrud.setEntryTags(db, entry.date, entry.content);
+    syncStateCrud.setEntryBase(db, entry.date, entry.updatedAt);
   }
 
   /**
-   * Update local skip days from server data (server is source of truth)
+   * Store the server version next to the local entry until the user merges them
    */
-  private updateLocalSkipDays(db: Database, serverSkipDays: SyncSkipDay[]): void {
+  private recordEntryConflict(
+    db: Database,
+    date: string,
+    localContent: string,
+    server: EntryConflictVersion
+  ): void {
+    conflictsCrud.saveConflict(db, {
+      date,
+      localContent,
+      serverContent: server.content,
+      serverUpdatedAt: server.updatedAt,
+    });
+    this.ctx.debug.log('sync', `Conflict recorded for ${date} (server version ${server.updatedAt})`);
+  }
+
+  /**
+   * Apply skip day changes from server (server is source of truth)
+   */
+  private updateLocalSkipDays(db: Database, changes: SyncChanges<SyncSkipDay>): void {
     // Get current local skip days
-    const localResults = db.exec(`SELECT id, type, value FROM skip_days`);
+    const localResults = db.exec(`SELECT id, type, value, source FROM skip_days`);
     const localMap = new Map<string, { id: string; type: string; value: string }>();
     if (localResults[0]?.values) {
       for (const row of localResults[0].values) {
-        const key = `${row[1]}-${row[2]}`;
+        const key = `${row[1]}-${row[2]}-${row[3] ?? ''}`;
         localMap.set(key, { id: row[0] as string, type: row[1] as string, value: row[2] as string });
       }
     }
 
-    // Server skip days map
-    const serverMap = new Map<string, SyncSkipDay>();
-    for (const skipDay of serverSkipDays) {
-      const key = `${skipDay.type}-${skipDay.value}`;
-      serverMap.set(key, skipDay);
-    }
-
-    // Add/update from server
-    for (const [key, skipDay] of serverMap) {
+    // Add new skip days from server
+    for (const skipDay of changes.items) {
+      const key = `${skipDay.type}-${skipDay.value}-${skipDay.source ?? ''}`;
       const local = localMap.get(key);
       if (!local) {
         // Insert new skip day
         db.run(
-          `INSERT INTO skip_days (id, type, value, user_id, created_at) VALUES (?, ?, ?, ?, ?)`,
-          [skipDay.id, skipDay.type, skipDay.value, skipDay.userId, skipDay.createdAt]
+          `INSERT INTO skip_days (id, type, value, user_id, created_at, source) VALUES (?, ?, ?, ?, ?, ?)`,
+          [skipDay.id, skipDay.type, skipDay.value, skipDay.userId, skipDay.createdAt, skipDay.source]
         );
+      } else if (local.id !== skipDay.id) {
+        // Same skip day created locally - adopt the server id so later deltas match it
+        db.run(`UPDATE skip_days SET id = ? WHERE id = ?`, [skipDay.id, local.id]);
+        local.id = skipDay.id;
       }
     }
 
-    // Remove local skip days not on server
-    for (const [key, local] of localMap) {
-      if (!serverMap.has(key)) {
+    // Remove local skip days that no longer exist on server
+    const serverIds = new Set(changes.ids ?? []);
+    for (const local of localMap.values()) {
+      if (!serverIds.has(local.id)) {
         db.run(`DELETE FROM skip_days WHERE id = ?`, [local.id]);
       }
     }
   }
 
   /**
-   * Update local templates from server data (last-write-wins)
+   * Apply template changes from server (last-write-wins)
    */
-  private updateLocalTemplates(db: Database, serverTemplates: SyncTemplate[]): void {
+  private updateLocalTemplates(db: Database, changes: SyncChanges<SyncTemplate>): void {
     // Get current local templates
     const localResults = db.exec(`SELECT id, updated_at FROM templates`);
     const localMap = new Map<string, string>();
@@ -819,24 +1047,23 @@ export class SyncOrchestrator {
       }
     }
 
-    const serverIds = new Set<string>();
+    const serverIds = new Set(changes.ids ?? []);
 
     // Add/update from server (last-write-wins)
-    for (const template of serverTemplates) {
-      serverIds.add(template.id);
+    for (const template of changes.items) {
       const localUpdatedAt = localMap.get(template.id);
 
       if (!localUpdatedAt) {
         // Insert new template
         db.run(
-          `INSERT INTO templates (id, name, content, is_default, user_id, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?)`,
-          [template.id, template.name, template.content, template.isDefault ? 1 : 0, template.userId, template.createdAt, template.updatedAt]
+          `INSERT INTO templates (id, name, content, rules, user_id, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+          [template.id, template.name, template.content, JSON.stringify(template.rules), template.userId, template.createdAt, template.updatedAt]
         );
       } else if (new Date(template.updatedAt) >= new Date(localUpdatedAt)) {
         // Update existing template (server wins on tie)
         db.run(
-          `UPDATE templates SET name = ?, content = ?, is_default = ?, updated_at = ? WHERE id = ?`,
-          [template.name, template.content, template.isDefault ? 1 : 0, template.updatedAt, template.id]
+          `UPDATE templates SET name = ?, content = ?, rules = ?, updated_at = ? WHERE id = ?`,
+          [template.name, template.content, JSON.stringify(template.rules), template.updatedAt, template.id]
         );
       }
     }
@@ -886,31 +1113,43 @@ export class SyncOrchestrator {
   }
 
   /**
-   * Update local webhooks from server data (server is authoritative for webhooks)
+   * Apply webhook changes from server (server is authoritative for webhooks)
    */
-  private updateLocalWebhooks(db: Database, serverWebhooks: SyncWebhook[]): void {
-    // Clear existing webhooks for this user
-    db.run('DELETE FROM webhooks WHERE user_id = ?', [this.currentUserId]);
-
-    // Insert server webhooks
-    for (const webhook of serverWebhooks) {
+  private updateLocalWebhooks(db: Database, changes: SyncChanges<SyncWebhook>): void {
+    for (const webhook of changes.items) {
       db.run(
-        `INSERT INTO webhooks (id, name, url, message, time, days, timezone, enabled, user_id, created_at, updated_at)
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        `INSERT OR REPLACE INTO webhooks (id, name, url, type, message, time, days, timezone, enabled, format, only_if_no_entry, respect_skip_days, events, include_content, digest_week, user_id, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
         [
           webhook.id,
           webhook.name,
           webhook.url,
+          webhook.type,
           webhook.message,
           webhook.time,
           JSON.stringify(webhook.days),
           webhook.timezone,
           webhook.enabled ? 1 : 0,
+          webhook.format,
+          webhook.onlyIfNoEntry ? 1 : 0,
+          webhook.respectSkipDays ? 1 : 0,
+          JSON.stringify(webhook.events),
+          webhook.includeContent ? 1 : 0,
+          webhook.digestWeek,
           this.currentUserId,
           webhook.createdAt,
           webhook.updatedAt,
         ]
       );
     }
+
+    // Remove webhooks deleted on server
+    const serverIds = new Set(changes.ids ?? []);
+    const localResults = db.exec(`SELECT id FROM webhooks WHERE user_id = ?`, [this.currentUserId]);
+    for (const row of localResults[0]?.values ?? []) {
+      if (!serverIds.has(row[0] as string)) {
+        db.run(`DELETE FROM webhooks WHERE id = ?`, [row[0]]);
+      }
+    }
   }
 }
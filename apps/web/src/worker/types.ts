@@ -10,6 +10,8 @@
  * - Service worker context types
  */
 
+import type { EntryEmbedding, ImportStrategy, JournalArchive, SkipDayType, TemplateRule } from '@til-stack/shared';
+
 // ====== DATABASE TYPES ======
 
 /**
@@ -42,10 +44,11 @@ export interface SyncEntry {
  */
 export interface SyncSkipDay {
   id: string;
-  type: "weekday" | "specific_date";
+  type: SkipDayType;
   value: string;
   userId: string | null;
   createdAt: string;
+  source: string | null;
 }
 
 /**
@@ -55,7 +58,7 @@ export interface SyncTemplate {
   id: string;
   name: string;
   content: string;
-  isDefault: boolean;
+  rules: TemplateRule[];
   userId: string | null;
   createdAt: string;
   updatedAt: string;
@@ -80,16 +83,32 @@ export interface SyncWebhook {
   id: string;
   name: string;
   url: string;
+  type: string;
   message: string;
   time: string;
   days: string[];
   timezone: string;
   enabled: boolean;
+  format: string;
+  onlyIfNoEntry: boolean;
+  respectSkipDays: boolean;
+  events: string[];
+  includeContent: boolean;
+  digestWeek: string;
   userId: string;
   createdAt: string;
   updatedAt: string;
 }
 
+/**
+ * Delta sync response: rows changed since the last watermark
+ */
+export interface SyncChanges<T> {
+  items: T[];
+  ids?: string[]; // All live server ids (collections without tombstones)
+  watermark: string; // Server time to send as `since` on the next pull
+}
+
 // ====== SESSION STATE MACHINE TYPES ======
 
 /**
@@ -127,7 +146,7 @@ export interface SessionEvent {
  */
 export type PendingOperation = {
   id: string;
-  type: "upsert" | "delete" | "skip_day" | "template" | "webhook";
+  type: "upsert" | "delete" | "skip_day" | "template" | "webhook" | "summary";
   date: string;
   content?: string;
   payload?: string; // JSON payload for config operations
@@ -255,6 +274,59 @@ export interface ExportDataMessage {
   type: 'EXPORT_DATA';
 }
 
+/**
+ * List unresolved entry conflicts
+ */
+export interface ListEntryConflictsMessage {
+  type: 'LIST_ENTRY_CONFLICTS';
+}
+
+/**
+ * Resolve an entry conflict with merged content
+ */
+export interface ResolveEntryConflictMessage {
+  type: 'RESOLVE_ENTRY_CONFLICT';
+  date: string;
+  content: string;
+}
+
+/**
+ * Import a journal archive (dryRun = only report what would change)
+ */
+export interface ImportJournalMessage {
+  type: 'IMPORT_JOURNAL';
+  archive: JournalArchive;
+  strategy?: ImportStrategy; // for days that already have an entry (default: overwrite)
+  dryRun?: boolean;
+}
+
+/**
+ * List entries whose embedding for a model is missing or out of date
+ */
+export interface GetStaleEmbeddingsMessage {
+  type: 'GET_STALE_EMBEDDINGS';
+  model: string;
+}
+
+/**
+ * Store entry embeddings computed in the page
+ */
+export interface SaveEmbeddingsMessage {
+  type: 'SAVE_EMBEDDINGS';
+  model: string;
+  embeddings: EntryEmbedding[];
+}
+
+/**
+ * Find the entries closest to a query embedding
+ */
+export interface SearchEmbeddingsMessage {
+  type: 'SEARCH_EMBEDDINGS';
+  model: string;
+  vector: number[];
+  limit?: number;
+}
+
 /**
  * Union of all message types
  */
@@ -271,7 +343,13 @@ export type ServiceWorkerMessage =
   | SetOnlineStatusMessage
   | CheckUserDataMessage
   | UpdateEntryMessage
-  | ExportDataMessage;
+  | ExportDataMessage
+  | ListEntryConflictsMessage
+  | ResolveEntryConflictMessage
+  | ImportJournalMessage
+  | GetStaleEmbeddingsMessage
+  | SaveEmbeddingsMessage
+  | SearchEmbeddingsMessage;
 
 // ====== SYNC RESULT TYPES ======
 
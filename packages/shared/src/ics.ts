@@ -0,0 +1,201 @@
+import type { SkipDayType } from "./types.js";
+import { matchesRecurrence, parseRecurrence, type Recurrence } from "./skip-days.js";
+import { SKIP_DAY_SOURCE_MAX_LENGTH } from "./validators.js";
+
+/**
+ * Reading iCalendar (RFC 5545) files, e.g. a national holiday calendar, into
+ * skip days. Only what's needed for that is read from each VEVENT: the
+ * summary, the dates (times are dropped) and RRULE. EXDATE, RDATE and
+ * cancelled events are ignored.
+ */
+
+export interface IcsEvent {
+  summary: string;
+  start: string; // YYYY-MM-DD
+  end: string; // YYYY-MM-DD, inclusive
+  rrule: string | null;
+}
+
+export interface IcsCalendar {
+  name: string | null; // X-WR-CALNAME
+  events: IcsEvent[];
+}
+
+const DAY_MS = 86400000;
+
+// Turning COUNT into UNTIL means searching for occurrences, so only this many
+// of a calendar's events get it, each searched at most this many years ahead
+export const ICS_MAX_COUNT_RULES = 20;
+const COUNT_SEARCH_YEARS = 10;
+
+function addDays(dateStr: string, days: number): string {
+  return new Date(Date.parse(dateStr + "T00:00:00Z") + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+// Date part of a DATE or DATE-TIME value (20240101 or 20240101T090000Z)
+function parseIcsDate(value: string): string | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char.toLowerCase() === "n" ? "\n" : char));
+}
+
+/**
+ * Parse the events of an iCalendar file. Events without a readable start
+ * date are dropped.
+ */
+export function parseIcs(text: string): IcsCalendar {
+  // Long lines are folded onto continuation lines starting with a space or tab
+  const lines = text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+
+  let name: string | null = null;
+  const events: IcsEvent[] = [];
+  let event: Map<string, string> | null = null;
+
+  for (const line of lines) {
+    const colon = line.indexOf(":");
+    if (colon === -1) continue;
+    const [property, ...params] = line.slice(0, colon).toUpperCase().split(";");
+    const value = line.slice(colon + 1).trim();
+
+    if (property === "BEGIN" && value.toUpperCase() === "VEVENT") {
+      event = new Map();
+    } else if (property === "END" && value.toUpperCase() === "VEVENT" && event) {
+      const parsed = toEvent(event);
+      if (parsed) events.push(parsed);
+      event = null;
+    } else if (event) {
+      // DTEND is exclusive for all-day events, so remember whether it was a DATE
+      const isDate = params.includes("VALUE=DATE") || /^\d{8}$/.test(value);
+      event.set(property, property === "DTEND" && isDate ? `${value};DATE` : value);
+    } else if (property === "X-WR-CALNAME") {
+      name = unescapeText(value) || null;
+    }
+  }
+
+  return { name, events };
+}
+
+function toEvent(properties: Map<string, string>): IcsEvent | null {
+  if (properties.get("STATUS")?.toUpperCase() === "CANCELLED") return null;
+  const start = parseIcsDate(properties.get("DTSTART") ?? "");
+  if (!start) return null;
+
+  let end = start;
+  const dtend = properties.get("DTEND");
+  const duration = properties.get("DURATION")?.match(/^P(?:(\d+)W)?(?:(\d+)D)?/);
+  if (dtend) {
+    const endDate = parseIcsDate(dtend);
+    // An all-day event (or one ending at midnight) ends the day before DTEND
+    const exclusive = dtend.endsWith(";DATE") || /T000000/.test(dtend);
+    if (endDate) end = exclusive && endDate > start ? addDays(endDate, -1) : endDate;
+  } else if (duration) {
+    const days = Number(duration[1] ?? 0) * 7 + Number(duration[2] ?? 0);
+    if (days > 1) end = addDays(start, days - 1);
+  }
+
+  return {
+    summary: unescapeText(properties.get("SUMMARY") ?? ""),
+    start,
+    end: end < start ? start : end,
+    rrule: properties.get("RRULE") ?? null,
+  };
+}
+
+/**
+ * Convert an event's RRULE to a skip day recurrence rule (DTSTART folded in,
+ * COUNT turned into UNTIL); null if it uses parts skip days don't support,
+ * or has a COUNT that isn't expanded or isn't reached in time
+ */
+export function toSkipDayRecurrence(rrule: string, start: string, expandCount = true): string | null {
+  const parts = new Map<string, string>();
+  for (const part of rrule.split(";")) {
+    const [key, value] = part.split("=");
+    if (!key || value === undefined) return null;
+    parts.set(key.toUpperCase(), value.toUpperCase());
+  }
+  parts.delete("WKST");
+  parts.set("DTSTART", start.replace(/-/g, ""));
+  const until = parts.get("UNTIL");
+  if (until) parts.set("UNTIL", until.slice(0, 8));
+
+  const count = parts.has("COUNT") ? Number(parts.get("COUNT")) : null;
+  parts.delete("COUNT");
+  const rule = [...parts].map(([key, value]) => `${key}=${value}`).join(";");
+  const recurrence = parseRecurrence(rule);
+  if (!recurrence || count === null) return recurrence ? rule : null;
+  if (!expandCount || !Number.isInteger(count) || count < 1) return null;
+
+  const last = nthOccurrence(recurrence, start, count);
+  return last ? `${rule};UNTIL=${last.replace(/-/g, "")}` : null;
+}
+
+/**
+ * The nth occurrence of a recurrence from its start date, or null if it isn't
+ * reached within COUNT_SEARCH_YEARS. Goes month by month, only checking the
+ * days BYMONTH and BYMONTHDAY (or the start date, without BY parts) allow.
+ */
+function nthOccurrence(recurrence: Recurrence, start: string, n: number): string | null {
+  const [startYear, startMonth, startDay] = start.split("-").map(Number);
+  let { byMonth, byMonthDay } = recurrence;
+  if (recurrence.byDay.length === 0 && byMonthDay.length === 0 && byMonth.length === 0) {
+    if (recurrence.freq === "YEARLY") byMonth = [startMonth];
+    if (recurrence.freq === "MONTHLY" || recurrence.freq === "YEARLY") byMonthDay = [startDay];
+  }
+
+  let seen = 0;
+  for (let i = 0; i < COUNT_SEARCH_YEARS * 12; i++) {
+    const year = startYear + Math.floor((startMonth - 1 + i) / 12);
+    const month = ((startMonth - 1 + i) % 12) + 1;
+    if (byMonth.length > 0 && !byMonth.includes(month)) continue;
+
+    const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+    const days =
+      byMonthDay.length > 0
+        ? [...new Set(byMonthDay.map((d) => (d > 0 ? d : daysInMonth + d + 1)))]
+            .filter((d) => d >= 1 && d <= daysInMonth)
+            .sort((a, b) => a - b)
+        : Array.from({ length: daysInMonth }, (_, d) => d + 1);
+    for (const day of days) {
+      const date = `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+      if (matchesRecurrence(recurrence, date) && ++seen === n) return date;
+    }
+  }
+  return null;
+}
+
+/**
+ * The source an import's skip days are tagged with: the name given, else the
+ * calendar's own name, cut to the length a source can be (calendar names
+ * aren't validated)
+ */
+export function icsSourceName(name: string | null | undefined, calendar: IcsCalendar): string {
+  const source = name?.trim() || calendar.name?.trim() || "Imported calendar";
+  return source.slice(0, SKIP_DAY_SOURCE_MAX_LENGTH).trim();
+}
+
+/**
+ * Skip days covering a calendar's events: a date or date range per event,
+ * or a recurrence for a recurring one. A recurring event whose rule isn't
+ * supported only skips its first occurrence, as does one with a COUNT past
+ * the first ICS_MAX_COUNT_RULES. Duplicates are dropped.
+ */
+export function icsToSkipDays(calendar: IcsCalendar): { type: SkipDayType; value: string }[] {
+  const skipDays = new Map<string, { type: SkipDayType; value: string }>();
+  let countRules = 0;
+  for (const event of calendar.events) {
+    if (event.rrule && /(^|;)COUNT=/i.test(event.rrule)) countRules++;
+    const rule = event.rrule
+      ? toSkipDayRecurrence(event.rrule, event.start, countRules <= ICS_MAX_COUNT_RULES)
+      : null;
+    const skipDay: { type: SkipDayType; value: string } = rule
+      ? { type: "rrule", value: rule }
+      : event.start === event.end
+        ? { type: "specific_date", value: event.start }
+        : { type: "date_range", value: `${event.start}/${event.end}` };
+    skipDays.set(`${skipDay.type}:${skipDay.value}`, skipDay);
+  }
+  return [...skipDays.values()];
+}
@@ -1,2 +1,9 @@
 export * from "./types.js";
 export * from "./validators.js";
+export * from "./tags.js";
+export * from "./skip-days.js";
+export * from "./ics.js";
+export * from "./stats.js";
+export * from "./summaries.js";
+export * from "./templates.js";
+export * from "./webhook-formats.js";
@@ -0,0 +1,326 @@
+import type { SkipDaysConfig } from "./types.js";
+
+export type SkipDaysRules = Pick<SkipDaysConfig, "weekdays" | "specificDates"> &
+  Partial<Pick<SkipDaysConfig, "dateRanges" | "recurrences">>;
+
+/**
+ * Recurrence rules use a subset of RFC 5545 RRULE, with the start date folded
+ * in as a DTSTART part, e.g.
+ *
+ *   FREQ=WEEKLY;INTERVAL=2;BYDAY=FR;DTSTART=20240105   every other Friday
+ *   FREQ=MONTHLY;BYMONTHDAY=-1                         last day of each month
+ *   FREQ=MONTHLY;BYDAY=1MO                             first Monday of each month
+ *   FREQ=YEARLY;BYMONTH=12;BYMONTHDAY=25               December 25th
+ *
+ * Supported parts: FREQ (DAILY, WEEKLY, MONTHLY, YEARLY), INTERVAL, BYDAY (with
+ * an ordinal for MONTHLY/YEARLY), BYMONTHDAY (negative counts from the end of
+ * the month), BYMONTH, DTSTART and UNTIL (inclusive, YYYYMMDD).
+ */
+export type RecurrenceFrequency = "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+
+export interface Recurrence {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay: { weekday: number; ordinal: number | null }[]; // weekday 0-6 (Sunday-Saturday)
+  byMonthDay: number[];
+  byMonth: number[]; // 1-12
+  start: string | null; // YYYY-MM-DD
+  until: string | null; // YYYY-MM-DD
+}
+
+const FREQUENCIES: RecurrenceFrequency[] = ["DAILY", "WEEKLY", "MONTHLY", "YEARLY"];
+const RRULE_WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const WEEKDAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+const MONTH_NAMES = [
+  "January", "February", "March", "April", "May", "June",
+  "July", "August", "September", "October", "November", "December",
+];
+const DAY_MS = 86400000;
+
+// YYYYMMDD (RRULE) to YYYY-MM-DD, or null if it isn't a valid date
+function parseRRuleDate(value: string): string | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (!match) return null;
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return `${match[1]}-${match[2]}-${match[3]}`;
+}
+
+// Comma-separated non-zero integers within ±max
+function parseIntList(value: string, max: number): number[] | null {
+  const numbers = value.split(",").map(Number);
+  const valid = numbers.every((n) => Number.isInteger(n) && n !== 0 && Math.abs(n) <= max);
+  return valid ? numbers : null;
+}
+
+/**
+ * Parse a recurrence rule; null if it's malformed or uses unsupported parts
+ */
+export function parseRecurrence(rule: string): Recurrence | null {
+  const cached = parsedRecurrences.get(rule);
+  if (cached !== undefined) {
+    // Move to the back, so the least recently used rule is evicted first
+    parsedRecurrences.delete(rule);
+    parsedRecurrences.set(rule, cached);
+    return cached;
+  }
+  const recurrence = parseRecurrenceUncached(rule);
+  parsedRecurrences.set(rule, recurrence);
+  if (parsedRecurrences.size > MAX_PARSED_RECURRENCES) {
+    parsedRecurrences.delete(parsedRecurrences.keys().next().value!);
+  }
+  return recurrence;
+}
+
+// shouldSkipDate runs for every day of a stats range, so parse each rule once.
+// Rules are user input (and the API serves every user), so only the most
+// recently used ones are kept.
+const MAX_PARSED_RECURRENCES = 500;
+const parsedRecurrences = new Map<string, Recurrence | null>();
+
+function parseRecurrenceUncached(rule: string): Recurrence | null {
+  const parts = new Map<string, string>();
+  for (const part of rule.trim().replace(/^RRULE:/i, "").split(";")) {
+    const [key, value] = part.split("=");
+    if (!key || value === undefined || parts.has(key.toUpperCase())) return null;
+    parts.set(key.toUpperCase(), value.toUpperCase());
+  }
+
+  const freq = parts.get("FREQ") as RecurrenceFrequency | undefined;
+  if (!freq || !FREQUENCIES.includes(freq)) return null;
+
+  const recurrence: Recurrence = {
+    freq,
+    interval: 1,
+    byDay: [],
+    byMonthDay: [],
+    byMonth: [],
+    start: null,
+    until: null,
+  };
+
+  for (const [key, value] of parts) {
+    switch (key) {
+      case "FREQ":
+        break;
+      case "INTERVAL":
+        recurrence.interval = Number(value);
+        if (!Number.isInteger(recurrence.interval) || recurrence.interval < 1) return null;
+        break;
+      case "BYDAY":
+        for (const day of value.split(",")) {
+          const match = day.match(/^([+-]?[1-5])?(SU|MO|TU|WE|TH|FR|SA)$/);
+          if (!match) return null;
+          const ordinal = match[1] ? Number(match[1]) : null;
+          // Ordinals pick the nth weekday of the month
+          if (ordinal !== null && (freq === "DAILY" || freq === "WEEKLY")) return null;
+          recurrence.byDay.push({ weekday: RRULE_WEEKDAYS.indexOf(match[2]), ordinal });
+        }
+        break;
+      case "BYMONTHDAY": {
+        const days = parseIntList(value, 31);
+        if (!days) return null;
+        recurrence.byMonthDay = days;
+        break;
+      }
+      case "BYMONTH": {
+        const months = parseIntList(value, 12);
+        if (!months || months.some((month) => month < 0)) return null;
+        recurrence.byMonth = months;
+        break;
+      }
+      case "DTSTART":
+        recurrence.start = parseRRuleDate(value);
+        if (!recurrence.start) return null;
+        break;
+      case "UNTIL":
+        recurrence.until = parseRRuleDate(value);
+        if (!recurrence.until) return null;
+        break;
+      default:
+        return null;
+    }
+  }
+
+  // Without BY* parts the rule repeats on the start date's weekday/day/month,
+  // and an interval needs a start date to count from
+  const hasBy = recurrence.byDay.length > 0 || recurrence.byMonthDay.length > 0 || recurrence.byMonth.length > 0;
+  if (!recurrence.start && ((freq !== "DAILY" && !hasBy) || recurrence.interval > 1)) return null;
+
+  return recurrence;
+}
+
+// Days since 1970-01-01 (a Thursday)
+function toUtcDays(date: string): number {
+  const [year, month, day] = date.split("-").map(Number);
+  return Date.UTC(year, month - 1, day) / DAY_MS;
+}
+
+// Weeks start on Monday (RRULE's default WKST)
+function mondayOf(date: string): number {
+  const days = toUtcDays(date);
+  return days - ((days + 3) % 7);
+}
+
+/**
+ * Whether a date (YYYY-MM-DD) is an occurrence of the recurrence
+ */
+export function matchesRecurrence(recurrence: Recurrence, date: string): boolean {
+  const { freq, interval, start, until } = recurrence;
+  if (start && date < start) return false;
+  if (until && date > until) return false;
+
+  const [year, month, day] = date.split("-").map(Number);
+  const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+  // Only every interval-th day/week/month/year counted from the start date
+  if (start && interval > 1) {
+    const [startYear, startMonth] = start.split("-").map(Number);
+    let periods: number;
+    switch (freq) {
+      case "DAILY":
+        periods = toUtcDays(date) - toUtcDays(start);
+        break;
+      case "WEEKLY":
+        periods = (mondayOf(date) - mondayOf(start)) / 7;
+        break;
+      case "MONTHLY":
+        periods = (year - startYear) * 12 + (month - startMonth);
+        break;
+      case "YEARLY":
+        periods = year - startYear;
+        break;
+    }
+    if (periods % interval !== 0) return false;
+  }
+
+  let { byDay, byMonthDay, byMonth } = recurrence;
+  if (byDay.length === 0 && byMonthDay.length === 0 && byMonth.length === 0 && start) {
+    const [, startMonth, startDay] = start.split("-").map(Number);
+    if (freq === "WEEKLY") byDay = [{ weekday: (toUtcDays(start) + 4) % 7, ordinal: null }];
+    if (freq === "MONTHLY") byMonthDay = [startDay];
+    if (freq === "YEARLY") {
+      byMonth = [startMonth];
+      byMonthDay = [startDay];
+    }
+  }
+
+  if (byMonth.length > 0 && !byMonth.includes(month)) return false;
+  if (byMonthDay.length > 0 && !byMonthDay.some((n) => (n > 0 ? n : daysInMonth + n + 1) === day)) {
+    return false;
+  }
+  if (
+    byDay.length > 0 &&
+    !byDay.some(({ weekday: w, ordinal }) => {
+      if (w !== weekday) return false;
+      if (ordinal === null) return true;
+      return ordinal > 0
+        ? Math.ceil(day / 7) === ordinal
+        : Math.ceil((daysInMonth - day + 1) / 7) === -ordinal;
+    })
+  ) {
+    return false;
+  }
+  return true;
+}
+
+function ordinalNumber(n: number): string {
+  if (n % 100 >= 11 && n % 100 <= 13) return `${n}th`;
+  return `${n}${["th", "st", "nd", "rd"][n % 10] ?? "th"}`;
+}
+
+// 1 -> "the 1st", -1 -> "the last", -2 -> "the 2nd to last"
+function describePosition(n: number): string {
+  if (n === -1) return "the last";
+  return n > 0 ? `the ${ordinalNumber(n)}` : `the ${ordinalNumber(-n)} to last`;
+}
+
+/**
+ * Human-readable summary of a recurrence rule, e.g. "Every 2 weeks on Friday"
+ */
+export function describeRecurrence(rule: string): string {
+  const recurrence = parseRecurrence(rule);
+  if (!recurrence) return rule;
+  const { freq, interval, byDay, byMonthDay, byMonth, start, until } = recurrence;
+
+  const unit = { DAILY: "day", WEEKLY: "week", MONTHLY: "month", YEARLY: "year" }[freq];
+  const parts = [interval > 1 ? `Every ${interval} ${unit}s` : `Every ${unit}`];
+
+  if (byMonth.length > 0) parts.push(`in ${byMonth.map((m) => MONTH_NAMES[m - 1]).join(", ")}`);
+  if (byDay.length > 0) {
+    const days = byDay.map(({ weekday, ordinal: n }) =>
+      n === null ? WEEKDAY_NAMES[weekday] : `${describePosition(n)} ${WEEKDAY_NAMES[weekday]}`
+    );
+    parts.push(`on ${days.join(", ")}`);
+  }
+  if (byMonthDay.length > 0) {
+    const days = byMonthDay.map((n) => (n > 0 ? describePosition(n) : `${describePosition(n)} day`));
+    parts.push(`on ${days.join(", ")}`);
+  }
+  if (start) parts.push(`from ${start}`);
+  if (until) parts.push(`until ${until}`);
+  return parts.join(" ");
+}
+
+/**
+ * Parse a date range value ("YYYY-MM-DD/YYYY-MM-DD", inclusive)
+ */
+export function parseDateRange(value: string): { start: string; end: string } | null {
+  const match = value.match(/^(\d{4}-\d{2}-\d{2})\/(\d{4}-\d{2}-\d{2})$/);
+  if (!match || match[1] > match[2]) return null;
+  return { start: match[1], end: match[2] };
+}
+
+/**
+ * Group skip day rows by type. Malformed ranges and recurrences are ignored.
+ */
+export function buildSkipDaysRules(rows: { type: string; value: string }[]): Required<SkipDaysRules> {
+  const rules: Required<SkipDaysRules> = { weekdays: [], specificDates: [], dateRanges: [], recurrences: [] };
+  for (const row of rows) {
+    switch (row.type) {
+      case "weekday":
+        rules.weekdays.push(parseInt(row.value));
+        break;
+      case "specific_date":
+        rules.specificDates.push(row.value);
+        break;
+      case "date_range": {
+        const range = parseDateRange(row.value);
+        if (range) rules.dateRanges.push(range);
+        break;
+      }
+      case "rrule":
+        if (parseRecurrence(row.value)) rules.recurrences.push(row.value);
+        break;
+    }
+  }
+  return rules;
+}
+
+/**
+ * Check if a date (YYYY-MM-DD) should be skipped based on config
+ */
+export function shouldSkipDate(dateStr: string, config: SkipDaysRules | undefined): boolean {
+  if (!config) return false;
+
+  if (config.specificDates.includes(dateStr)) return true;
+
+  const date = new Date(dateStr + "T00:00:00");
+  const weekday = date.getDay();
+  if (config.weekdays.includes(weekday)) return true;
+
+  if (config.dateRanges?.some((range) => range.start <= dateStr && dateStr <= range.end)) return true;
+
+  if (
+    config.recurrences?.some((rule) => {
+      const recurrence = parseRecurrence(rule);
+      return recurrence !== null && matchesRecurrence(recurrence, dateStr);
+    })
+  ) {
+    return true;
+  }
+
+  return false;
+}
@@ -0,0 +1,89 @@
+import type { EntryStats } from "./types.js";
+import { shouldSkipDate, type SkipDaysRules } from "./skip-days.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Dates are walked in UTC so DST changes can't produce repeated or missing days
+function toDayNumber(date: string): number {
+  return Math.floor(Date.parse(`${date}T00:00:00Z`) / DAY_MS);
+}
+
+function fromDayNumber(day: number): string {
+  return new Date(day * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Writing statistics for a user's (non-deleted) entries, as of `today`.
+ *
+ * Skip days neither break nor count towards a streak, and are left out of the
+ * completion rate; an entry written on a skip day still extends the streak.
+ * Today only counts once it has an entry, since the day isn't over yet.
+ */
+export function computeEntryStats(
+  entries: { date: string; content: string }[],
+  skipDays: SkipDaysRules,
+  today: string
+): EntryStats {
+  const sorted = [...entries].sort((a, b) => a.date.localeCompare(b.date));
+  const written = new Set(sorted.map((e) => e.date));
+
+  const byWeekday = [0, 0, 0, 0, 0, 0, 0];
+  const monthCounts = new Map<string, number>();
+  let totalLength = 0;
+  for (const entry of sorted) {
+    byWeekday[new Date(`${entry.date}T00:00:00Z`).getUTCDay()]++;
+    const month = entry.date.slice(0, 7);
+    monthCounts.set(month, (monthCounts.get(month) ?? 0) + 1);
+    totalLength += entry.content.length;
+  }
+
+  // Every month from the first entry to the current one, including empty months
+  const byMonth: EntryStats["byMonth"] = [];
+  if (sorted.length > 0) {
+    const lastEntryMonth = sorted[sorted.length - 1].date.slice(0, 7);
+    const endMonth = lastEntryMonth > today.slice(0, 7) ? lastEntryMonth : today.slice(0, 7);
+    let [year, month] = sorted[0].date.split("-").map(Number);
+    for (let key = sorted[0].date.slice(0, 7); key <= endMonth; ) {
+      byMonth.push({ month: key, count: monthCounts.get(key) ?? 0 });
+      [year, month] = month === 12 ? [year + 1, 1] : [year, month + 1];
+      key = `${year}-${String(month).padStart(2, "0")}`;
+    }
+  }
+
+  let longestStreak = 0;
+  let streak = 0;
+  let expectedDays = 0;
+  let completedDays = 0;
+  const todayNumber = toDayNumber(today);
+  const lastDay = written.has(today) ? todayNumber : todayNumber - 1;
+  if (sorted.length > 0) {
+    for (let day = toDayNumber(sorted[0].date); day <= lastDay; day++) {
+      const date = fromDayNumber(day);
+      const hasEntry = written.has(date);
+      const skipped = shouldSkipDate(date, skipDays);
+
+      if (!skipped) {
+        expectedDays++;
+        if (hasEntry) completedDays++;
+      }
+
+      if (hasEntry) {
+        streak++;
+        longestStreak = Math.max(longestStreak, streak);
+      } else if (!skipped) {
+        streak = 0;
+      }
+    }
+  }
+
+  return {
+    currentStreak: streak,
+    longestStreak,
+    totalEntries: sorted.length,
+    averageLength: sorted.length > 0 ? Math.round(totalLength / sorted.length) : 0,
+    completionRate: expectedDays > 0 ? completedDays / expectedDays : 0,
+    byWeekday,
+    byMonth,
+    activity: sorted.map((e) => ({ date: e.date, length: e.content.length })),
+  };
+}
@@ -0,0 +1,15 @@
+import type { SummaryPeriodType } from "./validators.js";
+
+/**
+ * Last day (YYYY-MM-DD, inclusive) of a summary period
+ */
+export function getSummaryPeriodEnd(periodType: SummaryPeriodType, periodStart: string): string {
+  const [year, month, day] = periodStart.split("-").map(Number);
+  const end =
+    periodType === "week"
+      ? new Date(Date.UTC(year, month - 1, day + 6))
+      : periodType === "month"
+        ? new Date(Date.UTC(year, month, 0))
+        : new Date(Date.UTC(year, 11, 31));
+  return end.toISOString().slice(0, 10);
+}
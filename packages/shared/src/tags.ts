@@ -0,0 +1,25 @@
+// Tags are derived from #hashtags in entry content (e.g. "#rust", "#til/web").
+// A tag must start with a letter and follow whitespace, so markdown headings
+// ("# Title"), issue references ("#123") and URL fragments are ignored.
+const TAG_PATTERN = /(?:^|[\s(])#(\p{L}[\p{L}\p{N}_/-]*)/gu;
+
+export const MAX_TAG_LENGTH = 50;
+
+/**
+ * Extract normalized (lowercase, de-duplicated) tags from markdown content.
+ * Code blocks and inline code are ignored.
+ */
+export function extractTags(content: string): string[] {
+  const text = content
+    .replace(/```[\s\S]*?```/g, " ")
+    .replace(/`[^`\n]*`/g, " ");
+
+  const tags = new Set<string>();
+  for (const match of text.matchAll(TAG_PATTERN)) {
+    const tag = match[1].replace(/[/-]+$/, "").toLowerCase();
+    if (tag.length > 0 && tag.length <= MAX_TAG_LENGTH) {
+      tags.add(tag);
+    }
+  }
+  return [...tags];
+}
@@ -0,0 +1,171 @@
+import type { TemplateRule } from "./types.js";
+
+/**
+ * Entry templates: the rules that pick which template a new entry starts
+ * from, and the placeholders expanded when it is applied:
+ *
+ *   {{date}}               2024-03-14
+ *   {{weekday}}            Thursday
+ *   {{week}}               ISO week, e.g. 2024-W11
+ *   {{yesterday.date}}     date of the most recent earlier entry
+ *   {{yesterday.content}}  its content (so Monday's standup sees Friday's notes)
+ *   {{cursor}}             where the caret is placed; removed from the text
+ */
+
+export const TEMPLATE_VARIABLES = [
+  "date",
+  "weekday",
+  "week",
+  "yesterday.date",
+  "yesterday.content",
+  "cursor",
+] as const;
+
+export type TemplateVariable = (typeof TEMPLATE_VARIABLES)[number];
+
+export interface TemplateContext {
+  date: string; // YYYY-MM-DD of the new entry
+  previousEntry?: { date: string; content: string } | null;
+}
+
+export interface RenderedTemplate {
+  content: string;
+  cursor: number | null; // caret offset from the first {{cursor}}
+}
+
+const PLACEHOLDER = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+const WEEKDAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+function isTemplateVariable(name: string): name is TemplateVariable {
+  return (TEMPLATE_VARIABLES as readonly string[]).includes(name);
+}
+
+/**
+ * Placeholders in `content` that aren't template variables
+ */
+export function findUnknownTemplateVariables(content: string): string[] {
+  const unknown = new Set<string>();
+  for (const match of content.matchAll(PLACEHOLDER)) {
+    if (!isTemplateVariable(match[1])) unknown.add(match[1]);
+  }
+  return [...unknown];
+}
+
+/**
+ * Whether rendering needs the previous entry (so callers only fetch it then)
+ */
+export function usesPreviousEntry(content: string): boolean {
+  return [...content.matchAll(PLACEHOLDER)].some((match) => match[1].startsWith("yesterday."));
+}
+
+// ISO 8601 week: weeks start on Monday and week 1 contains the year's first Thursday
+function getIsoWeek(dateStr: string): string {
+  const [year, month, day] = dateStr.split("-").map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  const weekday = date.getUTCDay() || 7;
+  date.setUTCDate(date.getUTCDate() + 4 - weekday);
+  const weekYear = date.getUTCFullYear();
+  const week = Math.ceil(((date.getTime() - Date.UTC(weekYear, 0, 1)) / 86400000 + 1) / 7);
+  return `${weekYear}-W${String(week).padStart(2, "0")}`;
+}
+
+function getValue(name: TemplateVariable, context: TemplateContext): string {
+  const [year, month, day] = context.date.split("-").map(Number);
+  switch (name) {
+    case "date":
+      return context.date;
+    case "weekday":
+      return WEEKDAY_NAMES[new Date(Date.UTC(year, month - 1, day)).getUTCDay()];
+    case "week":
+      return getIsoWeek(context.date);
+    case "yesterday.date":
+      return context.previousEntry?.date ?? "";
+    case "yesterday.content":
+      return context.previousEntry?.content.trim() ?? "";
+    case "cursor":
+      return "";
+  }
+}
+
+/**
+ * Expand the placeholders in a template. Unknown placeholders are left as written.
+ */
+export function renderTemplate(template: string, context: TemplateContext): RenderedTemplate {
+  let content = "";
+  let cursor: number | null = null;
+  let lastIndex = 0;
+
+  for (const match of template.matchAll(PLACEHOLDER)) {
+    content += template.slice(lastIndex, match.index);
+    lastIndex = match.index! + match[0].length;
+
+    const name = match[1];
+    if (!isTemplateVariable(name)) {
+      content += match[0];
+    } else if (name === "cursor") {
+      cursor ??= content.length;
+    } else {
+      content += getValue(name, context);
+    }
+  }
+  content += template.slice(lastIndex);
+
+  return { content, cursor };
+}
+
+// More specific rules win: a specific date over a range, a range over weekdays
+const RULE_PRIORITY: Record<TemplateRule["type"], number> = {
+  date: 3,
+  dateRange: 2,
+  weekdays: 1,
+  always: 0,
+};
+
+function ruleMatches(rule: TemplateRule, date: string): boolean {
+  switch (rule.type) {
+    case "always":
+      return true;
+    case "weekdays":
+      return rule.weekdays.includes(new Date(date + "T00:00:00").getDay());
+    case "date":
+      return rule.date === date;
+    case "dateRange":
+      return rule.start <= date && date <= rule.end;
+  }
+}
+
+/**
+ * Parse the rules column (a JSON array); malformed values mean no rules
+ */
+export function parseTemplateRules(rulesJson: string | null | undefined): TemplateRule[] {
+  try {
+    const rules = JSON.parse(rulesJson || "[]");
+    return Array.isArray(rules) ? rules : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * The template to apply to a new entry on `date`: the one with the most
+ * specific matching rule, by name on a tie (the order templates are listed in)
+ */
+export function resolveTemplateForDate<T extends { name: string; rules: TemplateRule[] }>(
+  templates: T[],
+  date: string
+): T | null {
+  let best: T | null = null;
+  let bestPriority = -1;
+  for (const template of templates) {
+    for (const rule of template.rules) {
+      const priority = RULE_PRIORITY[rule.type];
+      const wins = priority > bestPriority || (priority === bestPriority && template.name < best!.name);
+      if (wins && ruleMatches(rule, date)) {
+        best = template;
+        bestPriority = priority;
+      }
+    }
+  }
+  return best;
+}
@@ -19,6 +19,62 @@ export interface PaginatedResponse<T> {
   hasMore: boolean;
 }
 
+export interface EntrySearchResult {
+  id: string;
+  date: string;
+  snippet: string; // Matched terms wrapped in <mark></mark>
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type RevisionAction = "create" | "update" | "delete" | "restore";
+
+export interface EntryRevision {
+  id: string;
+  entryId: string;
+  date: string;
+  content: string; // Entry content after this change (content at deletion for "delete")
+  action: RevisionAction;
+  createdAt: string; // ISO 8601 string
+}
+
+// Delta sync response: rows changed since the requested watermark.
+// `ids` lists every live row so clients can drop rows deleted on the server
+// (only for collections without tombstones: skip days, templates, webhooks).
+export interface ChangesSinceResult<T> {
+  items: T[];
+  ids?: string[];
+  watermark: string; // ISO 8601 server time to send as `since` next time
+}
+
+// Batch push: outcome of each queued operation, in request order.
+// "conflict" means the target no longer exists on the server; "rejected"
+// means the input was invalid. Neither will succeed on retry.
+export type PushOperationStatus = "applied" | "conflict" | "rejected";
+
+export interface PushOperationResult {
+  opId: string;
+  status: PushOperationStatus;
+  error?: string;
+  updatedAt?: string; // entry.upsert: server version of the written entry
+  current?: EntryConflictVersion; // entry.upsert conflict: the server's version
+}
+
+// Server version of an entry that a client edit conflicted with
+export interface EntryConflictVersion {
+  content: string;
+  updatedAt: string;
+}
+
+export interface PushBatchResult {
+  results: PushOperationResult[];
+}
+
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
 export interface WeeklySummary {
   weekStart: string; // Monday date
   weekEnd: string;   // Sunday date
@@ -33,19 +89,71 @@ export interface MonthlySummary {
   weeks: WeeklySummary[];
 }
 
+export interface MonthBucket {
+  month: string; // YYYY-MM format
+  totalEntries: number;
+}
+
+export interface YearlySummary {
+  year: string; // YYYY format
+  entries: Entry[];
+  totalEntries: number;
+  months: MonthBucket[]; // always twelve, January first; counts only, entries are above
+}
+
+export interface Summary {
+  id: string;
+  periodType: "week" | "month" | "year";
+  periodStart: string; // YYYY-MM-DD
+  backend: string;
+  promptHash: string;
+  content: string;
+  generatedAt: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A stored summary is stale once an entry in its period changes after generation
+export interface SavedSummary extends Summary {
+  stale: boolean;
+}
+
+export interface EntryStats {
+  currentStreak: number; // consecutive days written, up to today
+  longestStreak: number;
+  totalEntries: number;
+  averageLength: number; // characters per entry
+  completionRate: number; // 0-1, share of non-skip days with an entry
+  byWeekday: number[]; // entry counts, 0-6 (Sunday-Saturday)
+  byMonth: { month: string; count: number }[]; // YYYY-MM, from the first entry to now
+  activity: { date: string; length: number }[]; // one item per written day
+}
+
 // Config types
+// weekday: "0"-"6" (Sun-Sat), specific_date: "YYYY-MM-DD",
+// date_range: "YYYY-MM-DD/YYYY-MM-DD" (inclusive), rrule: recurrence rule (see skip-days.ts)
+export type SkipDayType = "weekday" | "specific_date" | "date_range" | "rrule";
+
 export interface SkipDay {
   id: string;
-  type: "weekday" | "specific_date";
+  type: SkipDayType;
   value: string;
+  source: string | null; // name of the imported calendar it came from, if any
   createdAt: string;
 }
 
+// Which days a template is applied to new entries on
+export type TemplateRule =
+  | { type: "always" }
+  | { type: "weekdays"; weekdays: number[] } // 0-6 (Sunday-Saturday)
+  | { type: "date"; date: string } // YYYY-MM-DD
+  | { type: "dateRange"; start: string; end: string }; // inclusive
+
 export interface Template {
   id: string;
   name: string;
   content: string;
-  isDefault: boolean;
+  rules: TemplateRule[];
   createdAt: string;
   updatedAt: string;
 }
@@ -53,20 +161,90 @@ export interface Template {
 export interface SkipDaysConfig {
   weekdays: number[]; // 0-6 (Sunday-Saturday)
   specificDates: string[]; // YYYY-MM-DD format
+  dateRanges: { start: string; end: string }[]; // inclusive
+  recurrences: string[]; // recurrence rules
   raw: SkipDay[];
 }
 
 export type DayOfWeek = "sun" | "mon" | "tue" | "wed" | "thu" | "fri" | "sat";
 
+// Payload format of a webhook; "auto" picks one from the URL when sending
+export type WebhookFormat = "auto" | "slack" | "discord" | "teams" | "ntfy" | "gotify" | "generic";
+
+// Reminders and digests are sent on a schedule; event webhooks when entries change
+export type WebhookType = "reminder" | "event" | "digest";
+
+// Which week a digest covers: the one the send falls in, or the one before
+export type WebhookDigestWeek = "current" | "previous";
+
+export type WebhookEvent = "entry.created" | "entry.updated" | "entry.deleted";
+
 export interface Webhook {
   id: string;
   name: string;
   url: string;
+  type: WebhookType;
   message: string;
   time: string; // HH:MM format
   days: DayOfWeek[];
   timezone: string;
   enabled: boolean;
+  format: WebhookFormat;
+  onlyIfNoEntry: boolean; // don't remind if the day's entry is already written
+  respectSkipDays: boolean; // don't remind on skip days
+  events: WebhookEvent[]; // event webhooks only
+  includeContent: boolean; // event and digest payloads carry full content, not just excerpts
+  digestWeek: WebhookDigestWeek; // digest webhooks only
   createdAt: string;
   updatedAt: string;
 }
+
+// One attempt at sending a webhook, recorded by the server
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  trigger: "schedule" | "test" | "event"; // digests are sent on a schedule too
+  attempt: number; // 1 for the first try, then retries
+  success: boolean;
+  statusCode: number | null; // null when the request failed without a response
+  latencyMs: number;
+  response: string; // start of the response body, or the error message
+  createdAt: string;
+}
+
+// Journal backup archive (markdown entries + templates + skip days), as parsed
+// from a ZIP export and applied by the local worker
+export interface JournalArchive {
+  entries: { date: string; content: string; createdAt?: string; updatedAt?: string }[];
+  templates: { name: string; content: string; rules?: TemplateRule[]; createdAt?: string; updatedAt?: string }[];
+  skipDays: { type: SkipDayType; value: string; source?: string | null }[];
+}
+
+// How to treat an imported day that already has a different local entry
+export type ImportStrategy = "overwrite" | "merge" | "skip";
+
+// What importing an archive would do (or did)
+export interface JournalImportPreview {
+  create: string[]; // dates without a local entry
+  overwrite: string[]; // collisions replaced with the imported content
+  merge: string[]; // collisions with the imported content appended
+  skip: string[]; // collisions left untouched
+  unchanged: string[]; // dates with identical content
+  templates: string[]; // names of templates to add
+  skipDays: number; // skip days to add
+}
+
+// Embedding of one entry's content, stored locally per embedding model for
+// Ask-your-journal retrieval
+export interface EntryEmbedding {
+  date: string;
+  updatedAt: string; // entry.updatedAt the vector was computed from
+  vector: number[];
+}
+
+// An entry retrieved for a question, most similar first
+export interface EmbeddingMatch {
+  date: string;
+  content: string;
+  score: number; // cosine similarity
+}
@@ -1,4 +1,6 @@
 import { z } from "zod";
+import { findUnknownTemplateVariables } from "./templates.js";
+import { parseDateRange, parseRecurrence } from "./skip-days.js";
 
 // Date format: YYYY-MM-DD with validity check
 export const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/).refine(
@@ -27,6 +29,9 @@ export const updateEntrySchema = z.object({
 export const upsertEntrySchema = z.object({
   date: dateSchema,
   content: z.string().min(1),
+  // Server `updatedAt` the edit was based on. When set and the server row has
+  // changed since, the write is refused as a conflict. Omit to overwrite.
+  baseUpdatedAt: z.string().min(1).optional(),
 });
 
 export const getByDateSchema = z.object({
@@ -56,6 +61,43 @@ export const monthlyInputSchema = z.object({
   month: z.string().regex(/^\d{4}-\d{2}$/), // YYYY-MM format
 });
 
+export const yearlyInputSchema = z.object({
+  year: z.string().regex(/^\d{4}$/), // YYYY format
+});
+
+export const entryStatsSchema = z.object({
+  today: dateSchema, // the client's local date, which streaks are counted up to
+});
+
+export const searchEntriesSchema = z.object({
+  query: z.string().trim().min(1).max(200),
+  startDate: dateSchema.optional(),
+  endDate: dateSchema.optional(),
+  limit: z.number().min(1).max(50).default(20),
+});
+
+export const tagSchema = z.string().trim().toLowerCase().min(1).max(50);
+
+export const listByTagSchema = z.object({
+  tag: tagSchema,
+  cursor: z.string().optional(),
+  limit: z.number().min(1).max(50).default(20),
+});
+
+export const entryHistorySchema = z.object({
+  date: dateSchema,
+  limit: z.number().min(1).max(100).default(50),
+});
+
+export const restoreRevisionSchema = z.object({
+  id: z.string().min(1),
+});
+
+// Delta sync: only rows changed after the client's watermark (omit for a full sync)
+export const changesSinceSchema = z.object({
+  since: z.string().datetime().optional(),
+});
+
 export type CreateEntryInput = z.infer<typeof createEntrySchema>;
 export type UpdateEntryInput = z.infer<typeof updateEntrySchema>;
 export type UpsertEntryInput = z.infer<typeof upsertEntrySchema>;
@@ -65,6 +107,13 @@ export type DeleteEntryInput = z.infer<typeof deleteEntrySchema>;
 export type ListEntriesInput = z.infer<typeof listEntriesSchema>;
 export type WeeklyInput = z.infer<typeof weeklyInputSchema>;
 export type MonthlyInput = z.infer<typeof monthlyInputSchema>;
+export type YearlyInput = z.infer<typeof yearlyInputSchema>;
+export type EntryStatsInput = z.infer<typeof entryStatsSchema>;
+export type SearchEntriesInput = z.infer<typeof searchEntriesSchema>;
+export type ListByTagInput = z.infer<typeof listByTagSchema>;
+export type EntryHistoryInput = z.infer<typeof entryHistorySchema>;
+export type RestoreRevisionInput = z.infer<typeof restoreRevisionSchema>;
+export type ChangesSinceInput = z.infer<typeof changesSinceSchema>;
 
 // Config validators - Skip days
 export const weekdaySchema = z.number().int().min(0).max(6);
@@ -73,8 +122,38 @@ export const addSkipWeekdaySchema = z.object({
   weekday: weekdaySchema,
 });
 
-export const addSkipDateSchema = z.object({
-  date: dateSchema,
+// A single date, or a range (e.g. a vacation) when endDate is given
+export const addSkipDateSchema = z
+  .object({
+    date: dateSchema,
+    endDate: dateSchema.optional(),
+  })
+  .refine((input) => !input.endDate || input.endDate >= input.date, {
+    message: "Date range ends before it starts",
+  });
+
+// Recurrence rule, e.g. "FREQ=WEEKLY;INTERVAL=2;BYDAY=FR;DTSTART=20240105"
+export const recurrenceRuleSchema = z
+  .string()
+  .trim()
+  .max(200)
+  .refine((rule) => parseRecurrence(rule) !== null, { message: "Unsupported recurrence rule" });
+
+export const addSkipRecurrenceSchema = z.object({
+  rule: recurrenceRuleSchema,
+});
+
+// Name of an imported calendar, which its skip days are tagged with
+export const SKIP_DAY_SOURCE_MAX_LENGTH = 100;
+export const skipDaySourceNameSchema = z.string().trim().min(1).max(SKIP_DAY_SOURCE_MAX_LENGTH);
+
+export const importSkipDaysIcsSchema = z.object({
+  ics: z.string().min(1).max(1_000_000),
+  source: skipDaySourceNameSchema.optional(), // defaults to the calendar's name
+});
+
+export const removeSkipDaySourceSchema = z.object({
+  source: skipDaySourceNameSchema,
 });
 
 export const removeSkipDaySchema = z.object({
@@ -82,33 +161,76 @@ export const removeSkipDaySchema = z.object({
 });
 
 // Config validators - Templates
+const templateContentSchema = z.string().min(1).superRefine((content, ctx) => {
+  const unknown = findUnknownTemplateVariables(content);
+  if (unknown.length > 0) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `Unknown template variable${unknown.length > 1 ? "s" : ""}: ${unknown
+        .map((name) => `{{${name}}}`)
+        .join(", ")}`,
+    });
+  }
+});
+
+export const templateRuleSchema = z
+  .discriminatedUnion("type", [
+    z.object({ type: z.literal("always") }),
+    z.object({ type: z.literal("weekdays"), weekdays: z.array(weekdaySchema).min(1) }),
+    z.object({ type: z.literal("date"), date: dateSchema }),
+    z.object({ type: z.literal("dateRange"), start: dateSchema, end: dateSchema }),
+  ])
+  .refine((rule) => rule.type !== "dateRange" || rule.start <= rule.end, {
+    message: "Date range ends before it starts",
+  });
+
+export const templateRulesSchema = z.array(templateRuleSchema).max(50);
+
 export const createTemplateSchema = z.object({
   name: z.string().min(1).max(100),
-  content: z.string().min(1),
+  content: templateContentSchema,
+  rules: templateRulesSchema.optional(),
 });
 
 export const updateTemplateSchema = z.object({
   id: z.string().min(1),
   name: z.string().min(1).max(100).optional(),
-  content: z.string().min(1).optional(),
+  content: templateContentSchema.optional(),
+  rules: templateRulesSchema.optional(),
 });
 
 export const deleteTemplateSchema = z.object({
   id: z.string().min(1),
 });
 
-export const setDefaultTemplateSchema = z.object({
-  id: z.string().nullable(), // null to unset default
+export const templateForDateSchema = z.object({
+  date: dateSchema,
 });
 
+// A template as written to a journal backup. Archives from before template rules
+// flag the default template with isDefault instead, which becomes an "always" rule.
+export const archivedTemplateSchema = createTemplateSchema
+  .extend({
+    isDefault: z.boolean().optional(),
+    createdAt: z.string().datetime().optional(),
+    updatedAt: z.string().datetime().optional(),
+  })
+  .transform(({ isDefault, ...template }) => ({
+    ...template,
+    rules: template.rules ?? (isDefault ? [{ type: "always" as const }] : []),
+  }));
+
 // Config types
 export type AddSkipWeekdayInput = z.infer<typeof addSkipWeekdaySchema>;
 export type AddSkipDateInput = z.infer<typeof addSkipDateSchema>;
+export type AddSkipRecurrenceInput = z.infer<typeof addSkipRecurrenceSchema>;
+export type ImportSkipDaysIcsInput = z.infer<typeof importSkipDaysIcsSchema>;
 export type RemoveSkipDayInput = z.infer<typeof removeSkipDaySchema>;
 export type CreateTemplateInput = z.infer<typeof createTemplateSchema>;
+export type ArchivedTemplate = z.infer<typeof archivedTemplateSchema>;
 export type UpdateTemplateInput = z.infer<typeof updateTemplateSchema>;
 export type DeleteTemplateInput = z.infer<typeof deleteTemplateSchema>;
-export type SetDefaultTemplateInput = z.infer<typeof setDefaultTemplateSchema>;
+export type TemplateForDateInput = z.infer<typeof templateForDateSchema>;
 
 // Webhook validators
 export const dayOfWeekSchema = z.enum([
@@ -129,14 +251,47 @@ export const timezoneSchema = z.string().min(1);
 
 export const webhookMessageSchema = z.string().min(1).max(500);
 
+export const webhookFormatSchema = z.enum([
+  "auto",
+  "slack",
+  "discord",
+  "teams",
+  "ntfy",
+  "gotify",
+  "generic",
+]);
+
+export const webhookTypeSchema = z.enum(["reminder", "event", "digest"]);
+
+export const webhookDigestWeekSchema = z.enum(["current", "previous"]);
+
+export const webhookEventSchema = z.enum([
+  "entry.created",
+  "entry.updated",
+  "entry.deleted",
+]);
+
 export const createWebhookSchema = z.object({
   name: z.string().min(1).max(100),
   url: z.string().url(),
+  type: webhookTypeSchema.default("reminder"),
   message: webhookMessageSchema.default("⏰ Time to write your TIL!"),
   time: timeSchema,
   days: z.array(dayOfWeekSchema).min(1),
   timezone: timezoneSchema,
   enabled: z.boolean().default(true),
+  format: webhookFormatSchema.default("auto"),
+  // Conditions checked when the reminder fires, in the webhook's timezone
+  onlyIfNoEntry: z.boolean().default(false),
+  respectSkipDays: z.boolean().default(false),
+  // Event webhooks: which entry changes to send
+  events: z.array(webhookEventSchema).default([]),
+  // Event and digest webhooks: full entries instead of excerpts
+  includeContent: z.boolean().default(false),
+  digestWeek: webhookDigestWeekSchema.default("previous"),
+}).refine((input) => input.type !== "event" || input.events.length > 0, {
+  message: "Select at least one event",
+  path: ["events"],
 });
 
 export const updateWebhookSchema = z.object({
@@ -148,6 +303,12 @@ export const updateWebhookSchema = z.object({
   days: z.array(dayOfWeekSchema).min(1).optional(),
   timezone: timezoneSchema.optional(),
   enabled: z.boolean().optional(),
+  format: webhookFormatSchema.optional(),
+  onlyIfNoEntry: z.boolean().optional(),
+  respectSkipDays: z.boolean().optional(),
+  events: z.array(webhookEventSchema).min(1).optional(),
+  includeContent: z.boolean().optional(),
+  digestWeek: webhookDigestWeekSchema.optional(),
 });
 
 export const deleteWebhookSchema = z.object({
@@ -158,7 +319,93 @@ export const testWebhookSchema = z.object({
   id: z.string().min(1),
 });
 
+export const webhookSecretSchema = z.object({
+  id: z.string().min(1),
+});
+
+export const rotateWebhookSecretSchema = z.object({
+  id: z.string().min(1),
+});
+
+// A webhook is disabled after this many scheduled or event sends in a row fail (after retries)
+export const WEBHOOK_MAX_CONSECUTIVE_FAILURES = 5;
+
+export const webhookDeliveriesSchema = z.object({
+  id: z.string().min(1),
+  limit: z.number().int().min(1).max(50).default(10),
+});
+
 export type CreateWebhookInput = z.infer<typeof createWebhookSchema>;
 export type UpdateWebhookInput = z.infer<typeof updateWebhookSchema>;
 export type DeleteWebhookInput = z.infer<typeof deleteWebhookSchema>;
 export type TestWebhookInput = z.infer<typeof testWebhookSchema>;
+export type WebhookSecretInput = z.infer<typeof webhookSecretSchema>;
+export type RotateWebhookSecretInput = z.infer<typeof rotateWebhookSecretSchema>;
+export type WebhookDeliveriesInput = z.infer<typeof webhookDeliveriesSchema>;
+
+// AI summary validators
+export const summaryPeriodTypeSchema = z.enum(["week", "month", "year"]);
+
+export const summaryKeySchema = z.object({
+  periodType: summaryPeriodTypeSchema,
+  periodStart: dateSchema, // first day of the period
+  backend: z.string().min(1).max(50),
+  promptHash: z.string().min(1).max(64),
+});
+
+export const saveSummarySchema = summaryKeySchema.extend({
+  content: z.string().min(1),
+  // When the summary was generated (defaults to now); entries updated after it make it stale
+  generatedAt: z.string().datetime().optional(),
+});
+
+export type SummaryPeriodType = z.infer<typeof summaryPeriodTypeSchema>;
+export type SummaryKeyInput = z.infer<typeof summaryKeySchema>;
+export type SaveSummaryInput = z.infer<typeof saveSummarySchema>;
+
+// Sync validators - batch push of queued offline operations.
+// Each operation's `input` is validated on the server against the schema for
+// its kind, so one malformed operation is rejected without failing the batch.
+export const pushOperationKindSchema = z.enum([
+  "entry.upsert",
+  "entry.delete",
+  "skipDay.add",
+  "skipDay.remove",
+  "template.create",
+  "template.update",
+  "template.delete",
+  "summary.save",
+]);
+
+export const MAX_PUSH_BATCH_SIZE = 500;
+
+export const pushBatchSchema = z.object({
+  operations: z
+    .array(
+      z.object({
+        opId: z.string().min(1), // client id, echoed back in the result
+        kind: pushOperationKindSchema,
+        input: z.unknown(),
+      })
+    )
+    .max(MAX_PUSH_BATCH_SIZE),
+});
+
+// Skip days are unique per (type, value, source)
+const skipDaySourceField = { source: skipDaySourceNameSchema.nullish() };
+
+export const skipDayOperationSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("weekday"), value: z.coerce.number().pipe(weekdaySchema), ...skipDaySourceField }),
+  z.object({ type: z.literal("specific_date"), value: dateSchema, ...skipDaySourceField }),
+  z.object({
+    type: z.literal("date_range"),
+    value: z.string().refine((value) => parseDateRange(value) !== null, { message: "Invalid date range" }),
+    ...skipDaySourceField,
+  }),
+  z.object({ type: z.literal("rrule"), value: recurrenceRuleSchema, ...skipDaySourceField }),
+]);
+
+export type PushOperationKind = z.infer<typeof pushOperationKindSchema>;
+export type PushBatchInput = z.infer<typeof pushBatchSchema>;
+export type PushOperation = PushBatchInput["operations"][number];
+export type SkipDayOperationInput = z.infer<typeof skipDayOperationSchema>;
@@ -0,0 +1,347 @@
+import type { WebhookEvent, WebhookFormat } from "./types.js";
+
+/**
+ * Webhook payloads for each supported platform. The server builds the
+ * request it sends with these, and Settings uses them for the preview.
+ *
+ * The "generic" format is a plain JSON document meant for your own
+ * endpoints (and Slack-compatible services such as Mattermost or Dooray,
+ * which read `text`):
+ *
+ *   {
+ *     "version": 1,
+ *     "id": "…",                              // delivery id, the same across retries
+ *     "event": "entry.created",               // or "reminder", "digest", "entry.updated", "entry.deleted"
+ *     "title": "New TIL for 2024-03-14",
+ *     "message": "Learned how…",              // markdown
+ *     "text": "Learned how…",                 // same as message
+ *     "date": "2024-03-14",                   // the entry's date; today (in the webhook's timezone) for
+ *                                             // reminders; the week's Monday for digests
+ *     "webhook": { "id": "…", "name": "Team channel" },
+ *     "test": false,                          // true for "Test webhook" sends
+ *     "sentAt": "2024-03-14T09:00:00.000Z",
+ *     "entry": {                              // entry events only
+ *       "date": "2024-03-14",
+ *       "excerpt": "Learned how…",
+ *       "content": "…"                        // only with "include full content"
+ *     },
+ *     "user": { "id": "…" },                  // entry events only
+ *     "digest": {                             // digests only
+ *       "weekStart": "2024-03-11",
+ *       "weekEnd": "2024-03-17",
+ *       "totalEntries": 4,
+ *       "summary": "…",                       // the stored AI summary for the week, or null
+ *       "entries": [{ "date": "2024-03-11", "excerpt": "…", "content": "…" }]
+ *     }
+ *   }
+ */
+
+export type ResolvedWebhookFormat = Exclude<WebhookFormat, "auto">;
+
+export interface WebhookNotification {
+  id: string; // delivery id
+  event: "reminder" | "digest" | WebhookEvent;
+  title: string;
+  message: string;
+  date: string; // YYYY-MM-DD
+  webhook: { id: string; name: string };
+  test: boolean;
+  sentAt: string; // ISO timestamp
+  entry?: { date: string; excerpt: string; content?: string };
+  user?: { id: string | null };
+  digest?: WebhookDigest;
+}
+
+export interface WebhookDigest {
+  weekStart: string; // YYYY-MM-DD, a Monday
+  weekEnd: string;
+  totalEntries: number;
+  summary: string | null;
+  entries: { date: string; excerpt: string; content?: string }[];
+}
+
+export interface WebhookRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: string;
+}
+
+// Accent color for Discord embeds
+const DISCORD_EMBED_COLOR = 0x3b82f6;
+
+// Longest text the platforms accept in a Slack section / Discord embed description
+const SLACK_TEXT_LIMIT = 3000;
+const DISCORD_DESCRIPTION_LIMIT = 4096;
+
+export const WEBHOOK_EXCERPT_LENGTH = 280;
+
+function truncate(text: string, length: number): string {
+  return text.length <= length ? text : `${text.slice(0, length - 1).trimEnd()}…`;
+}
+
+/**
+ * The start of an entry, for event payloads that don't carry full content
+ */
+export function entryExcerpt(content: string): string {
+  return truncate(content.trim(), WEBHOOK_EXCERPT_LENGTH);
+}
+
+const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const ENTRY_EVENT_TITLES: Record<WebhookEvent, (date: string) => string> = {
+  "entry.created": (date) => `New TIL for ${date}`,
+  "entry.updated": (date) => `TIL updated: ${date}`,
+  "entry.deleted": (date) => `TIL deleted: ${date}`,
+};
+
+/**
+ * A scheduled reminder; `date` is today in the webhook's timezone
+ */
+export function reminderNotification(
+  webhook: { id: string; name: string; message: string },
+  options: { id: string; date: string; test: boolean; sentAt: string }
+): WebhookNotification {
+  return {
+    ...options,
+    event: "reminder",
+    title: "TIL Reminder",
+    message: webhook.message,
+    webhook: { id: webhook.id, name: webhook.name },
+  };
+}
+
+/**
+ * An entry change, with the full content or just an excerpt
+ */
+export function entryEventNotification(
+  webhook: { id: string; name: string; includeContent: boolean },
+  event: WebhookEvent,
+  entry: { date: string; content: string },
+  userId: string | null,
+  options: { id: string; test: boolean; sentAt: string }
+): WebhookNotification {
+  const excerpt = entryExcerpt(entry.content);
+  return {
+    ...options,
+    event,
+    title: ENTRY_EVENT_TITLES[event](entry.date),
+    message:
+      event === "entry.deleted"
+        ? `The entry for ${entry.date} was deleted.`
+        : webhook.includeContent
+          ? entry.content
+          : excerpt,
+    date: entry.date,
+    webhook: { id: webhook.id, name: webhook.name },
+    entry: {
+      date: entry.date,
+      excerpt,
+      ...(webhook.includeContent && { content: entry.content }),
+    },
+    user: { id: userId },
+  };
+}
+
+/**
+ * A week of entries (oldest first) with the week's AI summary, if one is
+ * stored, rendered as markdown
+ */
+export function digestNotification(
+  webhook: { id: string; name: string; includeContent: boolean },
+  week: { weekStart: string; weekEnd: string; entries: { date: string; content: string }[]; summary: string | null },
+  options: { id: string; test: boolean; sentAt: string }
+): WebhookNotification {
+  const entries = [...week.entries]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map((entry) => ({
+      date: entry.date,
+      excerpt: entryExcerpt(entry.content),
+      ...(webhook.includeContent && { content: entry.content }),
+    }));
+
+  const sections = entries.map((entry) => {
+    const weekday = WEEKDAY_LABELS[new Date(`${entry.date}T00:00:00Z`).getUTCDay()];
+    return `**${weekday} ${entry.date}**\n${entry.content?.trim() ?? entry.excerpt}`;
+  });
+  if (week.summary) sections.unshift(`**Summary**\n${week.summary.trim()}`);
+
+  return {
+    ...options,
+    event: "digest",
+    title: `TIL digest: ${week.weekStart} – ${week.weekEnd}`,
+    message: sections.length > 0 ? sections.join("\n\n") : "No entries this week.",
+    date: week.weekStart,
+    webhook: { id: webhook.id, name: webhook.name },
+    digest: {
+      weekStart: week.weekStart,
+      weekEnd: week.weekEnd,
+      totalEntries: entries.length,
+      summary: week.summary,
+      entries,
+    },
+  };
+}
+
+/**
+ * Guess the format from the webhook URL; unknown services get "generic"
+ */
+export function detectWebhookFormat(url: string): ResolvedWebhookFormat {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return "generic";
+  }
+  const host = parsed.hostname.toLowerCase();
+  const hostIs = (domain: string) => host === domain || host.endsWith(`.${domain}`);
+
+  if (host === "hooks.slack.com") return "slack";
+  if ((hostIs("discord.com") || hostIs("discordapp.com")) && parsed.pathname.startsWith("/api/webhooks/")) {
+    return "discord";
+  }
+  // Office 365 connectors, and Power Automate workflows that post to Teams
+  if (hostIs("webhook.office.com") || host === "outlook.office.com" || hostIs("logic.azure.com") || hostIs("powerplatform.com")) {
+    return "teams";
+  }
+  if (host === "ntfy.sh" || host.startsWith("ntfy.")) return "ntfy";
+  if (parsed.pathname.endsWith("/message") && parsed.searchParams.has("token")) return "gotify";
+  return "generic";
+}
+
+export function resolveWebhookFormat(format: WebhookFormat, url: string): ResolvedWebhookFormat {
+  return format === "auto" ? detectWebhookFormat(url) : format;
+}
+
+const JSON_HEADERS = { "Content-Type": "application/json" };
+
+// Slack's mrkdwn uses single asterisks for bold
+function toSlackMrkdwn(markdown: string): string {
+  return markdown.replace(/\*\*(.+?)\*\*/g, "*$1*");
+}
+
+function slackPayload(notification: WebhookNotification): unknown {
+  const text = toSlackMrkdwn(notification.message);
+  return {
+    // Fallback for notifications and clients without Block Kit
+    text,
+    blocks: [
+      { type: "header", text: { type: "plain_text", text: notification.title, emoji: true } },
+      { type: "section", text: { type: "mrkdwn", text: truncate(text, SLACK_TEXT_LIMIT) } },
+      {
+        type: "context",
+        elements: [{ type: "mrkdwn", text: `${notification.date} · ${notification.webhook.name}` }],
+      },
+    ],
+  };
+}
+
+function discordPayload(notification: WebhookNotification): unknown {
+  return {
+    username: notification.title,
+    embeds: [
+      {
+        title: notification.title,
+        description: truncate(notification.message, DISCORD_DESCRIPTION_LIMIT),
+        color: DISCORD_EMBED_COLOR,
+        footer: { text: `${notification.date} · ${notification.webhook.name}` },
+        timestamp: notification.sentAt,
+      },
+    ],
+  };
+}
+
+function teamsPayload(notification: WebhookNotification): unknown {
+  return {
+    type: "message",
+    attachments: [
+      {
+        contentType: "application/vnd.microsoft.card.adaptive",
+        contentUrl: null,
+        content: {
+          $schema: "http://adaptivecards.io/schemas/adaptive-card.json",
+          type: "AdaptiveCard",
+          version: "1.4",
+          body: [
+            { type: "TextBlock", text: notification.title, weight: "Bolder", size: "Medium", wrap: true },
+            { type: "TextBlock", text: notification.message, wrap: true },
+            {
+              type: "TextBlock",
+              text: `${notification.date} · ${notification.webhook.name}`,
+              isSubtle: true,
+              size: "Small",
+              wrap: true,
+            },
+          ],
+        },
+      },
+    ],
+  };
+}
+
+function genericPayload(notification: WebhookNotification): unknown {
+  return {
+    version: 1,
+    id: notification.id,
+    event: notification.event,
+    title: notification.title,
+    message: notification.message,
+    text: notification.message,
+    date: notification.date,
+    webhook: notification.webhook,
+    test: notification.test,
+    sentAt: notification.sentAt,
+    ...(notification.entry && { entry: notification.entry }),
+    ...(notification.user && { user: notification.user }),
+    ...(notification.digest && { digest: notification.digest }),
+  };
+}
+
+/**
+ * Build the POST request for a notification in the given format
+ */
+export function buildWebhookRequest(
+  format: ResolvedWebhookFormat,
+  url: string,
+  notification: WebhookNotification
+): WebhookRequest {
+  switch (format) {
+    case "slack":
+      return { url, headers: JSON_HEADERS, body: JSON.stringify(slackPayload(notification)) };
+    case "discord":
+      return { url, headers: JSON_HEADERS, body: JSON.stringify(discordPayload(notification)) };
+    case "teams":
+      return { url, headers: JSON_HEADERS, body: JSON.stringify(teamsPayload(notification)) };
+    case "ntfy": {
+      // ntfy takes JSON at the server root, with the topic (the URL's last
+      // path segment) in the body
+      const target = new URL(url);
+      const segments = target.pathname.replace(/\/+$/, "").split("/");
+      const topic = segments.pop() ?? "";
+      target.pathname = `${segments.join("/")}/`;
+      return {
+        url: target.toString(),
+        headers: JSON_HEADERS,
+        body: JSON.stringify({
+          topic,
+          title: notification.title,
+          message: notification.message,
+          markdown: true,
+          tags: ["memo"],
+        }),
+      };
+    }
+    case "gotify":
+      return {
+        url,
+        headers: JSON_HEADERS,
+        body: JSON.stringify({
+          title: notification.title,
+          message: notification.message,
+          priority: 5,
+          extras: { "client::display": { contentType: "text/markdown" } },
+        }),
+      };
+    case "generic":
+      return { url, headers: JSON_HEADERS, body: JSON.stringify(genericPayload(notification)) };
+  }
+}